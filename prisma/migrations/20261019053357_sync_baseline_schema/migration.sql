@@ -0,0 +1,228 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "causationId" TEXT,
+ADD COLUMN     "correlationId" TEXT,
+ADD COLUMN     "payload" JSONB,
+ADD COLUMN     "tenantId" TEXT,
+ALTER COLUMN "content" DROP NOT NULL,
+ALTER COLUMN "status" SET DEFAULT 'PENDING',
+ALTER COLUMN "priority" SET DEFAULT 'MEDIUM';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "role" TEXT NOT NULL DEFAULT 'USER';
+
+-- CreateTable
+CREATE TABLE "archived_notifications" (
+    "id" TEXT NOT NULL,
+    "originalId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tenantId" TEXT,
+    "eventId" TEXT,
+    "channel" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "subject" TEXT,
+    "payload" JSONB,
+    "status" TEXT NOT NULL,
+    "priority" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3),
+    "sentAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "retryCount" INTEGER NOT NULL,
+    "maxRetries" INTEGER NOT NULL,
+    "errorMessage" TEXT,
+    "metadata" JSONB,
+    "idempotencyKey" TEXT,
+    "correlationId" TEXT,
+    "causationId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "archivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "archived_notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "archived_events" (
+    "id" TEXT NOT NULL,
+    "originalId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "archivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "archived_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "userEmail" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "resourceType" TEXT,
+    "resourceId" TEXT,
+    "details" JSONB,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ai_interactions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tenantId" TEXT,
+    "requestId" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "channel" TEXT,
+    "category" TEXT,
+    "context" JSONB,
+    "topK" INTEGER NOT NULL DEFAULT 5,
+    "scoreThreshold" DOUBLE PRECISION NOT NULL DEFAULT 0.7,
+    "temperature" DOUBLE PRECISION NOT NULL DEFAULT 0.7,
+    "maxTokens" INTEGER NOT NULL DEFAULT 1000,
+    "response" TEXT,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "errorMessage" TEXT,
+    "sources" JSONB,
+    "sourcesCount" INTEGER NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER NOT NULL,
+    "retrievalMs" INTEGER,
+    "generationMs" INTEGER,
+    "model" TEXT,
+    "tokensInput" INTEGER NOT NULL DEFAULT 0,
+    "tokensOutput" INTEGER NOT NULL DEFAULT 0,
+    "tokensTotal" INTEGER NOT NULL DEFAULT 0,
+    "cost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "endpoint" TEXT NOT NULL DEFAULT 'generate-notification',
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "correlationId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_interactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "archived_notifications_originalId_key" ON "archived_notifications"("originalId");
+
+-- CreateIndex
+CREATE INDEX "archived_notifications_userId_idx" ON "archived_notifications"("userId");
+
+-- CreateIndex
+CREATE INDEX "archived_notifications_archivedAt_idx" ON "archived_notifications"("archivedAt");
+
+-- CreateIndex
+CREATE INDEX "archived_notifications_createdAt_idx" ON "archived_notifications"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "archived_events_originalId_key" ON "archived_events"("originalId");
+
+-- CreateIndex
+CREATE INDEX "archived_events_userId_idx" ON "archived_events"("userId");
+
+-- CreateIndex
+CREATE INDEX "archived_events_archivedAt_idx" ON "archived_events"("archivedAt");
+
+-- CreateIndex
+CREATE INDEX "archived_events_createdAt_idx" ON "archived_events"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_userId_idx" ON "audit_logs"("userId");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_action_idx" ON "audit_logs"("action");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_resourceType_resourceId_idx" ON "audit_logs"("resourceType", "resourceId");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_createdAt_idx" ON "audit_logs"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_interactions_requestId_key" ON "ai_interactions"("requestId");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_userId_idx" ON "ai_interactions"("userId");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_tenantId_idx" ON "ai_interactions"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_channel_idx" ON "ai_interactions"("channel");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_category_idx" ON "ai_interactions"("category");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_success_idx" ON "ai_interactions"("success");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_createdAt_idx" ON "ai_interactions"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_model_idx" ON "ai_interactions"("model");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_userId_createdAt_idx" ON "ai_interactions"("userId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_tenantId_createdAt_idx" ON "ai_interactions"("tenantId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_userId_success_createdAt_idx" ON "ai_interactions"("userId", "success", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_channel_category_createdAt_idx" ON "ai_interactions"("channel", "category", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_createdAt_success_idx" ON "ai_interactions"("createdAt", "success");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_model_createdAt_idx" ON "ai_interactions"("model", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_interactions_correlationId_createdAt_idx" ON "ai_interactions"("correlationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "events_userId_status_createdAt_idx" ON "events"("userId", "status", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "events_type_status_createdAt_idx" ON "events"("type", "status", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "events_status_createdAt_idx" ON "events"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notifications_tenantId_idx" ON "notifications"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "notifications_type_idx" ON "notifications"("type");
+
+-- CreateIndex
+CREATE INDEX "notifications_correlationId_idx" ON "notifications"("correlationId");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_status_createdAt_idx" ON "notifications"("userId", "status", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "notifications_tenantId_status_createdAt_idx" ON "notifications"("tenantId", "status", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "notifications_status_scheduledFor_idx" ON "notifications"("status", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "notifications_status_priority_createdAt_idx" ON "notifications"("status", "priority", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_channel_createdAt_idx" ON "notifications"("userId", "channel", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "notifications_correlationId_createdAt_idx" ON "notifications"("correlationId", "createdAt");
+
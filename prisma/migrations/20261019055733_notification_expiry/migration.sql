@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "expiresAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "archived_notifications" ADD COLUMN     "expiresAt" TIMESTAMP(3);
+
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "attributes" JSONB,
+ADD COLUMN     "tenantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "broadcastId" TEXT;
+
+-- CreateTable
+CREATE TABLE "broadcasts" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "channel" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "content" JSONB NOT NULL,
+    "audience" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "totalRecipients" INTEGER NOT NULL DEFAULT 0,
+    "processedRecipients" INTEGER NOT NULL DEFAULT 0,
+    "skippedRecipients" INTEGER NOT NULL DEFAULT 0,
+    "cursor" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdBy" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "broadcasts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "broadcasts_status_createdAt_idx" ON "broadcasts"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "users_tenantId_idx" ON "users"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "notifications_broadcastId_idx" ON "notifications"("broadcastId");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_broadcastId_fkey" FOREIGN KEY ("broadcastId") REFERENCES "broadcasts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
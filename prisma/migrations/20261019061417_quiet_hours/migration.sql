@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "quietHoursEnd" TEXT,
+ADD COLUMN     "quietHoursStart" TEXT,
+ADD COLUMN     "timeZone" TEXT;
+
+-- CreateTable
+CREATE TABLE "tenants" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "timeZone" TEXT,
+    "quietHoursStart" TEXT,
+    "quietHoursEnd" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenants_pkey" PRIMARY KEY ("id")
+);
+
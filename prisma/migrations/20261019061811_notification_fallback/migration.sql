@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "fallback" JSONB,
+ADD COLUMN     "fallbackDeadline" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "notifications_fallbackDeadline_idx" ON "notifications"("fallbackDeadline");
+
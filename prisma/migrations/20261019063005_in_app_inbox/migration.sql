@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "inbox_items" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "notificationId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "data" JSONB,
+    "actionUrl" TEXT,
+    "readAt" TIMESTAMP(3),
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inbox_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbox_items_notificationId_key" ON "inbox_items"("notificationId");
+
+-- CreateIndex
+CREATE INDEX "inbox_items_userId_archivedAt_createdAt_idx" ON "inbox_items"("userId", "archivedAt", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "inbox_items_userId_readAt_idx" ON "inbox_items"("userId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "inbox_items" ADD CONSTRAINT "inbox_items_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
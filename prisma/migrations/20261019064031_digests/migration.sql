@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "digestAt" TIMESTAMP(3),
+ADD COLUMN     "digestId" TEXT;
+
+-- CreateTable
+CREATE TABLE "digest_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'ALL',
+    "frequency" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "digest_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "digest_preferences_userId_type_key" ON "digest_preferences"("userId", "type");
+
+-- CreateIndex
+CREATE INDEX "notifications_digestId_idx" ON "notifications"("digestId");
+
+-- CreateIndex
+CREATE INDEX "notifications_status_digestAt_idx" ON "notifications"("status", "digestAt");
+
+-- AddForeignKey
+ALTER TABLE "digest_preferences" ADD CONSTRAINT "digest_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_digestId_fkey" FOREIGN KEY ("digestId") REFERENCES "notifications"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "collapseKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_collapseKey_createdAt_idx" ON "notifications"("userId", "collapseKey", "createdAt");
+
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "reasonCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "frequency_caps" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL DEFAULT 'ALL',
+    "type" TEXT NOT NULL DEFAULT 'ALL',
+    "maxCount" INTEGER NOT NULL,
+    "windowSeconds" INTEGER NOT NULL,
+    "policy" TEXT NOT NULL DEFAULT 'DROP',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "frequency_caps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "frequency_caps_tenantId_channel_type_key" ON "frequency_caps"("tenantId", "channel", "type");
+
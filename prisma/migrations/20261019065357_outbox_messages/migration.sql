@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "outbox_messages" (
+    "id" TEXT NOT NULL,
+    "notificationId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outbox_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbox_messages_notificationId_idx" ON "outbox_messages"("notificationId");
+
+-- CreateIndex
+CREATE INDEX "outbox_messages_sentAt_availableAt_idx" ON "outbox_messages"("sentAt", "availableAt");
+
+-- AddForeignKey
+ALTER TABLE "outbox_messages" ADD CONSTRAINT "outbox_messages_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "notifications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
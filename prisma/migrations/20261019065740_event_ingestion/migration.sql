@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "errorMessage" TEXT,
+ADD COLUMN     "idempotencyKey" TEXT,
+ADD COLUMN     "tenantId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "events_idempotencyKey_key" ON "events"("idempotencyKey");
+
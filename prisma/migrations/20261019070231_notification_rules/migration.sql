@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "notification_rules" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "conditions" JSONB NOT NULL DEFAULT '[]',
+    "template" TEXT NOT NULL,
+    "channels" TEXT[],
+    "type" TEXT NOT NULL DEFAULT 'TRANSACTIONAL',
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "delaySeconds" INTEGER NOT NULL DEFAULT 0,
+    "recipientPath" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_rules_tenantId_eventType_idx" ON "notification_rules"("tenantId", "eventType");
+
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "workflows" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "triggerEventType" TEXT NOT NULL,
+    "steps" JSONB NOT NULL,
+    "cancelOn" TEXT[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "workflow_runs" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "triggerEventId" TEXT NOT NULL,
+    "context" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "stepId" TEXT,
+    "waitingFor" TEXT,
+    "wakeAt" TIMESTAMP(3),
+    "errorMessage" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "workflows_tenantId_triggerEventType_idx" ON "workflows"("tenantId", "triggerEventType");
+
+-- CreateIndex
+CREATE INDEX "workflow_runs_status_wakeAt_idx" ON "workflow_runs"("status", "wakeAt");
+
+-- CreateIndex
+CREATE INDEX "workflow_runs_userId_status_idx" ON "workflow_runs"("userId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_runs_workflowId_triggerEventId_key" ON "workflow_runs"("workflowId", "triggerEventId");
+
+-- AddForeignKey
+ALTER TABLE "workflow_runs" ADD CONSTRAINT "workflow_runs_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_runs" ADD CONSTRAINT "workflow_runs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -29,7 +29,19 @@ async function main() {
     },
   });
 
-  console.log('Created users:', { user1, user2 });
+  // Admin endpoints require the ADMIN role claim issued at login
+  const admin = await prisma.user.upsert({
+    where: { email: 'admin@example.com' },
+    update: { role: 'ADMIN' },
+    create: {
+      email: 'admin@example.com',
+      name: 'Admin',
+      password: hashedPassword,
+      role: 'ADMIN',
+    },
+  });
+
+  console.log('Created users:', { user1, user2, admin });
 
   // Create test events
   const event1 = await prisma.event.create({
@@ -6,7 +6,9 @@ import {
   Query,
   UseGuards,
   Logger,
+  NotFoundException,
 } from '@nestjs/common';
+import { AuthService } from '../auth/auth.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { AdminGuard } from '../common/guards/admin.guard';
 import { PrismaService } from '../prisma/prisma.service';
@@ -27,6 +29,7 @@ export class AdminController {
     private readonly prisma: PrismaService,
     private readonly redis: RedisService,
     private readonly kafkaAdmin: KafkaAdminService,
+    private readonly authService: AuthService,
   ) {}
 
   /**
@@ -360,6 +363,24 @@ export class AdminController {
     }
   }
 
+  /**
+   * POST /admin/users/:id/revoke-sessions - Sign a user out everywhere
+   */
+  @Post('users/:id/revoke-sessions')
+  async revokeUserSessions(@Param('id') id: string) {
+    this.logger.log(`Session revocation requested for user: ${id}`);
+
+    const user = await this.prisma.user.findUnique({ where: { id } });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    const revokedRefreshTokens = await this.authService.revokeAllSessions(id);
+
+    return { success: true, revokedRefreshTokens };
+  }
+
   /**
    * GET /admin/dashboard - Dashboard summary data
    */
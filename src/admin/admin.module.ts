@@ -3,6 +3,7 @@ import { AdminController } from './admin.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { RedisModule } from '../redis/redis.module';
 import { KafkaModule } from '../kafka/kafka.module';
+import { AuthModule } from '../auth/auth.module';
 
 /**
  * AdminModule - Admin endpoints for system management
@@ -13,11 +14,11 @@ import { KafkaModule } from '../kafka/kafka.module';
  * - Notification search and management
  * - Manual retry functionality
  * - Dead letter queue viewing
- * - User management
+ * - User management and session revocation
  * - Dashboard data
  */
 @Module({
-  imports: [PrismaModule, RedisModule, KafkaModule],
+  imports: [PrismaModule, RedisModule, KafkaModule, AuthModule],
   controllers: [AdminController],
 })
 export class AdminModule {}
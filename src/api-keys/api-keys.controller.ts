@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import {
+  ApiKeyResponseDto,
+  CreateApiKeyDto,
+  CreatedApiKeyResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../common/guards/admin.guard';
+
+/**
+ * ApiKeysController - Tenant API keys for backend services
+ *
+ * All endpoints require JWT authentication + ADMIN role
+ */
+@Controller('tenants/:id/api-keys')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * List the tenant's API keys (without the keys themselves)
+   * GET /tenants/:id/api-keys
+   */
+  @Get()
+  async findAll(@Param('id') tenantId: string): Promise<ApiKeyResponseDto[]> {
+    return await this.apiKeysService.findAll(tenantId);
+  }
+
+  /**
+   * Create an API key; the key is only returned in this response
+   * POST /tenants/:id/api-keys
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @Param('id') tenantId: string,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyResponseDto> {
+    return await this.apiKeysService.create(tenantId, createApiKeyDto);
+  }
+
+  /**
+   * Replace an API key with a new one, returned only in this response
+   * POST /tenants/:id/api-keys/:apiKeyId/rotate
+   */
+  @Post(':apiKeyId/rotate')
+  @HttpCode(HttpStatus.OK)
+  async rotate(
+    @Param('id') tenantId: string,
+    @Param('apiKeyId') apiKeyId: string,
+  ): Promise<CreatedApiKeyResponseDto> {
+    return await this.apiKeysService.rotate(tenantId, apiKeyId);
+  }
+
+  /**
+   * Revoke an API key
+   * POST /tenants/:id/api-keys/:apiKeyId/revoke
+   */
+  @Post(':apiKeyId/revoke')
+  @HttpCode(HttpStatus.OK)
+  async revoke(
+    @Param('id') tenantId: string,
+    @Param('apiKeyId') apiKeyId: string,
+  ): Promise<ApiKeyResponseDto> {
+    return await this.apiKeysService.revoke(tenantId, apiKeyId);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeyGuard } from './guards/api-key.guard';
+
+/**
+ * ApiKeysModule - Machine-to-machine authentication
+ *
+ * Features:
+ * - Tenant-scoped API keys stored as SHA-256 hashes
+ * - Create, list, rotate and revoke through the admin API
+ * - Scopes per key, checked against @ApiKeyScopes on each route
+ * - ApiKeyGuard accepting either an API key or a user JWT
+ * - Per-key rate limits, enforced by ApiKeyRateLimiterGuard
+ */
+@Module({
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, ApiKeyGuard],
+  exports: [ApiKeysService, ApiKeyGuard],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ApiKeyScope } from './dto';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+
+  const mockPrismaService = {
+    apiKey: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const buildApiKey = (overrides: Record<string, unknown> = {}) => ({
+    id: 'key-1',
+    tenantId: 'tenant-1',
+    name: 'Billing service',
+    prefix: 'ntf_abcdefgh',
+    keyHash: 'hash',
+    scopes: ['notifications:write'],
+    rateLimitPerMinute: 600,
+    expiresAt: null,
+    revokedAt: null,
+    lastUsedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.apiKey.create.mockImplementation(async ({ data }) =>
+      buildApiKey(data),
+    );
+    mockPrismaService.apiKey.findFirst.mockResolvedValue(buildApiKey());
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+  });
+
+  describe('create', () => {
+    it('should return the key once and store only its hash', async () => {
+      const result = await service.create('tenant-1', {
+        name: 'Billing service',
+        scopes: [
+          ApiKeyScope.NOTIFICATIONS_WRITE,
+          ApiKeyScope.NOTIFICATIONS_WRITE,
+        ],
+      });
+
+      const { data } = mockPrismaService.apiKey.create.mock.calls[0][0];
+      expect(result.key).toMatch(/^ntf_/);
+      expect(data).toMatchObject({
+        tenantId: 'tenant-1',
+        prefix: result.key.slice(0, 12),
+        scopes: ['notifications:write'],
+        rateLimitPerMinute: 600,
+      });
+      expect(data.keyHash).not.toContain(result.key);
+      expect(JSON.stringify(data)).not.toContain(result.key);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve a key created earlier by its hash', async () => {
+      const { key } = await service.create('tenant-1', {
+        name: 'Billing service',
+        scopes: [ApiKeyScope.EVENTS_WRITE],
+        rateLimitPerMinute: 60,
+      });
+      const { data } = mockPrismaService.apiKey.create.mock.calls[0][0];
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(buildApiKey(data));
+
+      await expect(service.authenticate(key)).resolves.toEqual({
+        id: 'key-1',
+        tenantId: 'tenant-1',
+        scopes: ['events:write'],
+        rateLimitPerMinute: 60,
+      });
+      expect(mockPrismaService.apiKey.findUnique).toHaveBeenCalledWith({
+        where: { keyHash: data.keyHash },
+      });
+      expect(mockPrismaService.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it.each([
+      ['unknown', null],
+      ['revoked', buildApiKey({ revokedAt: new Date() })],
+      ['expired', buildApiKey({ expiresAt: new Date(Date.now() - 1000) })],
+    ])('should reject %s keys', async (_case, stored) => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(stored);
+
+      await expect(service.authenticate('ntf_key')).resolves.toBeNull();
+    });
+
+    it('should record use at most once a minute', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(
+        buildApiKey({ lastUsedAt: new Date(Date.now() - 5000) }),
+      );
+
+      await service.authenticate('ntf_key');
+
+      expect(mockPrismaService.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should still authenticate when use cannot be recorded', async () => {
+      mockPrismaService.apiKey.findUnique.mockResolvedValue(buildApiKey());
+      mockPrismaService.apiKey.update.mockRejectedValueOnce(
+        new Error('Connection lost'),
+      );
+
+      await expect(service.authenticate('ntf_key')).resolves.toMatchObject({
+        id: 'key-1',
+      });
+    });
+  });
+
+  describe('rotate', () => {
+    it('should replace the hash of an active key', async () => {
+      mockPrismaService.apiKey.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.rotate('tenant-1', 'key-1');
+
+      expect(mockPrismaService.apiKey.updateMany).toHaveBeenCalledWith({
+        where: { id: 'key-1', tenantId: 'tenant-1', revokedAt: null },
+        data: {
+          prefix: result.key.slice(0, 12),
+          keyHash: expect.any(String),
+        },
+      });
+    });
+
+    it('should reject revoked keys', async () => {
+      mockPrismaService.apiKey.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.apiKey.findFirst.mockResolvedValue(
+        buildApiKey({ revokedAt: new Date() }),
+      );
+
+      await expect(service.rotate('tenant-1', 'key-1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it("should throw NotFoundException for another tenant's key", async () => {
+      mockPrismaService.apiKey.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.apiKey.findFirst.mockResolvedValue(null);
+
+      await expect(service.rotate('tenant-2', 'key-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke an active key', async () => {
+      mockPrismaService.apiKey.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.revoke('tenant-1', 'key-1');
+
+      expect(mockPrismaService.apiKey.updateMany).toHaveBeenCalledWith({
+        where: { id: 'key-1', tenantId: 'tenant-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('assertUsersInTenant', () => {
+    it('should reject users outside the tenant', async () => {
+      mockPrismaService.user.findMany.mockResolvedValue([{ id: 'user-1' }]);
+
+      await expect(
+        service.assertUsersInTenant('tenant-1', ['user-1', 'user-2', 'user-1']),
+      ).rejects.toThrow(new NotFoundException('User with ID user-2 not found'));
+      expect(mockPrismaService.user.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['user-1', 'user-2'] }, tenantId: 'tenant-1' },
+        select: { id: true },
+      });
+    });
+  });
+
+  describe('findUsersOutsideTenant', () => {
+    it('should list each foreign or unknown user once', async () => {
+      mockPrismaService.user.findMany.mockResolvedValue([{ id: 'user-1' }]);
+
+      await expect(
+        service.findUsersOutsideTenant('tenant-1', [
+          'user-2',
+          'user-1',
+          'user-3',
+          'user-2',
+        ]),
+      ).resolves.toEqual(['user-2', 'user-3']);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ApiKey } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  ApiKeyPrincipal,
+  ApiKeyResponseDto,
+  ApiKeyScope,
+  CreateApiKeyDto,
+  CreatedApiKeyResponseDto,
+  DEFAULT_API_KEY_RATE_LIMIT,
+} from './dto';
+
+const API_KEY_PREFIX = 'ntf_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * ApiKeysService - Tenant-scoped API keys for backend services
+ *
+ * Keys are random strings shown once, on create and rotate; only their
+ * SHA-256 hash is stored. Each key carries scopes naming the routes it may
+ * call and its own rate limit.
+ *
+ * Flow:
+ * 1. An admin creates a key for a tenant and hands it to a service
+ * 2. The service sends it in the X-API-Key header
+ * 3. ApiKeyGuard authenticates it and checks the route's scope
+ * 4. Rotation replaces the key in place; revocation is immediate
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+  // lastUsedAt is only refreshed once a minute per key
+  private readonly LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * List a tenant's keys, including revoked ones
+   */
+  async findAll(tenantId: string): Promise<ApiKeyResponseDto[]> {
+    const apiKeys = await this.prisma.apiKey.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return apiKeys.map((apiKey) => this.mapToResponseDto(apiKey));
+  }
+
+  /**
+   * Create a key; the response is the only time the key is returned
+   */
+  async create(
+    tenantId: string,
+    dto: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyResponseDto> {
+    const key = this.generateKey();
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        tenantId,
+        name: dto.name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: this.hashKey(key),
+        scopes: [...new Set(dto.scopes)],
+        rateLimitPerMinute:
+          dto.rateLimitPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT,
+        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+      },
+    });
+
+    this.logger.log(`API key ${apiKey.id} created for tenant ${tenantId}`);
+
+    return { ...this.mapToResponseDto(apiKey), key };
+  }
+
+  /**
+   * Replace a key's secret; the previous key stops working immediately
+   */
+  async rotate(
+    tenantId: string,
+    apiKeyId: string,
+  ): Promise<CreatedApiKeyResponseDto> {
+    const key = this.generateKey();
+
+    const result = await this.prisma.apiKey.updateMany({
+      where: { id: apiKeyId, tenantId, revokedAt: null },
+      data: {
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: this.hashKey(key),
+      },
+    });
+
+    const apiKey = await this.findExisting(tenantId, apiKeyId);
+
+    if (result.count === 0) {
+      throw new ConflictException('Cannot rotate a revoked API key');
+    }
+
+    this.logger.log(`API key ${apiKeyId} rotated`);
+
+    return { ...this.mapToResponseDto(apiKey), key };
+  }
+
+  /**
+   * Revoke a key; requests using it are rejected from now on
+   */
+  async revoke(tenantId: string, apiKeyId: string): Promise<ApiKeyResponseDto> {
+    const result = await this.prisma.apiKey.updateMany({
+      where: { id: apiKeyId, tenantId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    const apiKey = await this.findExisting(tenantId, apiKeyId);
+
+    if (result.count === 0) {
+      throw new ConflictException('API key is already revoked');
+    }
+
+    this.logger.log(`API key ${apiKeyId} revoked`);
+
+    return this.mapToResponseDto(apiKey);
+  }
+
+  /**
+   * Resolve a presented key, or null if it is unknown, revoked or expired
+   */
+  async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+    });
+
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())
+    ) {
+      return null;
+    }
+
+    await this.touch(apiKey);
+
+    return {
+      id: apiKey.id,
+      tenantId: apiKey.tenantId,
+      scopes: apiKey.scopes as ApiKeyScope[],
+      rateLimitPerMinute: apiKey.rateLimitPerMinute,
+    };
+  }
+
+  /**
+   * Keys may only address users of their own tenant
+   */
+  async assertUsersInTenant(
+    tenantId: string,
+    userIds: string[],
+  ): Promise<void> {
+    const [missing] = await this.findUsersOutsideTenant(tenantId, userIds);
+    if (missing) {
+      // Same answer as for users that do not exist at all
+      throw new NotFoundException(`User with ID ${missing} not found`);
+    }
+  }
+
+  /**
+   * User IDs that do not belong to the tenant (or do not exist), de-duplicated
+   */
+  async findUsersOutsideTenant(
+    tenantId: string,
+    userIds: string[],
+  ): Promise<string[]> {
+    const uniqueIds = [...new Set(userIds)];
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: uniqueIds }, tenantId },
+      select: { id: true },
+    });
+    const found = new Set(users.map((user) => user.id));
+
+    return uniqueIds.filter((id) => !found.has(id));
+  }
+
+  /**
+   * Best effort: a failed lastUsedAt write must not fail the request
+   */
+  private async touch(apiKey: ApiKey): Promise<void> {
+    if (
+      apiKey.lastUsedAt &&
+      Date.now() - apiKey.lastUsedAt.getTime() < this.LAST_USED_RESOLUTION_MS
+    ) {
+      return;
+    }
+
+    try {
+      await this.prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date() },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record use of API key ${apiKey.id}: ${error}`,
+      );
+    }
+  }
+
+  private async findExisting(
+    tenantId: string,
+    apiKeyId: string,
+  ): Promise<ApiKey> {
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: { id: apiKeyId, tenantId },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException(`API key with ID ${apiKeyId} not found`);
+    }
+
+    return apiKey;
+  }
+
+  private generateKey(): string {
+    return `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private mapToResponseDto(apiKey: ApiKey): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      tenantId: apiKey.tenantId,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes as ApiKeyScope[],
+      rateLimitPerMinute: apiKey.rateLimitPerMinute,
+      expiresAt: apiKey.expiresAt ?? undefined,
+      revokedAt: apiKey.revokedAt ?? undefined,
+      lastUsedAt: apiKey.lastUsedAt ?? undefined,
+      createdAt: apiKey.createdAt,
+      updatedAt: apiKey.updatedAt,
+    };
+  }
+}
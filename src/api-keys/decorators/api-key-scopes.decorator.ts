@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../dto';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+/**
+ * Let API keys holding all of these scopes call a route guarded by
+ * ApiKeyGuard. Routes without it accept JWTs only
+ */
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(API_KEY_SCOPES_KEY, scopes);
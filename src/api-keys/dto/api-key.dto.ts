@@ -0,0 +1,77 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsArray,
+  ArrayNotEmpty,
+  IsDateString,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+
+export enum ApiKeyScope {
+  NOTIFICATIONS_WRITE = 'notifications:write',
+  EVENTS_WRITE = 'events:write',
+}
+
+export const DEFAULT_API_KEY_RATE_LIMIT = 600; // requests per minute
+export const MAX_API_KEY_RATE_LIMIT = 100000;
+
+export class CreateApiKeyDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes!: ApiKeyScope[];
+
+  /**
+   * Requests per minute on each endpoint, enforced by ApiKeyRateLimiterGuard
+   */
+  @IsInt()
+  @Min(1)
+  @Max(MAX_API_KEY_RATE_LIMIT)
+  @IsOptional()
+  rateLimitPerMinute?: number;
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
+
+export class ApiKeyResponseDto {
+  id!: string;
+  tenantId!: string;
+  name!: string;
+  prefix!: string;
+  scopes!: ApiKeyScope[];
+  rateLimitPerMinute!: number;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+/**
+ * Returned by create and rotate only; the key cannot be retrieved later
+ */
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  key!: string;
+}
+
+/**
+ * The caller behind a valid API key, set as request.apiKey by ApiKeyGuard
+ */
+export interface ApiKeyPrincipal {
+  id: string;
+  tenantId: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+}
@@ -0,0 +1 @@
+export * from './api-key.dto';
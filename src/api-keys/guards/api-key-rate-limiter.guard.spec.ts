@@ -0,0 +1,79 @@
+import { ExecutionContext, HttpException } from '@nestjs/common';
+import { ApiKeyRateLimiterGuard } from './api-key-rate-limiter.guard';
+import { RedisService } from '../../redis/redis.service';
+import { ApiKeyScope } from '../dto';
+
+describe('ApiKeyRateLimiterGuard', () => {
+  let guard: ApiKeyRateLimiterGuard;
+
+  const mockRedisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+  };
+
+  const mockResponse = {
+    setHeader: jest.fn(),
+  };
+
+  const apiKey = {
+    id: 'key-1',
+    tenantId: 'tenant-1',
+    scopes: [ApiKeyScope.NOTIFICATIONS_WRITE],
+    rateLimitPerMinute: 2,
+  };
+
+  const buildContext = (request: Record<string, unknown>) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method: 'POST',
+          route: { path: '/notifications' },
+          ...request,
+        }),
+        getResponse: () => mockResponse,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRedisService.get.mockResolvedValue(null);
+
+    guard = new ApiKeyRateLimiterGuard(
+      mockRedisService as unknown as RedisService,
+    );
+  });
+
+  it('should not throttle user JWT requests', async () => {
+    const context = buildContext({ user: { userId: 'user-1' } });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(mockRedisService.get).not.toHaveBeenCalled();
+  });
+
+  it("should consume from the key's bucket sized by its rateLimitPerMinute", async () => {
+    const context = buildContext({ apiKey });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+
+    expect(mockRedisService.set).toHaveBeenCalledWith(
+      'rate_limit:apikey:key-1:POST:/notifications',
+      expect.objectContaining({ tokens: 1 }),
+      120,
+    );
+    expect(mockResponse.setHeader).toHaveBeenCalledWith(
+      'X-RateLimit-Limit',
+      '2',
+    );
+  });
+
+  it('should reject API key requests once the bucket is empty', async () => {
+    mockRedisService.get.mockResolvedValue({
+      tokens: 0,
+      lastRefill: Date.now(),
+    });
+
+    await expect(guard.canActivate(buildContext({ apiKey }))).rejects.toThrow(
+      HttpException,
+    );
+  });
+});
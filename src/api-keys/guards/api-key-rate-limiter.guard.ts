@@ -0,0 +1,26 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { RedisRateLimiterGuard } from '../../common/guards/redis-rate-limiter.guard';
+import { ApiKeyPrincipal } from '../dto';
+
+/**
+ * ApiKeyRateLimiterGuard - Rate limits API key requests only
+ *
+ * Applies RedisRateLimiterGuard's token bucket, sized by the key's
+ * rateLimitPerMinute, to requests ApiKeyGuard authenticated by key. User
+ * JWT requests on the same routes pass through unthrottled, as they did
+ * before API keys existed. Must run after ApiKeyGuard.
+ */
+@Injectable()
+export class ApiKeyRateLimiterGuard extends RedisRateLimiterGuard {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<{ apiKey?: ApiKeyPrincipal }>();
+
+    if (!request.apiKey) {
+      return true;
+    }
+
+    return super.canActivate(context);
+  }
+}
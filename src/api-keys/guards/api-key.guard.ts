@@ -0,0 +1,76 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RedisService } from '../../redis/redis.service';
+import { ApiKeysService } from '../api-keys.service';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scopes.decorator';
+import { ApiKeyPrincipal, ApiKeyScope } from '../dto';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * ApiKeyGuard - Accepts an API key or a user JWT
+ *
+ * Requests with an X-API-Key header are authenticated by key and must hold
+ * every scope the route declares with @ApiKeyScopes; the key is then
+ * available as request.apiKey. All other requests go through JwtAuthGuard.
+ */
+@Injectable()
+export class ApiKeyGuard extends JwtAuthGuard {
+  constructor(
+    redis: RedisService,
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+  ) {
+    super(redis);
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<{
+      headers: Record<string, string | string[] | undefined>;
+      apiKey?: ApiKeyPrincipal;
+    }>();
+    const key = request.headers[API_KEY_HEADER];
+
+    if (key === undefined) {
+      return super.canActivate(context);
+    }
+
+    const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(
+      API_KEY_SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredScopes?.length) {
+      throw new ForbiddenException('API keys are not accepted on this route');
+    }
+
+    const apiKey =
+      typeof key === 'string'
+        ? await this.apiKeysService.authenticate(key)
+        : null;
+
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const missingScopes = requiredScopes.filter(
+      (scope) => !apiKey.scopes.includes(scope),
+    );
+
+    if (missingScopes.length > 0) {
+      throw new ForbiddenException(
+        `API key is missing scope: ${missingScopes.join(', ')}`,
+      );
+    }
+
+    request.apiKey = apiKey;
+
+    return true;
+  }
+}
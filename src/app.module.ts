@@ -6,10 +6,19 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { HealthModule } from './health/health.module';
 import { AuthModule } from './auth/auth.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { RedisModule } from './redis/redis.module';
 import { KafkaModule } from './kafka/kafka.module';
 import { NotificationModule } from './notification/notification.module';
+import { BroadcastModule } from './broadcast/broadcast.module';
+import { EventsModule } from './events/events.module';
+import { RulesModule } from './rules/rules.module';
+import { WorkflowsModule } from './workflows/workflows.module';
+import { PreferencesModule } from './preferences/preferences.module';
+import { TemplatesModule } from './templates/templates.module';
+import { InboxModule } from './inbox/inbox.module';
+import { RealtimeModule } from './realtime/realtime.module';
 import { JobsModule } from './jobs/jobs.module';
 import { IntegrationsModule } from './integrations/integrations.module';
 import { AdminModule } from './admin/admin.module';
@@ -58,7 +67,16 @@ import { RATE_LIMIT } from './common/constants';
     ]),
     HealthModule,
     AuthModule,
+    ApiKeysModule,
     NotificationModule,
+    BroadcastModule,
+    EventsModule,
+    RulesModule,
+    WorkflowsModule,
+    PreferencesModule,
+    TemplatesModule,
+    InboxModule,
+    RealtimeModule,
     JobsModule,
     IntegrationsModule,
     AdminModule,
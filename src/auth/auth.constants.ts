@@ -0,0 +1,21 @@
+import { JWT_CONFIG } from '../common/constants';
+
+export const ACCESS_TOKEN_TTL_SECONDS =
+  parseInt(process.env.JWT_ACCESS_TTL_SECONDS || '', 10) ||
+  JWT_CONFIG.ACCESS_TOKEN_TTL_SECONDS;
+
+export const REFRESH_TOKEN_TTL_DAYS =
+  parseInt(process.env.JWT_REFRESH_TTL_DAYS || '', 10) ||
+  JWT_CONFIG.REFRESH_TOKEN_TTL_DAYS;
+
+/**
+ * Redis denylist keys checked by JwtAuthGuard. Entries expire after
+ * ACCESS_TOKEN_TTL_SECONDS, by which time every token they cover has expired
+ */
+// Set when a session is logged out or its refresh token is reused
+export const sessionDenylistKey = (sessionId: string) =>
+  `auth:denylist:session:${sessionId}`;
+
+// Holds a time (milliseconds); the user's tokens issued up to then are revoked
+export const userDenylistKey = (userId: string) =>
+  `auth:denylist:user:${userId}`;
@@ -5,10 +5,13 @@ import {
   Get,
   UseGuards,
   Request,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 
 @Controller('auth')
@@ -25,6 +28,35 @@ export class AuthController {
     return this.authService.login(loginDto);
   }
 
+  /**
+   * POST /auth/refresh - Rotate a refresh token for a new token pair
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.refresh(refreshTokenDto.refresh_token);
+  }
+
+  /**
+   * POST /auth/logout - End the current session
+   */
+  @Post('logout')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Request() req: { user: { sessionId?: string } }) {
+    await this.authService.logout(req.user.sessionId);
+  }
+
+  /**
+   * POST /auth/logout-all - End every session of the current user
+   */
+  @Post('logout-all')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logoutAll(@Request() req: { user: { userId: string } }) {
+    await this.authService.revokeAllSessions(req.user.userId);
+  }
+
   @Get('me')
   @UseGuards(JwtAuthGuard)
   async getProfile(@Request() req: { user: { userId: string } }) {
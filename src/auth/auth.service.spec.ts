@@ -0,0 +1,306 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Prisma } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { AuthService } from './auth.service';
+import { JwtStrategy } from './strategies/jwt.strategy';
+import { UserRole } from './dto/auth-response.dto';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let jwtService: JwtService;
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    refreshToken: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockRedisService = {
+    set: jest.fn(),
+  };
+
+  const buildUser = (overrides: Record<string, unknown> = {}) => ({
+    id: 'user-1',
+    name: 'Alice',
+    email: 'alice@example.com',
+    password: bcrypt.hashSync('password123', 4),
+    role: 'USER',
+    tenantId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation(async (fn) =>
+      fn(mockPrismaService),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+        { provide: RedisService, useValue: mockRedisService },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  describe('register', () => {
+    const dto = {
+      name: 'Alice',
+      email: 'alice@example.com',
+      password: 'password123',
+    };
+
+    it('should persist the user with a hashed password and the USER role', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.user.create.mockImplementation(async ({ data }) =>
+        buildUser(data),
+      );
+
+      const result = await service.register(dto);
+
+      const { data } = mockPrismaService.user.create.mock.calls[0][0];
+      expect(data.role).toBe('USER');
+      expect(await bcrypt.compare('password123', data.password)).toBe(true);
+      expect(result.user).toEqual({
+        id: 'user-1',
+        name: 'Alice',
+        email: 'alice@example.com',
+        role: 'USER',
+      });
+    });
+
+    it('should reject an email that is already registered', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(buildUser());
+
+      await expect(service.register(dto)).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a concurrent registration of the same email', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockPrismaService.user.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(service.register(dto)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('login', () => {
+    it('should issue a token carrying the role', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(
+        buildUser({ role: UserRole.ADMIN }),
+      );
+
+      const result = await service.login({
+        email: 'alice@example.com',
+        password: 'password123',
+      });
+
+      expect(jwtService.verify(result.access_token)).toMatchObject({
+        sub: 'user-1',
+        email: 'alice@example.com',
+        role: UserRole.ADMIN,
+        iatMs: expect.any(Number),
+      });
+    });
+
+    it('should reject a wrong password', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(buildUser());
+
+      await expect(
+        service.login({ email: 'alice@example.com', password: 'wrong-pass' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject an unknown email', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.login({ email: 'nobody@example.com', password: 'password123' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('refresh', () => {
+    const storedToken = (overrides: Record<string, unknown> = {}) => ({
+      id: 'token-1',
+      userId: 'user-1',
+      familyId: 'session-1',
+      tokenHash: 'hash',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      replacedById: null,
+      createdAt: new Date(),
+      user: buildUser(),
+      ...overrides,
+    });
+
+    it('should look up tokens by hash and store only the hash', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(buildUser());
+
+      const result = await service.login({
+        email: 'alice@example.com',
+        password: 'password123',
+      });
+
+      const { data } = mockPrismaService.refreshToken.create.mock.calls[0][0];
+      expect(data.tokenHash).not.toBe(result.refresh_token);
+      expect(data.familyId).toBe(jwtService.verify(result.access_token).sid);
+
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(null);
+      await service.refresh(result.refresh_token).catch(() => undefined);
+      expect(mockPrismaService.refreshToken.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: data.tokenHash } }),
+      );
+    });
+
+    it('should rotate the token within the same session', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(
+        storedToken(),
+      );
+      mockPrismaService.refreshToken.updateMany.mockResolvedValue({
+        count: 1,
+      });
+
+      const result = await service.refresh('refresh-token');
+
+      const { data } = mockPrismaService.refreshToken.create.mock.calls[0][0];
+      expect(mockPrismaService.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), replacedById: data.id },
+      });
+      expect(data).toMatchObject({ userId: 'user-1', familyId: 'session-1' });
+      expect(jwtService.verify(result.access_token)).toMatchObject({
+        sub: 'user-1',
+        sid: 'session-1',
+      });
+      expect(result.refresh_token).not.toBe('refresh-token');
+    });
+
+    it('should revoke the whole session when a rotated token is reused', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(
+        storedToken({ revokedAt: new Date(), replacedById: 'token-2' }),
+      );
+
+      await expect(service.refresh('refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+
+      expect(mockPrismaService.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        'auth:denylist:session:session-1',
+        1,
+        900,
+      );
+      expect(mockPrismaService.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should treat losing a concurrent rotation as reuse', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(
+        storedToken(),
+      );
+      mockPrismaService.refreshToken.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.refresh('refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        'auth:denylist:session:session-1',
+        1,
+        900,
+      );
+    });
+
+    it('should reject expired tokens', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue(
+        storedToken({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(service.refresh('refresh-token')).rejects.toThrow(
+        new UnauthorizedException('Refresh token expired'),
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should revoke refresh tokens and denylist earlier access tokens', async () => {
+      mockPrismaService.refreshToken.updateMany.mockResolvedValue({
+        count: 2,
+      });
+      mockRedisService.set.mockRejectedValueOnce(new Error('Redis down'));
+
+      await expect(service.revokeAllSessions('user-1')).resolves.toBe(2);
+
+      expect(mockPrismaService.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        'auth:denylist:user:user-1',
+        expect.any(Number),
+        900,
+      );
+      // Milliseconds, matching the tokens' iatMs claim
+      const [, revokedUntil] = mockRedisService.set.mock.calls[0];
+      expect(revokedUntil).toBeGreaterThan(Date.now() - 1000);
+    });
+  });
+
+  describe('validateUser', () => {
+    it('should reject users that no longer exist', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.validateUser('user-1')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('JwtStrategy.validate', () => {
+    it('should expose the role claim to guards', async () => {
+      const strategy = new JwtStrategy();
+
+      await expect(
+        strategy.validate({
+          sub: 'user-1',
+          email: 'alice@example.com',
+          name: 'Alice',
+          role: UserRole.ADMIN,
+        }),
+      ).resolves.toEqual({
+        userId: 'user-1',
+        email: 'alice@example.com',
+        name: 'Alice',
+        role: UserRole.ADMIN,
+      });
+    });
+  });
+});
@@ -1,31 +1,61 @@
 import {
   Injectable,
+  Logger,
   UnauthorizedException,
   ConflictException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { Prisma, RefreshToken, User } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
+import {
+  AuthResponseDto,
+  AuthUserDto,
+  UserRole,
+} from './dto/auth-response.dto';
+import { JwtPayload } from './strategies/jwt.strategy';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_DAYS,
+  sessionDenylistKey,
+  userDenylistKey,
+} from './auth.constants';
 
-// In-memory user store (will be replaced with database in Day 10)
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  password: string;
-  createdAt: Date;
-}
-
+/**
+ * AuthService - Registration, login and JWT issuance for users in Postgres
+ *
+ * New users get the USER role; admins are promoted in the database. The
+ * role is part of the token claims, so AdminGuard needs no lookup - a role
+ * change takes effect at the user's next login or refresh.
+ *
+ * Sessions:
+ * - Login issues a short-lived access token and a refresh token; the
+ *   refresh token family is the session, named by the access token's sid
+ * - Every refresh revokes the presented refresh token and issues the next
+ *   one. Presenting a revoked token means it was replayed, so the whole
+ *   session is revoked
+ * - Revoking a session or all of a user's sessions also denylists their
+ *   access tokens in Redis, which JwtAuthGuard checks
+ */
 @Injectable()
 export class AuthService {
-  private users: User[] = [];
+  private readonly logger = new Logger(AuthService.name);
 
-  constructor(private jwtService: JwtService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly redis: RedisService,
+  ) {}
 
-  async register(registerDto: RegisterDto) {
+  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
     // Check if user already exists
-    const existingUser = this.users.find((u) => u.email === registerDto.email);
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email: registerDto.email },
+    });
 
     if (existingUser) {
       throw new ConflictException('User with this email already exists');
@@ -34,33 +64,35 @@ export class AuthService {
     // Hash password
     const hashedPassword = await bcrypt.hash(registerDto.password, 10);
 
-    // Create new user
-    const newUser: User = {
-      id: Date.now().toString(),
-      name: registerDto.name,
-      email: registerDto.email,
-      password: hashedPassword,
-      createdAt: new Date(),
-    };
-
-    this.users.push(newUser);
-
-    // Generate JWT token
-    const token = this.generateToken(newUser);
+    let newUser: User;
+    try {
+      newUser = await this.prisma.user.create({
+        data: {
+          name: registerDto.name,
+          email: registerDto.email,
+          password: hashedPassword,
+          role: UserRole.USER,
+        },
+      });
+    } catch (error) {
+      // A concurrent registration won the unique email constraint
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('User with this email already exists');
+      }
+      throw error;
+    }
 
-    return {
-      access_token: token,
-      user: {
-        id: newUser.id,
-        name: newUser.name,
-        email: newUser.email,
-      },
-    };
+    return this.startSession(newUser);
   }
 
-  async login(loginDto: LoginDto) {
+  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
     // Find user by email
-    const user = this.users.find((u) => u.email === loginDto.email);
+    const user = await this.prisma.user.findUnique({
+      where: { email: loginDto.email },
+    });
 
     if (!user) {
       throw new UnauthorizedException('Invalid credentials');
@@ -76,40 +108,201 @@ export class AuthService {
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // Generate JWT token
-    const token = this.generateToken(user);
+    return this.startSession(user);
+  }
 
-    return {
-      access_token: token,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-      },
-    };
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   */
+  async refresh(refreshToken: string): Promise<AuthResponseDto> {
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      include: { user: true },
+    });
+
+    if (!stored) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (stored.revokedAt) {
+      await this.handleReuse(stored);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    const next = this.generateRefreshToken();
+
+    const rotated = await this.prisma.$transaction(async (tx) => {
+      // Status-guarded: of two refreshes racing with one token, one wins
+      const claim = await tx.refreshToken.updateMany({
+        where: { id: stored.id, revokedAt: null },
+        data: { revokedAt: new Date(), replacedById: next.id },
+      });
+
+      if (claim.count === 0) {
+        return false;
+      }
+
+      await tx.refreshToken.create({
+        data: this.buildRefreshTokenData(stored.userId, stored.familyId, next),
+      });
+
+      return true;
+    });
+
+    if (!rotated) {
+      await this.handleReuse(stored);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return this.buildResponse(stored.user, stored.familyId, next.token);
+  }
+
+  /**
+   * End the session the access token belongs to
+   */
+  async logout(sessionId?: string): Promise<void> {
+    // Tokens issued before sessions existed have no sid and simply expire
+    if (sessionId) {
+      await this.revokeSession(sessionId);
+    }
+  }
+
+  /**
+   * Revoke a session's refresh tokens and access tokens
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: { familyId: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    await this.denylist(sessionDenylistKey(sessionId), 1);
+
+    this.logger.log(`Session ${sessionId} revoked`);
+  }
+
+  /**
+   * Revoke every session of a user, e.g. after a compromise
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    const result = await this.prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    await this.denylist(userDenylistKey(userId), Date.now());
+
+    this.logger.log(`All sessions of user ${userId} revoked`);
+
+    return result.count;
   }
 
-  async validateUser(userId: string) {
-    const user = this.users.find((u) => u.id === userId);
+  async validateUser(userId: string): Promise<AuthUserDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
 
     if (!user) {
       throw new UnauthorizedException();
     }
 
+    return this.toAuthUser(user);
+  }
+
+  private async startSession(user: User): Promise<AuthResponseDto> {
+    const sessionId = randomUUID();
+    const refreshToken = this.generateRefreshToken();
+
+    await this.prisma.refreshToken.create({
+      data: this.buildRefreshTokenData(user.id, sessionId, refreshToken),
+    });
+
+    return this.buildResponse(user, sessionId, refreshToken.token);
+  }
+
+  private async handleReuse(stored: RefreshToken): Promise<void> {
+    this.logger.warn(
+      `Refresh token reuse detected for user ${stored.userId}, revoking session ${stored.familyId}`,
+    );
+
+    await this.revokeSession(stored.familyId);
+  }
+
+  /**
+   * Best effort: if Redis is down, the session's access tokens stay valid
+   * until they expire, but its refresh tokens are already revoked
+   */
+  private async denylist(key: string, value: number): Promise<void> {
+    try {
+      await this.redis.set(key, value, ACCESS_TOKEN_TTL_SECONDS);
+    } catch (error) {
+      this.logger.error(`Failed to denylist ${key}:`, error);
+    }
+  }
+
+  private buildResponse(
+    user: User,
+    sessionId: string,
+    refreshToken: string,
+  ): AuthResponseDto {
     return {
-      id: user.id,
-      name: user.name,
-      email: user.email,
+      access_token: this.generateToken(user, sessionId),
+      refresh_token: refreshToken,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      user: this.toAuthUser(user),
     };
   }
 
-  private generateToken(user: User): string {
-    const payload = {
+  private buildRefreshTokenData(
+    userId: string,
+    familyId: string,
+    refreshToken: { id: string; token: string },
+  ): Prisma.RefreshTokenUncheckedCreateInput {
+    return {
+      id: refreshToken.id,
+      userId,
+      familyId,
+      tokenHash: this.hashToken(refreshToken.token),
+      expiresAt: new Date(
+        Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+      ),
+    };
+  }
+
+  /**
+   * Opaque random token; only its hash is stored
+   */
+  private generateRefreshToken(): { id: string; token: string } {
+    return { id: randomUUID(), token: randomBytes(32).toString('base64url') };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private generateToken(user: User, sessionId: string): string {
+    const payload: JwtPayload = {
       sub: user.id,
       email: user.email,
       name: user.name,
+      role: user.role as UserRole,
+      sid: sessionId,
+      iatMs: Date.now(),
     };
 
     return this.jwtService.sign(payload);
   }
+
+  private toAuthUser(user: User): AuthUserDto {
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role as UserRole,
+    };
+  }
 }
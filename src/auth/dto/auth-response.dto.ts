@@ -0,0 +1,18 @@
+export enum UserRole {
+  USER = 'USER',
+  ADMIN = 'ADMIN',
+}
+
+export class AuthUserDto {
+  id!: string;
+  name!: string;
+  email!: string;
+  role!: UserRole;
+}
+
+export class AuthResponseDto {
+  access_token!: string;
+  refresh_token!: string;
+  expires_in!: number; // access token lifetime in seconds
+  user!: AuthUserDto;
+}
@@ -0,0 +1,95 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { JwtPayload, JwtStrategy } from '../strategies/jwt.strategy';
+import { RedisService } from '../../redis/redis.service';
+import { UserRole } from '../dto/auth-response.dto';
+
+describe('JwtAuthGuard', () => {
+  let guard: JwtAuthGuard;
+
+  const mockRedisService = {
+    mget: jest.fn(),
+  };
+
+  // A user's sessions were all revoked at 12:00:00.400
+  const revokedAt = new Date('2026-01-01T12:00:00.400Z').getTime();
+
+  const buildContext = async (payload: Partial<JwtPayload>) => {
+    const user = await new JwtStrategy().validate({
+      sub: 'user-1',
+      email: 'alice@example.com',
+      name: 'Alice',
+      role: UserRole.USER,
+      sid: 'session-1',
+      ...payload,
+    });
+
+    return {
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    } as unknown as ExecutionContext;
+  };
+
+  // Access token claims for a token signed at the given time
+  const issuedAt = (ms: number) => ({
+    iat: Math.floor(ms / 1000),
+    iatMs: ms,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Signature and expiry checks are passport's; only the denylist is tested
+    jest
+      .spyOn(AuthGuard('jwt').prototype, 'canActivate')
+      .mockResolvedValue(true);
+    mockRedisService.mget.mockResolvedValue([null, revokedAt]);
+
+    guard = new JwtAuthGuard(mockRedisService as unknown as RedisService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject tokens issued before the user revoked all sessions', async () => {
+    const context = await buildContext(issuedAt(revokedAt - 100));
+
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      new UnauthorizedException('Token has been revoked'),
+    );
+    expect(mockRedisService.mget).toHaveBeenCalledWith([
+      'auth:denylist:session:session-1',
+      'auth:denylist:user:user-1',
+    ]);
+  });
+
+  it('should accept a re-login in the same second as the revocation', async () => {
+    const context = await buildContext(issuedAt(revokedAt + 300));
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+  });
+
+  it('should revoke same-second tokens without iatMs, which only carry whole seconds', async () => {
+    const context = await buildContext({ iat: Math.floor(revokedAt / 1000) });
+
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should reject tokens of a revoked session', async () => {
+    mockRedisService.mget.mockResolvedValue([1, null]);
+    const context = await buildContext(issuedAt(revokedAt + 300));
+
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should skip the denylist check when Redis is unreachable', async () => {
+    mockRedisService.mget.mockRejectedValue(new Error('Redis down'));
+    const context = await buildContext(issuedAt(revokedAt - 100));
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+  });
+});
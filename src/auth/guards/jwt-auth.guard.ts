@@ -1,5 +1,55 @@
-import { Injectable } from '@nestjs/common';
+import {
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
+import { RedisService } from '../../redis/redis.service';
+import { sessionDenylistKey, userDenylistKey } from '../auth.constants';
 
+/**
+ * JwtAuthGuard - Verifies the access token, then checks the Redis denylist
+ *
+ * A token is rejected when its session was revoked, or when it was issued
+ * before its user's sessions were all revoked. If Redis is unreachable the
+ * check is skipped: revoked sessions then stay usable only until their
+ * short-lived access tokens expire, rather than every request failing.
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {}
+export class JwtAuthGuard extends AuthGuard('jwt') {
+  private readonly logger = new Logger(JwtAuthGuard.name);
+
+  constructor(private readonly redis: RedisService) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    await super.canActivate(context);
+
+    const { user } = context.switchToHttp().getRequest<{
+      user: { userId: string; sessionId?: string; issuedAt?: number };
+    }>();
+
+    let sessionRevoked: unknown;
+    let revokedUntil: unknown;
+    try {
+      [sessionRevoked, revokedUntil] = await this.redis.mget([
+        sessionDenylistKey(user.sessionId ?? ''),
+        userDenylistKey(user.userId),
+      ]);
+    } catch (error) {
+      this.logger.warn(`Token denylist check skipped: ${error}`);
+      return true;
+    }
+
+    if (
+      (user.sessionId && sessionRevoked) ||
+      (typeof revokedUntil === 'number' && (user.issuedAt ?? 0) <= revokedUntil)
+    ) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
+    return true;
+  }
+}
@@ -1,18 +1,31 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { Request } from 'express';
+import { UserRole } from '../dto/auth-response.dto';
 
 export interface JwtPayload {
   sub: string;
   email: string;
   name: string;
+  role: UserRole;
+  sid?: string; // session (refresh token family) ID
+  iat?: number;
+  iatMs?: number; // issue time in milliseconds; iat only has seconds
 }
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor() {
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        // EventSource cannot send headers - SSE streams accept ?access_token=
+        (req: Request) =>
+          req.path?.endsWith('/stream')
+            ? ExtractJwt.fromUrlQueryParameter('access_token')(req)
+            : null,
+      ]),
       ignoreExpiration: false,
       secretOrKey:
         process.env.JWT_SECRET || 'your-secret-key-change-in-production',
@@ -28,6 +41,13 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       userId: payload.sub,
       email: payload.email,
       name: payload.name,
+      // Tokens issued before roles were claimed carry none
+      role: payload.role ?? UserRole.USER,
+      sessionId: payload.sid,
+      // Milliseconds, so a re-login right after logout-all is not revoked
+      issuedAt:
+        payload.iatMs ??
+        (payload.iat === undefined ? undefined : payload.iat * 1000),
     };
   }
 }
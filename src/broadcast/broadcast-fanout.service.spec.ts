@@ -0,0 +1,212 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BroadcastFanoutService } from './broadcast-fanout.service';
+import { BroadcastService } from './broadcast.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notification/notification.service';
+import { OutboxService } from '../notification/outbox.service';
+import { createMockOutboxService } from '../notification/testing/outbox.mock';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+
+describe('BroadcastFanoutService', () => {
+  let service: BroadcastFanoutService;
+
+  const mockPrismaService = {
+    user: { findMany: jest.fn() },
+    broadcast: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    notification: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockNotificationService = {
+    toKafkaMessage: jest.fn((n) => ({ id: n.id })),
+  };
+
+  const mockOutboxService = createMockOutboxService();
+
+  const buildBroadcast = (overrides: Record<string, unknown> = {}) =>
+    ({
+      id: 'bc-1',
+      channel: 'SMS',
+      type: 'MARKETING',
+      priority: 'LOW',
+      content: { title: 'Sale', body: '50% off today' },
+      audience: { tenantId: 'tenant-1' },
+      status: 'RUNNING',
+      cursor: null,
+      expiresAt: null,
+      ...overrides,
+    }) as any;
+
+  const users = [
+    {
+      id: 'u1',
+      email: 'a@example.com',
+      tenantId: 'tenant-1',
+      attributes: { phoneNumber: '+15550000001' },
+    },
+    { id: 'u2', email: 'b@example.com', tenantId: 'tenant-1', attributes: {} },
+  ];
+
+  const mockEventsService = {
+    publishCreated: jest.fn(),
+    publishCreatedMany: jest.fn(),
+    publishUpdated: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation((fn) =>
+      fn(mockPrismaService),
+    );
+
+    // Echo inserted rows back, as the database would
+    let inserted: any[] = [];
+    mockPrismaService.notification.createMany.mockImplementation(
+      async ({ data }) => {
+        inserted = data;
+        return { count: data.length };
+      },
+    );
+    mockPrismaService.notification.findMany.mockImplementation(
+      async () => inserted,
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BroadcastFanoutService,
+        BroadcastService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: NotificationEventsService,
+          useValue: mockEventsService,
+        },
+        { provide: NotificationService, useValue: mockNotificationService },
+        { provide: OutboxService, useValue: mockOutboxService },
+      ],
+    }).compile();
+
+    service = module.get<BroadcastFanoutService>(BroadcastFanoutService);
+  });
+
+  it('should fan out users with an address and skip the rest', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue(users);
+    mockPrismaService.broadcast.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.processChunk(buildBroadcast());
+
+    const rows = mockPrismaService.notification.createMany.mock.calls[0][0];
+    expect(rows.skipDuplicates).toBe(true);
+    expect(rows.data).toEqual([
+      expect.objectContaining({
+        userId: 'u1',
+        broadcastId: 'bc-1',
+        payload: { phoneNumber: '+15550000001', message: '50% off today' },
+        idempotencyKey: 'broadcast:bc-1:u1',
+      }),
+    ]);
+    expect(mockOutboxService.add).toHaveBeenCalledWith(mockPrismaService, [
+      { id: rows.data[0].id },
+    ]);
+    expect(mockOutboxService.publish).toHaveBeenCalledWith([
+      expect.objectContaining({ message: { id: rows.data[0].id } }),
+    ]);
+  });
+
+  it('should write outbox rows in the insert transaction so a crash before publishing is relayed', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue(users);
+    mockPrismaService.broadcast.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.$transaction.mockImplementation(async (fn) => {
+      const result = await fn(mockPrismaService);
+      // Outbox rows are added before the transaction commits
+      expect(mockOutboxService.add).toHaveBeenCalledTimes(1);
+      return result;
+    });
+
+    await service.processChunk(buildBroadcast());
+
+    expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockOutboxService.publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('should advance the cursor and complete on the last chunk', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue(users);
+    mockPrismaService.broadcast.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.processChunk(buildBroadcast({ cursor: 'u0' }));
+
+    expect(mockPrismaService.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { AND: [expect.anything(), { id: { gt: 'u0' } }] },
+      }),
+    );
+    expect(mockPrismaService.broadcast.updateMany).toHaveBeenCalledWith({
+      where: { id: 'bc-1', cursor: 'u0', status: { not: 'ABORTED' } },
+      data: expect.objectContaining({
+        cursor: 'u2',
+        processedRecipients: { increment: 2 },
+        skippedRecipients: { increment: 1 },
+      }),
+    });
+    expect(mockPrismaService.broadcast.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'bc-1', status: 'RUNNING' },
+      data: expect.objectContaining({ status: 'COMPLETED' }),
+    });
+  });
+
+  it('should not complete a broadcast paused during its last chunk', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue(users);
+    // Progress update lands; the RUNNING-guarded completion finds it PAUSED
+    mockPrismaService.broadcast.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await service.processChunk(buildBroadcast({ cursor: 'u0' }));
+
+    const updates = mockPrismaService.broadcast.updateMany.mock.calls.map(
+      ([args]) => args,
+    );
+    expect(updates).toHaveLength(2);
+    expect(updates[0].data).not.toHaveProperty('status');
+    expect(updates[1].where).toEqual({ id: 'bc-1', status: 'RUNNING' });
+  });
+
+  it('should cancel the chunk instead of publishing when aborted mid-flight', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue(users);
+    mockPrismaService.broadcast.updateMany.mockResolvedValue({ count: 0 });
+    mockPrismaService.broadcast.findUnique.mockResolvedValue({
+      status: 'ABORTED',
+    });
+    mockPrismaService.notification.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.processChunk(buildBroadcast());
+
+    expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ broadcastId: 'bc-1' }),
+        data: expect.objectContaining({ status: 'CANCELLED' }),
+      }),
+    );
+    expect(mockOutboxService.publish).not.toHaveBeenCalled();
+  });
+
+  it('should complete broadcasts with no users left', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue([]);
+    mockPrismaService.broadcast.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.processChunk(buildBroadcast({ cursor: 'u2' }));
+
+    expect(mockPrismaService.broadcast.updateMany).toHaveBeenCalledWith({
+      where: { id: 'bc-1', status: 'RUNNING' },
+      data: expect.objectContaining({ status: 'COMPLETED' }),
+    });
+    expect(mockPrismaService.notification.createMany).not.toHaveBeenCalled();
+  });
+});
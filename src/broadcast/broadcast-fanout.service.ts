@@ -0,0 +1,283 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Broadcast, Notification, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notification/notification.service';
+import { OutboxEntry, OutboxService } from '../notification/outbox.service';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+import { NotificationChannel, NotificationStatus } from '../notification/dto';
+import { BroadcastService } from './broadcast.service';
+import {
+  BroadcastAudienceDto,
+  BroadcastContentDto,
+  BroadcastStatus,
+} from './dto';
+
+type Recipient = {
+  id: string;
+  email: string;
+  tenantId: string | null;
+  attributes: Prisma.JsonValue;
+};
+
+/**
+ * BroadcastFanout - Expands RUNNING broadcasts into per-user notifications
+ *
+ * Every tick, each RUNNING broadcast advances by at most CHUNK_SIZE users
+ * (ordered by user ID, resuming after Broadcast.cursor), which throttles
+ * fan-out to CHUNK_SIZE users per broadcast per second.
+ *
+ * Per chunk:
+ * - Notification rows are inserted with one createMany. Idempotency keys
+ *   (broadcast:<broadcastId>:<userId>) make a re-run chunk a no-op, so a
+ *   crash or a second instance never creates a user's notification twice
+ * - Rows inserted by this run (matched by pre-assigned ID) get outbox rows
+ *   in the same transaction and are published in a single batched Kafka
+ *   send; if the process dies first, OutboxService relays them
+ * - The cursor and progress counters advance with a cursor-guarded update
+ * - After the last chunk the broadcast is completed only if still RUNNING,
+ *   so a pause requested meanwhile sticks; it completes once resumed
+ *
+ * Pausing stops new chunks from starting. Aborting also cancels the
+ * broadcast's notifications the worker has not claimed yet.
+ */
+@Injectable()
+export class BroadcastFanoutService {
+  private readonly logger = new Logger(BroadcastFanoutService.name);
+  private readonly CHUNK_SIZE = 500;
+  private isRunning = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly broadcastService: BroadcastService,
+    private readonly notificationService: NotificationService,
+    private readonly outbox: OutboxService,
+    private readonly events: NotificationEventsService,
+  ) {}
+
+  /**
+   * Fan out the next chunk of every running broadcast
+   * Runs every second
+   */
+  @Interval(1000)
+  async fanOutRunningBroadcasts(): Promise<void> {
+    // Skip if the previous tick is still fanning out
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const broadcasts = await this.prisma.broadcast.findMany({
+        where: { status: BroadcastStatus.RUNNING },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      for (const broadcast of broadcasts) {
+        try {
+          await this.processChunk(broadcast);
+        } catch (error) {
+          this.logger.error(
+            `Fan-out failed for broadcast ${broadcast.id}:`,
+            error,
+          );
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Fan out one chunk of a broadcast, returning the number of users covered
+   */
+  async processChunk(broadcast: Broadcast): Promise<number> {
+    const audienceWhere = this.broadcastService.audienceWhere(
+      broadcast.audience as unknown as BroadcastAudienceDto,
+    );
+
+    const users: Recipient[] = await this.prisma.user.findMany({
+      where: {
+        AND: [
+          audienceWhere,
+          broadcast.cursor ? { id: { gt: broadcast.cursor } } : {},
+        ],
+      },
+      orderBy: { id: 'asc' },
+      take: this.CHUNK_SIZE,
+      select: { id: true, email: true, tenantId: true, attributes: true },
+    });
+
+    const isLastChunk = users.length < this.CHUNK_SIZE;
+
+    if (users.length === 0) {
+      await this.complete(broadcast);
+      return 0;
+    }
+
+    const rows = this.buildRows(broadcast, users);
+    const { created, outbox } = await this.insertRows(rows);
+
+    const advanced = await this.prisma.broadcast.updateMany({
+      where: {
+        id: broadcast.id,
+        cursor: broadcast.cursor,
+        status: { not: BroadcastStatus.ABORTED },
+      },
+      data: {
+        cursor: users[users.length - 1].id,
+        processedRecipients: { increment: users.length },
+        skippedRecipients: { increment: users.length - rows.length },
+      },
+    });
+
+    if (advanced.count === 0) {
+      const current = await this.prisma.broadcast.findUnique({
+        where: { id: broadcast.id },
+        select: { status: true },
+      });
+
+      if (current?.status === BroadcastStatus.ABORTED) {
+        // Aborted while this chunk was being inserted. The relay still
+        // publishes their outbox rows; the worker's claim skips CANCELLED
+        await this.broadcastService.cancelPendingNotifications(
+          broadcast.id,
+          created.map((n) => n.id),
+        );
+        return 0;
+      }
+
+      // Another instance advanced the cursor; our rows are still published
+      this.logger.debug(
+        `Broadcast ${broadcast.id} cursor moved concurrently, skipping progress update`,
+      );
+    }
+
+    await this.events.publishCreatedMany(created);
+    // Publish right away; OutboxService relays them if this fails
+    await this.outbox.publish(outbox);
+
+    this.logger.log(
+      `Broadcast ${broadcast.id}: fanned out ${created.length}/${users.length} users`,
+    );
+
+    if (isLastChunk) {
+      await this.complete(broadcast);
+    }
+
+    return users.length;
+  }
+
+  /**
+   * Build notification rows for users with an address on the channel
+   */
+  private buildRows(
+    broadcast: Broadcast,
+    users: Recipient[],
+  ): Prisma.NotificationCreateManyInput[] {
+    const content = broadcast.content as unknown as BroadcastContentDto;
+    const rows: Prisma.NotificationCreateManyInput[] = [];
+
+    for (const user of users) {
+      const payload = this.buildPayload(broadcast.channel, content, user);
+      if (!payload) {
+        continue;
+      }
+
+      rows.push({
+        id: randomUUID(),
+        userId: user.id,
+        tenantId: user.tenantId,
+        broadcastId: broadcast.id,
+        channel: broadcast.channel,
+        type: broadcast.type,
+        priority: broadcast.priority,
+        status: NotificationStatus.PENDING,
+        payload: payload as any, // Prisma stores JSON
+        content: JSON.stringify(payload), // deprecated field - keep for backward compatibility
+        expiresAt: broadcast.expiresAt,
+        idempotencyKey: `broadcast:${broadcast.id}:${user.id}`,
+        correlationId: broadcast.id,
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Map channel-agnostic content to the channel's payload for one user
+   * Returns null when the user has no address for the channel
+   */
+  private buildPayload(
+    channel: string,
+    content: BroadcastContentDto,
+    user: Recipient,
+  ): Record<string, unknown> | null {
+    const attributes = (user.attributes ?? {}) as Record<string, unknown>;
+
+    switch (channel) {
+      case NotificationChannel.EMAIL:
+        return { to: user.email, subject: content.title, body: content.body };
+
+      case NotificationChannel.SMS:
+        return typeof attributes.phoneNumber === 'string'
+          ? { phoneNumber: attributes.phoneNumber, message: content.body }
+          : null;
+
+      case NotificationChannel.PUSH:
+        return typeof attributes.deviceToken === 'string'
+          ? {
+              deviceToken: attributes.deviceToken,
+              title: content.title,
+              body: content.body,
+              data: content.data,
+            }
+          : null;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Insert rows with outbox messages for those this run actually created
+   */
+  private async insertRows(
+    rows: Prisma.NotificationCreateManyInput[],
+  ): Promise<{ created: Notification[]; outbox: OutboxEntry[] }> {
+    if (rows.length === 0) {
+      return { created: [], outbox: [] };
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.notification.createMany({
+        data: rows,
+        skipDuplicates: true,
+      });
+
+      const created = await tx.notification.findMany({
+        where: { id: { in: rows.map((row) => row.id!) } },
+      });
+      const outbox = await this.outbox.add(
+        tx,
+        created.map((n) => this.notificationService.toKafkaMessage(n)),
+      );
+
+      return { created, outbox };
+    });
+  }
+
+  /**
+   * Mark a broadcast whose audience is exhausted as COMPLETED
+   */
+  private async complete(broadcast: Broadcast): Promise<void> {
+    await this.prisma.broadcast.updateMany({
+      where: { id: broadcast.id, status: BroadcastStatus.RUNNING },
+      data: { status: BroadcastStatus.COMPLETED, completedAt: new Date() },
+    });
+
+    this.logger.log(`Broadcast ${broadcast.id} completed`);
+  }
+}
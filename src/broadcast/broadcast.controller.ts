@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Request,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { BroadcastService } from './broadcast.service';
+import { CreateBroadcastDto, BroadcastResponseDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../common/guards/admin.guard';
+
+/**
+ * BroadcastController - Send one notification to an audience of users
+ *
+ * All endpoints require JWT authentication + ADMIN role
+ */
+@Controller('broadcasts')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class BroadcastController {
+  constructor(private readonly broadcastService: BroadcastService) {}
+
+  /**
+   * Create a broadcast and start fan-out
+   * POST /broadcasts
+   */
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  async create(
+    @Request() req: { user: { userId: string } },
+    @Body() createBroadcastDto: CreateBroadcastDto,
+  ): Promise<BroadcastResponseDto> {
+    return await this.broadcastService.create(
+      createBroadcastDto,
+      req.user?.userId,
+    );
+  }
+
+  /**
+   * Get broadcast progress
+   * GET /broadcasts/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<BroadcastResponseDto> {
+    return await this.broadcastService.findOne(id);
+  }
+
+  /**
+   * Pause fan-out
+   * POST /broadcasts/:id/pause
+   */
+  @Post(':id/pause')
+  @HttpCode(HttpStatus.OK)
+  async pause(@Param('id') id: string): Promise<BroadcastResponseDto> {
+    return await this.broadcastService.pause(id);
+  }
+
+  /**
+   * Resume a paused broadcast
+   * POST /broadcasts/:id/resume
+   */
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.OK)
+  async resume(@Param('id') id: string): Promise<BroadcastResponseDto> {
+    return await this.broadcastService.resume(id);
+  }
+
+  /**
+   * Abort fan-out and cancel undelivered notifications
+   * POST /broadcasts/:id/abort
+   */
+  @Post(':id/abort')
+  @HttpCode(HttpStatus.OK)
+  async abort(@Param('id') id: string): Promise<BroadcastResponseDto> {
+    return await this.broadcastService.abort(id);
+  }
+}
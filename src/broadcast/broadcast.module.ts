@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { BroadcastController } from './broadcast.controller';
+import { BroadcastService } from './broadcast.service';
+import { BroadcastFanoutService } from './broadcast-fanout.service';
+import { NotificationModule } from '../notification/notification.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+
+/**
+ * BroadcastModule - One message fanned out to a segment of users
+ *
+ * Features:
+ * - Audience by tenant, user ID list or user attribute filter
+ * - Throttled, resumable fan-out into per-user notifications
+ * - Progress tracking, pause/resume and abort
+ */
+@Module({
+  imports: [NotificationModule, RealtimeModule],
+  controllers: [BroadcastController],
+  providers: [BroadcastService, BroadcastFanoutService],
+})
+export class BroadcastModule {}
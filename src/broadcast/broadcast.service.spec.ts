@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { BroadcastService } from './broadcast.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateBroadcastDto } from './dto';
+
+describe('BroadcastService', () => {
+  let service: BroadcastService;
+
+  const mockPrismaService = {
+    user: { count: jest.fn() },
+    broadcast: { create: jest.fn() },
+  };
+
+  const buildDto = (audience: CreateBroadcastDto['audience']) =>
+    ({
+      name: 'Spring sale',
+      channel: 'SMS',
+      type: 'MARKETING',
+      content: { body: '50% off today' },
+      audience,
+    }) as CreateBroadcastDto;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.user.count.mockResolvedValue(2);
+    mockPrismaService.broadcast.create.mockImplementation(async ({ data }) => ({
+      id: 'bc-1',
+      sentCount: 0,
+      failedCount: 0,
+      cursor: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...data,
+    }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BroadcastService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<BroadcastService>(BroadcastService);
+  });
+
+  describe('create', () => {
+    it('should count and store the audience', async () => {
+      await service.create(
+        buildDto({ tenantId: 'tenant-1', attributes: { plan: 'pro' } }),
+      );
+
+      expect(mockPrismaService.user.count).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            { tenantId: 'tenant-1' },
+            { attributes: { path: ['plan'], equals: 'pro' } },
+          ],
+        },
+      });
+      expect(mockPrismaService.broadcast.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: 'RUNNING',
+          totalRecipients: 2,
+        }),
+      });
+    });
+
+    it.each([
+      ['no criteria', {}],
+      ['empty attributes', { attributes: {} }],
+      ['empty userIds', { userIds: [] }],
+    ])('should reject audiences with %s', async (_case, audience) => {
+      await expect(service.create(buildDto(audience))).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.user.count).not.toHaveBeenCalled();
+      expect(mockPrismaService.broadcast.create).not.toHaveBeenCalled();
+    });
+  });
+});
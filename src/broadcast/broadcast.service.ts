@@ -0,0 +1,246 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Broadcast, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationStatus } from '../notification/dto';
+import {
+  CreateBroadcastDto,
+  BroadcastAudienceDto,
+  BroadcastResponseDto,
+  BroadcastStatus,
+} from './dto';
+
+/**
+ * BroadcastService - Creates broadcasts and controls their lifecycle
+ *
+ * A broadcast is a parent record describing one message and its audience.
+ * BroadcastFanoutService turns it into per-user Notification rows in
+ * throttled chunks; this service only moves the broadcast between states:
+ *
+ * RUNNING <-> PAUSED, RUNNING/PAUSED -> ABORTED, RUNNING -> COMPLETED (fan-out)
+ */
+@Injectable()
+export class BroadcastService {
+  private readonly logger = new Logger(BroadcastService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a broadcast and start fanning it out
+   */
+  async create(
+    dto: CreateBroadcastDto,
+    createdBy?: string,
+  ): Promise<BroadcastResponseDto> {
+    // An audience without criteria would match every user of every tenant
+    const { tenantId, userIds, attributes } = dto.audience;
+    if (
+      !tenantId &&
+      !userIds?.length &&
+      Object.keys(attributes ?? {}).length === 0
+    ) {
+      throw new BadRequestException(
+        'audience must define tenantId, userIds or attributes',
+      );
+    }
+
+    if (dto.expiresAt && new Date(dto.expiresAt).getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const totalRecipients = await this.prisma.user.count({
+      where: this.audienceWhere(dto.audience),
+    });
+
+    const broadcast = await this.prisma.broadcast.create({
+      data: {
+        name: dto.name,
+        channel: dto.channel,
+        type: dto.type,
+        priority: dto.priority,
+        content: dto.content as any, // Prisma stores JSON
+        audience: dto.audience as any,
+        status: BroadcastStatus.RUNNING,
+        totalRecipients,
+        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+        createdBy,
+      },
+    });
+
+    this.logger.log(
+      `Broadcast created: ${broadcast.id} (${dto.channel}, ${totalRecipients} recipients)`,
+    );
+
+    return this.mapToResponseDto(broadcast);
+  }
+
+  /**
+   * Get broadcast progress by ID
+   */
+  async findOne(id: string): Promise<BroadcastResponseDto> {
+    return this.mapToResponseDto(await this.findExisting(id));
+  }
+
+  /**
+   * Stop fanning out new chunks until resumed
+   */
+  async pause(id: string): Promise<BroadcastResponseDto> {
+    return this.transition(
+      id,
+      [BroadcastStatus.RUNNING],
+      BroadcastStatus.PAUSED,
+    );
+  }
+
+  /**
+   * Continue fan-out from the last processed user
+   */
+  async resume(id: string): Promise<BroadcastResponseDto> {
+    return this.transition(
+      id,
+      [BroadcastStatus.PAUSED],
+      BroadcastStatus.RUNNING,
+    );
+  }
+
+  /**
+   * Stop fan-out for good and cancel notifications not yet picked up
+   */
+  async abort(id: string): Promise<BroadcastResponseDto> {
+    const broadcast = await this.transition(
+      id,
+      [BroadcastStatus.RUNNING, BroadcastStatus.PAUSED],
+      BroadcastStatus.ABORTED,
+    );
+
+    const cancelled = await this.cancelPendingNotifications(id);
+    this.logger.log(
+      `Broadcast ${id} aborted, cancelled ${cancelled} pending notifications`,
+    );
+
+    return broadcast;
+  }
+
+  /**
+   * Cancel a broadcast's notifications the worker has not claimed yet
+   */
+  async cancelPendingNotifications(
+    broadcastId: string,
+    notificationIds?: string[],
+  ): Promise<number> {
+    const result = await this.prisma.notification.updateMany({
+      where: {
+        broadcastId,
+        ...(notificationIds && { id: { in: notificationIds } }),
+        status: {
+          in: [NotificationStatus.PENDING, NotificationStatus.SCHEDULED],
+        },
+      },
+      data: {
+        status: NotificationStatus.CANCELLED,
+        errorMessage: 'Broadcast aborted',
+      },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Translate an audience definition into a user filter
+   */
+  audienceWhere(audience: BroadcastAudienceDto): Prisma.UserWhereInput {
+    const conditions: Prisma.UserWhereInput[] = [];
+
+    if (audience.tenantId) {
+      conditions.push({ tenantId: audience.tenantId });
+    }
+
+    if (audience.userIds) {
+      conditions.push({ id: { in: audience.userIds } });
+    }
+
+    for (const [key, value] of Object.entries(audience.attributes ?? {})) {
+      conditions.push({ attributes: { path: [key], equals: value } });
+    }
+
+    return { AND: conditions };
+  }
+
+  /**
+   * Status-guarded state change; 409 if the broadcast is in another state
+   */
+  private async transition(
+    id: string,
+    from: BroadcastStatus[],
+    to: BroadcastStatus,
+  ): Promise<BroadcastResponseDto> {
+    const result = await this.prisma.broadcast.updateMany({
+      where: { id, status: { in: from } },
+      data: { status: to },
+    });
+
+    const broadcast = await this.findExisting(id);
+
+    if (result.count === 0) {
+      throw new ConflictException(
+        `Cannot move broadcast from ${broadcast.status} to ${to}`,
+      );
+    }
+
+    this.logger.log(`Broadcast ${id} is now ${to}`);
+
+    return this.mapToResponseDto(broadcast);
+  }
+
+  /**
+   * Load a broadcast row or throw 404
+   */
+  private async findExisting(id: string): Promise<Broadcast> {
+    const broadcast = await this.prisma.broadcast.findUnique({
+      where: { id },
+    });
+
+    if (!broadcast) {
+      throw new NotFoundException(`Broadcast with ID ${id} not found`);
+    }
+
+    return broadcast;
+  }
+
+  /**
+   * Map Prisma model to response DTO
+   */
+  private mapToResponseDto(broadcast: any): BroadcastResponseDto {
+    return {
+      id: broadcast.id,
+      name: broadcast.name,
+      channel: broadcast.channel,
+      type: broadcast.type,
+      priority: broadcast.priority,
+      status: broadcast.status,
+      totalRecipients: broadcast.totalRecipients,
+      processedRecipients: broadcast.processedRecipients,
+      skippedRecipients: broadcast.skippedRecipients,
+      progress:
+        broadcast.totalRecipients > 0
+          ? Math.min(
+              100,
+              Math.round(
+                (broadcast.processedRecipients / broadcast.totalRecipients) *
+                  100,
+              ),
+            )
+          : 100,
+      expiresAt: broadcast.expiresAt,
+      createdBy: broadcast.createdBy,
+      completedAt: broadcast.completedAt,
+      createdAt: broadcast.createdAt,
+      updatedAt: broadcast.updatedAt,
+    };
+  }
+}
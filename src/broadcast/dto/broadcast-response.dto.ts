@@ -0,0 +1,30 @@
+import {
+  NotificationChannel,
+  NotificationType,
+  NotificationPriority,
+} from '../../notification/dto';
+
+export enum BroadcastStatus {
+  RUNNING = 'RUNNING',
+  PAUSED = 'PAUSED',
+  COMPLETED = 'COMPLETED',
+  ABORTED = 'ABORTED',
+}
+
+export class BroadcastResponseDto {
+  id!: string;
+  name?: string;
+  channel!: NotificationChannel;
+  type!: NotificationType;
+  priority!: NotificationPriority;
+  status!: BroadcastStatus;
+  totalRecipients!: number;
+  processedRecipients!: number;
+  skippedRecipients!: number;
+  progress!: number; // 0-100
+  expiresAt?: Date;
+  createdBy?: string;
+  completedAt?: Date;
+  createdAt!: Date;
+  updatedAt!: Date;
+}
@@ -0,0 +1,99 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsObject,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  IsDateString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  NotificationChannel,
+  NotificationType,
+  NotificationPriority,
+} from '../../notification/dto';
+
+export const MAX_BROADCAST_USER_IDS = 10000;
+
+// Channels whose recipient address can be resolved from the user record
+export const BROADCAST_CHANNELS = [
+  NotificationChannel.EMAIL,
+  NotificationChannel.SMS,
+  NotificationChannel.PUSH,
+];
+
+/**
+ * Audience definition - all given criteria must match (AND)
+ */
+export class BroadcastAudienceDto {
+  @IsString()
+  @IsOptional()
+  tenantId?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BROADCAST_USER_IDS)
+  @IsString({ each: true })
+  @IsOptional()
+  userIds?: string[];
+
+  /**
+   * Exact-match filter on User.attributes, e.g. { "plan": "pro" }
+   */
+  @IsObject()
+  @IsOptional()
+  attributes?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Channel-agnostic content, mapped to each channel's payload per recipient
+ */
+export class BroadcastContentDto {
+  @IsString()
+  @IsNotEmpty()
+  title!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  body!: string;
+
+  @IsObject()
+  @IsOptional()
+  data?: Record<string, unknown>;
+}
+
+export class CreateBroadcastDto {
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsIn(BROADCAST_CHANNELS)
+  channel!: NotificationChannel;
+
+  @IsEnum(NotificationType)
+  type!: NotificationType;
+
+  @IsEnum(NotificationPriority)
+  @IsOptional()
+  priority?: NotificationPriority;
+
+  @ValidateNested()
+  @Type(() => BroadcastAudienceDto)
+  audience!: BroadcastAudienceDto;
+
+  @ValidateNested()
+  @Type(() => BroadcastContentDto)
+  content!: BroadcastContentDto;
+
+  /**
+   * Notifications not sent by this time are dropped as EXPIRED
+   */
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
@@ -0,0 +1,2 @@
+export * from './create-broadcast.dto';
+export * from './broadcast-response.dto';
@@ -37,8 +37,8 @@ export const KAFKA_TOPICS = {
 
 // JWT configuration
 export const JWT_CONFIG = {
-  DEFAULT_EXPIRATION: '7d',
-  REFRESH_EXPIRATION: '30d',
+  ACCESS_TOKEN_TTL_SECONDS: 900, // 15 minutes
+  REFRESH_TOKEN_TTL_DAYS: 30,
 } as const;
 
 // Pagination defaults
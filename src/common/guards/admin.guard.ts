@@ -5,6 +5,7 @@ import {
   ForbiddenException,
   UnauthorizedException,
 } from '@nestjs/common';
+import { UserRole } from '../../auth/dto/auth-response.dto';
 
 /**
  * AdminGuard - Role-based access control for admin endpoints
@@ -21,7 +22,7 @@ export class AdminGuard implements CanActivate {
       throw new UnauthorizedException('Authentication required');
     }
 
-    if (user.role !== 'ADMIN') {
+    if (user.role !== UserRole.ADMIN) {
       throw new ForbiddenException('Admin access required');
     }
 
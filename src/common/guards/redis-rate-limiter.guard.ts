@@ -7,6 +7,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { RedisService } from '../../redis/redis.service';
+import { ApiKeyPrincipal } from '../../api-keys/dto';
 
 /**
  * Token Bucket Rate Limiter using Redis
@@ -16,6 +17,9 @@ import { RedisService } from '../../redis/redis.service';
  * - Tokens are consumed with each request
  * - Tokens refill at a constant rate
  * - If no tokens available, request is rejected
+ *
+ * Requests authenticated by API key use a bucket per key, sized by the
+ * key's rateLimitPerMinute; user requests get 100 per minute per endpoint.
  */
 @Injectable()
 export class RedisRateLimiterGuard implements CanActivate {
@@ -26,22 +30,25 @@ export class RedisRateLimiterGuard implements CanActivate {
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const user = request.user;
+    const apiKey: ApiKeyPrincipal | undefined = request.apiKey;
 
     // Skip rate limiting for non-authenticated requests (handled by global throttler)
-    if (!user) {
+    if (!user && !apiKey) {
       return true;
     }
 
-    const userId = user.id || user.sub;
+    const subject = apiKey
+      ? `apikey:${apiKey.id}`
+      : user.userId || user.id || user.sub;
     const endpoint = `${request.method}:${request.route.path}`;
 
     // Token bucket parameters
-    const maxTokens = 100; // Maximum tokens in bucket
-    const refillRate = 100; // Tokens per minute
+    const maxTokens = apiKey?.rateLimitPerMinute ?? 100; // Maximum tokens in bucket
+    const refillRate = maxTokens; // Tokens per minute
     const refillInterval = 60; // seconds
     const tokensPerRequest = 1;
 
-    const key = `rate_limit:${userId}:${endpoint}`;
+    const key = `rate_limit:${subject}:${endpoint}`;
     const now = Date.now();
 
     try {
@@ -80,9 +87,7 @@ export class RedisRateLimiterGuard implements CanActivate {
           (tokensNeeded / refillRate) * refillInterval,
         );
 
-        this.logger.warn(
-          `Rate limit exceeded for user ${userId} on ${endpoint}`,
-        );
+        this.logger.warn(`Rate limit exceeded for ${subject} on ${endpoint}`);
 
         throw new HttpException(
           {
@@ -34,6 +34,9 @@ export class MetricsService {
   // Notification metrics
   public readonly notificationsTotal: Counter;
   public readonly notificationsFailed: Counter;
+  public readonly notificationsExpired: Counter;
+  public readonly notificationsSuppressed: Counter;
+  public readonly notificationsCapped: Counter;
   public readonly notificationsByChannel: Counter;
   public readonly notificationsByPriority: Counter;
   public readonly notificationProcessingDuration: Histogram;
@@ -107,6 +110,24 @@ export class MetricsService {
       labelNames: ['channel', 'type', 'error_reason'],
     });
 
+    this.notificationsExpired = new Counter({
+      name: 'notifications_expired_total',
+      help: 'Total number of notifications dropped after their expiresAt',
+      labelNames: ['channel', 'type', 'stage'],
+    });
+
+    this.notificationsSuppressed = new Counter({
+      name: 'notifications_suppressed_total',
+      help: 'Total number of notifications suppressed by user preferences',
+      labelNames: ['channel', 'type', 'stage'],
+    });
+
+    this.notificationsCapped = new Counter({
+      name: 'notifications_frequency_capped_total',
+      help: 'Total number of notifications over a recipient frequency cap',
+      labelNames: ['channel', 'type', 'policy'],
+    });
+
     this.notificationsByChannel = new Counter({
       name: 'notifications_by_channel_total',
       help: 'Notifications grouped by channel',
@@ -254,6 +275,42 @@ export class MetricsService {
     this.notificationsFailed.inc({ channel, type, error_reason: errorReason });
   }
 
+  /**
+   * Helper: Record notification expiry
+   * stage: where the stale message was found (main, retry, scheduled)
+   */
+  recordNotificationExpired(
+    channel: string,
+    type: string,
+    stage: string,
+  ): void {
+    this.notificationsExpired.inc({ channel, type, stage });
+  }
+
+  /**
+   * Helper: Record notification suppressed by user preferences
+   * stage: where the opt-out was detected (create, worker)
+   */
+  recordNotificationSuppressed(
+    channel: string,
+    type: string,
+    stage: string,
+  ): void {
+    this.notificationsSuppressed.inc({ channel, type, stage });
+  }
+
+  /**
+   * Helper: Record notification over a frequency cap
+   * policy: what happened to it (DROP, DEFER)
+   */
+  recordNotificationCapped(
+    channel: string,
+    type: string,
+    policy: string,
+  ): void {
+    this.notificationsCapped.inc({ channel, type, policy });
+  }
+
   /**
    * Helper: Record cache access
    */
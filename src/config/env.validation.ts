@@ -26,7 +26,8 @@ export const envValidationSchema = Joi.object({
 
   // JWT
   JWT_SECRET: Joi.string().required().min(32),
-  JWT_EXPIRATION: Joi.string().default('7d'),
+  JWT_ACCESS_TTL_SECONDS: Joi.number().integer().min(60).default(900),
+  JWT_REFRESH_TTL_DAYS: Joi.number().integer().min(1).default(30),
 
   // External Services (optional for now)
   SENDGRID_API_KEY: Joi.string().optional().allow(''),
@@ -48,8 +48,19 @@ export class ArchivalService {
         const oldNotifications = await this.prisma.notification.findMany({
           where: {
             createdAt: { lt: cutoffDate },
-            // Only archive completed notifications (SENT or FAILED)
-            status: { in: ['SENT', 'FAILED', 'DELIVERED'] },
+            // Only archive completed notifications (terminal statuses)
+            status: {
+              in: [
+                'SENT',
+                'FAILED',
+                'DELIVERED',
+                'EXPIRED',
+                'CANCELLED',
+                'SUPPRESSED',
+                'DIGESTED',
+                'SUPERSEDED',
+              ],
+            },
           },
           take: this.BATCH_SIZE,
         });
@@ -75,6 +86,7 @@ export class ArchivalService {
               status: notif.status,
               priority: notif.priority,
               scheduledFor: notif.scheduledFor,
+              expiresAt: notif.expiresAt,
               sentAt: notif.sentAt,
               deliveredAt: notif.deliveredAt,
               failedAt: notif.failedAt,
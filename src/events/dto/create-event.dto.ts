@@ -0,0 +1,41 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  Matches,
+  Allow,
+} from 'class-validator';
+
+// Lowercase dotted names; also valid template keys
+export const EVENT_TYPE_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+export class CreateEventDto {
+  /**
+   * Domain event type, e.g. "order.completed". Also the key of the template
+   * rendered for it
+   */
+  @IsString()
+  @Matches(EVENT_TYPE_PATTERN, {
+    message:
+      'type must be lowercase letters, digits, ".", "_" or "-" and start with a letter or digit',
+  })
+  type!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  userId!: string;
+
+  /**
+   * Event facts, available to templates as templateData
+   */
+  @Allow()
+  @IsObject()
+  @IsOptional()
+  payload?: Record<string, any>;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  idempotencyKey?: string;
+}
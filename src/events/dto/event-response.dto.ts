@@ -0,0 +1,27 @@
+export enum EventStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export class EventNotificationDto {
+  id!: string;
+  channel!: string;
+  status!: string;
+}
+
+export class EventResponseDto {
+  id!: string;
+  type!: string;
+  userId!: string;
+  tenantId?: string;
+  payload!: Record<string, any>;
+  status!: EventStatus;
+  idempotencyKey?: string;
+  errorMessage?: string;
+  processedAt?: Date;
+  notifications?: EventNotificationDto[]; // only on GET /events/:id
+  createdAt!: Date;
+  updatedAt!: Date;
+}
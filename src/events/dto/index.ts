@@ -0,0 +1,2 @@
+export * from './create-event.dto';
+export * from './event-response.dto';
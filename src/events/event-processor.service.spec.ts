@@ -0,0 +1,309 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventProcessorService } from './event-processor.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { KafkaConsumerService } from '../kafka/kafka-consumer.service';
+import { TemplatesService } from '../templates/templates.service';
+import { NotificationService } from '../notification/notification.service';
+import { RulesService } from '../rules/rules.service';
+import { WorkflowRunnerService } from '../workflows/workflow-runner.service';
+
+describe('EventProcessorService', () => {
+  let service: EventProcessorService;
+
+  const mockPrismaService = {
+    event: {
+      updateMany: jest.fn(),
+      update: jest.fn(),
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    user: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockKafkaConsumer = {
+    registerMessageHandler: jest.fn(),
+  };
+
+  const mockTemplatesService = {
+    getPublished: jest.fn(),
+  };
+
+  const mockNotificationService = {
+    createBatch: jest.fn(),
+  };
+
+  const mockRulesService = {
+    getRules: jest.fn(),
+    evaluate: jest.fn(),
+  };
+
+  const mockWorkflowRunner = {
+    handleEvent: jest.fn(),
+  };
+
+  const event = {
+    id: 'event-1',
+    type: 'order.completed',
+    userId: 'user-1',
+    tenantId: 'tenant-1',
+    payload: { orderId: 'order-123' },
+    status: 'processing',
+    user: {
+      email: 'user@example.com',
+      tenantId: 'tenant-1',
+      attributes: { deviceToken: 'device-1' },
+    },
+  };
+
+  const template = {
+    key: 'order.completed',
+    version: 1,
+    defaultLocale: 'en',
+    content: { EMAIL: {}, SMS: {}, PUSH: {} },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.event.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.event.findUniqueOrThrow.mockResolvedValue(event);
+    mockTemplatesService.getPublished.mockResolvedValue(template);
+    mockRulesService.getRules.mockResolvedValue([]);
+    mockNotificationService.createBatch.mockImplementation(
+      async ({ notifications }) => ({
+        results: notifications.map((_: unknown, index: number) => ({
+          index,
+          status: 'CREATED',
+        })),
+      }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventProcessorService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: KafkaConsumerService, useValue: mockKafkaConsumer },
+        { provide: TemplatesService, useValue: mockTemplatesService },
+        { provide: NotificationService, useValue: mockNotificationService },
+        { provide: RulesService, useValue: mockRulesService },
+        { provide: WorkflowRunnerService, useValue: mockWorkflowRunner },
+      ],
+    }).compile();
+
+    service = module.get<EventProcessorService>(EventProcessorService);
+  });
+
+  it('should consume the events topic', () => {
+    service.onModuleInit();
+
+    expect(mockKafkaConsumer.registerMessageHandler).toHaveBeenCalledWith(
+      'events',
+      expect.any(Function),
+    );
+  });
+
+  describe('process', () => {
+    it('should notify on every template channel the user is reachable on', async () => {
+      await expect(service.process('event-1')).resolves.toBe(true);
+
+      const [dto, origin] = mockNotificationService.createBatch.mock.calls[0];
+      expect(origin).toEqual({ eventId: 'event-1', causationId: 'event-1' });
+      // No phone number, so no SMS
+      expect(dto.notifications).toEqual([
+        expect.objectContaining({
+          channel: 'EMAIL',
+          tenantId: 'tenant-1',
+          idempotencyKey: 'event:event-1:EMAIL',
+          payload: expect.objectContaining({
+            to: 'user@example.com',
+            template: 'order.completed',
+            templateData: { orderId: 'order-123' },
+          }),
+        }),
+        expect.objectContaining({
+          channel: 'PUSH',
+          idempotencyKey: 'event:event-1:PUSH',
+          payload: expect.objectContaining({ deviceToken: 'device-1' }),
+        }),
+      ]);
+      expect(mockPrismaService.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({
+          status: 'completed',
+          errorMessage: null,
+        }),
+      });
+    });
+
+    it('should complete without notifications when there is no template', async () => {
+      mockTemplatesService.getPublished.mockResolvedValue(null);
+
+      await service.process('event-1');
+
+      expect(mockNotificationService.createBatch).not.toHaveBeenCalled();
+      expect(mockPrismaService.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({ status: 'completed' }),
+      });
+    });
+
+    it('should hand the event to workflows', async () => {
+      mockTemplatesService.getPublished.mockResolvedValue(null);
+
+      await service.process('event-1');
+
+      expect(mockWorkflowRunner.handleEvent).toHaveBeenCalledWith(event);
+      expect(mockPrismaService.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({ status: 'completed' }),
+      });
+    });
+
+    it('should notify from matching tenant rules instead of the template', async () => {
+      const scheduledFor = new Date('2026-01-01T10:00:00.000Z');
+      mockRulesService.getRules.mockResolvedValue([
+        { id: 'rule-1' },
+        { id: 'rule-2' },
+        { id: 'rule-3' },
+      ]);
+      mockRulesService.evaluate
+        .mockReturnValueOnce({
+          ruleId: 'rule-1',
+          matched: true,
+          action: {
+            recipientId: 'seller-1',
+            channels: ['EMAIL', 'SMS'],
+            template: 'order.seller-alert',
+            type: 'TRANSACTIONAL',
+            priority: 'HIGH',
+            scheduledFor,
+          },
+        })
+        .mockReturnValueOnce({
+          ruleId: 'rule-2',
+          matched: false,
+          reason: 'Rule is disabled',
+        })
+        .mockReturnValueOnce({
+          ruleId: 'rule-3',
+          matched: true,
+          action: {
+            recipientId: 'user-1',
+            channels: ['PUSH'],
+            template: 'order.receipt',
+            type: 'TRANSACTIONAL',
+            priority: 'MEDIUM',
+          },
+        });
+      mockPrismaService.user.findFirst.mockResolvedValue({
+        email: 'seller@example.com',
+        tenantId: 'tenant-1',
+        attributes: {},
+      });
+
+      await service.process('event-1');
+
+      expect(mockRulesService.getRules).toHaveBeenCalledWith(
+        'tenant-1',
+        'order.completed',
+      );
+      expect(mockTemplatesService.getPublished).not.toHaveBeenCalled();
+      expect(mockPrismaService.user.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'seller-1', tenantId: 'tenant-1' },
+        }),
+      );
+
+      // The seller has no phone number, so no SMS
+      const [dto] = mockNotificationService.createBatch.mock.calls[0];
+      expect(dto.notifications).toEqual([
+        expect.objectContaining({
+          userId: 'seller-1',
+          channel: 'EMAIL',
+          priority: 'HIGH',
+          scheduledFor: '2026-01-01T10:00:00.000Z',
+          idempotencyKey: 'event:event-1:rule-1:EMAIL',
+          payload: expect.objectContaining({
+            to: 'seller@example.com',
+            template: 'order.seller-alert',
+            templateData: { orderId: 'order-123' },
+          }),
+        }),
+        expect.objectContaining({
+          userId: 'user-1',
+          channel: 'PUSH',
+          idempotencyKey: 'event:event-1:rule-3:PUSH',
+          payload: expect.objectContaining({ template: 'order.receipt' }),
+        }),
+      ]);
+    });
+
+    it('should skip rules whose recipient is not in the tenant', async () => {
+      mockRulesService.getRules.mockResolvedValue([{ id: 'rule-1' }]);
+      mockRulesService.evaluate.mockReturnValue({
+        ruleId: 'rule-1',
+        matched: true,
+        action: {
+          recipientId: 'other-tenant-user',
+          channels: ['EMAIL'],
+          template: 'order.seller-alert',
+          type: 'TRANSACTIONAL',
+          priority: 'MEDIUM',
+        },
+      });
+      mockPrismaService.user.findFirst.mockResolvedValue(null);
+
+      await service.process('event-1');
+
+      expect(mockNotificationService.createBatch).not.toHaveBeenCalled();
+      expect(mockPrismaService.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({ status: 'completed' }),
+      });
+    });
+
+    it('should fail the event when no notification could be created', async () => {
+      mockNotificationService.createBatch.mockResolvedValue({
+        results: [
+          { index: 0, status: 'FAILED', errors: ['Missing variable total'] },
+          { index: 1, status: 'FAILED', errors: ['Missing variable total'] },
+        ],
+      });
+
+      await service.process('event-1');
+
+      expect(mockPrismaService.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({
+          status: 'failed',
+          errorMessage:
+            'EMAIL: Missing variable total; PUSH: Missing variable total',
+        }),
+      });
+    });
+
+    it('should skip events that are already claimed or processed', async () => {
+      mockPrismaService.event.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.process('event-1')).resolves.toBe(false);
+
+      expect(mockPrismaService.event.findUniqueOrThrow).not.toHaveBeenCalled();
+      expect(mockNotificationService.createBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recoverStale', () => {
+    it('should process events that were never consumed', async () => {
+      mockPrismaService.event.findMany.mockResolvedValue([{ id: 'event-1' }]);
+
+      await expect(service.recoverStale()).resolves.toBe(1);
+
+      expect(mockPrismaService.event.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: 'event-1' }),
+        }),
+      );
+    });
+  });
+});
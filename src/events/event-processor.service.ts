@@ -0,0 +1,379 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Event, NotificationRule } from '@prisma/client';
+import { EachMessagePayload } from 'kafkajs';
+import { PrismaService } from '../prisma/prisma.service';
+import { KafkaConsumerService } from '../kafka/kafka-consumer.service';
+import { KAFKA_TOPICS } from '../common/constants';
+import { TemplatesService } from '../templates/templates.service';
+import { NotificationService } from '../notification/notification.service';
+import { RulesService } from '../rules/rules.service';
+import { WorkflowRunnerService } from '../workflows/workflow-runner.service';
+import {
+  BatchItemStatus,
+  CreateNotificationDto,
+  NotificationChannel,
+  NotificationPriority,
+  NotificationType,
+} from '../notification/dto';
+import { Recipient, getContact, getLocale } from '../notification/recipient';
+import { EventStatus } from './dto';
+
+type EventRecipient = Recipient & { tenantId: string | null };
+
+type EventWithRecipient = Event & { user: EventRecipient };
+
+// Channels an event can notify on; the recipient's address comes from the user
+const EVENT_CHANNELS: string[] = [
+  NotificationChannel.EMAIL,
+  NotificationChannel.SMS,
+  NotificationChannel.PUSH,
+  NotificationChannel.IN_APP,
+];
+
+/**
+ * EventProcessorService - Turns ingested domain events into notifications
+ *
+ * Flow:
+ * - Consumes the 'events' topic and claims the event (pending -> processing)
+ * - If the tenant has enabled rules for the event type, every matching rule
+ *   notifies its recipient on its channels (see RulesService)
+ * - Otherwise renders the published template whose key is the event type,
+ *   with the event payload as templateData, on every channel the template
+ *   defines and the user has an address for
+ * - Creates the notifications through NotificationService.createBatch with
+ *   eventId / causationId set
+ * - Hands the event to WorkflowRunnerService, which starts, resumes and
+ *   cancels the user's workflow runs
+ * - Marks the event completed (or failed)
+ *
+ * Events no rule matches, or without rules and a published template,
+ * complete without notifications.
+ *
+ * Reliability: notification idempotency keys are derived from the event
+ * ID, rule and channel, and an event starts a workflow at most once, so
+ * reprocessing never duplicates notifications. A sweep picks up events
+ * whose Kafka message was lost and events stuck in processing after a
+ * crash.
+ */
+@Injectable()
+export class EventProcessorService implements OnModuleInit {
+  private readonly logger = new Logger(EventProcessorService.name);
+  private readonly BATCH_SIZE = 100;
+  // Pending events older than this were never consumed from Kafka
+  private readonly UNCONSUMED_MS = 60 * 1000;
+  // Processing events older than this belong to a crashed instance
+  private readonly STALE_MS = 5 * 60 * 1000;
+  private isRecovering = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly kafkaConsumer: KafkaConsumerService,
+    private readonly templates: TemplatesService,
+    private readonly notificationService: NotificationService,
+    private readonly rules: RulesService,
+    private readonly workflowRunner: WorkflowRunnerService,
+  ) {}
+
+  onModuleInit() {
+    this.kafkaConsumer.registerMessageHandler(
+      KAFKA_TOPICS.EVENTS,
+      this.handleEvent.bind(this),
+    );
+  }
+
+  /**
+   * Kafka handler for the 'events' topic
+   */
+  async handleEvent(payload: EachMessagePayload): Promise<void> {
+    const value = payload.message.value?.toString();
+    if (!value) {
+      this.logger.warn('Received empty event message, skipping');
+      return;
+    }
+
+    let id: string | undefined;
+    try {
+      id = JSON.parse(value).id;
+    } catch {
+      // Handled below
+    }
+
+    if (!id) {
+      this.logger.error(`Invalid event message, skipping: ${value}`);
+      return;
+    }
+
+    await this.process(id);
+  }
+
+  /**
+   * Claim an event and create its notifications
+   * Returns false if the event was already claimed or processed
+   */
+  async process(eventId: string): Promise<boolean> {
+    const claim = await this.prisma.event.updateMany({
+      where: {
+        id: eventId,
+        OR: [
+          { status: EventStatus.PENDING },
+          {
+            status: EventStatus.PROCESSING,
+            updatedAt: { lt: new Date(Date.now() - this.STALE_MS) },
+          },
+        ],
+      },
+      data: { status: EventStatus.PROCESSING },
+    });
+
+    if (claim.count === 0) {
+      this.logger.debug(`Event ${eventId} already processed, skipping`);
+      return false;
+    }
+
+    const event = await this.prisma.event.findUniqueOrThrow({
+      where: { id: eventId },
+      include: {
+        user: { select: { email: true, tenantId: true, attributes: true } },
+      },
+    });
+
+    try {
+      const notifications = await this.buildNotifications(event);
+      const result =
+        notifications.length > 0
+          ? await this.notificationService.createBatch(
+              { notifications },
+              { eventId: event.id, causationId: event.id },
+            )
+          : null;
+
+      await this.workflowRunner.handleEvent(event);
+
+      const failed =
+        result?.results.filter((r) => r.status === BatchItemStatus.FAILED) ??
+        [];
+      const errorMessage =
+        failed.length > 0
+          ? failed
+              .map(
+                (r) =>
+                  `${notifications[r.index].channel}: ${r.errors?.join(', ')}`,
+              )
+              .join('; ')
+          : null;
+
+      await this.prisma.event.update({
+        where: { id: event.id },
+        data: {
+          status:
+            failed.length > 0 && failed.length === notifications.length
+              ? EventStatus.FAILED
+              : EventStatus.COMPLETED,
+          errorMessage,
+          processedAt: new Date(),
+        },
+      });
+
+      this.logger.log(
+        `Processed event ${event.id} (${event.type}): ${notifications.length - failed.length}/${notifications.length} notifications`,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to process event ${event.id}:`, error);
+
+      await this.prisma.event.update({
+        where: { id: event.id },
+        data: {
+          status: EventStatus.FAILED,
+          errorMessage: error instanceof Error ? error.message : String(error),
+          processedAt: new Date(),
+        },
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Process events whose Kafka message was lost, or whose processing was
+   * interrupted. Runs every minute
+   */
+  @Interval(60000)
+  async recoverStale(): Promise<number> {
+    // Skip if the previous tick is still running
+    if (this.isRecovering) {
+      return 0;
+    }
+
+    this.isRecovering = true;
+    let recovered = 0;
+
+    try {
+      const now = Date.now();
+      const events = await this.prisma.event.findMany({
+        where: {
+          OR: [
+            {
+              status: EventStatus.PENDING,
+              createdAt: { lt: new Date(now - this.UNCONSUMED_MS) },
+            },
+            {
+              status: EventStatus.PROCESSING,
+              updatedAt: { lt: new Date(now - this.STALE_MS) },
+            },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+        take: this.BATCH_SIZE,
+      });
+
+      for (const { id } of events) {
+        if (await this.process(id)) {
+          recovered++;
+        }
+      }
+
+      if (recovered > 0) {
+        this.logger.warn(`Recovered ${recovered} unprocessed events`);
+      }
+    } catch (error) {
+      this.logger.error('Event recovery failed:', error);
+    } finally {
+      this.isRecovering = false;
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Notifications from the tenant's rules for the event type, or from the
+   * event type's template when the tenant has none
+   */
+  private async buildNotifications(
+    event: EventWithRecipient,
+  ): Promise<CreateNotificationDto[]> {
+    if (event.tenantId) {
+      const rules = await this.rules.getRules(event.tenantId, event.type);
+      if (rules.length > 0) {
+        return this.buildFromRules(event, rules);
+      }
+    }
+
+    return this.buildFromTemplate(event);
+  }
+
+  /**
+   * One notification per channel of every matching rule that its recipient
+   * can be reached on
+   */
+  private async buildFromRules(
+    event: EventWithRecipient,
+    rules: NotificationRule[],
+  ): Promise<CreateNotificationDto[]> {
+    const notifications: CreateNotificationDto[] = [];
+
+    for (const rule of rules) {
+      const { matched, reason, action } = this.rules.evaluate(rule, event);
+      if (!matched || !action) {
+        this.logger.debug(
+          `Rule ${rule.id} did not match event ${event.id}: ${reason}`,
+        );
+        continue;
+      }
+
+      const recipient = await this.getRecipient(event, action.recipientId);
+      if (!recipient) {
+        this.logger.warn(
+          `Rule ${rule.id} recipient ${action.recipientId} not found in tenant ${event.tenantId}, skipping`,
+        );
+        continue;
+      }
+
+      for (const channel of action.channels) {
+        const contact = getContact(channel, recipient);
+        if (!contact) {
+          continue;
+        }
+
+        notifications.push({
+          userId: action.recipientId,
+          tenantId: event.tenantId ?? undefined,
+          channel: channel as NotificationChannel,
+          type: action.type as NotificationType,
+          priority: action.priority as NotificationPriority,
+          payload: {
+            ...contact,
+            template: action.template,
+            templateData: event.payload,
+            locale: getLocale(recipient),
+          },
+          scheduledFor: action.scheduledFor?.toISOString(),
+          idempotencyKey: `event:${event.id}:${rule.id}:${channel}`,
+          correlationId: event.id,
+        });
+      }
+    }
+
+    return notifications;
+  }
+
+  /**
+   * One notification per channel of the event type's template that the
+   * user can be reached on
+   */
+  private async buildFromTemplate(
+    event: EventWithRecipient,
+  ): Promise<CreateNotificationDto[]> {
+    const template = await this.templates.getPublished(event.type);
+    if (!template) {
+      this.logger.debug(
+        `No published template for event type ${event.type}, nothing to send`,
+      );
+      return [];
+    }
+
+    const notifications: CreateNotificationDto[] = [];
+
+    for (const channel of Object.keys(template.content)) {
+      const contact = getContact(channel, event.user);
+      if (!EVENT_CHANNELS.includes(channel) || !contact) {
+        continue;
+      }
+
+      notifications.push({
+        userId: event.userId,
+        tenantId: event.tenantId ?? undefined,
+        channel: channel as NotificationChannel,
+        type: NotificationType.TRANSACTIONAL,
+        payload: {
+          ...contact,
+          template: event.type,
+          templateData: event.payload,
+          locale: getLocale(event.user),
+        },
+        idempotencyKey: `event:${event.id}:${channel}`,
+        correlationId: event.id,
+      });
+    }
+
+    return notifications;
+  }
+
+  /**
+   * The event's user, or another user of the same tenant named by a rule
+   */
+  private async getRecipient(
+    event: EventWithRecipient,
+    userId: string,
+  ): Promise<EventRecipient | null> {
+    if (userId === event.userId) {
+      return event.user;
+    }
+
+    return this.prisma.user.findFirst({
+      where: { id: userId, tenantId: event.tenantId },
+      select: { email: true, tenantId: true, attributes: true },
+    });
+  }
+}
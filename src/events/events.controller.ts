@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { EventsService } from './events.service';
+import { CreateEventDto, EventResponseDto } from './dto';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { ApiKeyGuard } from '../api-keys/guards/api-key.guard';
+import { ApiKeyScopes } from '../api-keys/decorators/api-key-scopes.decorator';
+import { ApiKeyPrincipal, ApiKeyScope } from '../api-keys/dto';
+import { ApiKeyRateLimiterGuard } from '../api-keys/guards/api-key-rate-limiter.guard';
+
+/**
+ * EventsController - Domain event ingestion
+ *
+ * Upstream systems post facts; notifications are derived asynchronously.
+ * Ingestion also accepts API keys with the events:write scope, for users
+ * of the key's tenant. Only API key requests are rate limited.
+ */
+@Controller('events')
+@UseGuards(ApiKeyGuard, ApiKeyRateLimiterGuard)
+export class EventsController {
+  constructor(
+    private readonly eventsService: EventsService,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  /**
+   * Ingest a domain event, e.g. order.completed
+   * POST /events
+   */
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiKeyScopes(ApiKeyScope.EVENTS_WRITE)
+  async create(
+    @Body() createEventDto: CreateEventDto,
+    @Request() req: { apiKey?: ApiKeyPrincipal },
+  ): Promise<EventResponseDto> {
+    if (req.apiKey) {
+      await this.apiKeysService.assertUsersInTenant(req.apiKey.tenantId, [
+        createEventDto.userId,
+      ]);
+    }
+
+    return await this.eventsService.ingest(createEventDto);
+  }
+
+  /**
+   * Get event status and the notifications it produced
+   * GET /events/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<EventResponseDto> {
+    return await this.eventsService.findOne(id);
+  }
+}
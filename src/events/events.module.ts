@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { EventsController } from './events.controller';
+import { EventsService } from './events.service';
+import { EventProcessorService } from './event-processor.service';
+import { NotificationModule } from '../notification/notification.module';
+import { TemplatesModule } from '../templates/templates.module';
+import { RulesModule } from '../rules/rules.module';
+import { WorkflowsModule } from '../workflows/workflows.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+
+/**
+ * EventsModule - Domain events in, notifications out
+ *
+ * Features:
+ * - Event ingestion with idempotency keys and status tracking
+ * - Publication on the 'events' Kafka topic
+ * - Event processor creating notifications linked by eventId
+ * - Tenant routing rules, falling back to the template named after the type
+ * - Workflow runs started, resumed and cancelled by events
+ * - Ingestion by user JWT or tenant API key
+ */
+@Module({
+  imports: [
+    NotificationModule,
+    TemplatesModule,
+    RulesModule,
+    WorkflowsModule,
+    ApiKeysModule,
+  ],
+  controllers: [EventsController],
+  providers: [EventsService, EventProcessorService],
+  exports: [EventsService],
+})
+export class EventsModule {}
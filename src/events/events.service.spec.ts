@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { EventsService } from './events.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { KafkaProducerService } from '../kafka/kafka-producer.service';
+
+describe('EventsService', () => {
+  let service: EventsService;
+
+  const mockPrismaService = {
+    event: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const mockKafkaProducer = {
+    sendToTopic: jest.fn(),
+  };
+
+  const buildEvent = (overrides: Record<string, unknown> = {}) => ({
+    id: 'event-1',
+    type: 'order.completed',
+    userId: 'user-1',
+    tenantId: 'tenant-1',
+    payload: { orderId: 'order-123' },
+    status: 'pending',
+    idempotencyKey: null,
+    errorMessage: null,
+    processedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.user.findUnique.mockResolvedValue({
+      tenantId: 'tenant-1',
+    });
+    mockPrismaService.event.create.mockImplementation(async ({ data }) =>
+      buildEvent(data),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: KafkaProducerService, useValue: mockKafkaProducer },
+      ],
+    }).compile();
+
+    service = module.get<EventsService>(EventsService);
+  });
+
+  describe('ingest', () => {
+    const dto = {
+      type: 'order.completed',
+      userId: 'user-1',
+      payload: { orderId: 'order-123' },
+    };
+
+    it('should persist the event as pending and publish it', async () => {
+      const result = await service.ingest(dto);
+
+      expect(mockPrismaService.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'order.completed',
+          userId: 'user-1',
+          tenantId: 'tenant-1',
+          status: 'pending',
+        }),
+      });
+      expect(mockKafkaProducer.sendToTopic).toHaveBeenCalledWith(
+        'events',
+        'user-1',
+        expect.objectContaining({
+          id: 'event-1',
+          type: 'order.completed',
+          payload: { orderId: 'order-123' },
+        }),
+        { 'event-type': 'order.completed' },
+      );
+      expect(result).toMatchObject({ id: 'event-1', status: 'pending' });
+    });
+
+    it('should keep the event when publishing fails', async () => {
+      mockKafkaProducer.sendToTopic.mockRejectedValue(
+        new Error('Broker not available'),
+      );
+
+      await expect(service.ingest(dto)).resolves.toMatchObject({
+        id: 'event-1',
+        status: 'pending',
+      });
+    });
+
+    it('should return the original event for a repeated idempotency key', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(
+        buildEvent({ idempotencyKey: 'order-123', status: 'completed' }),
+      );
+
+      const result = await service.ingest({
+        ...dto,
+        idempotencyKey: 'order-123',
+      });
+
+      expect(result).toMatchObject({ id: 'event-1', status: 'completed' });
+      expect(mockPrismaService.event.create).not.toHaveBeenCalled();
+      expect(mockKafkaProducer.sendToTopic).not.toHaveBeenCalled();
+    });
+
+    it('should return the winning event when a concurrent request used the same key', async () => {
+      mockPrismaService.event.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(
+          buildEvent({ id: 'event-0', idempotencyKey: 'order-123' }),
+        );
+      mockPrismaService.event.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      const result = await service.ingest({
+        ...dto,
+        idempotencyKey: 'order-123',
+      });
+
+      expect(result).toMatchObject({ id: 'event-0', status: 'pending' });
+      expect(mockKafkaProducer.sendToTopic).not.toHaveBeenCalled();
+    });
+
+    it("should not return another tenant's event for a repeated key", async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(
+        buildEvent({ idempotencyKey: 'order-123', tenantId: 'tenant-2' }),
+      );
+
+      await expect(
+        service.ingest({ ...dto, idempotencyKey: 'order-123' }),
+      ).rejects.toThrow(
+        new ConflictException('Idempotency key is already in use'),
+      );
+      expect(mockPrismaService.event.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject events for unknown users', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.ingest(dto)).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.event.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should include the notifications the event produced', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue({
+        ...buildEvent({ status: 'completed' }),
+        notifications: [{ id: 'notif-1', channel: 'EMAIL', status: 'SENT' }],
+      });
+
+      await expect(service.findOne('event-1')).resolves.toMatchObject({
+        id: 'event-1',
+        notifications: [{ id: 'notif-1', channel: 'EMAIL', status: 'SENT' }],
+      });
+    });
+
+    it('should throw NotFoundException for unknown events', async () => {
+      mockPrismaService.event.findUnique.mockResolvedValue(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
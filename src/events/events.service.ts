@@ -0,0 +1,191 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Event, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { KafkaProducerService } from '../kafka/kafka-producer.service';
+import { DomainEventMessage } from '../kafka/schemas/event.schema';
+import { KAFKA_TOPICS } from '../common/constants';
+import { CreateEventDto, EventResponseDto, EventStatus } from './dto';
+
+/**
+ * EventsService - Ingests domain events from upstream systems
+ *
+ * Upstream systems report facts ("order.completed") instead of composing
+ * notifications. Each event is persisted as pending and announced on the
+ * 'events' topic; EventProcessorService turns it into notifications.
+ *
+ * The row is written first, so an event is never lost if the Kafka send
+ * fails - the processor's sweep picks up events left pending.
+ */
+@Injectable()
+export class EventsService {
+  private readonly logger = new Logger(EventsService.name);
+  private readonly SCHEMA_VERSION = '1.0.0';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly kafkaProducer: KafkaProducerService,
+  ) {}
+
+  /**
+   * Persist an event and publish it for processing
+   * Repeated idempotency keys return the original event
+   */
+  async ingest(dto: CreateEventDto): Promise<EventResponseDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: dto.userId },
+      select: { tenantId: true },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${dto.userId} not found`);
+    }
+
+    if (dto.idempotencyKey) {
+      const existing = await this.findDuplicate(
+        dto.idempotencyKey,
+        user.tenantId,
+      );
+      if (existing) {
+        return this.mapToResponseDto(existing);
+      }
+    }
+
+    let event: Event;
+    try {
+      event = await this.prisma.event.create({
+        data: {
+          type: dto.type,
+          userId: dto.userId,
+          tenantId: user.tenantId,
+          payload: dto.payload ?? {},
+          status: EventStatus.PENDING,
+          idempotencyKey: dto.idempotencyKey,
+        },
+      });
+    } catch (error) {
+      // A concurrent request with the same key won the unique constraint
+      if (
+        dto.idempotencyKey &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const existing = await this.findDuplicate(
+          dto.idempotencyKey,
+          user.tenantId,
+        );
+        if (existing) {
+          return this.mapToResponseDto(existing);
+        }
+      }
+      throw error;
+    }
+
+    await this.publish(event);
+
+    this.logger.log(
+      `Event ingested: ${event.id} (${event.type}, user ${event.userId})`,
+    );
+
+    return this.mapToResponseDto(event);
+  }
+
+  /**
+   * Event already ingested under an idempotency key, if any
+   * Keys are unique across tenants, so another tenant's event is a conflict
+   * rather than a duplicate
+   */
+  private async findDuplicate(
+    idempotencyKey: string,
+    tenantId: string | null,
+  ): Promise<Event | null> {
+    const existing = await this.prisma.event.findUnique({
+      where: { idempotencyKey },
+    });
+    if (!existing) {
+      return null;
+    }
+
+    if (existing.tenantId !== tenantId) {
+      throw new ConflictException('Idempotency key is already in use');
+    }
+
+    this.logger.log(
+      `Duplicate event detected for idempotency key: ${idempotencyKey}`,
+    );
+    return existing;
+  }
+
+  /**
+   * Get an event with the notifications it produced
+   */
+  async findOne(id: string): Promise<EventResponseDto> {
+    const event = await this.prisma.event.findUnique({
+      where: { id },
+      include: {
+        notifications: {
+          select: { id: true, channel: true, status: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${id} not found`);
+    }
+
+    return {
+      ...this.mapToResponseDto(event),
+      notifications: event.notifications,
+    };
+  }
+
+  /**
+   * Announce an event on the 'events' topic
+   * Failures are logged only; the event stays pending for the sweep
+   */
+  async publish(event: Event): Promise<void> {
+    const message: DomainEventMessage = {
+      id: event.id,
+      version: this.SCHEMA_VERSION,
+      timestamp: Date.now(),
+      type: event.type,
+      userId: event.userId,
+      tenantId: event.tenantId ?? undefined,
+      payload: event.payload as Record<string, unknown>,
+    };
+
+    try {
+      await this.kafkaProducer.sendToTopic(
+        KAFKA_TOPICS.EVENTS,
+        event.userId, // Partition by userId for ordering
+        message,
+        { 'event-type': event.type },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish event ${event.id}, leaving it for the sweep:`,
+        error,
+      );
+    }
+  }
+
+  private mapToResponseDto(event: Event): EventResponseDto {
+    return {
+      id: event.id,
+      type: event.type,
+      userId: event.userId,
+      tenantId: event.tenantId ?? undefined,
+      payload: event.payload as Record<string, any>,
+      status: event.status as EventStatus,
+      idempotencyKey: event.idempotencyKey ?? undefined,
+      errorMessage: event.errorMessage ?? undefined,
+      processedAt: event.processedAt ?? undefined,
+      createdAt: event.createdAt,
+      updatedAt: event.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export const MAX_INBOX_PAGE_SIZE = 100;
+
+export class InboxQueryDto {
+  /**
+   * ID of the last item of the previous page
+   */
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_INBOX_PAGE_SIZE)
+  @IsOptional()
+  limit?: number;
+
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  unreadOnly?: boolean;
+
+  /**
+   * List archived items instead of the inbox
+   */
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  archived?: boolean;
+}
+
+export class InboxItemResponseDto {
+  id!: string;
+  notificationId!: string;
+  title!: string;
+  body!: string;
+  data?: Record<string, unknown>;
+  actionUrl?: string;
+  readAt?: Date;
+  archivedAt?: Date;
+  createdAt!: Date;
+}
+
+export class InboxPageResponseDto {
+  items!: InboxItemResponseDto[];
+  nextCursor?: string; // absent on the last page
+}
+
+export class UnreadCountResponseDto {
+  unread!: number;
+}
@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Request,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { InboxService } from './inbox.service';
+import {
+  InboxQueryDto,
+  InboxItemResponseDto,
+  InboxPageResponseDto,
+  UnreadCountResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+type AuthenticatedRequest = { user: { userId: string } };
+
+/**
+ * InboxController - The authenticated user's in-app inbox
+ *
+ * All endpoints require JWT authentication and only touch the caller's items
+ */
+@Controller('me/inbox')
+@UseGuards(JwtAuthGuard)
+export class InboxController {
+  constructor(private readonly inboxService: InboxService) {}
+
+  /**
+   * List inbox items (cursor pagination)
+   * GET /me/inbox?cursor=&limit=&unreadOnly=&archived=
+   */
+  @Get()
+  async findAll(
+    @Request() req: AuthenticatedRequest,
+    @Query() query: InboxQueryDto,
+  ): Promise<InboxPageResponseDto> {
+    return await this.inboxService.findAll(req.user.userId, query);
+  }
+
+  /**
+   * Unread item count
+   * GET /me/inbox/unread-count
+   */
+  @Get('unread-count')
+  async getUnreadCount(
+    @Request() req: AuthenticatedRequest,
+  ): Promise<UnreadCountResponseDto> {
+    return {
+      unread: await this.inboxService.getUnreadCount(req.user.userId),
+    };
+  }
+
+  /**
+   * Mark every item read
+   * POST /me/inbox/read-all
+   */
+  @Post('read-all')
+  @HttpCode(HttpStatus.OK)
+  async markAllRead(
+    @Request() req: AuthenticatedRequest,
+  ): Promise<{ updated: number }> {
+    return { updated: await this.inboxService.markAllRead(req.user.userId) };
+  }
+
+  /**
+   * Mark one item read
+   * POST /me/inbox/:id/read
+   */
+  @Post(':id/read')
+  @HttpCode(HttpStatus.OK)
+  async markRead(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<InboxItemResponseDto> {
+    return await this.inboxService.markRead(req.user.userId, id);
+  }
+
+  /**
+   * Archive one item
+   * POST /me/inbox/:id/archive
+   */
+  @Post(':id/archive')
+  @HttpCode(HttpStatus.OK)
+  async archive(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ): Promise<InboxItemResponseDto> {
+    return await this.inboxService.archive(req.user.userId, id);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { InboxController } from './inbox.controller';
+import { InboxService } from './inbox.service';
+
+/**
+ * InboxModule - In-app notification inbox
+ *
+ * Features:
+ * - Storage for IN_APP deliveries
+ * - Paginated inbox with read / archive state
+ * - Redis-backed unread counter
+ */
+@Module({
+  controllers: [InboxController],
+  providers: [InboxService],
+  exports: [InboxService],
+})
+export class InboxModule {}
@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { InboxService } from './inbox.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+
+describe('InboxService', () => {
+  let service: InboxService;
+
+  const mockPrismaService = {
+    inboxItem: {
+      createMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+
+  const mockRedisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+    incrByIfExists: jest.fn(),
+  };
+
+  const buildItem = (overrides: Record<string, unknown> = {}) => ({
+    id: 'item-1',
+    userId: 'user-1',
+    notificationId: 'notif-1',
+    title: 'Hello',
+    body: 'World',
+    data: null,
+    actionUrl: null,
+    readAt: null,
+    archivedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InboxService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: mockRedisService },
+      ],
+    }).compile();
+
+    service = module.get<InboxService>(InboxService);
+  });
+
+  describe('deliver', () => {
+    const delivery = {
+      notificationId: 'notif-1',
+      userId: 'user-1',
+      title: 'Hello',
+      body: 'World',
+    };
+
+    beforeEach(() => {
+      mockPrismaService.inboxItem.findUniqueOrThrow.mockResolvedValue({
+        id: 'item-1',
+      });
+    });
+
+    it('should store the item and bump the unread counter', async () => {
+      mockPrismaService.inboxItem.createMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.deliver(delivery)).resolves.toBe('item-1');
+      expect(mockRedisService.incrByIfExists).toHaveBeenCalledWith(
+        'inbox:unread:user-1',
+        1,
+      );
+    });
+
+    it('should not count redeliveries twice', async () => {
+      mockPrismaService.inboxItem.createMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.deliver(delivery)).resolves.toBe('item-1');
+      expect(mockRedisService.incrByIfExists).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return a cursor when there is another page', async () => {
+      mockPrismaService.inboxItem.findMany.mockResolvedValue([
+        buildItem({ id: 'item-3' }),
+        buildItem({ id: 'item-2' }),
+        buildItem({ id: 'item-1' }),
+      ]);
+
+      const page = await service.findAll('user-1', {
+        limit: 2,
+        cursor: 'item-4',
+      });
+
+      expect(page.items.map((i) => i.id)).toEqual(['item-3', 'item-2']);
+      expect(page.nextCursor).toBe('item-2');
+      expect(mockPrismaService.inboxItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1', archivedAt: null },
+          take: 3,
+          cursor: { id: 'item-4' },
+          skip: 1,
+        }),
+      );
+    });
+
+    it('should omit the cursor on the last page', async () => {
+      mockPrismaService.inboxItem.findMany.mockResolvedValue([buildItem()]);
+
+      const page = await service.findAll('user-1', { unreadOnly: true });
+
+      expect(page.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('getUnreadCount', () => {
+    it('should use the cached counter', async () => {
+      mockRedisService.get.mockResolvedValue(4);
+
+      await expect(service.getUnreadCount('user-1')).resolves.toBe(4);
+      expect(mockPrismaService.inboxItem.count).not.toHaveBeenCalled();
+    });
+
+    it('should recount and cache when the counter is missing', async () => {
+      mockRedisService.get.mockResolvedValue(null);
+      mockPrismaService.inboxItem.count.mockResolvedValue(7);
+
+      await expect(service.getUnreadCount('user-1')).resolves.toBe(7);
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        'inbox:unread:user-1',
+        7,
+        86400,
+      );
+    });
+  });
+
+  describe('markRead', () => {
+    it('should decrement the counter only on the first read', async () => {
+      mockPrismaService.inboxItem.findFirst.mockResolvedValue(
+        buildItem({ readAt: new Date() }),
+      );
+
+      mockPrismaService.inboxItem.updateMany.mockResolvedValue({ count: 1 });
+      await service.markRead('user-1', 'item-1');
+      mockPrismaService.inboxItem.updateMany.mockResolvedValue({ count: 0 });
+      await service.markRead('user-1', 'item-1');
+
+      expect(mockRedisService.incrByIfExists).toHaveBeenCalledTimes(1);
+      expect(mockRedisService.incrByIfExists).toHaveBeenCalledWith(
+        'inbox:unread:user-1',
+        -1,
+      );
+    });
+
+    it("should not touch other users' items", async () => {
+      mockPrismaService.inboxItem.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.inboxItem.findFirst.mockResolvedValue(null);
+
+      await expect(service.markRead('user-2', 'item-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('archive', () => {
+    it('should not decrement the counter for items already read', async () => {
+      mockPrismaService.inboxItem.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.inboxItem.findFirst.mockResolvedValue(
+        buildItem({ readAt: new Date(), archivedAt: new Date() }),
+      );
+
+      await service.archive('user-1', 'item-1');
+
+      expect(mockRedisService.incrByIfExists).not.toHaveBeenCalled();
+    });
+  });
+});
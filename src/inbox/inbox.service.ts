@@ -0,0 +1,207 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InboxItem, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import {
+  InboxQueryDto,
+  InboxItemResponseDto,
+  InboxPageResponseDto,
+} from './dto';
+
+export interface InboxDelivery {
+  notificationId: string;
+  userId: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  actionUrl?: string;
+}
+
+/**
+ * InboxService - Per-user inbox for the IN_APP channel
+ *
+ * Features:
+ * - Delivery stores one inbox item per notification (redelivery is a no-op)
+ * - Cursor pagination, newest first
+ * - Mark read / mark all read / archive
+ * - Unread count (unread, not archived) cached as a Redis counter
+ *
+ * The counter is only adjusted while cached; when absent it is recounted
+ * from the database, so it self-heals after expiry or a missed update.
+ */
+@Injectable()
+export class InboxService {
+  private readonly logger = new Logger(InboxService.name);
+  private readonly DEFAULT_PAGE_SIZE = 20;
+  private readonly COUNTER_TTL = 86400; // 24 hours
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+  ) {}
+
+  /**
+   * Store a delivered in-app notification
+   * Returns the inbox item ID
+   */
+  async deliver(delivery: InboxDelivery): Promise<string> {
+    const result = await this.prisma.inboxItem.createMany({
+      data: [
+        {
+          userId: delivery.userId,
+          notificationId: delivery.notificationId,
+          title: delivery.title,
+          body: delivery.body,
+          data: delivery.data as Prisma.InputJsonValue | undefined,
+          actionUrl: delivery.actionUrl,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    if (result.count > 0) {
+      await this.redis.incrByIfExists(this.counterKey(delivery.userId), 1);
+    }
+
+    const item = await this.prisma.inboxItem.findUniqueOrThrow({
+      where: { notificationId: delivery.notificationId },
+      select: { id: true },
+    });
+
+    return item.id;
+  }
+
+  /**
+   * List a user's inbox, newest first
+   */
+  async findAll(
+    userId: string,
+    query: InboxQueryDto,
+  ): Promise<InboxPageResponseDto> {
+    const limit = query.limit ?? this.DEFAULT_PAGE_SIZE;
+
+    const items = await this.prisma.inboxItem.findMany({
+      where: {
+        userId,
+        archivedAt: query.archived ? { not: null } : null,
+        ...(query.unreadOnly && { readAt: null }),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      // One extra row tells us whether there is another page
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const page = items.slice(0, limit);
+
+    return {
+      items: page.map((item) => this.mapToResponseDto(item)),
+      nextCursor: items.length > limit ? page[page.length - 1].id : undefined,
+    };
+  }
+
+  /**
+   * Number of unread, non-archived items
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    const key = this.counterKey(userId);
+    const cached = await this.redis.get<number>(key);
+    if (cached !== null) {
+      return Math.max(cached, 0);
+    }
+
+    const unread = await this.prisma.inboxItem.count({
+      where: { userId, readAt: null, archivedAt: null },
+    });
+
+    await this.redis.set(key, unread, this.COUNTER_TTL);
+
+    return unread;
+  }
+
+  /**
+   * Mark one item as read
+   */
+  async markRead(userId: string, id: string): Promise<InboxItemResponseDto> {
+    const result = await this.prisma.inboxItem.updateMany({
+      where: { id, userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    const item = await this.findItem(userId, id);
+
+    // Archived items are not counted as unread
+    if (result.count > 0 && !item.archivedAt) {
+      await this.redis.incrByIfExists(this.counterKey(userId), -1);
+    }
+
+    return this.mapToResponseDto(item);
+  }
+
+  /**
+   * Mark every unread item as read
+   * Returns the number of items marked
+   */
+  async markAllRead(userId: string): Promise<number> {
+    const result = await this.prisma.inboxItem.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    // Dropped rather than zeroed: a delivery racing this update would
+    // otherwise be lost from the count
+    await this.redis.del(this.counterKey(userId));
+
+    this.logger.log(`Marked ${result.count} inbox items read for ${userId}`);
+
+    return result.count;
+  }
+
+  /**
+   * Move an item out of the inbox
+   */
+  async archive(userId: string, id: string): Promise<InboxItemResponseDto> {
+    const result = await this.prisma.inboxItem.updateMany({
+      where: { id, userId, archivedAt: null },
+      data: { archivedAt: new Date() },
+    });
+
+    const item = await this.findItem(userId, id);
+
+    if (result.count > 0 && !item.readAt) {
+      await this.redis.incrByIfExists(this.counterKey(userId), -1);
+    }
+
+    return this.mapToResponseDto(item);
+  }
+
+  private async findItem(userId: string, id: string): Promise<InboxItem> {
+    const item = await this.prisma.inboxItem.findFirst({
+      where: { id, userId },
+    });
+
+    if (!item) {
+      throw new NotFoundException(`Inbox item with ID ${id} not found`);
+    }
+
+    return item;
+  }
+
+  private counterKey(userId: string): string {
+    return `inbox:unread:${userId}`;
+  }
+
+  private mapToResponseDto(item: InboxItem): InboxItemResponseDto {
+    return {
+      id: item.id,
+      notificationId: item.notificationId,
+      title: item.title,
+      body: item.body,
+      data: (item.data as Record<string, unknown>) ?? undefined,
+      actionUrl: item.actionUrl ?? undefined,
+      readAt: item.readAt ?? undefined,
+      archivedAt: item.archivedAt ?? undefined,
+      createdAt: item.createdAt,
+    };
+  }
+}
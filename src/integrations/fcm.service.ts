@@ -12,6 +12,7 @@ export interface PushPayload {
   sound?: string;
   clickAction?: string;
   priority?: 'high' | 'normal';
+  collapseKey?: string; // Replaces an undisplayed message with the same key
 }
 
 /**
@@ -103,12 +104,16 @@ export class FCMService {
           ...(payload.data && { data: payload.data }),
           android: {
             priority: payload.priority || 'high',
+            ...(payload.collapseKey && { collapseKey: payload.collapseKey }),
             notification: {
               ...(payload.sound && { sound: payload.sound }),
               ...(payload.clickAction && { clickAction: payload.clickAction }),
             },
           },
           apns: {
+            ...(payload.collapseKey && {
+              headers: { 'apns-collapse-id': payload.collapseKey },
+            }),
             payload: {
               aps: {
                 ...(payload.badge !== undefined && { badge: payload.badge }),
@@ -141,12 +146,16 @@ export class FCMService {
           ...(payload.data && { data: payload.data }),
           android: {
             priority: payload.priority || 'high',
+            ...(payload.collapseKey && { collapseKey: payload.collapseKey }),
             notification: {
               ...(payload.sound && { sound: payload.sound }),
               ...(payload.clickAction && { clickAction: payload.clickAction }),
             },
           },
           apns: {
+            ...(payload.collapseKey && {
+              headers: { 'apns-collapse-id': payload.collapseKey },
+            }),
             payload: {
               aps: {
                 ...(payload.badge !== undefined && { badge: payload.badge }),
@@ -217,12 +226,16 @@ export class FCMService {
         ...(payload.data && { data: payload.data }),
         android: {
           priority: payload.priority || 'high',
+          ...(payload.collapseKey && { collapseKey: payload.collapseKey }),
           notification: {
             ...(payload.sound && { sound: payload.sound }),
             ...(payload.clickAction && { clickAction: payload.clickAction }),
           },
         },
         apns: {
+          ...(payload.collapseKey && {
+            headers: { 'apns-collapse-id': payload.collapseKey },
+          }),
           payload: {
             aps: {
               ...(payload.badge !== undefined && { badge: payload.badge }),
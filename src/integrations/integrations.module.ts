@@ -8,6 +8,7 @@ import { MockSmsService } from './mock/mock-sms.service';
 import { MockPushService } from './mock/mock-push.service';
 import { WebhooksController } from './webhooks.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 
 // Provider tokens
 export const EMAIL_SERVICE = 'EMAIL_SERVICE';
@@ -23,7 +24,7 @@ export const PUSH_SERVICE = 'PUSH_SERVICE';
  * - Otherwise, use real services
  */
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, RealtimeModule],
   controllers: [WebhooksController],
   providers: [
     // Real services
@@ -0,0 +1,36 @@
+/**
+ * Channel provider interfaces
+ *
+ * Implemented by both the real and mock services so that consumers can
+ * inject EMAIL_SERVICE / SMS_SERVICE / PUSH_SERVICE without caring which
+ * one IntegrationsModule picked.
+ */
+
+import { EmailPayload } from '../sendgrid.service';
+import { SmsPayload } from '../twilio.service';
+import { PushPayload } from '../fcm.service';
+
+export interface DeliveryResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface EmailProvider {
+  sendEmail(payload: EmailPayload): Promise<DeliveryResult>;
+  isEnabled(): boolean;
+}
+
+export interface SmsProvider {
+  sendSms(payload: SmsPayload): Promise<DeliveryResult>;
+  isEnabled(): boolean;
+}
+
+export interface PushProvider {
+  sendPush(payload: PushPayload): Promise<DeliveryResult>;
+  sendToTopic(
+    topic: string,
+    payload: Omit<PushPayload, 'token'>,
+  ): Promise<DeliveryResult>;
+  isEnabled(): boolean;
+}
@@ -7,7 +7,9 @@ import {
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { NotificationEventsService } from '../realtime/notification-events.service';
 
 /**
  * WebhooksController - Handle delivery status callbacks from external services
@@ -16,12 +18,19 @@ import { PrismaService } from '../prisma/prisma.service';
  * - POST /webhooks/sendgrid - SendGrid event webhook
  * - POST /webhooks/twilio - Twilio status callback
  * - POST /webhooks/fcm - FCM delivery receipt (if needed)
+ *
+ * Delivery receipts cancel a pending fallback escalation; failure
+ * receipts trigger it (see FallbackService). Every status change is
+ * streamed to the user's connected clients.
  */
 @Controller('webhooks')
 export class WebhooksController {
   private readonly logger = new Logger(WebhooksController.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly events: NotificationEventsService,
+  ) {}
 
   /**
    * SendGrid Event Webhook
@@ -40,12 +49,16 @@ export class WebhooksController {
           continue;
         }
 
+        // sg_message_id is the X-Message-Id returned at send time plus a
+        // ".filter..." suffix added by SendGrid's delivery pipeline
+        const messageId = String(sg_message_id).split('.')[0];
+
         // Find notification by message ID stored in metadata
         const notification = await this.prisma.notification.findFirst({
           where: {
             metadata: {
               path: ['messageId'],
-              equals: sg_message_id,
+              equals: messageId,
             },
           },
         });
@@ -60,12 +73,10 @@ export class WebhooksController {
         // Update notification based on event type
         switch (eventType) {
           case 'delivered':
-            await this.prisma.notification.update({
-              where: { id: notification.id },
-              data: {
-                status: 'SENT',
-                deliveredAt: new Date(timestamp * 1000),
-              },
+            await this.updateNotification(notification.id, {
+              status: 'SENT',
+              deliveredAt: new Date(timestamp * 1000),
+              fallbackDeadline: null,
             });
             this.logger.log(`Email delivered: ${notification.id}`);
             break;
@@ -73,13 +84,13 @@ export class WebhooksController {
           case 'bounce':
           case 'dropped':
           case 'deferred':
-            await this.prisma.notification.update({
-              where: { id: notification.id },
-              data: {
-                status: 'FAILED',
-                failedAt: new Date(),
-                errorMessage: `SendGrid event: ${eventType} - ${event.reason || 'Unknown reason'}`,
-              },
+            await this.updateNotification(notification.id, {
+              status: 'FAILED',
+              failedAt: new Date(),
+              errorMessage: `SendGrid event: ${eventType} - ${event.reason || 'Unknown reason'}`,
+              // SendGrid keeps retrying deferred mail, so only hard
+              // failures move on to the next fallback channel
+              ...(eventType !== 'deferred' && this.escalateNow(notification)),
             });
             this.logger.warn(`Email failed: ${notification.id} - ${eventType}`);
             break;
@@ -144,36 +155,29 @@ export class WebhooksController {
       // Update notification based on status
       switch (MessageStatus) {
         case 'delivered':
-          await this.prisma.notification.update({
-            where: { id: notification.id },
-            data: {
-              status: 'SENT',
-              deliveredAt: new Date(),
-            },
+          await this.updateNotification(notification.id, {
+            status: 'SENT',
+            deliveredAt: new Date(),
+            fallbackDeadline: null,
           });
           this.logger.log(`SMS delivered: ${notification.id}`);
           break;
 
         case 'sent':
-          await this.prisma.notification.update({
-            where: { id: notification.id },
-            data: {
-              status: 'SENT',
-              sentAt: new Date(),
-            },
+          await this.updateNotification(notification.id, {
+            status: 'SENT',
+            sentAt: new Date(),
           });
           this.logger.log(`SMS sent: ${notification.id}`);
           break;
 
         case 'failed':
         case 'undelivered':
-          await this.prisma.notification.update({
-            where: { id: notification.id },
-            data: {
-              status: 'FAILED',
-              failedAt: new Date(),
-              errorMessage: ErrorMessage || `Twilio error: ${ErrorCode}`,
-            },
+          await this.updateNotification(notification.id, {
+            status: 'FAILED',
+            failedAt: new Date(),
+            errorMessage: ErrorMessage || `Twilio error: ${ErrorCode}`,
+            ...this.escalateNow(notification),
           });
           this.logger.warn(`SMS failed: ${notification.id} - ${MessageStatus}`);
           break;
@@ -222,21 +226,17 @@ export class WebhooksController {
       }
 
       if (status === 'delivered') {
-        await this.prisma.notification.update({
-          where: { id: notification.id },
-          data: {
-            status: 'SENT',
-            deliveredAt: new Date(),
-          },
+        await this.updateNotification(notification.id, {
+          status: 'SENT',
+          deliveredAt: new Date(),
+          fallbackDeadline: null,
         });
       } else if (status === 'failed') {
-        await this.prisma.notification.update({
-          where: { id: notification.id },
-          data: {
-            status: 'FAILED',
-            failedAt: new Date(),
-            errorMessage: error || 'FCM delivery failed',
-          },
+        await this.updateNotification(notification.id, {
+          status: 'FAILED',
+          failedAt: new Date(),
+          errorMessage: error || 'FCM delivery failed',
+          ...this.escalateNow(notification),
         });
       }
 
@@ -247,6 +247,28 @@ export class WebhooksController {
     }
   }
 
+  /**
+   * Apply a delivery status update and stream it to connected clients
+   */
+  private async updateNotification(
+    id: string,
+    data: Prisma.NotificationUpdateInput,
+  ): Promise<void> {
+    const notification = await this.prisma.notification.update({
+      where: { id },
+      data,
+    });
+    await this.events.publishUpdated(notification);
+  }
+
+  /**
+   * Pull the fallback deadline forward so FallbackService escalates a
+   * failed notification to its next channel on its next tick
+   */
+  private escalateNow(notification: { fallback: unknown }) {
+    return notification.fallback ? { fallbackDeadline: new Date() } : {};
+  }
+
   /**
    * Generic webhook endpoint for testing
    */
@@ -9,6 +9,8 @@ import { RedisService } from '../redis/redis.service';
  * Jobs:
  * - Daily cleanup of old notifications (>90 days)
  * - Retry queue cleanup (>7 days)
+ * - Outbox cleanup of published messages (>24 hours)
+ * - Expired refresh token cleanup
  * - Cache warming for frequently accessed data
  */
 @Injectable()
@@ -43,7 +45,15 @@ export class CleanupService {
             lt: ninetyDaysAgo,
           },
           status: {
-            in: ['SENT', 'FAILED'], // Only delete completed notifications
+            in: [
+              'SENT',
+              'FAILED',
+              'EXPIRED',
+              'CANCELLED',
+              'SUPPRESSED',
+              'DIGESTED',
+              'SUPERSEDED',
+            ], // Only delete completed notifications
           },
         },
       });
@@ -132,6 +142,62 @@ export class CleanupService {
     }
   }
 
+  /**
+   * Outbox Cleanup
+   * Runs every hour
+   * Deletes outbox messages published more than 24 hours ago
+   */
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'cleanup-outbox',
+    timeZone: 'UTC',
+  })
+  async cleanupOutbox() {
+    try {
+      const result = await this.prisma.outboxMessage.deleteMany({
+        where: {
+          sentAt: {
+            lt: new Date(Date.now() - 24 * 60 * 60 * 1000),
+          },
+        },
+      });
+
+      this.logger.log(
+        `Outbox cleanup completed: Deleted ${result.count} published messages`,
+      );
+    } catch (error) {
+      this.logger.error('Outbox cleanup failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh Token Cleanup
+   * Runs every hour
+   * Deletes refresh tokens past their expiry, revoked or not
+   */
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'cleanup-refresh-tokens',
+    timeZone: 'UTC',
+  })
+  async cleanupRefreshTokens() {
+    try {
+      const result = await this.prisma.refreshToken.deleteMany({
+        where: {
+          expiresAt: {
+            lt: new Date(),
+          },
+        },
+      });
+
+      this.logger.log(
+        `Refresh token cleanup completed: Deleted ${result.count} expired tokens`,
+      );
+    } catch (error) {
+      this.logger.error('Refresh token cleanup failed:', error);
+      throw error;
+    }
+  }
+
   /**
    * Cache Warming
    * Runs every hour
@@ -2,3 +2,5 @@ export * from './kafka-producer.service';
 export * from './kafka-consumer.service';
 export * from './kafka.module';
 export * from './schemas/notification.schema';
+export * from './priority-lanes';
+export * from './schemas/event.schema';
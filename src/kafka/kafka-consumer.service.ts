@@ -10,12 +10,33 @@ import {
   EachMessagePayload,
   ConsumerSubscribeTopics,
 } from 'kafkajs';
-
+import {
+  LEGACY_NOTIFICATIONS_TOPIC,
+  LEGACY_RETRY_TOPIC,
+  PriorityLane,
+  getPriorityLaneConfig,
+} from './priority-lanes';
+
+/**
+ * KafkaConsumerService - Consumer groups and topic handler dispatch
+ *
+ * Features:
+ * - Main consumer for the events topic and the legacy 'notifications' and
+ *   'notifications-retry' topics
+ * - One consumer per priority lane (group `<KAFKA_CONSUMER_GROUP>-<lane>`)
+ *   for the lane's topic and retry topic, each processing its partitions
+ *   with the lane's own concurrency
+ * - Handlers registered per topic, shared by all consumers
+ */
 @Injectable()
 export class KafkaConsumerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(KafkaConsumerService.name);
   private kafka: Kafka;
   private consumer: Consumer;
+  private readonly groupId: string;
+  // Keyed by topic; a lane's topic and retry topic share one consumer
+  private laneConsumers: Map<string, { groupId: string; consumer: Consumer }> =
+    new Map();
   private messageHandlers: Map<
     string,
     (payload: EachMessagePayload) => Promise<void>
@@ -31,29 +52,64 @@ export class KafkaConsumerService implements OnModuleInit, OnModuleDestroy {
       },
     });
 
-    this.consumer = this.kafka.consumer({
-      groupId: process.env.KAFKA_CONSUMER_GROUP || 'notification-workers',
-      sessionTimeout: 30000,
-      heartbeatInterval: 3000,
-    });
+    this.groupId = process.env.KAFKA_CONSUMER_GROUP || 'notification-workers';
+    this.consumer = this.createConsumer(this.groupId);
+
+    // Separate groups so a bulk backlog never holds up urgent partitions
+    for (const lane of Object.values(PriorityLane)) {
+      const { topic, retryTopic } = getPriorityLaneConfig(lane);
+      const groupId = `${this.groupId}-${lane}`;
+      const laneConsumer = { groupId, consumer: this.createConsumer(groupId) };
+      this.laneConsumers.set(topic, laneConsumer);
+      this.laneConsumers.set(retryTopic, laneConsumer);
+    }
   }
 
   async onModuleInit() {
     await this.consumer.connect();
     this.logger.log('Kafka Consumer connected');
 
-    // Subscribe to topics
-    await this.subscribe({ topics: ['notifications'] });
+    // Subscribe to topics (retry topics are consumed by RetryWorkerService,
+    // events by EventProcessorService)
+    await this.subscribe({
+      topics: [LEGACY_NOTIFICATIONS_TOPIC, LEGACY_RETRY_TOPIC, 'events'],
+    });
 
     // Start consuming messages
-    await this.consume();
+    await this.consume(this.consumer);
+
+    for (const lane of Object.values(PriorityLane)) {
+      const { topic, retryTopic, concurrency } = getPriorityLaneConfig(lane);
+      const { consumer } = this.laneConsumers.get(topic)!;
+
+      await consumer.connect();
+      await consumer.subscribe({ topics: [topic, retryTopic] });
+      await this.consume(consumer, concurrency);
+
+      this.logger.log(
+        `Priority lane ${lane} consuming ${topic} and ${retryTopic} (concurrency: ${concurrency})`,
+      );
+    }
   }
 
   async onModuleDestroy() {
-    await this.consumer.disconnect();
+    await Promise.all([
+      this.consumer.disconnect(),
+      ...[...new Set(this.laneConsumers.values())].map(({ consumer }) =>
+        consumer.disconnect(),
+      ),
+    ]);
     this.logger.log('Kafka Consumer disconnected');
   }
 
+  private createConsumer(groupId: string): Consumer {
+    return this.kafka.consumer({
+      groupId,
+      sessionTimeout: 30000,
+      heartbeatInterval: 3000,
+    });
+  }
+
   /**
    * Subscribe to Kafka topics
    */
@@ -75,9 +131,15 @@ export class KafkaConsumerService implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Start consuming messages
+   * partitionsConsumedConcurrently bounds how many partitions are processed
+   * in parallel; messages within a partition stay in order
    */
-  private async consume(): Promise<void> {
-    await this.consumer.run({
+  private async consume(
+    consumer: Consumer,
+    partitionsConsumedConcurrently = 1,
+  ): Promise<void> {
+    await consumer.run({
+      partitionsConsumedConcurrently,
       eachMessage: async (payload: EachMessagePayload) => {
         const { topic, partition, message } = payload;
 
@@ -133,25 +195,35 @@ export class KafkaConsumerService implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Pause consumption (useful for graceful shutdown or backpressure)
+   * Pass partitions to pause only those partitions of each topic
    */
-  async pause(topics: string[]): Promise<void> {
-    this.consumer.pause(topics.map((topic) => ({ topic })));
-    this.logger.log(`Paused consumption for topics: ${topics.join(', ')}`);
+  async pause(topics: string[], partitions?: number[]): Promise<void> {
+    for (const topic of topics) {
+      this.getTopicConsumer(topic).pause([{ topic, partitions }]);
+    }
+    this.logger.log(
+      `Paused consumption for topics: ${topics.join(', ')}${partitions ? ` (partitions: ${partitions.join(', ')})` : ''}`,
+    );
   }
 
   /**
    * Resume consumption
+   * Pass partitions to resume only those partitions of each topic
    */
-  async resume(topics: string[]): Promise<void> {
-    this.consumer.resume(topics.map((topic) => ({ topic })));
-    this.logger.log(`Resumed consumption for topics: ${topics.join(', ')}`);
+  async resume(topics: string[], partitions?: number[]): Promise<void> {
+    for (const topic of topics) {
+      this.getTopicConsumer(topic).resume([{ topic, partitions }]);
+    }
+    this.logger.log(
+      `Resumed consumption for topics: ${topics.join(', ')}${partitions ? ` (partitions: ${partitions.join(', ')})` : ''}`,
+    );
   }
 
   /**
    * Seek to a specific offset (useful for reprocessing)
    */
   async seek(topic: string, partition: number, offset: string): Promise<void> {
-    this.consumer.seek({ topic, partition, offset });
+    this.getTopicConsumer(topic).seek({ topic, partition, offset });
     this.logger.log(
       `Seeked to offset ${offset} for topic ${topic}, partition ${partition}`,
     );
@@ -163,7 +235,11 @@ export class KafkaConsumerService implements OnModuleInit, OnModuleDestroy {
   async commitOffsets(
     topicPartitions: { topic: string; partition: number; offset: string }[],
   ): Promise<void> {
-    await this.consumer.commitOffsets(topicPartitions);
+    for (const topicPartition of topicPartitions) {
+      await this.getTopicConsumer(topicPartition.topic).commitOffsets([
+        topicPartition,
+      ]);
+    }
     this.logger.log('Offsets committed manually');
   }
 
@@ -185,9 +261,15 @@ export class KafkaConsumerService implements OnModuleInit, OnModuleDestroy {
       const admin = this.kafka.admin();
       await admin.connect();
 
-      const groupId =
-        process.env.KAFKA_CONSUMER_GROUP || 'notification-workers';
-      const topics = ['notifications']; // Hardcoded for now, can be made dynamic
+      const subscriptions = [
+        { groupId: this.groupId, topic: LEGACY_NOTIFICATIONS_TOPIC },
+        { groupId: this.groupId, topic: LEGACY_RETRY_TOPIC },
+        { groupId: this.groupId, topic: 'events' },
+        ...[...this.laneConsumers].map(([topic, { groupId }]) => ({
+          groupId,
+          topic,
+        })),
+      ];
       const partitionLag: Array<{
         topic: string;
         partition: number;
@@ -197,7 +279,7 @@ export class KafkaConsumerService implements OnModuleInit, OnModuleDestroy {
       }> = [];
       let totalLag = 0;
 
-      for (const topic of topics) {
+      for (const { groupId, topic } of subscriptions) {
         try {
           // Get consumer group offsets (committed offsets)
           const offsets = await admin.fetchOffsets({
@@ -250,6 +332,13 @@ export class KafkaConsumerService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Consumer that owns a topic: its lane consumer, otherwise the main one
+   */
+  private getTopicConsumer(topic: string): Consumer {
+    return this.laneConsumers.get(topic)?.consumer ?? this.consumer;
+  }
+
   /**
    * Get consumer for direct access (use with caution)
    */
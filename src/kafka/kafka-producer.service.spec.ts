@@ -15,7 +15,15 @@ jest.mock('kafkajs', () => {
     disconnect: jest.fn().mockResolvedValue(undefined),
     send: jest.fn().mockResolvedValue([
       {
-        topicName: 'notifications',
+        topicName: 'notifications.urgent',
+        partition: 0,
+        baseOffset: '100',
+        errorCode: 0,
+      },
+    ]),
+    sendBatch: jest.fn().mockResolvedValue([
+      {
+        topicName: 'notifications.urgent',
         partition: 0,
         baseOffset: '100',
         errorCode: 0,
@@ -99,10 +107,10 @@ describe('KafkaProducerService', () => {
       const result = await service.sendNotification(mockMessage);
 
       expect(result).toBeDefined();
-      expect(result[0].topicName).toBe('notifications');
+      expect(result[0].topicName).toBe('notifications.urgent');
       expect(mockProducer.send).toHaveBeenCalledWith(
         expect.objectContaining({
-          topic: 'notifications',
+          topic: 'notifications.urgent',
           compression: 1, // GZIP
           messages: expect.arrayContaining([
             expect.objectContaining({
@@ -128,6 +136,18 @@ describe('KafkaProducerService', () => {
       );
     });
 
+    it.each([
+      [NotificationPriority.URGENT, 'notifications.urgent'],
+      [NotificationPriority.MEDIUM, 'notifications.default'],
+      [NotificationPriority.LOW, 'notifications.bulk'],
+    ])('should route %s priority to %s', async (priority, topic) => {
+      await service.sendNotification({ ...mockMessage, priority });
+
+      expect(mockProducer.send).toHaveBeenCalledWith(
+        expect.objectContaining({ topic }),
+      );
+    });
+
     it('should use userId as partition key', async () => {
       await service.sendNotification(mockMessage);
 
@@ -193,46 +213,62 @@ describe('KafkaProducerService', () => {
       },
     ];
 
-    it('should send multiple notifications in batch', async () => {
+    it('should send multiple notifications in one request, split by lane', async () => {
       const result = await service.sendNotificationBatch(mockMessages);
 
       expect(result).toBeDefined();
-      expect(mockProducer.send).toHaveBeenCalledWith(
-        expect.objectContaining({
-          topic: 'notifications',
-          compression: 1, // GZIP
-          messages: expect.arrayContaining([
-            expect.objectContaining({
-              key: 'user-1',
-              value: JSON.stringify(mockMessages[0]),
-            }),
-            expect.objectContaining({
-              key: 'user-2',
-              value: JSON.stringify(mockMessages[1]),
-            }),
-          ]),
-        }),
-      );
+      expect(mockProducer.sendBatch).toHaveBeenCalledTimes(1);
+      expect(mockProducer.sendBatch).toHaveBeenCalledWith({
+        compression: 1, // GZIP
+        topicMessages: [
+          {
+            topic: 'notifications.urgent',
+            messages: [
+              expect.objectContaining({
+                key: 'user-1',
+                value: JSON.stringify(mockMessages[0]),
+              }),
+            ],
+          },
+          {
+            topic: 'notifications.default',
+            messages: [
+              expect.objectContaining({
+                key: 'user-2',
+                value: JSON.stringify(mockMessages[1]),
+              }),
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should group messages of the same lane under one topic', async () => {
+      await service.sendNotificationBatch([
+        mockMessages[1],
+        { ...mockMessages[0], priority: NotificationPriority.MEDIUM },
+      ]);
+
+      const { topicMessages } = mockProducer.sendBatch.mock.calls[0][0];
+      expect(topicMessages).toHaveLength(1);
+      expect(topicMessages[0].topic).toBe('notifications.default');
+      expect(topicMessages[0].messages).toHaveLength(2);
     });
 
     it('should handle batch send failure', async () => {
       const error = new Error('Batch send failed');
-      mockProducer.send.mockRejectedValueOnce(error);
+      mockProducer.sendBatch.mockRejectedValueOnce(error);
 
       await expect(service.sendNotificationBatch(mockMessages)).rejects.toThrow(
         'Batch send failed',
       );
     });
 
-    it('should send empty batch without error', async () => {
+    it('should skip the request for an empty batch', async () => {
       const result = await service.sendNotificationBatch([]);
 
-      expect(result).toBeDefined();
-      expect(mockProducer.send).toHaveBeenCalledWith(
-        expect.objectContaining({
-          messages: [],
-        }),
-      );
+      expect(result).toEqual([]);
+      expect(mockProducer.sendBatch).not.toHaveBeenCalled();
     });
   });
 
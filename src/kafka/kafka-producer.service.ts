@@ -8,10 +8,12 @@ import {
   Kafka,
   Producer,
   ProducerRecord,
+  Message,
   RecordMetadata,
   CompressionTypes,
 } from 'kafkajs';
 import { NotificationMessage } from './schemas/notification.schema';
+import { getPriorityLaneTopic } from './priority-lanes';
 
 @Injectable()
 export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
@@ -46,7 +48,7 @@ export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Send a single notification message to Kafka
+   * Send a single notification message to its priority lane topic
    * Optimized with GZIP compression for reduced network bandwidth
    */
   async sendNotification(
@@ -54,19 +56,9 @@ export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
   ): Promise<RecordMetadata[]> {
     try {
       const record: ProducerRecord = {
-        topic: 'notifications',
+        topic: getPriorityLaneTopic(message.priority),
         compression: CompressionTypes.GZIP, // Enable compression for bandwidth optimization
-        messages: [
-          {
-            key: message.userId, // Partition by userId for ordering
-            value: JSON.stringify(message),
-            headers: {
-              'idempotency-key': message.idempotencyKey,
-              'message-type': message.type,
-              priority: message.priority,
-            },
-          },
-        ],
+        messages: [this.toKafkaMessage(message)],
       };
 
       const metadata = await this.producer.send(record);
@@ -82,27 +74,32 @@ export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Send multiple notifications in batch (more efficient)
+   * Messages are split by priority lane and sent in one request
    * Optimized with GZIP compression for reduced network bandwidth
    */
   async sendNotificationBatch(
     messages: NotificationMessage[],
   ): Promise<RecordMetadata[]> {
+    if (messages.length === 0) {
+      return [];
+    }
+
     try {
-      const record: ProducerRecord = {
-        topic: 'notifications',
+      const byTopic = new Map<string, Message[]>();
+      for (const msg of messages) {
+        const topic = getPriorityLaneTopic(msg.priority);
+        const topicMessages = byTopic.get(topic) ?? [];
+        topicMessages.push(this.toKafkaMessage(msg));
+        byTopic.set(topic, topicMessages);
+      }
+
+      const metadata = await this.producer.sendBatch({
         compression: CompressionTypes.GZIP, // Enable compression for bandwidth optimization
-        messages: messages.map((msg) => ({
-          key: msg.userId,
-          value: JSON.stringify(msg),
-          headers: {
-            'idempotency-key': msg.idempotencyKey,
-            'message-type': msg.type,
-            priority: msg.priority,
-          },
+        topicMessages: [...byTopic].map(([topic, topicMessages]) => ({
+          topic,
+          messages: topicMessages,
         })),
-      };
-
-      const metadata = await this.producer.send(record);
+      });
       this.logger.log(`Batch of ${messages.length} messages sent to Kafka`);
       return metadata;
     } catch (error) {
@@ -141,6 +138,21 @@ export class KafkaProducerService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Kafka record for a notification
+   */
+  private toKafkaMessage(message: NotificationMessage): Message {
+    return {
+      key: message.userId, // Partition by userId for ordering
+      value: JSON.stringify(message),
+      headers: {
+        'idempotency-key': message.idempotencyKey,
+        'message-type': message.type,
+        priority: message.priority,
+      },
+    };
+  }
+
   /**
    * Send messages with transaction support (exactly-once semantics)
    */
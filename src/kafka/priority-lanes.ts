@@ -0,0 +1,110 @@
+import { NotificationPriority } from './schemas/notification.schema';
+
+/**
+ * Priority lanes - one topic and one consumer group per lane, so a bulk
+ * backlog can never delay URGENT / HIGH delivery
+ *
+ * Each lane also has its own retry topic, consumed by the lane's group, so
+ * bulk retries waiting out their backoff never hold up urgent ones.
+ *
+ * Concurrency is the number of partitions a lane's consumer processes in
+ * parallel (kafkajs partitionsConsumedConcurrently); messages for the same
+ * user stay ordered because they share a partition. Override it with
+ * KAFKA_LANE_CONCURRENCY_<LANE>, e.g. KAFKA_LANE_CONCURRENCY_BULK=2.
+ */
+export enum PriorityLane {
+  URGENT = 'urgent',
+  DEFAULT = 'default',
+  BULK = 'bulk',
+}
+
+export interface PriorityLaneConfig {
+  topic: string;
+  retryTopic: string;
+  concurrency: number;
+}
+
+// Topics used before priority lanes; still consumed so nothing is stranded
+export const LEGACY_NOTIFICATIONS_TOPIC = 'notifications';
+export const LEGACY_RETRY_TOPIC = 'notifications-retry';
+
+const LANE_DEFAULTS: Record<PriorityLane, PriorityLaneConfig> = {
+  [PriorityLane.URGENT]: {
+    topic: 'notifications.urgent',
+    retryTopic: 'notifications-retry.urgent',
+    concurrency: 8,
+  },
+  [PriorityLane.DEFAULT]: {
+    topic: 'notifications.default',
+    retryTopic: 'notifications-retry.default',
+    concurrency: 4,
+  },
+  [PriorityLane.BULK]: {
+    topic: 'notifications.bulk',
+    retryTopic: 'notifications-retry.bulk',
+    concurrency: 1,
+  },
+};
+
+export const PRIORITY_LANE_TOPICS: string[] = Object.values(LANE_DEFAULTS).map(
+  (lane) => lane.topic,
+);
+
+export const PRIORITY_LANE_RETRY_TOPICS: string[] = Object.values(
+  LANE_DEFAULTS,
+).map((lane) => lane.retryTopic);
+
+/**
+ * Whether a topic carries retries (a lane retry topic or the legacy one)
+ */
+export function isRetryTopic(topic: string): boolean {
+  return (
+    topic === LEGACY_RETRY_TOPIC || PRIORITY_LANE_RETRY_TOPICS.includes(topic)
+  );
+}
+
+/**
+ * Lane for a notification priority (URGENT and HIGH share the urgent lane)
+ */
+export function getPriorityLane(priority: string): PriorityLane {
+  switch (priority) {
+    case NotificationPriority.URGENT:
+    case NotificationPriority.HIGH:
+      return PriorityLane.URGENT;
+    case NotificationPriority.LOW:
+      return PriorityLane.BULK;
+    default:
+      return PriorityLane.DEFAULT;
+  }
+}
+
+/**
+ * Topic a notification of this priority is published to
+ */
+export function getPriorityLaneTopic(priority: string): string {
+  return LANE_DEFAULTS[getPriorityLane(priority)].topic;
+}
+
+/**
+ * Retry topic for a notification of this priority
+ */
+export function getPriorityLaneRetryTopic(priority: string): string {
+  return LANE_DEFAULTS[getPriorityLane(priority)].retryTopic;
+}
+
+/**
+ * Lane topics and concurrency, with environment overrides
+ */
+export function getPriorityLaneConfig(lane: PriorityLane): PriorityLaneConfig {
+  const { topic, retryTopic, concurrency } = LANE_DEFAULTS[lane];
+  const override = parseInt(
+    process.env[`KAFKA_LANE_CONCURRENCY_${lane.toUpperCase()}`] || '',
+    10,
+  );
+
+  return {
+    topic,
+    retryTopic,
+    concurrency: override > 0 ? override : concurrency,
+  };
+}
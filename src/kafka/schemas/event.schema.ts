@@ -0,0 +1,16 @@
+/**
+ * Domain Event Schema
+ * Version: 1.0.0
+ *
+ * Messages on the 'events' topic announce a persisted Event row. The row is
+ * the source of truth; consumers load it by ID before processing.
+ */
+export interface DomainEventMessage {
+  id: string;
+  version: string; // Schema version (e.g., "1.0.0")
+  timestamp: number; // Unix timestamp in milliseconds
+  type: string; // e.g. "order.completed"
+  userId: string;
+  tenantId?: string;
+  payload: Record<string, unknown>;
+}
@@ -36,6 +36,8 @@ export enum NotificationStatus {
   SENT = 'SENT',
   FAILED = 'FAILED',
   CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
+  SUPPRESSED = 'SUPPRESSED',
 }
 
 /**
@@ -58,6 +60,8 @@ export interface NotificationMessage {
   priority: NotificationPriority;
   status: NotificationStatus;
 
+  collapseKey?: string; // Newer notifications with this key replace this one
+
   // Scheduling
   scheduledFor?: number; // Unix timestamp (null = send immediately)
   expiresAt?: number; // Unix timestamp (message expires if not sent)
@@ -82,13 +86,16 @@ export interface NotificationPayload {
   // Generic fields
   subject?: string;
   body: string;
-  template?: string; // Template ID for dynamic content
+  template?: string; // Template key for dynamic content
   templateData?: Record<string, unknown>; // Variables for template
+  templateVersion?: number; // Template version rendered at creation
+  locale?: string; // Template locale variant, e.g. "fr-CA"
 
   // Channel-specific metadata
   metadata?: Record<string, unknown>;
 
   // Email-specific
+  html?: string;
   from?: string;
   to?: string;
   cc?: string[];
@@ -106,6 +113,9 @@ export interface NotificationPayload {
   clickAction?: string;
   deepLink?: string;
 
+  // In-app-specific (title and body as for push)
+  actionUrl?: string;
+
   // Webhook-specific
   webhookUrl?: string;
   webhookMethod?: 'GET' | 'POST' | 'PUT';
@@ -0,0 +1,330 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { DigestService } from './digest.service';
+import { NotificationService } from './notification.service';
+import { OutboxService } from './outbox.service';
+import { createMockOutboxService } from './testing/outbox.mock';
+import { PrismaService } from '../prisma/prisma.service';
+import { DigestPreferencesService } from '../preferences/digest-preferences.service';
+import { DigestFrequency } from '../preferences/dto';
+import { TemplatesService } from '../templates/templates.service';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+
+describe('DigestService', () => {
+  let service: DigestService;
+
+  const mockPrismaService = {
+    $queryRaw: jest.fn(),
+    notification: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockDigestPreferences = {
+    getFrequency: jest.fn(),
+  };
+
+  const mockTemplatesService = {
+    getPublished: jest.fn(),
+    renderPayload: jest.fn(),
+  };
+
+  const mockNotificationService = {
+    toKafkaMessage: jest.fn((n) => ({ id: n.id })),
+  };
+
+  const mockOutboxService = createMockOutboxService();
+
+  const mockEventsService = {
+    publishCreated: jest.fn(),
+    publishCreatedMany: jest.fn(),
+    publishUpdated: jest.fn(),
+  };
+
+  const buildItem = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    userId: 'user-1',
+    tenantId: 'tenant-1',
+    channel: 'EMAIL',
+    type: 'MARKETING',
+    priority: 'LOW',
+    status: 'DIGESTED',
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+    payload: { to: 'user@example.com', subject: `Offer ${id}`, body: '...' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockTemplatesService.getPublished.mockResolvedValue(null);
+    mockPrismaService.$queryRaw.mockResolvedValue([]);
+    mockPrismaService.notification.updateMany.mockResolvedValue({ count: 0 });
+    mockPrismaService.$transaction.mockImplementation((fn) =>
+      fn(mockPrismaService),
+    );
+    mockPrismaService.notification.create.mockImplementation(
+      async ({ data }: { data: Record<string, unknown> }) => data,
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DigestService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: DigestPreferencesService, useValue: mockDigestPreferences },
+        { provide: TemplatesService, useValue: mockTemplatesService },
+        { provide: NotificationService, useValue: mockNotificationService },
+        { provide: OutboxService, useValue: mockOutboxService },
+        { provide: NotificationEventsService, useValue: mockEventsService },
+      ],
+    }).compile();
+
+    service = module.get<DigestService>(DigestService);
+  });
+
+  describe('getWindowEnd', () => {
+    // Wednesday
+    const now = new Date('2026-01-07T10:15:00Z');
+
+    it('should close hourly windows on the next full hour', () => {
+      expect(service.getWindowEnd(DigestFrequency.HOURLY, now)).toEqual(
+        new Date('2026-01-07T11:00:00Z'),
+      );
+    });
+
+    it('should close daily windows at the next UTC midnight', () => {
+      expect(service.getWindowEnd(DigestFrequency.DAILY, now)).toEqual(
+        new Date('2026-01-08T00:00:00Z'),
+      );
+    });
+
+    it('should close weekly windows at the next Monday midnight', () => {
+      expect(service.getWindowEnd(DigestFrequency.WEEKLY, now)).toEqual(
+        new Date('2026-01-12T00:00:00Z'),
+      );
+      expect(
+        service.getWindowEnd(
+          DigestFrequency.WEEKLY,
+          new Date('2026-01-12T00:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-01-19T00:00:00Z'));
+    });
+  });
+
+  describe('getDigestAt', () => {
+    const target = {
+      userId: 'user-1',
+      channel: 'EMAIL',
+      type: 'MARKETING',
+      priority: 'LOW',
+    };
+
+    it('should hold LOW priority notifications for users with a digest', async () => {
+      mockDigestPreferences.getFrequency.mockResolvedValue(
+        DigestFrequency.HOURLY,
+      );
+
+      await expect(
+        service.getDigestAt(target, new Date('2026-01-07T10:15:00Z')),
+      ).resolves.toEqual(new Date('2026-01-07T11:00:00Z'));
+      expect(mockDigestPreferences.getFrequency).toHaveBeenCalledWith(
+        'user-1',
+        'MARKETING',
+      );
+    });
+
+    it('should send everything else immediately', async () => {
+      mockDigestPreferences.getFrequency.mockResolvedValue(
+        DigestFrequency.HOURLY,
+      );
+
+      await expect(
+        service.getDigestAt({ ...target, priority: 'MEDIUM' }),
+      ).resolves.toBeNull();
+      await expect(
+        service.getDigestAt({ ...target, channel: 'SMS' }),
+      ).resolves.toBeNull();
+
+      mockDigestPreferences.getFrequency.mockResolvedValue(null);
+      await expect(service.getDigestAt(target)).resolves.toBeNull();
+    });
+  });
+
+  describe('sendDigest', () => {
+    // Rows read for rendering, then claimed as DIGESTED
+    const pendingItems = (items: ReturnType<typeof buildItem>[]) => {
+      mockPrismaService.notification.findMany.mockResolvedValue(
+        items.map((item) => ({ ...item, status: 'DIGEST_PENDING' })),
+      );
+      mockPrismaService.$queryRaw.mockResolvedValue(items);
+    };
+
+    it('should create one digest and link the originals to it', async () => {
+      pendingItems([
+        buildItem('n-1'),
+        buildItem('n-2', { createdAt: new Date('2026-01-01T11:00:00Z') }),
+      ]);
+
+      const digest = await service.sendDigest('user-1', 'EMAIL');
+
+      expect(digest).toMatchObject({
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        channel: 'EMAIL',
+        type: 'MARKETING',
+        priority: 'MEDIUM',
+        status: 'PENDING',
+        payload: {
+          to: 'user@example.com',
+          subject: 'You have 2 new notifications',
+          body: '- Offer n-1\n- Offer n-2',
+        },
+      });
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['n-1', 'n-2'] } },
+        data: { digestId: digest!.id },
+      });
+      expect(mockOutboxService.add).toHaveBeenCalledWith(mockPrismaService, [
+        { id: digest!.id },
+      ]);
+      expect(mockOutboxService.publish).toHaveBeenCalledWith([
+        expect.objectContaining({ message: { id: digest!.id } }),
+      ]);
+      expect(mockEventsService.publishUpdated).toHaveBeenCalledTimes(2);
+    });
+
+    it('should render the digest template when one is published', async () => {
+      pendingItems([
+        buildItem('n-1', {
+          channel: 'PUSH',
+          type: 'SYSTEM',
+          payload: { deviceToken: 'token-1', title: 'Update', body: '...' },
+        }),
+        buildItem('n-2', {
+          channel: 'PUSH',
+          payload: { deviceToken: 'token-1', title: 'Sale', body: '...' },
+        }),
+      ]);
+      mockTemplatesService.getPublished.mockResolvedValue({ version: 1 });
+      mockTemplatesService.renderPayload.mockImplementation(
+        async (_channel, payload) => ({ ...payload, title: 'Rendered' }),
+      );
+
+      const digest = await service.sendDigest('user-1', 'PUSH');
+
+      expect(mockTemplatesService.renderPayload).toHaveBeenCalledWith(
+        'PUSH',
+        expect.objectContaining({
+          deviceToken: 'token-1',
+          template: 'notification.digest',
+          templateData: { count: 2, summary: '- Update\n- Sale' },
+        }),
+      );
+      expect(digest).toMatchObject({
+        type: 'SYSTEM',
+        payload: { title: 'Rendered' },
+      });
+    });
+
+    it('should render outside the claim transaction', async () => {
+      pendingItems([buildItem('n-1')]);
+      mockTemplatesService.getPublished.mockResolvedValue({ version: 1 });
+      mockTemplatesService.renderPayload.mockImplementation(
+        async (_channel, payload) => payload,
+      );
+      mockPrismaService.$transaction.mockImplementation(async (fn) => {
+        expect(mockTemplatesService.renderPayload).toHaveBeenCalledTimes(1);
+        const callsBefore = mockTemplatesService.getPublished.mock.calls.length;
+        const result = await fn(mockPrismaService);
+        expect(mockTemplatesService.getPublished).toHaveBeenCalledTimes(
+          callsBefore,
+        );
+        expect(mockTemplatesService.renderPayload).toHaveBeenCalledTimes(1);
+        return result;
+      });
+
+      await expect(service.sendDigest('user-1', 'EMAIL')).resolves.toEqual(
+        expect.objectContaining({ status: 'PENDING' }),
+      );
+    });
+
+    it('should roll back if some rows changed after rendering', async () => {
+      pendingItems([buildItem('n-1'), buildItem('n-2')]);
+      // n-2 was cancelled in between
+      mockPrismaService.$queryRaw.mockResolvedValue([buildItem('n-1')]);
+
+      await expect(service.sendDigest('user-1', 'EMAIL')).resolves.toBeNull();
+      expect(mockPrismaService.notification.create).not.toHaveBeenCalled();
+      expect(mockOutboxService.add).not.toHaveBeenCalled();
+      expect(mockEventsService.publishUpdated).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to built-in copy if the template fails', async () => {
+      pendingItems([buildItem('n-1')]);
+      mockTemplatesService.getPublished.mockResolvedValue({ version: 1 });
+      mockTemplatesService.renderPayload.mockRejectedValue(
+        new BadRequestException('Missing template variables'),
+      );
+
+      const digest = await service.sendDigest('user-1', 'EMAIL');
+
+      expect(digest!.payload).toMatchObject({
+        subject: 'You have 1 new notification',
+      });
+    });
+
+    it('should do nothing if another instance already sent the digest', async () => {
+      pendingItems([buildItem('n-1')]);
+      mockPrismaService.$queryRaw.mockResolvedValue([]);
+
+      await expect(service.sendDigest('user-1', 'EMAIL')).resolves.toBeNull();
+      expect(mockPrismaService.notification.create).not.toHaveBeenCalled();
+      expect(mockOutboxService.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispatchDueDigests', () => {
+    it('should expire rows past their expiresAt and announce it', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        buildItem('n-1', { status: 'EXPIRED' }),
+      ]);
+      mockPrismaService.notification.findMany.mockResolvedValue([]);
+
+      await service.dispatchDueDigests();
+
+      const sql = (
+        mockPrismaService.$queryRaw.mock.calls[0][0] as string[]
+      ).join('?');
+      expect(sql).toContain("SET status = 'EXPIRED'");
+      expect(sql).toContain("WHERE status = 'DIGEST_PENDING'");
+      expect(mockEventsService.publishUpdated).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'n-1', status: 'EXPIRED' }),
+      );
+    });
+
+    it('should send one digest per user and channel with a closed window', async () => {
+      mockPrismaService.notification.findMany.mockResolvedValue([
+        { userId: 'user-1', channel: 'EMAIL' },
+        { userId: 'user-2', channel: 'PUSH' },
+      ]);
+      const sendDigest = jest
+        .spyOn(service, 'sendDigest')
+        .mockResolvedValueOnce({ id: 'digest-1' } as any)
+        .mockResolvedValueOnce(null);
+
+      await expect(service.dispatchDueDigests()).resolves.toBe(1);
+      expect(sendDigest).toHaveBeenCalledWith(
+        'user-1',
+        'EMAIL',
+        expect.any(Date),
+      );
+      expect(sendDigest).toHaveBeenCalledWith(
+        'user-2',
+        'PUSH',
+        expect.any(Date),
+      );
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Notification, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { DigestPreferencesService } from '../preferences/digest-preferences.service';
+import { DigestFrequency } from '../preferences/dto';
+import { TemplatesService } from '../templates/templates.service';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+import { NotificationService } from './notification.service';
+import { OutboxEntry, OutboxService } from './outbox.service';
+import {
+  NotificationChannel,
+  NotificationPriority,
+  NotificationStatus,
+  NotificationType,
+} from './dto';
+
+type DigestTarget = {
+  userId: string;
+  channel: string;
+  type: string;
+  priority: string;
+};
+
+// Channels a digest can be rendered for
+const DIGEST_CHANNELS: string[] = [
+  NotificationChannel.EMAIL,
+  NotificationChannel.PUSH,
+];
+
+// Published template used to render digests, if present
+export const DIGEST_TEMPLATE = 'notification.digest';
+
+// Rolls back a digest whose rows changed between rendering and claiming
+class DigestChangedError extends Error {}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * DigestService - Batches LOW priority MARKETING / SYSTEM notifications
+ * into periodic digests
+ *
+ * Flow:
+ * - The worker asks getDigestAt() for every claimed notification. If the
+ *   user has a digest rule (DigestPreferencesService) the notification is
+ *   parked as DIGEST_PENDING with digestAt = the end of the current window
+ * - Windows close on UTC boundaries: the next full hour, midnight, or
+ *   Monday midnight
+ * - This poller turns every closed window into one EMAIL / PUSH digest
+ *   notification per user and channel. The originals become DIGESTED with
+ *   digestId pointing at the digest
+ *
+ * The digest is rendered from the `notification.digest` template when one
+ * is published (variables: count, summary), otherwise from built-in copy.
+ *
+ * Multi-instance safety: originals are claimed with a status-guarded
+ * UPDATE ... RETURNING in the same transaction that creates the digest and
+ * its outbox row, so each original lands in exactly one digest and every
+ * digest is published.
+ */
+@Injectable()
+export class DigestService {
+  private readonly logger = new Logger(DigestService.name);
+  private readonly BATCH_SIZE = 100;
+  private readonly SUMMARY_LIMIT = 20;
+  private isDispatching = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly digestPreferences: DigestPreferencesService,
+    private readonly templates: TemplatesService,
+    private readonly notificationService: NotificationService,
+    private readonly outbox: OutboxService,
+    private readonly events: NotificationEventsService,
+  ) {}
+
+  /**
+   * End of the digest window a notification should wait for, or null if
+   * it should be sent now
+   */
+  async getDigestAt(
+    target: DigestTarget,
+    now: Date = new Date(),
+  ): Promise<Date | null> {
+    if (
+      target.priority !== NotificationPriority.LOW ||
+      !DIGEST_CHANNELS.includes(target.channel)
+    ) {
+      return null;
+    }
+
+    const frequency = await this.digestPreferences.getFrequency(
+      target.userId,
+      target.type,
+    );
+
+    return frequency ? this.getWindowEnd(frequency, now) : null;
+  }
+
+  /**
+   * End of the UTC window containing `now`
+   */
+  getWindowEnd(frequency: DigestFrequency, now: Date): Date {
+    const time = now.getTime();
+
+    switch (frequency) {
+      case DigestFrequency.HOURLY:
+        return new Date(Math.floor(time / HOUR_MS) * HOUR_MS + HOUR_MS);
+      case DigestFrequency.DAILY:
+        return new Date(Math.floor(time / DAY_MS) * DAY_MS + DAY_MS);
+      case DigestFrequency.WEEKLY: {
+        // getUTCDay: 0 = Sunday, 1 = Monday
+        const daysToMonday = (8 - now.getUTCDay()) % 7 || 7;
+        return new Date(
+          Math.floor(time / DAY_MS) * DAY_MS + daysToMonday * DAY_MS,
+        );
+      }
+    }
+  }
+
+  /**
+   * Send digests for every window that has closed
+   * Runs every minute
+   */
+  @Interval(60000)
+  async dispatchDueDigests(): Promise<number> {
+    // Skip if the previous tick is still running
+    if (this.isDispatching) {
+      return 0;
+    }
+
+    this.isDispatching = true;
+    let sent = 0;
+
+    try {
+      const now = new Date();
+      await this.expireStale(now);
+
+      const due = await this.prisma.notification.findMany({
+        where: {
+          status: NotificationStatus.DIGEST_PENDING,
+          digestAt: { lte: now },
+        },
+        distinct: ['userId', 'channel'],
+        select: { userId: true, channel: true },
+        take: this.BATCH_SIZE,
+      });
+
+      for (const { userId, channel } of due) {
+        if (await this.sendDigest(userId, channel, now)) {
+          sent++;
+        }
+      }
+
+      if (sent > 0) {
+        this.logger.log(`Sent ${sent} notification digests`);
+      }
+    } catch (error) {
+      this.logger.error('Digest dispatch failed:', error);
+    } finally {
+      this.isDispatching = false;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Collect a user's closed-window notifications on one channel into a
+   * digest and publish it. Returns the digest, or null if another
+   * instance got there first.
+   *
+   * The digest is rendered from the rows read up front, so template
+   * lookups stay out of the transaction. The claim then takes exactly
+   * those rows or rolls back, and the next poll starts over.
+   */
+  async sendDigest(
+    userId: string,
+    channel: string,
+    now: Date = new Date(),
+  ): Promise<Notification | null> {
+    const pending = await this.prisma.notification.findMany({
+      where: {
+        status: NotificationStatus.DIGEST_PENDING,
+        userId,
+        channel,
+        digestAt: { lte: now },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const id = randomUUID();
+    const latest = pending[pending.length - 1];
+    const payload = await this.renderDigest(channel, pending);
+
+    let result: {
+      digest: Notification;
+      items: Notification[];
+      outbox: OutboxEntry[];
+    } | null;
+    try {
+      result = await this.prisma.$transaction(async (tx) => {
+        const items = await tx.$queryRaw<Notification[]>`
+          UPDATE notifications
+          SET status = 'DIGESTED', "updatedAt" = NOW()
+          WHERE status = 'DIGEST_PENDING'
+            AND id IN (${Prisma.join(pending.map((item) => item.id))})
+          RETURNING *
+        `;
+
+        if (items.length === 0) {
+          return null;
+        }
+
+        // Some rows were cancelled, expired or claimed since they were read
+        if (items.length !== pending.length) {
+          throw new DigestChangedError();
+        }
+
+        const digest = await tx.notification.create({
+          data: {
+            id,
+            userId,
+            tenantId: latest.tenantId,
+            channel,
+            // Mixed digests are SYSTEM; MEDIUM priority so the digest itself
+            // is never digested again
+            type: pending.every((item) => item.type === latest.type)
+              ? latest.type
+              : NotificationType.SYSTEM,
+            priority: NotificationPriority.MEDIUM,
+            status: NotificationStatus.PENDING,
+            payload,
+            content: JSON.stringify(payload), // deprecated field - keep for backward compatibility
+            correlationId: randomUUID(),
+            metadata: { digestOf: items.length },
+          },
+        });
+
+        await tx.notification.updateMany({
+          where: { id: { in: items.map((item) => item.id) } },
+          data: { digestId: id },
+        });
+
+        const outbox = await this.outbox.add(tx, [
+          this.notificationService.toKafkaMessage(digest),
+        ]);
+
+        return { digest, items, outbox };
+      });
+    } catch (error) {
+      if (error instanceof DigestChangedError) {
+        this.logger.log(
+          `${channel} digest for user ${userId} changed while it was rendered, retrying on the next poll`,
+        );
+        return null;
+      }
+      throw error;
+    }
+
+    if (!result) {
+      return null;
+    }
+
+    const { digest, items, outbox } = result;
+
+    await this.events.publishCreated(digest);
+    for (const item of items) {
+      await this.events.publishUpdated({
+        ...item,
+        status: NotificationStatus.DIGESTED,
+      });
+    }
+
+    // Publish right away; OutboxService relays it if this fails
+    await this.outbox.publish(outbox);
+
+    this.logger.log(
+      `Sent ${channel} digest ${id} of ${items.length} notifications to user ${userId}`,
+    );
+
+    return digest;
+  }
+
+  /**
+   * Drop notifications whose expiresAt passed while waiting for a digest
+   */
+  private async expireStale(now: Date): Promise<void> {
+    const expired = await this.prisma.$queryRaw<Notification[]>`
+      UPDATE notifications
+      SET status = 'EXPIRED',
+        "errorMessage" = 'Expired before its digest was sent',
+        "updatedAt" = NOW()
+      WHERE status = 'DIGEST_PENDING'
+        AND "digestAt" <= ${now}
+        AND "expiresAt" <= ${now}
+      RETURNING *
+    `;
+
+    for (const notification of expired) {
+      await this.events.publishUpdated(notification);
+    }
+
+    if (expired.length > 0) {
+      this.logger.warn(
+        `Expired ${expired.length} notifications held for digest`,
+      );
+    }
+  }
+
+  /**
+   * Build the digest payload: contact details from the most recent
+   * notification, content from the template or built-in copy
+   */
+  private async renderDigest(
+    channel: string,
+    items: Notification[],
+  ): Promise<Record<string, any>> {
+    const latest = (items[items.length - 1].payload ?? {}) as Record<
+      string,
+      any
+    >;
+    const titles = items.map((item) => this.getTitle(item));
+    const count = items.length;
+    const summary = [
+      ...titles.slice(0, this.SUMMARY_LIMIT).map((title) => `- ${title}`),
+      ...(count > this.SUMMARY_LIMIT
+        ? [`...and ${count - this.SUMMARY_LIMIT} more`]
+        : []),
+    ].join('\n');
+
+    const contact =
+      channel === NotificationChannel.EMAIL
+        ? { to: latest.to }
+        : { deviceToken: latest.deviceToken };
+
+    if (await this.templates.getPublished(DIGEST_TEMPLATE)) {
+      try {
+        return await this.templates.renderPayload(
+          channel as NotificationChannel,
+          {
+            ...contact,
+            template: DIGEST_TEMPLATE,
+            templateData: { count, summary },
+            locale: latest.locale,
+          },
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Digest template could not be rendered for ${channel}, using built-in copy: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+
+    const heading = `You have ${count} new notification${count === 1 ? '' : 's'}`;
+
+    return channel === NotificationChannel.EMAIL
+      ? { ...contact, subject: heading, body: summary }
+      : { ...contact, title: heading, body: titles.slice(0, 3).join(', ') };
+  }
+
+  private getTitle(item: Notification): string {
+    const payload = (item.payload ?? {}) as Record<string, any>;
+    return (
+      payload.subject ?? payload.title ?? payload.message ?? payload.body ?? ''
+    );
+  }
+}
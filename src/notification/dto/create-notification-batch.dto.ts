@@ -0,0 +1,43 @@
+import {
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  IsObject,
+} from 'class-validator';
+import { NotificationResponseDto } from './notification-response.dto';
+
+export const MAX_NOTIFICATION_BATCH_SIZE = 500;
+
+export class CreateNotificationBatchDto {
+  /**
+   * Raw CreateNotificationDto items - validated one by one by
+   * NotificationService.createBatch so an invalid item fails on its own
+   * instead of rejecting the whole batch
+   */
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_NOTIFICATION_BATCH_SIZE)
+  @IsObject({ each: true })
+  notifications!: Record<string, any>[];
+}
+
+export enum BatchItemStatus {
+  CREATED = 'CREATED',
+  DUPLICATE = 'DUPLICATE',
+  FAILED = 'FAILED',
+}
+
+export class BatchItemResultDto {
+  index!: number;
+  status!: BatchItemStatus;
+  notification?: NotificationResponseDto;
+  errors?: string[];
+}
+
+export class NotificationBatchResponseDto {
+  total!: number;
+  created!: number;
+  duplicates!: number;
+  failed!: number;
+  results!: BatchItemResultDto[];
+}
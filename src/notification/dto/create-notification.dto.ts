@@ -5,13 +5,22 @@ import {
   IsOptional,
   IsObject,
   IsDateString,
+  IsInt,
+  Min,
+  Max,
   Allow,
+  IsArray,
+  ArrayMaxSize,
+  ValidateNested,
+  ValidateIf,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 
 export enum NotificationChannel {
   EMAIL = 'EMAIL',
   SMS = 'SMS',
   PUSH = 'PUSH',
+  IN_APP = 'IN_APP',
   WEBHOOK = 'WEBHOOK',
 }
 
@@ -29,6 +38,18 @@ export enum NotificationPriority {
   URGENT = 'URGENT',
 }
 
+export enum FallbackCondition {
+  /** Escalate when the previous attempt failed permanently or ran out of retries */
+  FAILED = 'FAILED',
+  /** Escalate when the previous attempt has no delivery receipt after timeoutSeconds (or failed) */
+  NOT_DELIVERED = 'NOT_DELIVERED',
+}
+
+export const MAX_FALLBACK_STEPS = 5;
+
+export const DEFAULT_COLLAPSE_WINDOW_SECONDS = 60;
+export const MAX_COLLAPSE_WINDOW_SECONDS = 86400;
+
 export class EmailPayloadDto {
   @IsString()
   @IsNotEmpty()
@@ -83,6 +104,24 @@ export class PushPayloadDto {
   data?: Record<string, unknown>;
 }
 
+export class InAppPayloadDto {
+  @IsString()
+  @IsNotEmpty()
+  title!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  body!: string;
+
+  @IsObject()
+  @IsOptional()
+  data?: Record<string, unknown>;
+
+  @IsString()
+  @IsOptional()
+  actionUrl?: string;
+}
+
 export class WebhookPayloadDto {
   @IsString()
   @IsNotEmpty()
@@ -101,6 +140,26 @@ export class WebhookPayloadDto {
   headers?: Record<string, string>;
 }
 
+/**
+ * Next channel to try, and when to move on to it from the previous attempt
+ */
+export class FallbackStepDto {
+  @IsEnum(NotificationChannel)
+  channel!: NotificationChannel;
+
+  @Allow()
+  @IsObject()
+  payload!: Record<string, any>;
+
+  @IsEnum(FallbackCondition)
+  condition!: FallbackCondition;
+
+  @ValidateIf((step) => step.condition === FallbackCondition.NOT_DELIVERED)
+  @IsInt()
+  @Min(1)
+  timeoutSeconds?: number;
+}
+
 export class CreateNotificationDto {
   @IsString()
   @IsNotEmpty()
@@ -128,10 +187,52 @@ export class CreateNotificationDto {
   @IsOptional()
   scheduledFor?: string;
 
+  /**
+   * Drop the notification as EXPIRED if it has not been sent by this time
+   */
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+
+  /**
+   * Relative alternative to expiresAt, counted from creation time
+   * (e.g. 300 for an OTP that is useless after 5 minutes)
+   */
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  ttlSeconds?: number;
+
+  /**
+   * Ordered fallback chain, e.g. PUSH -> SMS -> EMAIL
+   */
+  @IsArray()
+  @ArrayMaxSize(MAX_FALLBACK_STEPS)
+  @ValidateNested({ each: true })
+  @Type(() => FallbackStepDto)
+  @IsOptional()
+  fallback?: FallbackStepDto[];
+
   @IsString()
   @IsOptional()
   idempotencyKey?: string;
 
+  /**
+   * Notifications to the same user sharing this key (e.g. "order-123-status")
+   * within collapseWindowSeconds supersede each other: only the latest is
+   * delivered. Also sent as the FCM collapse key for push.
+   */
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  collapseKey?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_COLLAPSE_WINDOW_SECONDS)
+  @IsOptional()
+  collapseWindowSeconds?: number;
+
   @IsString()
   @IsOptional()
   correlationId?: string;
@@ -1,2 +1,4 @@
 export * from './create-notification.dto';
 export * from './notification-response.dto';
+export * from './reschedule-notification.dto';
+export * from './create-notification-batch.dto';
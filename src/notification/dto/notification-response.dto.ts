@@ -10,6 +10,19 @@ export enum NotificationStatus {
   SENT = 'SENT',
   FAILED = 'FAILED',
   SCHEDULED = 'SCHEDULED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
+  SUPPRESSED = 'SUPPRESSED',
+  DIGEST_PENDING = 'DIGEST_PENDING',
+  DIGESTED = 'DIGESTED',
+  SUPERSEDED = 'SUPERSEDED',
+}
+
+// Why a notification was not sent as requested
+export enum NotificationReasonCode {
+  USER_OPTED_OUT = 'USER_OPTED_OUT',
+  FREQUENCY_CAP_DROPPED = 'FREQUENCY_CAP_DROPPED',
+  FREQUENCY_CAP_DEFERRED = 'FREQUENCY_CAP_DEFERRED',
 }
 
 export class NotificationResponseDto {
@@ -20,9 +33,14 @@ export class NotificationResponseDto {
   type!: NotificationType;
   priority!: NotificationPriority;
   status!: NotificationStatus;
+  reasonCode?: NotificationReasonCode;
   scheduledFor?: Date;
+  expiresAt?: Date;
+  digestAt?: Date;
+  digestId?: string;
   createdAt!: Date;
   updatedAt!: Date;
   correlationId?: string;
   idempotencyKey?: string;
+  collapseKey?: string;
 }
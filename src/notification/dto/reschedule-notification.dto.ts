@@ -0,0 +1,6 @@
+import { IsDateString } from 'class-validator';
+
+export class RescheduleNotificationDto {
+  @IsDateString()
+  scheduledFor!: string;
+}
@@ -0,0 +1,36 @@
+/**
+ * DeliveryError - Raised when a channel provider rejects a notification
+ *
+ * `retryable` decides whether the worker routes the message to the retry
+ * topic (transient: timeouts, rate limits, 5xx, open circuit) or fails it
+ * permanently (invalid recipient, bad payload, provider not configured).
+ */
+export class DeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    public readonly provider?: string,
+  ) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+
+  static retryable(message: string, provider?: string): DeliveryError {
+    return new DeliveryError(message, true, provider);
+  }
+
+  static permanent(message: string, provider?: string): DeliveryError {
+    return new DeliveryError(message, false, provider);
+  }
+}
+
+/**
+ * Whether an error thrown during delivery should be retried.
+ * Unknown errors are treated as transient.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof DeliveryError) {
+    return error.retryable;
+  }
+  return true;
+}
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FallbackService } from './fallback.service';
+import { NotificationService } from './notification.service';
+import { OutboxService } from './outbox.service';
+import { createMockOutboxService } from './testing/outbox.mock';
+import { PrismaService } from '../prisma/prisma.service';
+import { FallbackCondition } from './dto';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+
+describe('FallbackService', () => {
+  let service: FallbackService;
+
+  const mockPrismaService = {
+    notification: {
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      createMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockNotificationService = {
+    toKafkaMessage: jest.fn((n) => ({ id: n.id })),
+  };
+
+  const mockOutboxService = createMockOutboxService();
+
+  const smsStep = {
+    channel: 'SMS',
+    payload: { phoneNumber: '+15550001111', message: 'Your code is 1234' },
+    condition: FallbackCondition.NOT_DELIVERED,
+    timeoutSeconds: 600,
+  };
+  const emailStep = {
+    channel: 'EMAIL',
+    payload: { to: 'user@example.com', subject: 'Code', body: '1234' },
+    condition: FallbackCondition.FAILED,
+  };
+
+  const buildNotification = (overrides: Record<string, unknown> = {}) =>
+    ({
+      id: 'push-1',
+      userId: 'user-1',
+      tenantId: null,
+      channel: 'PUSH',
+      type: 'TRANSACTIONAL',
+      priority: 'HIGH',
+      status: 'SENT',
+      expiresAt: null,
+      metadata: null,
+      fallback: [smsStep, emailStep],
+      correlationId: 'corr-1',
+      ...overrides,
+    }) as any;
+
+  const mockEventsService = {
+    publishCreated: jest.fn(),
+    publishCreatedMany: jest.fn(),
+    publishUpdated: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation((fn) =>
+      fn(mockPrismaService),
+    );
+    mockPrismaService.notification.createMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.notification.findUniqueOrThrow.mockImplementation(
+      async ({ where }) => ({ id: where.id }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FallbackService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: NotificationEventsService,
+          useValue: mockEventsService,
+        },
+        { provide: NotificationService, useValue: mockNotificationService },
+        { provide: OutboxService, useValue: mockOutboxService },
+      ],
+    }).compile();
+
+    service = module.get<FallbackService>(FallbackService);
+  });
+
+  describe('getDeliveryDeadline', () => {
+    it('should wait timeoutSeconds for NOT_DELIVERED steps', () => {
+      const sentAt = new Date('2026-01-01T00:00:00Z');
+
+      expect(service.getDeliveryDeadline([smsStep], sentAt)).toEqual(
+        new Date('2026-01-01T00:10:00Z'),
+      );
+    });
+
+    it('should not set a deadline for FAILED steps or empty chains', () => {
+      expect(service.getDeliveryDeadline([emailStep], new Date())).toBeNull();
+      expect(service.getDeliveryDeadline(null, new Date())).toBeNull();
+    });
+  });
+
+  describe('escalate', () => {
+    it('should create the next attempt linked to the original', async () => {
+      const escalated = await service.escalate(
+        buildNotification(),
+        FallbackCondition.NOT_DELIVERED,
+      );
+
+      expect(escalated).not.toBeNull();
+      const [row] =
+        mockPrismaService.notification.createMany.mock.calls[0][0].data;
+      expect(row).toMatchObject({
+        channel: 'SMS',
+        payload: smsStep.payload,
+        causationId: 'push-1',
+        idempotencyKey: 'fallback:push-1',
+        fallback: [emailStep],
+        metadata: { fallbackOriginalId: 'push-1', fallbackStep: 1 },
+      });
+      expect(mockOutboxService.add).toHaveBeenCalledWith(mockPrismaService, [
+        { id: row.id },
+      ]);
+      expect(mockOutboxService.publish).toHaveBeenCalledWith([
+        expect.objectContaining({ message: { id: row.id } }),
+      ]);
+    });
+
+    it('should keep pointing later attempts at the original', async () => {
+      await service.escalate(
+        buildNotification({
+          id: 'sms-1',
+          channel: 'SMS',
+          status: 'FAILED',
+          fallback: [emailStep],
+          metadata: { fallbackOriginalId: 'push-1', fallbackStep: 1 },
+        }),
+        FallbackCondition.FAILED,
+      );
+
+      const [row] =
+        mockPrismaService.notification.createMany.mock.calls[0][0].data;
+      expect(row).toMatchObject({
+        channel: 'EMAIL',
+        causationId: 'push-1',
+        idempotencyKey: 'fallback:sms-1',
+        fallback: undefined,
+        metadata: { fallbackStep: 2, escalatedFrom: 'sms-1' },
+      });
+    });
+
+    it('should not fire FAILED steps on a missed delivery receipt', async () => {
+      const escalated = await service.escalate(
+        buildNotification({ fallback: [emailStep] }),
+        FallbackCondition.NOT_DELIVERED,
+      );
+
+      expect(escalated).toBeNull();
+      expect(mockPrismaService.notification.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should escalate only once per attempt', async () => {
+      mockPrismaService.notification.createMany.mockResolvedValue({
+        count: 0,
+      });
+
+      const escalated = await service.escalate(
+        buildNotification(),
+        FallbackCondition.FAILED,
+      );
+
+      expect(escalated).toBeNull();
+      expect(mockOutboxService.add).not.toHaveBeenCalled();
+      expect(mockOutboxService.publish).not.toHaveBeenCalled();
+    });
+  });
+});
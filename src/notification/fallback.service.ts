@@ -0,0 +1,210 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Notification, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from './notification.service';
+import { OutboxService } from './outbox.service';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+import { FallbackCondition, FallbackStepDto, NotificationStatus } from './dto';
+
+export type FallbackTrigger = FallbackCondition;
+
+/**
+ * FallbackService - Escalates undelivered notifications along their
+ * fallback chain (e.g. PUSH -> SMS -> EMAIL)
+ *
+ * Notification.fallback holds the remaining chain. Each step's condition
+ * says when to move on from the previous attempt:
+ * - FAILED: the attempt failed permanently or ran out of retries
+ * - NOT_DELIVERED: no delivery receipt within timeoutSeconds of sending
+ *   (a failure escalates too)
+ *
+ * Triggers:
+ * - The worker escalates directly after a permanent failure or DLQ
+ * - When marking SENT, the worker sets fallbackDeadline for NOT_DELIVERED
+ *   steps; delivery receipts (WebhooksController) clear it, failure
+ *   receipts pull it forward to now
+ * - This poller escalates every notification whose deadline has passed
+ *
+ * Each escalation creates a new notification for the next channel with
+ * causationId = the original notification's ID and the rest of the chain.
+ * Its idempotency key (fallback:<previousId>) guarantees one escalation
+ * per attempt across instances. The escalated notification and its outbox
+ * row are written in one transaction, so it is always published.
+ */
+@Injectable()
+export class FallbackService {
+  private readonly logger = new Logger(FallbackService.name);
+  private readonly BATCH_SIZE = 100;
+  private isEscalating = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+    private readonly outbox: OutboxService,
+    private readonly events: NotificationEventsService,
+  ) {}
+
+  /**
+   * Escalate notifications whose fallback deadline has passed
+   * Runs every 5 seconds
+   */
+  @Interval(5000)
+  async escalateOverdue(): Promise<number> {
+    // Skip if the previous tick is still running
+    if (this.isEscalating) {
+      return 0;
+    }
+
+    this.isEscalating = true;
+    let escalated = 0;
+
+    try {
+      const overdue = await this.prisma.notification.findMany({
+        where: {
+          fallbackDeadline: { lte: new Date() },
+          deliveredAt: null,
+        },
+        orderBy: { fallbackDeadline: 'asc' },
+        take: this.BATCH_SIZE,
+      });
+
+      for (const notification of overdue) {
+        const trigger =
+          notification.status === NotificationStatus.FAILED
+            ? FallbackCondition.FAILED
+            : FallbackCondition.NOT_DELIVERED;
+
+        if (await this.escalate(notification, trigger)) {
+          escalated++;
+        }
+      }
+    } catch (error) {
+      this.logger.error('Fallback escalation failed:', error);
+    } finally {
+      this.isEscalating = false;
+    }
+
+    return escalated;
+  }
+
+  /**
+   * Deadline for a delivery receipt before escalating, or null if the next
+   * step only fires on failure
+   */
+  getDeliveryDeadline(
+    fallback: Prisma.JsonValue | undefined,
+    sentAt: Date,
+  ): Date | null {
+    const next = this.getChain(fallback)[0];
+
+    if (next?.condition !== FallbackCondition.NOT_DELIVERED) {
+      return null;
+    }
+
+    return new Date(sentAt.getTime() + (next.timeoutSeconds ?? 0) * 1000);
+  }
+
+  /**
+   * Create and publish the next attempt in the chain
+   * Returns the new notification, or null if there is nothing to escalate to
+   */
+  async escalate(
+    notification: Notification,
+    trigger: FallbackTrigger,
+  ): Promise<Notification | null> {
+    const [next, ...rest] = this.getChain(notification.fallback);
+
+    // The deadline is consumed whatever happens next
+    await this.prisma.notification.updateMany({
+      where: { id: notification.id, fallbackDeadline: { not: null } },
+      data: { fallbackDeadline: null },
+    });
+
+    if (!next) {
+      return null;
+    }
+
+    // A FAILED step only fires on failure, not on a missed delivery receipt
+    if (
+      trigger === FallbackCondition.NOT_DELIVERED &&
+      next.condition !== FallbackCondition.NOT_DELIVERED
+    ) {
+      return null;
+    }
+
+    const metadata = (notification.metadata ?? {}) as Record<string, any>;
+    const originalId: string = metadata.fallbackOriginalId ?? notification.id;
+    const step: number = (metadata.fallbackStep ?? 0) + 1;
+    const id = randomUUID();
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const inserted = await tx.notification.createMany({
+        data: [
+          {
+            id,
+            userId: notification.userId,
+            tenantId: notification.tenantId,
+            type: notification.type,
+            priority: notification.priority,
+            channel: next.channel,
+            status: NotificationStatus.PENDING,
+            payload: next.payload as any, // Prisma stores JSON
+            content: JSON.stringify(next.payload), // deprecated field - keep for backward compatibility
+            expiresAt: notification.expiresAt,
+            fallback: rest.length > 0 ? (rest as any) : undefined,
+            idempotencyKey: `fallback:${notification.id}`,
+            correlationId: notification.correlationId,
+            causationId: originalId,
+            metadata: {
+              fallbackOriginalId: originalId,
+              fallbackStep: step,
+              escalatedFrom: notification.id,
+              escalationReason: trigger,
+            },
+          },
+        ],
+        skipDuplicates: true,
+      });
+
+      if (inserted.count === 0) {
+        return null;
+      }
+
+      const escalated = await tx.notification.findUniqueOrThrow({
+        where: { id },
+      });
+      const outbox = await this.outbox.add(tx, [
+        this.notificationService.toKafkaMessage(escalated),
+      ]);
+
+      return { escalated, outbox };
+    });
+
+    if (!result) {
+      this.logger.debug(
+        `Notification ${notification.id} was already escalated, skipping`,
+      );
+      return null;
+    }
+
+    const { escalated, outbox } = result;
+
+    await this.events.publishCreated(escalated);
+    // Publish right away; OutboxService relays it if this fails
+    await this.outbox.publish(outbox);
+
+    this.logger.log(
+      `Escalated notification ${notification.id} (${notification.channel}) to ${next.channel} as ${id} after ${trigger} (step ${step}, correlationId: ${notification.correlationId})`,
+    );
+
+    return escalated;
+  }
+
+  private getChain(fallback: Prisma.JsonValue | undefined): FallbackStepDto[] {
+    return Array.isArray(fallback)
+      ? (fallback as unknown as FallbackStepDto[])
+      : [];
+  }
+}
@@ -0,0 +1,340 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Agent, fetch, Response } from 'undici';
+import { NotificationProcessorService } from './notification-processor.service';
+import { RetryService } from './retry.service';
+import { DeliveryError } from './errors/delivery.error';
+import { KafkaProducerService } from '../kafka/kafka-producer.service';
+import { InboxService } from '../inbox/inbox.service';
+import {
+  EMAIL_SERVICE,
+  SMS_SERVICE,
+  PUSH_SERVICE,
+} from '../integrations/integrations.module';
+import {
+  NotificationMessage,
+  NotificationChannel,
+  NotificationType,
+  NotificationPriority,
+  NotificationStatus,
+} from '../kafka/schemas/notification.schema';
+
+jest.mock('undici', () => ({
+  ...jest.requireActual('undici'),
+  fetch: jest.fn(),
+  Agent: jest.fn(() => ({ destroy: jest.fn().mockResolvedValue(undefined) })),
+}));
+
+describe('NotificationProcessorService', () => {
+  let service: NotificationProcessorService;
+
+  const mockEmailService = {
+    sendEmail: jest.fn(),
+    isEnabled: jest.fn().mockReturnValue(true),
+  };
+  const mockSmsService = {
+    sendSms: jest.fn(),
+    isEnabled: jest.fn().mockReturnValue(true),
+  };
+  const mockPushService = {
+    sendPush: jest.fn(),
+    sendToTopic: jest.fn(),
+    isEnabled: jest.fn().mockReturnValue(true),
+  };
+
+  const mockInboxService = {
+    deliver: jest.fn(),
+  };
+
+  const buildMessage = (
+    overrides: Partial<NotificationMessage> = {},
+  ): NotificationMessage => ({
+    id: 'notif-1',
+    version: '1.0.0',
+    timestamp: Date.now(),
+    idempotencyKey: 'idem-1',
+    userId: 'user-1',
+    type: NotificationType.EMAIL,
+    channel: NotificationChannel.EMAIL,
+    priority: NotificationPriority.MEDIUM,
+    status: NotificationStatus.PENDING,
+    payload: { to: 'user@example.com', subject: 'Hello', body: 'World' },
+    correlationId: 'corr-1',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationProcessorService,
+        RetryService,
+        { provide: KafkaProducerService, useValue: { sendToTopic: jest.fn() } },
+        { provide: EMAIL_SERVICE, useValue: mockEmailService },
+        { provide: SMS_SERVICE, useValue: mockSmsService },
+        { provide: PUSH_SERVICE, useValue: mockPushService },
+        { provide: InboxService, useValue: mockInboxService },
+      ],
+    }).compile();
+
+    service = module.get<NotificationProcessorService>(
+      NotificationProcessorService,
+    );
+  });
+
+  describe('email', () => {
+    it('should deliver through EMAIL_SERVICE and return the message ID', async () => {
+      mockEmailService.sendEmail.mockResolvedValue({
+        success: true,
+        messageId: 'sg-123',
+      });
+
+      const receipt = await service.processNotification(buildMessage());
+
+      expect(receipt.messageId).toBe('sg-123');
+      expect(mockEmailService.sendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'user@example.com',
+          subject: 'Hello',
+          text: 'World',
+        }),
+      );
+    });
+
+    it('should reject invalid payloads as permanent failures', async () => {
+      await expect(
+        service.processNotification(
+          buildMessage({ payload: { body: 'no recipient' } }),
+        ),
+      ).rejects.toMatchObject({ retryable: false });
+
+      expect(mockEmailService.sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should treat unknown provider errors as retryable', async () => {
+      mockEmailService.sendEmail.mockResolvedValue({
+        success: false,
+        error: 'SendGrid API error: Service Unavailable',
+      });
+
+      const error = await service
+        .processNotification(buildMessage())
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(DeliveryError);
+      expect(error.retryable).toBe(true);
+    });
+  });
+
+  describe('sms', () => {
+    it('should map REST phoneNumber/message fields', async () => {
+      mockSmsService.sendSms.mockResolvedValue({
+        success: true,
+        messageId: 'SM123',
+      });
+
+      const receipt = await service.processNotification(
+        buildMessage({
+          channel: NotificationChannel.SMS,
+          payload: { phoneNumber: '+15550001111', message: 'Code 1234' } as any,
+        }),
+      );
+
+      expect(receipt.messageId).toBe('SM123');
+      expect(mockSmsService.sendSms).toHaveBeenCalledWith(
+        expect.objectContaining({ to: '+15550001111', body: 'Code 1234' }),
+      );
+    });
+
+    it('should classify invalid phone numbers as permanent', async () => {
+      mockSmsService.sendSms.mockResolvedValue({
+        success: false,
+        error:
+          "Twilio error 21211: The 'To' number is not a valid phone number",
+      });
+
+      await expect(
+        service.processNotification(
+          buildMessage({
+            channel: NotificationChannel.SMS,
+            payload: { to: '+1', body: 'hi' },
+          }),
+        ),
+      ).rejects.toMatchObject({ retryable: false, provider: 'twilio' });
+    });
+  });
+
+  describe('push', () => {
+    it('should accept the generic PUSH channel and deviceToken field', async () => {
+      mockPushService.sendPush.mockResolvedValue({
+        success: true,
+        messageId: 'projects/x/messages/1',
+      });
+
+      const receipt = await service.processNotification(
+        buildMessage({
+          channel: 'PUSH' as NotificationChannel,
+          payload: {
+            deviceToken: 'token-1',
+            title: 'Hi',
+            body: 'There',
+            data: { orderId: 42 },
+          } as any,
+        }),
+      );
+
+      expect(receipt.messageId).toBe('projects/x/messages/1');
+      expect(mockPushService.sendPush).toHaveBeenCalledWith(
+        expect.objectContaining({ token: 'token-1', data: { orderId: '42' } }),
+      );
+    });
+
+    it('should classify unregistered tokens as permanent', async () => {
+      mockPushService.sendPush.mockResolvedValue({
+        success: false,
+        error:
+          'FCM error messaging/registration-token-not-registered: Requested entity was not found.',
+      });
+
+      await expect(
+        service.processNotification(
+          buildMessage({
+            channel: NotificationChannel.PUSH_ANDROID,
+            payload: { token: 't', title: 'a', body: 'b' } as any,
+          }),
+        ),
+      ).rejects.toMatchObject({ retryable: false });
+    });
+  });
+
+  describe('in-app', () => {
+    it('should store the notification in the inbox as delivered', async () => {
+      mockInboxService.deliver.mockResolvedValue('inbox-1');
+
+      const receipt = await service.processNotification(
+        buildMessage({
+          type: NotificationType.IN_APP,
+          channel: NotificationChannel.IN_APP,
+          payload: { title: 'Hello', body: 'World', actionUrl: '/orders/1' },
+        }),
+      );
+
+      expect(receipt).toEqual({ messageId: 'inbox-1', delivered: true });
+      expect(mockInboxService.deliver).toHaveBeenCalledWith({
+        notificationId: 'notif-1',
+        userId: 'user-1',
+        title: 'Hello',
+        body: 'World',
+        data: undefined,
+        actionUrl: '/orders/1',
+      });
+    });
+
+    it('should reject payloads without a title as permanent', async () => {
+      await expect(
+        service.processNotification(
+          buildMessage({
+            channel: NotificationChannel.IN_APP,
+            payload: { body: 'World' },
+          }),
+        ),
+      ).rejects.toMatchObject({ retryable: false });
+      expect(mockInboxService.deliver).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('webhook', () => {
+    const webhookMessage = (url: string) =>
+      buildMessage({
+        type: NotificationType.WEBHOOK,
+        channel: NotificationChannel.WEBHOOK,
+        payload: { url, payload: { orderId: 'order-1' } } as any,
+      });
+
+    const fetchSpy = jest.mocked(fetch);
+
+    beforeEach(() => {
+      fetchSpy.mockResolvedValue(new Response(null, { status: 200 }));
+    });
+
+    it('should post to public https URLs without following redirects', async () => {
+      await service.processNotification(
+        webhookMessage('https://93.184.216.34/hooks/orders'),
+      );
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        new URL('https://93.184.216.34/hooks/orders'),
+        expect.objectContaining({
+          method: 'POST',
+          redirect: 'manual',
+          body: JSON.stringify({ orderId: 'order-1' }),
+        }),
+      );
+    });
+
+    it('should connect to the checked address instead of resolving the host again', async () => {
+      await service.processNotification(
+        webhookMessage('https://93.184.216.34/hooks/orders'),
+      );
+
+      const [options] = jest.mocked(Agent).mock.calls[0];
+      const lookup = options!.connect as {
+        lookup: (
+          hostname: string,
+          options: { all?: boolean },
+          callback: (...args: unknown[]) => void,
+        ) => void;
+      };
+      const callback = jest.fn();
+      lookup.lookup('93.184.216.34', { all: true }, callback);
+      lookup.lookup('93.184.216.34', {}, callback);
+
+      expect(callback).toHaveBeenNthCalledWith(1, null, [
+        { address: '93.184.216.34', family: 4 },
+      ]);
+      expect(callback).toHaveBeenNthCalledWith(2, null, '93.184.216.34', 4);
+      expect(fetchSpy).toHaveBeenCalledWith(
+        expect.any(URL),
+        expect.objectContaining({
+          dispatcher: jest.mocked(Agent).mock.results[0].value,
+        }),
+      );
+    });
+
+    it.each([
+      ['plain http', 'http://93.184.216.34/hook'],
+      ['loopback', 'https://127.0.0.1/hook'],
+      ['localhost', 'https://localhost/hook'],
+      ['cloud metadata', 'https://169.254.169.254/latest/meta-data'],
+      ['private networks', 'https://10.0.0.5/hook'],
+      ['IPv6 loopback', 'https://[::1]/hook'],
+      ['IPv4-mapped IPv6', 'https://[::ffff:192.168.0.1]/hook'],
+    ])('should refuse %s as a permanent failure', async (_case, url) => {
+      await expect(
+        service.processNotification(webhookMessage(url)),
+      ).rejects.toMatchObject({ retryable: false });
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not treat redirects as delivered', async () => {
+      fetchSpy.mockResolvedValue(
+        new Response(null, {
+          status: 302,
+          headers: { location: 'http://169.254.169.254/' },
+        }),
+      );
+
+      await expect(
+        service.processNotification(webhookMessage('https://93.184.216.34/')),
+      ).rejects.toMatchObject({ retryable: false });
+    });
+  });
+
+  it('should reject unsupported channels as permanent failures', async () => {
+    await expect(
+      service.processNotification(
+        buildMessage({ channel: 'CARRIER_PIGEON' as NotificationChannel }),
+      ),
+    ).rejects.toMatchObject({ retryable: false });
+  });
+});
@@ -1,6 +1,56 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { fetch, Response } from 'undici';
 import { NotificationMessage } from '../kafka/schemas/notification.schema';
+import {
+  EMAIL_SERVICE,
+  SMS_SERVICE,
+  PUSH_SERVICE,
+} from '../integrations/integrations.module';
+import {
+  EmailProvider,
+  SmsProvider,
+  PushProvider,
+} from '../integrations/interfaces/delivery-provider.interface';
+import { InboxService } from '../inbox/inbox.service';
 import { RetryService } from './retry.service';
+import { DeliveryError } from './errors/delivery.error';
+import { assertPublicWebhookUrl, createPinnedAgent } from './webhook-url';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Provider error messages that will fail the same way on every attempt
+ * (bad recipient, rejected credentials, provider not configured).
+ * Anything else is treated as transient and retried.
+ */
+const PERMANENT_PROVIDER_ERRORS = {
+  sendgrid: [
+    /not configured/i,
+    /does not contain a valid address/i,
+    /invalid email/i,
+    /unauthorized|forbidden|permission/i,
+  ],
+  twilio: [
+    /not configured/i,
+    /Twilio error 2(1211|1212|1214|1217|1408|1610|1612|1614)\b/,
+    /not a valid phone number/i,
+  ],
+  fcm: [
+    /not configured/i,
+    /registration-token-not-registered/,
+    /invalid-registration-token/,
+    /invalid-argument/,
+    /mismatched-credential/,
+  ],
+};
+
+/**
+ * Result of a successful provider call
+ */
+export interface DeliveryReceipt {
+  messageId?: string;
+  delivered?: boolean; // delivery confirmed synchronously (in-app inbox)
+}
 
 /**
  * NotificationProcessor - Handles channel-specific notification delivery
@@ -9,227 +59,366 @@ import { RetryService } from './retry.service';
  * and manages the delivery process with circuit breaker protection.
  *
  * Responsibilities:
- * - Route notifications by channel (EMAIL, SMS, PUSH, WEBHOOK)
- * - Handle channel-specific delivery logic with circuit breakers
- * - Return delivery results (success/failure)
- * - Log delivery attempts
+ * - Route notifications by channel (EMAIL, SMS, PUSH, IN_APP, WEBHOOK)
+ * - Deliver through the EMAIL_SERVICE / SMS_SERVICE / PUSH_SERVICE providers
+ * - Store IN_APP notifications in the recipient's inbox
+ * - Classify provider errors as retryable or permanent (DeliveryError)
+ * - Return the provider message ID for delivery-receipt matching
  */
 @Injectable()
 export class NotificationProcessorService {
   private readonly logger = new Logger(NotificationProcessorService.name);
 
-  constructor(private readonly retryService: RetryService) {}
+  constructor(
+    private readonly retryService: RetryService,
+    @Inject(EMAIL_SERVICE) private readonly emailService: EmailProvider,
+    @Inject(SMS_SERVICE) private readonly smsService: SmsProvider,
+    @Inject(PUSH_SERVICE) private readonly pushService: PushProvider,
+    private readonly inboxService: InboxService,
+  ) {}
 
   /**
    * Process notification based on channel with circuit breaker protection
    */
-  async processNotification(notification: NotificationMessage): Promise<void> {
+  async processNotification(
+    notification: NotificationMessage,
+  ): Promise<DeliveryReceipt> {
     const { channel, id, userId, correlationId } = notification;
 
     this.logger.log(
       `Processing ${channel} notification ${id} for user ${userId} (correlationId: ${correlationId})`,
     );
 
-    switch (channel) {
+    // REST-created notifications carry the generic PUSH channel
+    switch (channel as string) {
       case 'EMAIL':
-        await this.retryService.executeWithCircuitBreaker('sendgrid', () =>
+        return this.retryService.executeWithCircuitBreaker('sendgrid', () =>
           this.sendEmail(notification),
         );
-        break;
       case 'SMS':
-        await this.retryService.executeWithCircuitBreaker('twilio', () =>
+        return this.retryService.executeWithCircuitBreaker('twilio', () =>
           this.sendSms(notification),
         );
-        break;
+      case 'PUSH':
       case 'PUSH_IOS':
       case 'PUSH_ANDROID':
-        await this.retryService.executeWithCircuitBreaker('fcm', () =>
+        return this.retryService.executeWithCircuitBreaker('fcm', () =>
           this.sendPush(notification),
         );
-        break;
+      case 'IN_APP':
+        return this.deliverInApp(notification);
       case 'WEBHOOK':
-        await this.retryService.executeWithCircuitBreaker('webhook', () =>
+        return this.retryService.executeWithCircuitBreaker('webhook', () =>
           this.sendWebhook(notification),
         );
-        break;
       default:
-        throw new Error(`Unsupported notification channel: ${channel}`);
+        throw DeliveryError.permanent(
+          `Unsupported notification channel: ${channel}`,
+        );
     }
   }
 
   /**
-   * Send email notification (mock SendGrid)
+   * Send email notification via the configured EMAIL_SERVICE
    */
-  private async sendEmail(notification: NotificationMessage): Promise<void> {
+  private async sendEmail(
+    notification: NotificationMessage,
+  ): Promise<DeliveryReceipt> {
     const { id, payload, correlationId } = notification;
     const startTime = Date.now();
 
-    try {
-      // Cast payload to any for channel-specific validation
-      const emailPayload = payload as any;
-
-      // Validate email payload
-      if (!emailPayload.to || !emailPayload.subject || !emailPayload.body) {
-        throw new Error('Invalid email payload: missing to, subject, or body');
-      }
-
-      // Mock SendGrid API call
-      this.logger.log(`[SENDGRID] Sending email notification ${id}`);
-      this.logger.debug(`[SENDGRID] To: ${emailPayload.to}`);
-      this.logger.debug(`[SENDGRID] Subject: ${emailPayload.subject}`);
-      this.logger.debug(
-        `[SENDGRID] From: ${emailPayload.from || 'noreply@example.com'}`,
+    // Cast payload to any for channel-specific validation
+    const emailPayload = payload as any;
+
+    // Validate email payload
+    if (!emailPayload.to || !emailPayload.subject || !emailPayload.body) {
+      throw DeliveryError.permanent(
+        'Invalid email payload: missing to, subject, or body',
+        'sendgrid',
       );
+    }
 
-      // Simulate API call delay
-      await new Promise((resolve) => setTimeout(resolve, 50));
+    this.logger.log(`[SENDGRID] Sending email notification ${id}`);
+    this.logger.debug(`[SENDGRID] To: ${emailPayload.to}`);
+    this.logger.debug(`[SENDGRID] Subject: ${emailPayload.subject}`);
 
-      // Mock successful response
-      const latency = Date.now() - startTime;
-      this.logger.log(
-        `[SENDGRID] Email sent successfully (${latency}ms, messageId: mock-${id}, correlationId: ${correlationId})`,
-      );
-    } catch (error) {
-      const latency = Date.now() - startTime;
+    const result = await this.emailService.sendEmail({
+      to: emailPayload.to,
+      from: emailPayload.from,
+      subject: emailPayload.subject,
+      text: emailPayload.body,
+      ...(emailPayload.html && { html: emailPayload.html }),
+    });
+
+    const latency = Date.now() - startTime;
+    if (!result.success) {
       this.logger.error(
-        `[SENDGRID] Failed to send email (${latency}ms):`,
-        error instanceof Error ? error.message : error,
+        `[SENDGRID] Failed to send email (${latency}ms): ${result.error}`,
       );
-      throw error;
+      throw this.classifyProviderError('sendgrid', result.error);
     }
+
+    this.logger.log(
+      `[SENDGRID] Email sent successfully (${latency}ms, messageId: ${result.messageId}, correlationId: ${correlationId})`,
+    );
+    return { messageId: result.messageId };
   }
 
   /**
-   * Send SMS notification (mock Twilio)
+   * Send SMS notification via the configured SMS_SERVICE
    */
-  private async sendSms(notification: NotificationMessage): Promise<void> {
+  private async sendSms(
+    notification: NotificationMessage,
+  ): Promise<DeliveryReceipt> {
     const { id, payload, correlationId } = notification;
     const startTime = Date.now();
 
-    try {
-      // Cast payload to any for channel-specific validation
-      const smsPayload = payload as any;
-
-      // Validate SMS payload
-      if (!smsPayload.to || !smsPayload.body) {
-        throw new Error('Invalid SMS payload: missing to or body');
-      }
-
-      // Mock Twilio API call
-      this.logger.log(`[TWILIO] Sending SMS notification ${id}`);
-      this.logger.debug(`[TWILIO] To: ${smsPayload.to}`);
-      this.logger.debug(`[TWILIO] From: ${smsPayload.from || '+1234567890'}`);
-      this.logger.debug(
-        `[TWILIO] Body: ${smsPayload.body.substring(0, 50)}...`,
-      );
+    // Cast payload to any for channel-specific validation
+    const smsPayload = payload as any;
 
-      // Simulate API call delay
-      await new Promise((resolve) => setTimeout(resolve, 75));
+    // REST payloads use phoneNumber/message, Kafka producers may use to/body
+    const to = smsPayload.to || smsPayload.phoneNumber;
+    const body = smsPayload.body || smsPayload.message;
 
-      // Mock successful response
-      const latency = Date.now() - startTime;
-      this.logger.log(
-        `[TWILIO] SMS sent successfully (${latency}ms, sid: SM${id.substring(0, 8)}, correlationId: ${correlationId})`,
+    // Validate SMS payload
+    if (!to || !body) {
+      throw DeliveryError.permanent(
+        'Invalid SMS payload: missing to or body',
+        'twilio',
       );
-    } catch (error) {
-      const latency = Date.now() - startTime;
+    }
+
+    this.logger.log(`[TWILIO] Sending SMS notification ${id}`);
+    this.logger.debug(`[TWILIO] To: ${to}`);
+    this.logger.debug(`[TWILIO] Body: ${body.substring(0, 50)}...`);
+
+    const result = await this.smsService.sendSms({
+      to,
+      body,
+      from: smsPayload.from,
+    });
+
+    const latency = Date.now() - startTime;
+    if (!result.success) {
       this.logger.error(
-        `[TWILIO] Failed to send SMS (${latency}ms):`,
-        error instanceof Error ? error.message : error,
+        `[TWILIO] Failed to send SMS (${latency}ms): ${result.error}`,
       );
-      throw error;
+      throw this.classifyProviderError('twilio', result.error);
     }
+
+    this.logger.log(
+      `[TWILIO] SMS sent successfully (${latency}ms, sid: ${result.messageId}, correlationId: ${correlationId})`,
+    );
+    return { messageId: result.messageId };
   }
 
   /**
-   * Send push notification (mock Firebase Cloud Messaging)
+   * Send push notification via the configured PUSH_SERVICE
    */
-  private async sendPush(notification: NotificationMessage): Promise<void> {
+  private async sendPush(
+    notification: NotificationMessage,
+  ): Promise<DeliveryReceipt> {
     const { id, payload, correlationId } = notification;
     const startTime = Date.now();
 
-    try {
-      // Cast payload to any for channel-specific validation
-      const pushPayload = payload as any;
-
-      // Validate push payload
-      if (!pushPayload.token && !pushPayload.topic) {
-        throw new Error('Invalid push payload: missing token or topic');
-      }
-
-      if (!pushPayload.title || !pushPayload.body) {
-        throw new Error('Invalid push payload: missing title or body');
-      }
-
-      // Mock FCM API call
-      this.logger.log(`[FCM] Sending push notification ${id}`);
-      this.logger.debug(
-        `[FCM] Target: ${pushPayload.token ? 'token' : 'topic'}`,
-      );
-      this.logger.debug(`[FCM] Title: ${pushPayload.title}`);
-      this.logger.debug(`[FCM] Body: ${pushPayload.body.substring(0, 50)}...`);
+    // Cast payload to any for channel-specific validation
+    const pushPayload = payload as any;
+    const token = pushPayload.token || pushPayload.deviceToken;
 
-      // Simulate API call delay
-      await new Promise((resolve) => setTimeout(resolve, 60));
+    // Validate push payload
+    if (!token && !pushPayload.topic) {
+      throw DeliveryError.permanent(
+        'Invalid push payload: missing token or topic',
+        'fcm',
+      );
+    }
 
-      // Mock successful response
-      const latency = Date.now() - startTime;
-      this.logger.log(
-        `[FCM] Push notification sent successfully (${latency}ms, messageId: fcm-${id.substring(0, 8)}, correlationId: ${correlationId})`,
+    if (!pushPayload.title || !pushPayload.body) {
+      throw DeliveryError.permanent(
+        'Invalid push payload: missing title or body',
+        'fcm',
       );
-    } catch (error) {
-      const latency = Date.now() - startTime;
+    }
+
+    this.logger.log(`[FCM] Sending push notification ${id}`);
+    this.logger.debug(`[FCM] Target: ${token ? 'token' : 'topic'}`);
+    this.logger.debug(`[FCM] Title: ${pushPayload.title}`);
+
+    const message = {
+      title: pushPayload.title,
+      body: pushPayload.body,
+      data: this.toStringMap(pushPayload.data),
+      image: pushPayload.icon,
+      badge: pushPayload.badge,
+      sound: pushPayload.sound,
+      clickAction: pushPayload.clickAction,
+      collapseKey: notification.collapseKey,
+      priority:
+        notification.priority === 'URGENT' || notification.priority === 'HIGH'
+          ? ('high' as const)
+          : ('normal' as const),
+    };
+
+    const result = token
+      ? await this.pushService.sendPush({ ...message, token })
+      : await this.pushService.sendToTopic(pushPayload.topic, message);
+
+    const latency = Date.now() - startTime;
+    if (!result.success) {
       this.logger.error(
-        `[FCM] Failed to send push notification (${latency}ms):`,
-        error instanceof Error ? error.message : error,
+        `[FCM] Failed to send push notification (${latency}ms): ${result.error}`,
       );
-      throw error;
+      throw this.classifyProviderError('fcm', result.error);
     }
+
+    this.logger.log(
+      `[FCM] Push notification sent successfully (${latency}ms, messageId: ${result.messageId}, correlationId: ${correlationId})`,
+    );
+    return { messageId: result.messageId };
+  }
+
+  /**
+   * Store in-app notification in the recipient's inbox
+   * No circuit breaker - the inbox is our own database
+   */
+  private async deliverInApp(
+    notification: NotificationMessage,
+  ): Promise<DeliveryReceipt> {
+    const { id, userId, payload, correlationId } = notification;
+
+    // Cast payload to any for channel-specific validation
+    const inAppPayload = payload as any;
+
+    // Validate in-app payload
+    if (!inAppPayload.title || !inAppPayload.body) {
+      throw DeliveryError.permanent(
+        'Invalid in-app payload: missing title or body',
+      );
+    }
+
+    const itemId = await this.inboxService.deliver({
+      notificationId: id,
+      userId,
+      title: inAppPayload.title,
+      body: inAppPayload.body,
+      data: inAppPayload.data,
+      actionUrl: inAppPayload.actionUrl,
+    });
+
+    this.logger.log(
+      `[INBOX] Notification ${id} stored as inbox item ${itemId} (correlationId: ${correlationId})`,
+    );
+    return { messageId: itemId, delivered: true };
   }
 
   /**
-   * Send webhook notification (HTTP POST)
+   * Send webhook notification (HTTP request to the caller-supplied URL).
+   * Only https URLs on public addresses are called, and redirects are not
+   * followed since their target would skip that check
    */
-  private async sendWebhook(notification: NotificationMessage): Promise<void> {
+  private async sendWebhook(
+    notification: NotificationMessage,
+  ): Promise<DeliveryReceipt> {
     const { id, payload, correlationId } = notification;
     const startTime = Date.now();
 
-    try {
-      // Cast payload to any for channel-specific validation
-      const webhookPayload = payload as any;
-
-      // Validate webhook payload
-      if (!webhookPayload.url) {
-        throw new Error('Invalid webhook payload: missing url');
-      }
-
-      if (!webhookPayload.method) {
-        webhookPayload.method = 'POST';
-      }
-
-      // Mock HTTP client call
-      this.logger.log(`[WEBHOOK] Sending webhook notification ${id}`);
-      this.logger.debug(`[WEBHOOK] URL: ${webhookPayload.url}`);
-      this.logger.debug(`[WEBHOOK] Method: ${webhookPayload.method}`);
-      this.logger.debug(
-        `[WEBHOOK] Headers: ${JSON.stringify(webhookPayload.headers || {})}`,
+    // Cast payload to any for channel-specific validation
+    const webhookPayload = payload as any;
+
+    // Validate webhook payload
+    if (!webhookPayload.url) {
+      throw DeliveryError.permanent(
+        'Invalid webhook payload: missing url',
+        'webhook',
       );
+    }
 
-      // Simulate HTTP call delay
-      await new Promise((resolve) => setTimeout(resolve, 100));
+    const { url, addresses } = await assertPublicWebhookUrl(webhookPayload.url);
+    const method = webhookPayload.method || 'POST';
 
-      // Mock successful response
-      const latency = Date.now() - startTime;
-      this.logger.log(
-        `[WEBHOOK] Webhook delivered successfully (${latency}ms, status: 200, correlationId: ${correlationId})`,
-      );
+    this.logger.log(`[WEBHOOK] Sending webhook notification ${id}`);
+    this.logger.debug(`[WEBHOOK] URL: ${webhookPayload.url}`);
+    this.logger.debug(`[WEBHOOK] Method: ${method}`);
+
+    // Connect to the addresses just checked instead of resolving again
+    const dispatcher = createPinnedAgent(addresses);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        redirect: 'manual',
+        dispatcher,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Notification-Id': id,
+          ...(correlationId && { 'X-Correlation-Id': correlationId }),
+          ...(webhookPayload.headers || {}),
+        },
+        ...(method !== 'GET' && {
+          body: JSON.stringify(webhookPayload.payload ?? {}),
+        }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
     } catch (error) {
-      const latency = Date.now() - startTime;
+      // Network errors and timeouts are transient
+      throw DeliveryError.retryable(
+        `Webhook request failed: ${error instanceof Error ? error.message : error}`,
+        'webhook',
+      );
+    } finally {
+      // Only the status and headers are used; drop the connection
+      void dispatcher.destroy().catch(() => undefined);
+    }
+
+    const latency = Date.now() - startTime;
+    if (!response.ok) {
       this.logger.error(
-        `[WEBHOOK] Failed to send webhook (${latency}ms):`,
-        error instanceof Error ? error.message : error,
+        `[WEBHOOK] Failed to send webhook (${latency}ms, status: ${response.status})`,
+      );
+      const retryable = response.status === 408 || response.status === 429;
+      throw new DeliveryError(
+        `Webhook responded with status ${response.status}`,
+        retryable || response.status >= 500,
+        'webhook',
       );
-      throw error;
     }
+
+    this.logger.log(
+      `[WEBHOOK] Webhook delivered successfully (${latency}ms, status: ${response.status}, correlationId: ${correlationId})`,
+    );
+    return { messageId: response.headers.get('x-request-id') || undefined };
+  }
+
+  /**
+   * Turn a provider error string into a retryable or permanent DeliveryError
+   */
+  private classifyProviderError(
+    provider: keyof typeof PERMANENT_PROVIDER_ERRORS,
+    error?: string,
+  ): DeliveryError {
+    const message = error || `${provider} delivery failed`;
+    const permanent = PERMANENT_PROVIDER_ERRORS[provider].some((pattern) =>
+      pattern.test(message),
+    );
+
+    return new DeliveryError(message, !permanent, provider);
+  }
+
+  /**
+   * FCM data payloads only accept string values
+   */
+  private toStringMap(
+    data?: Record<string, unknown>,
+  ): Record<string, string> | undefined {
+    if (!data || typeof data !== 'object') {
+      return undefined;
+    }
+
+    return Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? value : JSON.stringify(value),
+      ]),
+    );
   }
 }
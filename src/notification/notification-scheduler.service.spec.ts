@@ -0,0 +1,216 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationSchedulerService } from './notification-scheduler.service';
+import { NotificationService } from './notification.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from './outbox.service';
+import { createMockOutboxService } from './testing/outbox.mock';
+import { MetricsService } from '../common/metrics/metrics.service';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+
+describe('NotificationSchedulerService', () => {
+  let service: NotificationSchedulerService;
+
+  const mockPrismaService = {
+    notification: {
+      updateMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+
+  const mockOutboxService = createMockOutboxService();
+
+  const mockNotificationService = {
+    toKafkaMessage: jest.fn((notification: any) => ({ id: notification.id })),
+  };
+
+  const mockMetrics = {
+    recordNotificationExpired: jest.fn(),
+  };
+
+  const mockEventsService = {
+    publishUpdated: jest.fn(),
+  };
+
+  const buildRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    channel: 'EMAIL',
+    type: 'MARKETING',
+    status: 'PENDING',
+    scheduledFor: new Date(Date.now() - 1000),
+    expiresAt: null,
+    ...overrides,
+  });
+
+  const claimedSql = () =>
+    (mockPrismaService.$queryRaw.mock.calls[0][0] as string[]).join('?');
+
+  // Messages handed to the outbox, across all add() calls
+  const outboxMessages = () =>
+    mockOutboxService.add.mock.calls.flatMap(([, messages]) => messages);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    // Drops batches an earlier test queued but never claimed
+    mockPrismaService.$queryRaw.mockReset().mockResolvedValue([]);
+    mockPrismaService.$transaction.mockImplementation((fn) =>
+      fn(mockPrismaService),
+    );
+    mockOutboxService.publish.mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationSchedulerService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: OutboxService, useValue: mockOutboxService },
+        { provide: NotificationService, useValue: mockNotificationService },
+        { provide: MetricsService, useValue: mockMetrics },
+        { provide: NotificationEventsService, useValue: mockEventsService },
+      ],
+    }).compile();
+
+    service = module.get<NotificationSchedulerService>(
+      NotificationSchedulerService,
+    );
+  });
+
+  describe('dispatchDueNotifications', () => {
+    it('should claim due rows with SKIP LOCKED and release them through the outbox', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        buildRow('notif-1'),
+        buildRow('notif-2'),
+      ]);
+
+      await expect(service.dispatchDueNotifications()).resolves.toBe(2);
+
+      expect(claimedSql()).toContain("SET status = 'PENDING'");
+      expect(claimedSql()).toContain(
+        `WHERE status = 'SCHEDULED' AND "scheduledFor" <= NOW()`,
+      );
+      expect(claimedSql()).toContain('FOR UPDATE SKIP LOCKED');
+      expect(mockOutboxService.add).toHaveBeenCalledWith(mockPrismaService, [
+        { id: 'notif-1' },
+        { id: 'notif-2' },
+      ]);
+      expect(mockOutboxService.publish).toHaveBeenCalledWith([
+        expect.objectContaining({ message: { id: 'notif-1' } }),
+        expect.objectContaining({ message: { id: 'notif-2' } }),
+      ]);
+    });
+
+    it('should write outbox rows in the same transaction as the claim', async () => {
+      mockPrismaService.$transaction.mockImplementation(async (fn) => {
+        const result = await fn(mockPrismaService);
+        // Both happen before the transaction commits
+        expect(mockPrismaService.$queryRaw).toHaveBeenCalledTimes(1);
+        expect(mockOutboxService.add).toHaveBeenCalledTimes(1);
+        expect(mockOutboxService.publish).not.toHaveBeenCalled();
+        return result;
+      });
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([buildRow('notif-1')]);
+
+      await expect(service.dispatchDueNotifications()).resolves.toBe(1);
+      expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should expire rows held past their expiresAt instead of publishing them', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        buildRow('notif-1', { expiresAt: new Date(Date.now() - 1000) }),
+        buildRow('notif-2'),
+      ]);
+
+      await expect(service.dispatchDueNotifications()).resolves.toBe(1);
+
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['notif-1'] }, status: 'PENDING' },
+        data: expect.objectContaining({ status: 'EXPIRED' }),
+      });
+      expect(mockMetrics.recordNotificationExpired).toHaveBeenCalledWith(
+        'EMAIL',
+        'MARKETING',
+        'scheduled',
+      );
+      expect(mockEventsService.publishUpdated).toHaveBeenCalledTimes(1);
+      expect(mockEventsService.publishUpdated).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'notif-1', status: 'EXPIRED' }),
+      );
+      expect(outboxMessages()).toEqual([{ id: 'notif-2' }]);
+    });
+
+    it('should leave released rows to the outbox relay when publishing fails', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([buildRow('notif-1')]);
+      mockOutboxService.publish.mockResolvedValue(false);
+
+      await expect(service.dispatchDueNotifications()).resolves.toBe(1);
+
+      expect(mockPrismaService.notification.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should leave rows SCHEDULED when the release transaction fails', async () => {
+      mockPrismaService.$transaction.mockRejectedValue(
+        new Error('Connection lost'),
+      );
+
+      await expect(service.dispatchDueNotifications()).resolves.toBe(0);
+
+      expect(mockOutboxService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should keep claiming while batches come back full', async () => {
+      const fullBatch = Array.from({ length: 500 }, (_, i) =>
+        buildRow(`notif-${i}`),
+      );
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce(fullBatch)
+        .mockResolvedValueOnce([buildRow('notif-500')])
+        .mockResolvedValueOnce([buildRow('never-claimed')]);
+
+      await expect(service.dispatchDueNotifications()).resolves.toBe(501);
+
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalledTimes(2);
+      expect(mockOutboxService.publish).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip a tick while the previous one is still dispatching', async () => {
+      let release!: (rows: unknown[]) => void;
+      mockPrismaService.$queryRaw.mockReturnValueOnce(
+        new Promise((resolve) => (release = resolve)),
+      );
+
+      const first = service.dispatchDueNotifications();
+      await expect(service.dispatchDueNotifications()).resolves.toBe(0);
+
+      release([buildRow('notif-1')]);
+      await expect(first).resolves.toBe(1);
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('recoverStalledClaims', () => {
+    it('should release rows held in PROCESSING past the lease through the outbox', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        buildRow('notif-1', { status: 'PENDING' }),
+      ]);
+
+      await expect(service.recoverStalledClaims()).resolves.toBe(1);
+
+      expect(claimedSql()).toContain("SET status = 'PENDING'");
+      expect(claimedSql()).toContain(
+        `WHERE status = 'PROCESSING' AND "updatedAt" < ?`,
+      );
+      expect(claimedSql()).toContain('FOR UPDATE SKIP LOCKED');
+      const leaseExpiredAt = mockPrismaService.$queryRaw.mock.calls[0][1];
+      expect(Date.now() - leaseExpiredAt.getTime()).toBeGreaterThanOrEqual(
+        300000,
+      );
+      expect(outboxMessages()).toEqual([{ id: 'notif-1' }]);
+      expect(mockOutboxService.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should do nothing when no claim has stalled', async () => {
+      await expect(service.recoverStalledClaims()).resolves.toBe(0);
+
+      expect(outboxMessages()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Notification, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MetricsService } from '../common/metrics/metrics.service';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+import { NotificationService } from './notification.service';
+import { OutboxEntry, OutboxService } from './outbox.service';
+
+/**
+ * NotificationScheduler - Releases SCHEDULED notifications when they are due
+ *
+ * Scheduled notifications are persisted by NotificationService.create but
+ * never published to the hot 'notifications' topic. This poller walks the
+ * [status, scheduledFor] index and releases due rows in batches. The worker
+ * also parks notifications here while the recipient is in quiet hours.
+ *
+ * Multi-instance safety:
+ * - Rows are claimed with UPDATE ... FOR UPDATE SKIP LOCKED, flipping
+ *   SCHEDULED -> PENDING in one statement, so each row is released by
+ *   exactly one instance
+ * - The claim and the released rows' outbox messages are written in one
+ *   transaction, so a PENDING row always has a message; if publishing
+ *   fails or the process dies, OutboxService relays it
+ *
+ * Rows whose expiresAt passed while they were held are moved to EXPIRED
+ * instead of being published.
+ *
+ * Rescheduling and cancellation (NotificationService) are plain
+ * status-guarded row updates: only rows still in SCHEDULED are picked up,
+ * at their current scheduledFor.
+ *
+ * Stalled claims: the worker only claims PENDING or FAILED rows, so a row
+ * left in PROCESSING by a worker that died mid-delivery is released again
+ * (PROCESSING -> PENDING, same claim and outbox pattern) once its claim is
+ * older than PROCESSING_LEASE_SECONDS.
+ */
+@Injectable()
+export class NotificationSchedulerService {
+  private readonly logger = new Logger(NotificationSchedulerService.name);
+  private readonly BATCH_SIZE = 500;
+  // How long a worker may hold a notification in PROCESSING
+  private readonly PROCESSING_LEASE_SECONDS = 300;
+  private isDispatching = false;
+  private isRecovering = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+    private readonly outbox: OutboxService,
+    private readonly metrics: MetricsService,
+    private readonly events: NotificationEventsService,
+  ) {}
+
+  /**
+   * Dispatch due notifications
+   * Runs every 5 seconds
+   */
+  @Interval(5000)
+  async dispatchDueNotifications(): Promise<number> {
+    // Skip if the previous tick is still draining a backlog
+    if (this.isDispatching) {
+      return 0;
+    }
+
+    this.isDispatching = true;
+    let released = 0;
+
+    try {
+      let claimed: number;
+      do {
+        const batch = await this.releaseDueBatch();
+        claimed = batch.claimed;
+
+        // Publish right away; OutboxService relays them if this fails
+        await this.outbox.publish(batch.outbox);
+        released += batch.outbox.length;
+      } while (claimed === this.BATCH_SIZE);
+
+      if (released > 0) {
+        this.logger.log(`Released ${released} scheduled notifications`);
+      }
+    } catch (error) {
+      this.logger.error('Scheduled notification dispatch failed:', error);
+    } finally {
+      this.isDispatching = false;
+    }
+
+    return released;
+  }
+
+  /**
+   * Release notifications whose worker claim outlived the lease
+   * Runs every minute
+   */
+  @Interval(60000)
+  async recoverStalledClaims(): Promise<number> {
+    if (this.isRecovering) {
+      return 0;
+    }
+
+    this.isRecovering = true;
+
+    try {
+      const outbox = await this.prisma.$transaction(async (tx) => {
+        const stalled = await this.claimStalledBatch(tx);
+        return this.outbox.add(
+          tx,
+          stalled.map((n) => this.notificationService.toKafkaMessage(n)),
+        );
+      });
+
+      // Publish right away; OutboxService relays them if this fails
+      await this.outbox.publish(outbox);
+
+      if (outbox.length > 0) {
+        this.logger.warn(
+          `Released ${outbox.length} notifications stuck in PROCESSING`,
+        );
+      }
+
+      return outbox.length;
+    } catch (error) {
+      this.logger.error('Stalled notification recovery failed:', error);
+      return 0;
+    } finally {
+      this.isRecovering = false;
+    }
+  }
+
+  /**
+   * Claim a batch of due notifications, expire the stale ones and write
+   * outbox messages for the rest, all in one transaction
+   */
+  private async releaseDueBatch(): Promise<{
+    claimed: number;
+    outbox: OutboxEntry[];
+  }> {
+    const { batch, stale, outbox } = await this.prisma.$transaction(
+      async (tx) => {
+        const batch = await this.claimDueBatch(tx);
+        const stale = await this.expireStale(tx, batch);
+        const outbox = await this.outbox.add(
+          tx,
+          batch
+            .filter((n) => !stale.some((expired) => expired.id === n.id))
+            .map((n) => this.notificationService.toKafkaMessage(n)),
+        );
+
+        return { batch, stale, outbox };
+      },
+    );
+
+    for (const notification of stale) {
+      this.metrics.recordNotificationExpired(
+        notification.channel,
+        notification.type,
+        'scheduled',
+      );
+      await this.events.publishUpdated(notification);
+    }
+
+    if (stale.length > 0) {
+      this.logger.warn(`Expired ${stale.length} scheduled notifications`);
+    }
+
+    return { claimed: batch.length, outbox };
+  }
+
+  /**
+   * Atomically claim a batch of due notifications (SCHEDULED -> PENDING)
+   */
+  private async claimDueBatch(
+    tx: Prisma.TransactionClient,
+  ): Promise<Notification[]> {
+    return tx.$queryRaw<Notification[]>`
+      UPDATE notifications
+      SET status = 'PENDING', "updatedAt" = NOW()
+      WHERE id IN (
+        SELECT id FROM notifications
+        WHERE status = 'SCHEDULED' AND "scheduledFor" <= NOW()
+        ORDER BY "scheduledFor"
+        LIMIT ${this.BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+  }
+
+  /**
+   * Atomically reclaim PROCESSING rows whose claim is older than the lease
+   * (PROCESSING -> PENDING)
+   */
+  private async claimStalledBatch(
+    tx: Prisma.TransactionClient,
+  ): Promise<Notification[]> {
+    const leaseExpiredAt = new Date(
+      Date.now() - this.PROCESSING_LEASE_SECONDS * 1000,
+    );
+
+    return tx.$queryRaw<Notification[]>`
+      UPDATE notifications
+      SET status = 'PENDING', "updatedAt" = NOW()
+      WHERE id IN (
+        SELECT id FROM notifications
+        WHERE status = 'PROCESSING' AND "updatedAt" < ${leaseExpiredAt}
+        ORDER BY "updatedAt"
+        LIMIT ${this.BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+  }
+
+  /**
+   * Mark claimed rows past their expiresAt as EXPIRED, returning them
+   */
+  private async expireStale(
+    tx: Prisma.TransactionClient,
+    batch: Notification[],
+  ): Promise<Notification[]> {
+    const now = Date.now();
+    const stale = batch.filter(
+      (n) => n.expiresAt && new Date(n.expiresAt).getTime() <= now,
+    );
+
+    if (stale.length === 0) {
+      return [];
+    }
+
+    const data = {
+      status: 'EXPIRED',
+      errorMessage: 'Expired before its scheduled time was reached',
+    };
+    await tx.notification.updateMany({
+      where: { id: { in: stale.map((n) => n.id) }, status: 'PENDING' },
+      data,
+    });
+
+    return stale.map((n) => ({ ...n, ...data }));
+  }
+}
@@ -0,0 +1,397 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationWorkerService } from './notification-worker.service';
+import { NotificationProcessorService } from './notification-processor.service';
+import { RetryService } from './retry.service';
+import { FallbackService } from './fallback.service';
+import { DigestService } from './digest.service';
+import { DeliveryError } from './errors/delivery.error';
+import { KafkaConsumerService } from '../kafka/kafka-consumer.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MetricsService } from '../common/metrics/metrics.service';
+import { PreferencesService } from '../preferences/preferences.service';
+import { QuietHoursService } from '../preferences/quiet-hours.service';
+import { FrequencyCapService } from '../preferences/frequency-cap.service';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+import {
+  NotificationMessage,
+  NotificationChannel,
+  NotificationType,
+  NotificationPriority,
+  NotificationStatus,
+} from '../kafka/schemas/notification.schema';
+
+describe('NotificationWorkerService', () => {
+  let service: NotificationWorkerService;
+
+  const mockPrismaService = {
+    notification: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockProcessor = { processNotification: jest.fn() };
+  const mockRetryService = {
+    sendToRetryQueue: jest.fn(),
+    sendToDLQ: jest.fn(),
+  };
+  const mockMetrics = {
+    recordNotificationExpired: jest.fn(),
+    recordNotificationSuppressed: jest.fn(),
+    recordNotificationCapped: jest.fn(),
+  };
+  const mockPreferences = { isSuppressed: jest.fn() };
+  const mockQuietHours = { getHoldUntil: jest.fn() };
+  const mockFrequencyCaps = { acquire: jest.fn() };
+  const mockFallback = {
+    getDeliveryDeadline: jest.fn(),
+    escalate: jest.fn(),
+  };
+  const mockDigests = { getDigestAt: jest.fn() };
+  const mockEvents = { publishUpdated: jest.fn() };
+
+  const buildMessage = (
+    overrides: Partial<NotificationMessage> = {},
+  ): NotificationMessage => ({
+    id: 'notif-1',
+    version: '1.0.0',
+    timestamp: Date.now(),
+    idempotencyKey: 'idem-1',
+    userId: 'user-1',
+    type: NotificationType.EMAIL,
+    channel: NotificationChannel.EMAIL,
+    priority: NotificationPriority.MEDIUM,
+    status: NotificationStatus.PENDING,
+    payload: { to: 'user@example.com', subject: 'Hello', body: 'World' },
+    correlationId: 'corr-1',
+    ...overrides,
+  });
+
+  const handle = (
+    notification: NotificationMessage = buildMessage(),
+    topic = 'notifications-medium',
+  ) =>
+    service.handleNotification({
+      topic,
+      partition: 0,
+      message: {
+        value: Buffer.from(JSON.stringify(notification)),
+        offset: '0',
+      },
+    } as any);
+
+  // Status written by each guarded updateMany, in order
+  const statusUpdates = () =>
+    mockPrismaService.notification.updateMany.mock.calls.map(
+      ([args]) => args.data.status,
+    );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.notification.findUnique.mockResolvedValue({
+      status: 'PENDING',
+      sentAt: null,
+      metadata: { source: 'api' },
+      fallback: null,
+    });
+    mockPrismaService.notification.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.notification.update.mockImplementation(
+      async ({ where, data }) => ({ id: where.id, ...data }),
+    );
+    mockPreferences.isSuppressed.mockResolvedValue(false);
+    mockDigests.getDigestAt.mockResolvedValue(null);
+    mockQuietHours.getHoldUntil.mockResolvedValue(null);
+    mockFrequencyCaps.acquire.mockResolvedValue(null);
+    mockProcessor.processNotification.mockResolvedValue({
+      messageId: 'provider-1',
+    });
+    mockFallback.getDeliveryDeadline.mockReturnValue(null);
+    mockRetryService.sendToRetryQueue.mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationWorkerService,
+        {
+          provide: KafkaConsumerService,
+          useValue: { registerMessageHandler: jest.fn() },
+        },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationProcessorService, useValue: mockProcessor },
+        { provide: RetryService, useValue: mockRetryService },
+        { provide: MetricsService, useValue: mockMetrics },
+        { provide: PreferencesService, useValue: mockPreferences },
+        { provide: QuietHoursService, useValue: mockQuietHours },
+        { provide: FrequencyCapService, useValue: mockFrequencyCaps },
+        { provide: FallbackService, useValue: mockFallback },
+        { provide: DigestService, useValue: mockDigests },
+        { provide: NotificationEventsService, useValue: mockEvents },
+      ],
+    }).compile();
+
+    service = module.get<NotificationWorkerService>(NotificationWorkerService);
+  });
+
+  describe('handleNotification', () => {
+    it('should claim, send and mark the notification SENT', async () => {
+      const deadline = new Date(Date.now() + 60000);
+      mockFallback.getDeliveryDeadline.mockReturnValue(deadline);
+
+      await handle();
+
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'notif-1',
+          status: { in: ['PENDING', 'FAILED'] },
+        },
+        data: expect.objectContaining({ status: 'PROCESSING' }),
+      });
+      expect(mockFrequencyCaps.acquire).toHaveBeenCalled();
+      expect(mockPrismaService.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notif-1' },
+        data: expect.objectContaining({
+          status: 'SENT',
+          sentAt: expect.any(Date),
+          fallbackDeadline: deadline,
+          metadata: { source: 'api', messageId: 'provider-1' },
+        }),
+      });
+      expect(mockEvents.publishUpdated).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'notif-1', status: 'SENT' }),
+      );
+    });
+
+    it('should record confirmed in-app deliveries without a fallback deadline', async () => {
+      mockProcessor.processNotification.mockResolvedValue({
+        messageId: 'inbox-1',
+        delivered: true,
+      });
+
+      await handle(buildMessage({ channel: NotificationChannel.IN_APP }));
+
+      const { data } = mockPrismaService.notification.update.mock.calls[0][0];
+      expect(data.deliveredAt).toEqual(data.sentAt);
+      expect(data.fallbackDeadline).toBeNull();
+      expect(mockFallback.getDeliveryDeadline).not.toHaveBeenCalled();
+    });
+
+    it('should skip notifications that were already sent', async () => {
+      mockPrismaService.notification.findUnique.mockResolvedValue({
+        status: 'SENT',
+        sentAt: new Date(),
+      });
+
+      await handle();
+
+      expect(mockPrismaService.notification.updateMany).not.toHaveBeenCalled();
+      expect(mockProcessor.processNotification).not.toHaveBeenCalled();
+    });
+
+    it('should expire stale messages before claiming them', async () => {
+      await handle(buildMessage({ expiresAt: Date.now() - 1000 }));
+
+      expect(statusUpdates()).toEqual(['EXPIRED']);
+      expect(mockMetrics.recordNotificationExpired).toHaveBeenCalledWith(
+        'EMAIL',
+        'EMAIL',
+        'main',
+      );
+      expect(mockPreferences.isSuppressed).not.toHaveBeenCalled();
+      expect(mockProcessor.processNotification).not.toHaveBeenCalled();
+    });
+
+    it('should skip notifications it cannot claim', async () => {
+      mockPrismaService.notification.updateMany.mockResolvedValueOnce({
+        count: 0,
+      });
+
+      await handle();
+
+      expect(mockPreferences.isSuppressed).not.toHaveBeenCalled();
+      expect(mockProcessor.processNotification).not.toHaveBeenCalled();
+    });
+
+    it('should suppress opted-out notifications before any hold', async () => {
+      mockPreferences.isSuppressed.mockResolvedValue(true);
+      mockDigests.getDigestAt.mockResolvedValue(new Date());
+
+      await handle();
+
+      expect(statusUpdates()).toEqual(['PROCESSING', 'SUPPRESSED']);
+      expect(
+        mockPrismaService.notification.updateMany.mock.calls[1][0],
+      ).toEqual({
+        where: { id: 'notif-1', status: 'PROCESSING' },
+        data: expect.objectContaining({ reasonCode: 'USER_OPTED_OUT' }),
+      });
+      expect(mockDigests.getDigestAt).not.toHaveBeenCalled();
+      expect(mockProcessor.processNotification).not.toHaveBeenCalled();
+    });
+
+    it('should park digest notifications before checking quiet hours', async () => {
+      const digestAt = new Date(Date.now() + 3600000);
+      mockDigests.getDigestAt.mockResolvedValue(digestAt);
+      mockQuietHours.getHoldUntil.mockResolvedValue(new Date());
+
+      await handle();
+
+      expect(statusUpdates()).toEqual(['PROCESSING', 'DIGEST_PENDING']);
+      expect(
+        mockPrismaService.notification.updateMany.mock.calls[1][0].data,
+      ).toMatchObject({ digestAt });
+      expect(mockQuietHours.getHoldUntil).not.toHaveBeenCalled();
+      expect(mockProcessor.processNotification).not.toHaveBeenCalled();
+    });
+
+    it('should hold notifications during quiet hours without counting them against caps', async () => {
+      const holdUntil = new Date(Date.now() + 3600000);
+      mockQuietHours.getHoldUntil.mockResolvedValue(holdUntil);
+
+      await handle();
+
+      expect(statusUpdates()).toEqual(['PROCESSING', 'SCHEDULED']);
+      expect(
+        mockPrismaService.notification.updateMany.mock.calls[1][0],
+      ).toEqual({
+        where: { id: 'notif-1', status: 'PROCESSING' },
+        data: expect.objectContaining({ scheduledFor: holdUntil }),
+      });
+      expect(mockFrequencyCaps.acquire).not.toHaveBeenCalled();
+      expect(mockProcessor.processNotification).not.toHaveBeenCalled();
+    });
+
+    describe('frequency caps', () => {
+      const retryAt = new Date(Date.now() + 3600000);
+      const reason = 'Frequency cap exceeded: 3 MARKETING per 86400s';
+
+      it('should suppress over-cap notifications under a DROP policy', async () => {
+        mockFrequencyCaps.acquire.mockResolvedValue({
+          policy: 'DROP',
+          retryAt,
+          reason,
+        });
+
+        await handle();
+
+        expect(
+          mockPrismaService.notification.updateMany.mock.calls[1][0],
+        ).toEqual({
+          where: { id: 'notif-1', status: 'PROCESSING' },
+          data: {
+            status: 'SUPPRESSED',
+            errorMessage: reason,
+            reasonCode: 'FREQUENCY_CAP_DROPPED',
+            updatedAt: expect.any(Date),
+          },
+        });
+        expect(mockEvents.publishUpdated).toHaveBeenCalledWith(
+          expect.objectContaining({
+            status: 'SUPPRESSED',
+            reasonCode: 'FREQUENCY_CAP_DROPPED',
+          }),
+        );
+        expect(mockMetrics.recordNotificationCapped).toHaveBeenCalledWith(
+          'EMAIL',
+          'EMAIL',
+          'DROP',
+        );
+        expect(mockProcessor.processNotification).not.toHaveBeenCalled();
+      });
+
+      it('should reschedule over-cap notifications for retryAt under a DEFER policy', async () => {
+        mockFrequencyCaps.acquire.mockResolvedValue({
+          policy: 'DEFER',
+          retryAt,
+          reason,
+        });
+
+        await handle();
+
+        expect(
+          mockPrismaService.notification.updateMany.mock.calls[1][0],
+        ).toEqual({
+          where: { id: 'notif-1', status: 'PROCESSING' },
+          data: {
+            status: 'SCHEDULED',
+            scheduledFor: retryAt,
+            reasonCode: 'FREQUENCY_CAP_DEFERRED',
+            updatedAt: expect.any(Date),
+          },
+        });
+        expect(mockMetrics.recordNotificationCapped).toHaveBeenCalledWith(
+          'EMAIL',
+          'EMAIL',
+          'DEFER',
+        );
+        expect(mockProcessor.processNotification).not.toHaveBeenCalled();
+      });
+
+      it('should not publish an update when the row left PROCESSING meanwhile', async () => {
+        mockFrequencyCaps.acquire.mockResolvedValue({
+          policy: 'DROP',
+          retryAt,
+          reason,
+        });
+        mockPrismaService.notification.updateMany
+          .mockResolvedValueOnce({ count: 1 })
+          .mockResolvedValueOnce({ count: 0 });
+
+        await handle();
+
+        expect(mockEvents.publishUpdated).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should send retryable failures to the retry queue without escalating', async () => {
+      mockProcessor.processNotification.mockRejectedValue(
+        DeliveryError.retryable('Timeout', 'sendgrid'),
+      );
+
+      await handle();
+
+      expect(mockRetryService.sendToRetryQueue).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'notif-1' }),
+        'Timeout',
+      );
+      expect(mockPrismaService.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notif-1' },
+        data: expect.objectContaining({
+          status: 'FAILED',
+          errorMessage: 'Timeout',
+          retryCount: { increment: 1 },
+        }),
+      });
+      expect(mockFallback.escalate).not.toHaveBeenCalled();
+    });
+
+    it('should escalate to the fallback channel once retries are exhausted', async () => {
+      mockProcessor.processNotification.mockRejectedValue(
+        DeliveryError.retryable('Timeout', 'sendgrid'),
+      );
+      mockRetryService.sendToRetryQueue.mockResolvedValue(false);
+
+      await handle();
+
+      expect(mockFallback.escalate).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'notif-1', status: 'FAILED' }),
+        'FAILED',
+      );
+    });
+
+    it('should dead-letter permanent failures and escalate immediately', async () => {
+      mockProcessor.processNotification.mockRejectedValue(
+        DeliveryError.permanent('Invalid email', 'sendgrid'),
+      );
+
+      await handle();
+
+      expect(mockRetryService.sendToRetryQueue).not.toHaveBeenCalled();
+      expect(mockRetryService.sendToDLQ).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'notif-1' }),
+        'Invalid email',
+        'permanent_failure',
+      );
+      expect(mockFallback.escalate).toHaveBeenCalled();
+    });
+  });
+});
@@ -5,17 +5,36 @@ import {
   OnModuleDestroy,
 } from '@nestjs/common';
 import { KafkaConsumerService } from '../kafka/kafka-consumer.service';
+import {
+  LEGACY_NOTIFICATIONS_TOPIC,
+  PRIORITY_LANE_TOPICS,
+  isRetryTopic,
+} from '../kafka/priority-lanes';
 import { PrismaService } from '../prisma/prisma.service';
+import { MetricsService } from '../common/metrics/metrics.service';
+import { PreferencesService } from '../preferences/preferences.service';
+import { QuietHoursService } from '../preferences/quiet-hours.service';
+import {
+  FrequencyCapDecision,
+  FrequencyCapService,
+} from '../preferences/frequency-cap.service';
+import { FrequencyCapPolicy } from '../preferences/dto';
+import { NotificationEventsService } from '../realtime/notification-events.service';
 import { NotificationMessage } from '../kafka/schemas/notification.schema';
 import { NotificationProcessorService } from './notification-processor.service';
 import { RetryService } from './retry.service';
+import { FallbackService } from './fallback.service';
+import { DigestService } from './digest.service';
+import { FallbackCondition, NotificationReasonCode } from './dto';
+import { isRetryableError } from './errors/delivery.error';
 import { EachMessagePayload } from 'kafkajs';
 
 /**
  * NotificationWorker - Consumes notification messages from Kafka and processes them
  *
  * Responsibilities:
- * - Register message handler for 'notifications' topic
+ * - Register message handler for every priority lane topic (and the
+ *   legacy 'notifications' topic)
  * - Parse and validate incoming messages
  * - Route to channel-specific processors
  * - Update notification status in database
@@ -28,7 +47,7 @@ export class NotificationWorkerService
   implements OnModuleInit, OnModuleDestroy
 {
   private readonly logger = new Logger(NotificationWorkerService.name);
-  private isProcessing = false;
+  private inFlight = 0; // Messages being processed across all lanes
   private processedCount = 0;
   private errorCount = 0;
   private lastProcessedAt: Date | null = null;
@@ -40,6 +59,13 @@ export class NotificationWorkerService
     private readonly prisma: PrismaService,
     private readonly processor: NotificationProcessorService,
     private readonly retryService: RetryService,
+    private readonly metrics: MetricsService,
+    private readonly preferences: PreferencesService,
+    private readonly quietHours: QuietHoursService,
+    private readonly frequencyCaps: FrequencyCapService,
+    private readonly fallback: FallbackService,
+    private readonly digests: DigestService,
+    private readonly events: NotificationEventsService,
   ) {}
 
   /**
@@ -48,11 +74,13 @@ export class NotificationWorkerService
   async onModuleInit() {
     this.logger.log('NotificationWorker initializing...');
 
-    // Register handler for notifications topic
-    this.kafkaConsumer.registerMessageHandler(
-      'notifications',
-      this.handleNotification.bind(this),
-    );
+    // Register handler for every notifications topic
+    for (const topic of [LEGACY_NOTIFICATIONS_TOPIC, ...PRIORITY_LANE_TOPICS]) {
+      this.kafkaConsumer.registerMessageHandler(
+        topic,
+        this.handleNotification.bind(this),
+      );
+    }
 
     this.logger.log(
       'NotificationWorker initialized and ready to consume messages',
@@ -65,23 +93,23 @@ export class NotificationWorkerService
   async onModuleDestroy() {
     this.logger.log('NotificationWorker shutting down gracefully...');
     this.logger.log(
-      `Current state: ${this.isProcessing ? 'processing message' : 'idle'}`,
+      `Current state: ${this.inFlight > 0 ? `processing ${this.inFlight} messages` : 'idle'}`,
     );
 
-    // Wait for current message to finish processing
-    if (this.isProcessing) {
-      this.logger.log('Draining in-flight message...');
+    // Wait for in-flight messages to finish processing
+    if (this.inFlight > 0) {
+      this.logger.log(`Draining ${this.inFlight} in-flight messages...`);
       const drainStartTime = Date.now();
       await this.waitForProcessing();
       const drainDuration = Date.now() - drainStartTime;
 
-      if (this.isProcessing) {
+      if (this.inFlight > 0) {
         this.logger.error(
-          `Failed to drain message within timeout (${drainDuration}ms)`,
+          `Failed to drain ${this.inFlight} messages within timeout (${drainDuration}ms)`,
         );
       } else {
         this.logger.log(
-          `Successfully drained in-flight message (${drainDuration}ms)`,
+          `Successfully drained in-flight messages (${drainDuration}ms)`,
         );
       }
     }
@@ -93,7 +121,7 @@ export class NotificationWorkerService
   }
 
   /**
-   * Wait for current processing to complete (with timeout)
+   * Wait for in-flight messages on all lanes to complete (with timeout)
    * Uses polling with exponential backoff to reduce CPU usage during drain
    */
   private async waitForProcessing(timeoutMs = 30000): Promise<void> {
@@ -101,14 +129,14 @@ export class NotificationWorkerService
     let pollInterval = 100; // Start with 100ms
     const maxPollInterval = 1000; // Max 1 second
 
-    while (this.isProcessing && Date.now() - startTime < timeoutMs) {
+    while (this.inFlight > 0 && Date.now() - startTime < timeoutMs) {
       await new Promise((resolve) => setTimeout(resolve, pollInterval));
 
       // Exponential backoff for polling (reduce CPU usage)
       pollInterval = Math.min(pollInterval * 1.5, maxPollInterval);
     }
 
-    if (this.isProcessing) {
+    if (this.inFlight > 0) {
       this.logger.warn(
         `Processing timeout reached during shutdown (${timeoutMs}ms elapsed)`,
       );
@@ -117,11 +145,12 @@ export class NotificationWorkerService
 
   /**
    * Main message handler for notification messages
+   * Also the re-entry point for retries released by RetryWorkerService
    */
-  private async handleNotification(payload: EachMessagePayload): Promise<void> {
+  async handleNotification(payload: EachMessagePayload): Promise<void> {
     const { topic, partition, message } = payload;
 
-    this.isProcessing = true;
+    this.inFlight++;
     const startTime = Date.now();
 
     try {
@@ -155,7 +184,7 @@ export class NotificationWorkerService
       // Check idempotency - skip if already processed
       const existingNotification = await this.prisma.notification.findUnique({
         where: { id: notification.id },
-        select: { status: true, sentAt: true },
+        select: { status: true, sentAt: true, metadata: true, fallback: true },
       });
 
       if (
@@ -168,28 +197,103 @@ export class NotificationWorkerService
         return;
       }
 
-      // Update notification status to PROCESSING
-      await this.prisma.notification.update({
-        where: { id: notification.id },
+      // Drop stale messages (e.g. an OTP past its TTL) instead of sending late
+      if (notification.expiresAt && Date.now() >= notification.expiresAt) {
+        await this.expireNotification(
+          notification,
+          isRetryTopic(topic) ? 'retry' : 'main',
+        );
+        return;
+      }
+
+      // Atomically claim the notification (-> PROCESSING). Rows that were
+      // cancelled, rescheduled (SCHEDULED) or expired since this message was
+      // published no longer match, so the claim fails and we skip them.
+      // Neither does a row another consumer is processing; rows left in
+      // PROCESSING by a crash are released by NotificationSchedulerService.
+      const claim = await this.prisma.notification.updateMany({
+        where: {
+          id: notification.id,
+          status: { in: ['PENDING', 'FAILED'] },
+        },
         data: {
           status: 'PROCESSING',
           updatedAt: new Date(),
         },
       });
 
+      if (claim.count === 0) {
+        this.logger.log(
+          `Notification ${notification.id} is no longer pending (status: ${existingNotification?.status ?? 'missing'}), skipping`,
+        );
+        return;
+      }
+
+      // Preferences may have changed since the notification was created
+      if (
+        await this.preferences.isSuppressed(
+          notification.userId,
+          notification.channel,
+          notification.type,
+        )
+      ) {
+        await this.suppressNotification(notification);
+        return;
+      }
+
+      // LOW priority marketing / system notifications wait for the user's
+      // digest; DigestService sends them in one batch when the window ends
+      const digestAt = await this.digests.getDigestAt(notification);
+      if (digestAt) {
+        await this.holdForDigest(notification, digestAt);
+        return;
+      }
+
+      // Non-urgent notifications are held during the recipient's quiet
+      // hours; the scheduler releases them when the window ends
+      const holdUntil = await this.quietHours.getHoldUntil(notification);
+      if (holdUntil) {
+        await this.holdForQuietHours(notification, holdUntil);
+        return;
+      }
+
+      // Counted against the recipient's frequency caps only once it is
+      // really about to be sent
+      const capped = await this.frequencyCaps.acquire(notification);
+      if (capped) {
+        await this.applyFrequencyCap(notification, capped);
+        return;
+      }
+
       // Route to channel-specific processor
-      await this.processor.processNotification(notification);
+      const receipt = await this.processor.processNotification(notification);
 
-      // Update notification status to SENT
-      await this.prisma.notification.update({
+      // Update notification status to SENT, keeping the provider message ID
+      // so delivery callbacks (WebhooksController) can find this row
+      const sentAt = new Date();
+      const sent = await this.prisma.notification.update({
         where: { id: notification.id },
         data: {
           status: 'SENT',
-          sentAt: new Date(),
+          sentAt,
+          // In-app deliveries are confirmed immediately - nothing to escalate
+          ...(receipt.delivered && { deliveredAt: sentAt }),
+          fallbackDeadline: receipt.delivered
+            ? null
+            : this.fallback.getDeliveryDeadline(
+                existingNotification?.fallback,
+                sentAt,
+              ),
+          metadata: {
+            ...((existingNotification?.metadata as Record<string, any>) || {}),
+            ...(receipt.messageId && { messageId: receipt.messageId }),
+          },
           updatedAt: new Date(),
         },
       });
 
+      await this.events.publishUpdated(sent);
+
       const processingTime = Date.now() - startTime;
       this.processedCount++;
       this.lastProcessedAt = new Date();
@@ -215,11 +319,24 @@ export class NotificationWorkerService
           const errorMessage =
             error instanceof Error ? error.message : 'Unknown error';
 
-          // Send to retry queue (will route to DLQ if max retries exceeded)
-          await this.retryService.sendToRetryQueue(notification, errorMessage);
+          let exhausted = true;
+          if (isRetryableError(error)) {
+            // Send to retry queue (will route to DLQ if max retries exceeded)
+            exhausted = !(await this.retryService.sendToRetryQueue(
+              notification,
+              errorMessage,
+            ));
+          } else {
+            // Permanent provider failure - retrying would fail the same way
+            await this.retryService.sendToDLQ(
+              notification,
+              errorMessage,
+              'permanent_failure',
+            );
+          }
 
           // Update notification status to FAILED
-          await this.prisma.notification.update({
+          const failed = await this.prisma.notification.update({
             where: { id: notification.id },
             data: {
               status: 'FAILED',
@@ -231,6 +348,13 @@ export class NotificationWorkerService
               updatedAt: new Date(),
             },
           });
+
+          await this.events.publishUpdated(failed);
+
+          // No more attempts on this channel - move on to the next one
+          if (exhausted) {
+            await this.fallback.escalate(failed, FallbackCondition.FAILED);
+          }
         }
       } catch (updateError) {
         this.logger.error('Failed to handle notification error:', updateError);
@@ -238,10 +362,211 @@ export class NotificationWorkerService
 
       // Don't re-throw - we've handled the error by sending to retry/DLQ
     } finally {
-      this.isProcessing = false;
+      this.inFlight--;
     }
   }
 
+  /**
+   * Move a stale notification to the EXPIRED terminal state
+   */
+  private async expireNotification(
+    notification: NotificationMessage,
+    stage: 'main' | 'retry',
+  ): Promise<void> {
+    const expiredAt = new Date(notification.expiresAt!).toISOString();
+    const errorMessage = `Expired at ${expiredAt} before delivery (${stage} queue)`;
+
+    const result = await this.prisma.notification.updateMany({
+      where: {
+        id: notification.id,
+        status: {
+          notIn: [
+            'SENT',
+            'EXPIRED',
+            'CANCELLED',
+            'SUPPRESSED',
+            'DIGESTED',
+            'SUPERSEDED',
+          ],
+        },
+      },
+      data: {
+        status: 'EXPIRED',
+        errorMessage,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      await this.events.publishUpdated({
+        id: notification.id,
+        userId: notification.userId,
+        channel: notification.channel,
+        type: notification.type,
+        status: 'EXPIRED',
+        errorMessage,
+      });
+    }
+
+    this.metrics.recordNotificationExpired(
+      notification.channel,
+      notification.type,
+      stage,
+    );
+
+    this.logger.warn(
+      `Notification ${notification.id} expired at ${expiredAt}, dropped from ${stage} queue (correlationId: ${notification.correlationId})`,
+    );
+  }
+
+  /**
+   * Move a claimed notification the user opted out of to SUPPRESSED
+   */
+  private async suppressNotification(
+    notification: NotificationMessage,
+  ): Promise<void> {
+    const result = await this.prisma.notification.updateMany({
+      where: { id: notification.id, status: 'PROCESSING' },
+      data: {
+        status: 'SUPPRESSED',
+        errorMessage: 'Suppressed by user preferences',
+        reasonCode: NotificationReasonCode.USER_OPTED_OUT,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      await this.events.publishUpdated({
+        id: notification.id,
+        userId: notification.userId,
+        channel: notification.channel,
+        type: notification.type,
+        status: 'SUPPRESSED',
+        errorMessage: 'Suppressed by user preferences',
+      });
+    }
+
+    this.metrics.recordNotificationSuppressed(
+      notification.channel,
+      notification.type,
+      'worker',
+    );
+
+    this.logger.log(
+      `Notification ${notification.id} suppressed by user preferences (correlationId: ${notification.correlationId})`,
+    );
+  }
+
+  /**
+   * Hand a claimed notification back to the scheduler until quiet hours end
+   */
+  private async holdForQuietHours(
+    notification: NotificationMessage,
+    holdUntil: Date,
+  ): Promise<void> {
+    const result = await this.prisma.notification.updateMany({
+      where: { id: notification.id, status: 'PROCESSING' },
+      data: {
+        status: 'SCHEDULED',
+        scheduledFor: holdUntil,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      await this.events.publishUpdated({
+        id: notification.id,
+        userId: notification.userId,
+        channel: notification.channel,
+        type: notification.type,
+        status: 'SCHEDULED',
+        scheduledFor: holdUntil,
+      });
+    }
+
+    this.logger.log(
+      `Notification ${notification.id} held for quiet hours until ${holdUntil.toISOString()} (correlationId: ${notification.correlationId})`,
+    );
+  }
+
+  /**
+   * Park a claimed notification until its digest window closes
+   */
+  private async holdForDigest(
+    notification: NotificationMessage,
+    digestAt: Date,
+  ): Promise<void> {
+    const result = await this.prisma.notification.updateMany({
+      where: { id: notification.id, status: 'PROCESSING' },
+      data: {
+        status: 'DIGEST_PENDING',
+        digestAt,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      await this.events.publishUpdated({
+        id: notification.id,
+        userId: notification.userId,
+        channel: notification.channel,
+        type: notification.type,
+        status: 'DIGEST_PENDING',
+      });
+    }
+
+    this.logger.log(
+      `Notification ${notification.id} held for digest until ${digestAt.toISOString()} (correlationId: ${notification.correlationId})`,
+    );
+  }
+
+  /**
+   * Drop (SUPPRESSED) or defer (SCHEDULED until the cap frees up) a claimed
+   * notification over a frequency cap, per the cap's policy
+   */
+  private async applyFrequencyCap(
+    notification: NotificationMessage,
+    decision: FrequencyCapDecision,
+  ): Promise<void> {
+    const deferred = decision.policy === FrequencyCapPolicy.DEFER;
+    const data = deferred
+      ? {
+          status: 'SCHEDULED',
+          scheduledFor: decision.retryAt,
+          reasonCode: NotificationReasonCode.FREQUENCY_CAP_DEFERRED,
+        }
+      : {
+          status: 'SUPPRESSED',
+          errorMessage: decision.reason,
+          reasonCode: NotificationReasonCode.FREQUENCY_CAP_DROPPED,
+        };
+
+    const result = await this.prisma.notification.updateMany({
+      where: { id: notification.id, status: 'PROCESSING' },
+      data: { ...data, updatedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      await this.events.publishUpdated({
+        id: notification.id,
+        userId: notification.userId,
+        channel: notification.channel,
+        type: notification.type,
+        ...data,
+      });
+    }
+
+    this.metrics.recordNotificationCapped(
+      notification.channel,
+      notification.type,
+      decision.policy,
+    );
+
+    this.logger.log(
+      `Notification ${notification.id} ${deferred ? `deferred until ${decision.retryAt.toISOString()}` : 'dropped'}: ${decision.reason} (correlationId: ${notification.correlationId})`,
+    );
+  }
+
   /**
    * Validate notification message structure
    */
@@ -284,7 +609,8 @@ export class NotificationWorkerService
         : 0;
 
     return {
-      isProcessing: this.isProcessing,
+      isProcessing: this.inFlight > 0,
+      inFlight: this.inFlight,
       processedCount: this.processedCount,
       errorCount: this.errorCount,
       successRate:
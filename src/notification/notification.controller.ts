@@ -2,21 +2,44 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
   Body,
   Param,
   HttpCode,
   HttpStatus,
   NotFoundException,
   UseGuards,
+  Request,
 } from '@nestjs/common';
 import { NotificationService } from './notification.service';
-import { CreateNotificationDto, NotificationResponseDto } from './dto';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  CreateNotificationDto,
+  CreateNotificationBatchDto,
+  NotificationBatchResponseDto,
+  NotificationResponseDto,
+  RescheduleNotificationDto,
+} from './dto';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { ApiKeyGuard } from '../api-keys/guards/api-key.guard';
+import { ApiKeyScopes } from '../api-keys/decorators/api-key-scopes.decorator';
+import { ApiKeyPrincipal, ApiKeyScope } from '../api-keys/dto';
+import { ApiKeyRateLimiterGuard } from '../api-keys/guards/api-key-rate-limiter.guard';
 
+/**
+ * NotificationController - Notification submission and management
+ *
+ * Accepts user JWTs on every route, and API keys with the
+ * notifications:write scope on the create routes. A key may only notify
+ * users of its own tenant; in a batch, items addressing other users fail
+ * on their own. Only API key requests are rate limited.
+ */
 @Controller('notifications')
-@UseGuards(JwtAuthGuard)
+@UseGuards(ApiKeyGuard, ApiKeyRateLimiterGuard)
 export class NotificationController {
-  constructor(private readonly notificationService: NotificationService) {}
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
 
   /**
    * Create a new notification
@@ -24,12 +47,61 @@ export class NotificationController {
    */
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @ApiKeyScopes(ApiKeyScope.NOTIFICATIONS_WRITE)
   async create(
     @Body() createNotificationDto: CreateNotificationDto,
+    @Request() req: { apiKey?: ApiKeyPrincipal },
   ): Promise<NotificationResponseDto> {
+    if (req.apiKey) {
+      await this.apiKeysService.assertUsersInTenant(req.apiKey.tenantId, [
+        createNotificationDto.userId,
+      ]);
+      createNotificationDto.tenantId = req.apiKey.tenantId;
+    }
+
     return await this.notificationService.create(createNotificationDto);
   }
 
+  /**
+   * Create a batch of notifications with per-item results
+   * POST /notifications/batch
+   */
+  @Post('batch')
+  @HttpCode(HttpStatus.OK)
+  @ApiKeyScopes(ApiKeyScope.NOTIFICATIONS_WRITE)
+  async createBatch(
+    @Body() createBatchDto: CreateNotificationBatchDto,
+    @Request() req: { apiKey?: ApiKeyPrincipal },
+  ): Promise<NotificationBatchResponseDto> {
+    // Items addressing users outside the key's tenant are reported as FAILED
+    const rejected = new Map<number, string[]>();
+
+    if (req.apiKey) {
+      const { tenantId } = req.apiKey;
+      // Items with an invalid userId fail item validation in createBatch
+      const outside = new Set(
+        await this.apiKeysService.findUsersOutsideTenant(
+          tenantId,
+          createBatchDto.notifications
+            .map((item) => item.userId)
+            .filter((userId): userId is string => typeof userId === 'string'),
+        ),
+      );
+      createBatchDto.notifications.forEach((item, index) => {
+        item.tenantId = tenantId;
+        if (outside.has(item.userId)) {
+          rejected.set(index, [`User with ID ${item.userId} not found`]);
+        }
+      });
+    }
+
+    return await this.notificationService.createBatch(
+      createBatchDto,
+      {},
+      rejected,
+    );
+  }
+
   /**
    * Get notification by ID
    * GET /notifications/:id
@@ -44,4 +116,26 @@ export class NotificationController {
 
     return notification;
   }
+
+  /**
+   * Cancel a pending or scheduled notification
+   * POST /notifications/:id/cancel
+   */
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancel(@Param('id') id: string): Promise<NotificationResponseDto> {
+    return await this.notificationService.cancel(id);
+  }
+
+  /**
+   * Reschedule a pending or scheduled notification
+   * PATCH /notifications/:id/schedule
+   */
+  @Patch(':id/schedule')
+  async reschedule(
+    @Param('id') id: string,
+    @Body() rescheduleDto: RescheduleNotificationDto,
+  ): Promise<NotificationResponseDto> {
+    return await this.notificationService.reschedule(id, rescheduleDto);
+  }
 }
@@ -4,15 +4,44 @@ import { NotificationService } from './notification.service';
 import { NotificationWorkerService } from './notification-worker.service';
 import { NotificationProcessorService } from './notification-processor.service';
 import { RetryService } from './retry.service';
+import { RetryWorkerService } from './retry-worker.service';
+import { NotificationSchedulerService } from './notification-scheduler.service';
+import { FallbackService } from './fallback.service';
+import { DigestService } from './digest.service';
+import { OutboxService } from './outbox.service';
+import { IntegrationsModule } from '../integrations/integrations.module';
+import { PreferencesModule } from '../preferences/preferences.module';
+import { TemplatesModule } from '../templates/templates.module';
+import { InboxModule } from '../inbox/inbox.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
 
 @Module({
+  imports: [
+    IntegrationsModule,
+    PreferencesModule,
+    TemplatesModule,
+    InboxModule,
+    RealtimeModule,
+    ApiKeysModule,
+  ],
   controllers: [NotificationController],
   providers: [
     NotificationService,
     NotificationWorkerService,
     NotificationProcessorService,
     RetryService,
+    RetryWorkerService,
+    NotificationSchedulerService,
+    FallbackService,
+    DigestService,
+    OutboxService,
+  ],
+  exports: [
+    NotificationService,
+    NotificationWorkerService,
+    NotificationSchedulerService,
+    OutboxService,
   ],
-  exports: [NotificationService, NotificationWorkerService],
 })
 export class NotificationModule {}
@@ -0,0 +1,644 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { NotificationService } from './notification.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { TracingService } from '../common/tracing/tracing.service';
+import { MetricsService } from '../common/metrics/metrics.service';
+import { PreferencesService } from '../preferences/preferences.service';
+import { TemplatesService } from '../templates/templates.service';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+import { OutboxService } from './outbox.service';
+import { createMockOutboxService } from './testing/outbox.mock';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+
+  const mockPrismaService = {
+    notification: {
+      create: jest.fn(),
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockRedisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    mget: jest.fn(),
+    setMany: jest.fn(),
+  };
+
+  const mockTracingService = {
+    withSpan: jest.fn((_name, fn) =>
+      fn({ setAttributes: jest.fn(), addEvent: jest.fn() }),
+    ),
+  };
+
+  const mockPreferencesService = {
+    isSuppressed: jest.fn(),
+  };
+
+  const mockTemplatesService = {
+    renderPayload: jest.fn(),
+  };
+
+  const buildRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'notif-1',
+    userId: 'user-1',
+    tenantId: null,
+    channel: 'EMAIL',
+    type: 'TRANSACTIONAL',
+    priority: 'MEDIUM',
+    status: 'PENDING',
+    payload: { to: 'user@example.com', subject: 'Hi', body: 'There' },
+    scheduledFor: null,
+    expiresAt: null,
+    idempotencyKey: 'idem-1',
+    correlationId: 'corr-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const mockEventsService = {
+    publishCreated: jest.fn(),
+    publishCreatedMany: jest.fn(),
+    publishUpdated: jest.fn(),
+  };
+
+  const mockOutboxService = createMockOutboxService();
+
+  // Messages published through the outbox, across all publish() calls
+  const publishedMessages = () =>
+    mockOutboxService.publish.mock.calls.flatMap(([entries]) =>
+      entries.map((entry) => entry.message),
+    );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation((fn) =>
+      fn(mockPrismaService),
+    );
+    mockPreferencesService.isSuppressed.mockResolvedValue(false);
+    mockTemplatesService.renderPayload.mockImplementation(
+      async (_channel, payload) => payload,
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: NotificationEventsService,
+          useValue: mockEventsService,
+        },
+        { provide: RedisService, useValue: mockRedisService },
+        { provide: TracingService, useValue: mockTracingService },
+        { provide: PreferencesService, useValue: mockPreferencesService },
+        { provide: TemplatesService, useValue: mockTemplatesService },
+        { provide: OutboxService, useValue: mockOutboxService },
+        {
+          provide: MetricsService,
+          useValue: { recordNotificationSuppressed: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationService>(NotificationService);
+  });
+
+  describe('create', () => {
+    const dto = {
+      userId: 'user-1',
+      channel: 'EMAIL',
+      type: 'TRANSACTIONAL',
+      payload: { to: 'user@example.com', subject: 'Hi', body: 'There' },
+    } as any;
+
+    it('should publish immediate notifications through the outbox', async () => {
+      mockRedisService.get.mockResolvedValue(null);
+      mockPrismaService.notification.create.mockResolvedValue(buildRow());
+
+      await service.create(dto);
+
+      expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockOutboxService.add).toHaveBeenCalledWith(mockPrismaService, [
+        expect.objectContaining({ id: 'notif-1', channel: 'EMAIL' }),
+      ]);
+      expect(publishedMessages()).toEqual([
+        expect.objectContaining({ id: 'notif-1', channel: 'EMAIL' }),
+      ]);
+      expect(mockEventsService.publishCreated).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'notif-1', userId: 'user-1' }),
+      );
+    });
+
+    it("should look up idempotency keys within the caller's tenant", async () => {
+      mockRedisService.get.mockResolvedValue(null);
+      mockPrismaService.notification.create.mockResolvedValue(
+        buildRow({ tenantId: 'tenant-a' }),
+      );
+
+      await service.create({
+        ...dto,
+        tenantId: 'tenant-a',
+        idempotencyKey: 'idem-1',
+      });
+
+      expect(mockRedisService.get).toHaveBeenCalledWith(
+        'idempotency:tenant-a:idem-1',
+      );
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        'idempotency:tenant-a:idem-1',
+        'notif-1',
+        86400,
+      );
+    });
+
+    it("should not return another tenant's notification for a known key", async () => {
+      mockRedisService.get.mockResolvedValue('notif-1');
+      mockPrismaService.notification.findUnique.mockResolvedValue(
+        buildRow({ tenantId: 'tenant-b' }),
+      );
+
+      await expect(
+        service.create({
+          ...dto,
+          tenantId: 'tenant-a',
+          idempotencyKey: 'idem-1',
+        }),
+      ).rejects.toThrow(
+        new ConflictException('Idempotency key is already in use'),
+      );
+    });
+
+    it('should hold future notifications for the scheduler', async () => {
+      const scheduledFor = new Date(Date.now() + 60000).toISOString();
+      mockRedisService.get.mockResolvedValue(null);
+      mockPrismaService.notification.create.mockResolvedValue(
+        buildRow({ status: 'SCHEDULED', scheduledFor }),
+      );
+
+      await service.create({ ...dto, scheduledFor });
+
+      expect(mockPrismaService.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'SCHEDULED' }),
+      });
+      expect(mockOutboxService.add).not.toHaveBeenCalled();
+      expect(publishedMessages()).toEqual([]);
+    });
+
+    it('should record opted-out notifications as SUPPRESSED without publishing', async () => {
+      mockRedisService.get.mockResolvedValue(null);
+      mockPreferencesService.isSuppressed.mockResolvedValue(true);
+      mockPrismaService.notification.create.mockResolvedValue(
+        buildRow({ status: 'SUPPRESSED' }),
+      );
+
+      const result = await service.create({ ...dto, type: 'MARKETING' });
+
+      expect(result.status).toBe('SUPPRESSED');
+      expect(mockPreferencesService.isSuppressed).toHaveBeenCalledWith(
+        'user-1',
+        'EMAIL',
+        'MARKETING',
+      );
+      expect(mockOutboxService.add).not.toHaveBeenCalled();
+      expect(publishedMessages()).toEqual([]);
+    });
+
+    it('should store the rendered template content', async () => {
+      mockRedisService.get.mockResolvedValue(null);
+      mockPrismaService.notification.create.mockResolvedValue(buildRow());
+      mockTemplatesService.renderPayload.mockResolvedValue({
+        to: 'user@example.com',
+        template: 'welcome',
+        subject: 'Welcome Ada',
+        body: 'Hello Ada',
+        templateVersion: 2,
+      });
+
+      await service.create({
+        ...dto,
+        payload: {
+          to: 'user@example.com',
+          template: 'welcome',
+          templateData: { name: 'Ada' },
+        },
+      });
+
+      expect(mockPrismaService.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          payload: expect.objectContaining({
+            subject: 'Welcome Ada',
+            templateVersion: 2,
+          }),
+        }),
+      });
+    });
+
+    it('should reject templates with missing variables before saving', async () => {
+      mockRedisService.get.mockResolvedValue(null);
+      mockTemplatesService.renderPayload.mockRejectedValue(
+        new BadRequestException(
+          'Missing template variables for "welcome": name',
+        ),
+      );
+
+      await expect(
+        service.create({
+          ...dto,
+          payload: { to: 'user@example.com', template: 'welcome' },
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.notification.create).not.toHaveBeenCalled();
+    });
+
+    it('should derive expiresAt from ttlSeconds', async () => {
+      mockRedisService.get.mockResolvedValue(null);
+      mockPrismaService.notification.create.mockResolvedValue(buildRow());
+
+      const before = Date.now();
+      await service.create({ ...dto, ttlSeconds: 300 });
+
+      const { expiresAt } =
+        mockPrismaService.notification.create.mock.calls[0][0].data;
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + 300000);
+    });
+
+    it('should supersede undelivered notifications with the same collapse key', async () => {
+      const createdAt = new Date('2026-01-01T10:00:00Z');
+      mockRedisService.get.mockResolvedValue(null);
+      mockPrismaService.notification.create.mockResolvedValue(
+        buildRow({ id: 'notif-2', collapseKey: 'order-123-status', createdAt }),
+      );
+      mockPrismaService.notification.findMany.mockResolvedValue([
+        { id: 'notif-1', userId: 'user-1', channel: 'EMAIL', type: 'SYSTEM' },
+      ]);
+      mockPrismaService.notification.updateMany.mockResolvedValue({
+        count: 1,
+      });
+
+      await service.create({
+        ...dto,
+        collapseKey: 'order-123-status',
+        collapseWindowSeconds: 30,
+      });
+
+      expect(
+        mockPrismaService.notification.create.mock.calls[0][0].data,
+      ).toMatchObject({ collapseKey: 'order-123-status' });
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          userId: 'user-1',
+          collapseKey: 'order-123-status',
+          id: { in: ['notif-1'] },
+          status: { in: ['PENDING', 'SCHEDULED', 'DIGEST_PENDING'] },
+          createdAt: {
+            gte: new Date('2026-01-01T09:59:30Z'),
+            lte: createdAt,
+          },
+        }),
+        data: expect.objectContaining({ status: 'SUPERSEDED' }),
+      });
+      expect(mockEventsService.publishUpdated).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'notif-1', status: 'SUPERSEDED' }),
+      );
+      expect(publishedMessages()).toEqual([
+        expect.objectContaining({
+          id: 'notif-2',
+          collapseKey: 'order-123-status',
+        }),
+      ]);
+    });
+
+    it('should not supersede anything from an opted-out notification', async () => {
+      mockRedisService.get.mockResolvedValue(null);
+      mockPreferencesService.isSuppressed.mockResolvedValue(true);
+      mockPrismaService.notification.create.mockResolvedValue(
+        buildRow({ status: 'SUPPRESSED', collapseKey: 'order-123-status' }),
+      );
+
+      await service.create({ ...dto, collapseKey: 'order-123-status' });
+
+      expect(mockPrismaService.notification.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject TTLs that end before the scheduled time', async () => {
+      mockRedisService.get.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          ...dto,
+          scheduledFor: new Date(Date.now() + 600000).toISOString(),
+          ttlSeconds: 60,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel pending or scheduled notifications', async () => {
+      mockPrismaService.notification.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.notification.findUnique.mockResolvedValue(
+        buildRow({ status: 'CANCELLED' }),
+      );
+
+      const result = await service.cancel('notif-1');
+
+      expect(result.status).toBe('CANCELLED');
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'notif-1',
+          status: { in: ['PENDING', 'SCHEDULED', 'DIGEST_PENDING'] },
+        },
+        data: expect.objectContaining({ status: 'CANCELLED' }),
+      });
+    });
+
+    it('should reject notifications the worker already claimed', async () => {
+      mockPrismaService.notification.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.notification.findUnique.mockResolvedValue(
+        buildRow({ status: 'PROCESSING' }),
+      );
+
+      await expect(service.cancel('notif-1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should throw NotFoundException for unknown notifications', async () => {
+      mockPrismaService.notification.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.notification.findUnique.mockResolvedValue(null);
+
+      await expect(service.cancel('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('reschedule', () => {
+    it('should move the notification to SCHEDULED at the new time', async () => {
+      const scheduledFor = new Date(Date.now() + 3600000).toISOString();
+      mockPrismaService.notification.findUnique.mockResolvedValue(buildRow());
+      mockPrismaService.notification.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.reschedule('notif-1', { scheduledFor });
+
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'notif-1',
+          status: { in: ['PENDING', 'SCHEDULED', 'DIGEST_PENDING'] },
+        },
+        data: expect.objectContaining({
+          status: 'SCHEDULED',
+          scheduledFor: new Date(scheduledFor),
+        }),
+      });
+    });
+
+    it('should reject times in the past', async () => {
+      mockPrismaService.notification.findUnique.mockResolvedValue(buildRow());
+
+      await expect(
+        service.reschedule('notif-1', {
+          scheduledFor: new Date(Date.now() - 1000).toISOString(),
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.notification.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createBatch', () => {
+    const item = (overrides: Record<string, unknown> = {}) => ({
+      userId: 'user-1',
+      channel: 'EMAIL',
+      type: 'TRANSACTIONAL',
+      payload: { to: 'user@example.com', subject: 'Hi', body: 'There' },
+      ...overrides,
+    });
+
+    // Echo inserted rows back from findMany, as the database would
+    const persistInserts = () => {
+      let inserted: any[] = [];
+      mockPrismaService.notification.createMany.mockImplementation(
+        async ({ data }) => {
+          inserted = inserted.concat(data.map((row: any) => buildRow(row)));
+          return { count: data.length };
+        },
+      );
+      mockPrismaService.notification.findMany.mockImplementation(
+        async ({ where }) => {
+          if (where.idempotencyKey) {
+            return inserted.filter((row) =>
+              where.idempotencyKey.in.includes(row.idempotencyKey),
+            );
+          }
+          if (where.id?.in) {
+            return inserted.filter(
+              (row) =>
+                where.id.in.includes(row.id) && row.status === where.status,
+            );
+          }
+          return [];
+        },
+      );
+    };
+
+    it('should return per-item results with partial failures', async () => {
+      mockRedisService.mget.mockResolvedValue([null, null]);
+      persistInserts();
+
+      const result = await service.createBatch({
+        notifications: [
+          item({ idempotencyKey: 'a' }),
+          item({ channel: 'FAX' }),
+          item({ idempotencyKey: 'b', scheduledFor: '2999-01-01T00:00:00Z' }),
+        ],
+      });
+
+      expect(result).toMatchObject({ total: 3, created: 2, failed: 1 });
+      expect(result.results.map((r) => r.status)).toEqual([
+        'CREATED',
+        'FAILED',
+        'CREATED',
+      ]);
+      expect(result.results[1].errors).toEqual([
+        expect.stringContaining('channel'),
+      ]);
+      expect(mockPrismaService.notification.createMany).toHaveBeenCalledTimes(
+        1,
+      );
+      // Only the immediate notification is published, in one batched send
+      expect(mockOutboxService.publish).toHaveBeenCalledTimes(1);
+      expect(publishedMessages()).toEqual([
+        expect.objectContaining({ idempotencyKey: 'a' }),
+      ]);
+      expect(mockRedisService.setMany).toHaveBeenCalledWith(
+        [
+          ['idempotency::a', expect.any(String)],
+          ['idempotency::b', expect.any(String)],
+        ],
+        86400,
+      );
+    });
+
+    it('should return existing notifications for known idempotency keys', async () => {
+      mockRedisService.mget.mockResolvedValue(['notif-1', null]);
+      persistInserts();
+      mockPrismaService.notification.findMany.mockResolvedValueOnce([
+        buildRow(),
+      ]);
+
+      const result = await service.createBatch({
+        notifications: [
+          item({ idempotencyKey: 'idem-1' }),
+          item({ idempotencyKey: 'new' }),
+          item({ idempotencyKey: 'new' }),
+        ],
+      });
+
+      expect(result.results.map((r) => r.status)).toEqual([
+        'DUPLICATE',
+        'CREATED',
+        'DUPLICATE',
+      ]);
+      expect(result.results[0].notification?.id).toBe('notif-1');
+      expect(result.results[2].notification?.id).toBe(
+        result.results[1].notification?.id,
+      );
+      expect(
+        mockPrismaService.notification.createMany.mock.calls[0][0].data,
+      ).toHaveLength(1);
+    });
+
+    it("should fail items whose key is taken by another tenant's notification", async () => {
+      mockRedisService.mget.mockResolvedValue([null]);
+      persistInserts();
+      // skipDuplicates leaves the other tenant's row in place
+      mockPrismaService.notification.createMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.notification.findMany.mockImplementation(
+        async ({ where }) =>
+          where.idempotencyKey ? [buildRow({ tenantId: 'tenant-b' })] : [],
+      );
+
+      const result = await service.createBatch({
+        notifications: [
+          item({ tenantId: 'tenant-a', idempotencyKey: 'idem-1' }),
+        ],
+      });
+
+      expect(result.results).toEqual([
+        {
+          index: 0,
+          status: 'FAILED',
+          errors: ['Idempotency key is already in use'],
+        },
+      ]);
+      expect(mockRedisService.mget).toHaveBeenCalledWith([
+        'idempotency:tenant-a:idem-1',
+      ]);
+    });
+
+    it('should keep only the last item per collapse key', async () => {
+      mockRedisService.mget.mockResolvedValue([null, null, null]);
+      persistInserts();
+
+      const result = await service.createBatch({
+        notifications: [
+          item({ collapseKey: 'order-123-status' }),
+          item({ collapseKey: 'order-123-status' }),
+          item({ collapseKey: 'order-456-status' }),
+        ],
+      });
+
+      const supersedeQueries =
+        mockPrismaService.notification.findMany.mock.calls
+          .map(([args]) => args.where)
+          .filter((where) => where.collapseKey);
+      expect(supersedeQueries).toEqual([
+        expect.objectContaining({
+          collapseKey: 'order-123-status',
+          id: { not: result.results[1].notification?.id },
+        }),
+        expect.objectContaining({
+          collapseKey: 'order-456-status',
+          id: { not: result.results[2].notification?.id },
+        }),
+      ]);
+    });
+
+    it('should link notifications to their origin', async () => {
+      mockRedisService.mget.mockResolvedValue([null]);
+      persistInserts();
+
+      await service.createBatch(
+        { notifications: [item()] },
+        { eventId: 'event-1', causationId: 'event-1' },
+      );
+
+      expect(
+        mockPrismaService.notification.createMany.mock.calls[0][0].data[0],
+      ).toMatchObject({ eventId: 'event-1', causationId: 'event-1' });
+    });
+
+    it('should fail rejected items on their own and create the rest', async () => {
+      mockRedisService.mget.mockResolvedValue([null]);
+      persistInserts();
+
+      const result = await service.createBatch(
+        { notifications: [item({ userId: 'other-tenant-user' }), item()] },
+        {},
+        new Map([[0, ['User with ID other-tenant-user not found']]]),
+      );
+
+      expect(result).toMatchObject({ total: 2, created: 1, failed: 1 });
+      expect(result.results[0]).toEqual({
+        index: 0,
+        status: 'FAILED',
+        errors: ['User with ID other-tenant-user not found'],
+      });
+      expect(
+        mockPrismaService.notification.createMany.mock.calls[0][0].data,
+      ).toEqual([expect.objectContaining({ userId: 'user-1' })]);
+    });
+
+    it('should isolate rows that fail the batch insert', async () => {
+      mockRedisService.mget.mockResolvedValue([null, null]);
+      persistInserts();
+      const insertRows =
+        mockPrismaService.notification.createMany.getMockImplementation()!;
+      mockPrismaService.notification.createMany.mockImplementation(
+        async (args) => {
+          if (args.data.some((row: any) => row.userId === 'ghost')) {
+            throw new Error('Foreign key constraint violated');
+          }
+          return insertRows(args);
+        },
+      );
+
+      const result = await service.createBatch({
+        notifications: [item({ userId: 'ghost' }), item()],
+      });
+
+      expect(result.results.map((r) => r.status)).toEqual([
+        'FAILED',
+        'CREATED',
+      ]);
+      expect(result.results[0].errors).toEqual([
+        'Foreign key constraint violated',
+      ]);
+      expect(publishedMessages()).toEqual([
+        expect.objectContaining({ id: result.results[1].notification?.id }),
+      ]);
+    });
+  });
+});
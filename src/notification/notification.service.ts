@@ -1,8 +1,19 @@
-import { Injectable, Logger, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { RedisService } from '../redis/redis.service';
-import { KafkaProducerService } from '../kafka/kafka-producer.service';
+import { getPriorityLaneTopic } from '../kafka/priority-lanes';
 import { TracingService } from '../common/tracing/tracing.service';
+import { MetricsService } from '../common/metrics/metrics.service';
+import { PreferencesService } from '../preferences/preferences.service';
+import { TemplatesService } from '../templates/templates.service';
+import { NotificationEventsService } from '../realtime/notification-events.service';
+import { OutboxEntry, OutboxService } from './outbox.service';
 import {
   NotificationMessage,
   NotificationChannel as KafkaNotificationChannel,
@@ -12,23 +23,57 @@ import {
 } from '../kafka/schemas/notification.schema';
 import {
   CreateNotificationDto,
+  CreateNotificationBatchDto,
+  NotificationBatchResponseDto,
+  BatchItemResultDto,
+  BatchItemStatus,
   NotificationResponseDto,
   NotificationStatus,
   NotificationPriority,
+  RescheduleNotificationDto,
+  DEFAULT_COLLAPSE_WINDOW_SECONDS,
+  NotificationReasonCode,
 } from './dto';
+import { Notification, Prisma } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
 import { randomUUID } from 'crypto';
 
+// What a notification was created from, for notifications not requested
+// directly through the API
+export interface NotificationOrigin {
+  eventId?: string;
+  causationId?: string;
+}
+
+interface PreparedBatchItem {
+  index: number;
+  idempotencyKey: string;
+  data: Prisma.NotificationCreateManyInput;
+  collapseWindowSeconds?: number;
+}
+
 @Injectable()
 export class NotificationService {
   private readonly logger = new Logger(NotificationService.name);
   private readonly IDEMPOTENCY_TTL = 86400; // 24 hours
   private readonly SCHEMA_VERSION = '1.0.0';
+  // Statuses a notification can still be cancelled or rescheduled from
+  private readonly MUTABLE_STATUSES = [
+    NotificationStatus.PENDING,
+    NotificationStatus.SCHEDULED,
+    NotificationStatus.DIGEST_PENDING,
+  ];
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly redis: RedisService,
-    private readonly kafkaProducer: KafkaProducerService,
     private readonly tracing: TracingService,
+    private readonly preferences: PreferencesService,
+    private readonly metrics: MetricsService,
+    private readonly templates: TemplatesService,
+    private readonly events: NotificationEventsService,
+    private readonly outbox: OutboxService,
   ) {}
 
   /**
@@ -38,14 +83,37 @@ export class NotificationService {
     return randomUUID();
   }
 
+  /**
+   * Redis key of an idempotency key, scoped to the caller's tenant
+   */
+  private idempotencyCacheKey(
+    idempotencyKey: string,
+    tenantId?: string | null,
+  ): string {
+    return `idempotency:${tenantId ?? ''}:${idempotencyKey}`;
+  }
+
+  /**
+   * Whether a notification found by idempotency key belongs to another
+   * tenant. Keys are unique across tenants, so such a match must not be
+   * returned to the caller.
+   */
+  private isOtherTenant(
+    notification: Pick<Notification, 'tenantId'>,
+    tenantId?: string | null,
+  ): boolean {
+    return (notification.tenantId ?? null) !== (tenantId ?? null);
+  }
+
   /**
    * Check idempotency using Redis
    * Returns notification ID if request was already processed
    */
   private async checkIdempotency(
     idempotencyKey: string,
+    tenantId?: string,
   ): Promise<string | null> {
-    const cacheKey = `idempotency:${idempotencyKey}`;
+    const cacheKey = this.idempotencyCacheKey(idempotencyKey, tenantId);
     const cachedNotificationId = await this.redis.get<string>(cacheKey);
 
     if (cachedNotificationId) {
@@ -63,19 +131,17 @@ export class NotificationService {
    */
   private async storeIdempotency(
     idempotencyKey: string,
+    tenantId: string | null,
     notificationId: string,
   ): Promise<void> {
-    const cacheKey = `idempotency:${idempotencyKey}`;
+    const cacheKey = this.idempotencyCacheKey(idempotencyKey, tenantId);
     await this.redis.set(cacheKey, notificationId, this.IDEMPOTENCY_TTL);
   }
 
   /**
-   * Convert notification to Kafka message format with enrichment
+   * Convert a persisted notification to Kafka message format with enrichment
    */
-  private toKafkaMessage(
-    notification: any,
-    dto: CreateNotificationDto,
-  ): NotificationMessage {
+  toKafkaMessage(notification: any): NotificationMessage {
     return {
       // Metadata
       id: notification.id,
@@ -88,18 +154,22 @@ export class NotificationService {
       tenantId: notification.tenantId,
 
       // Notification details
-      type: dto.type as unknown as KafkaNotificationType,
-      channel: dto.channel as unknown as KafkaNotificationChannel,
-      priority: notification.priority as unknown as KafkaNotificationPriority,
-      status: notification.status as unknown as KafkaNotificationStatus,
+      type: notification.type as KafkaNotificationType,
+      channel: notification.channel as KafkaNotificationChannel,
+      priority: notification.priority as KafkaNotificationPriority,
+      status: notification.status as KafkaNotificationStatus,
+      collapseKey: notification.collapseKey ?? undefined,
 
       // Scheduling
       scheduledFor: notification.scheduledFor
         ? new Date(notification.scheduledFor).getTime()
         : undefined,
+      expiresAt: notification.expiresAt
+        ? new Date(notification.expiresAt).getTime()
+        : undefined,
 
       // Content
-      payload: dto.payload as any, // Type will be validated by channel-specific handlers
+      payload: notification.payload, // Type will be validated by channel-specific handlers
 
       // Tracking
       correlationId: notification.correlationId,
@@ -110,51 +180,6 @@ export class NotificationService {
     };
   }
 
-  /**
-   * Publish notification event to Kafka
-   */
-  private async publishToKafka(message: NotificationMessage): Promise<void> {
-    const startTime = Date.now();
-
-    try {
-      await this.kafkaProducer.sendNotification(message);
-
-      const latency = Date.now() - startTime;
-      this.logger.log(
-        `Published notification ${message.id} to Kafka (latency: ${latency}ms, correlationId: ${message.correlationId})`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `Failed to publish notification ${message.id} to Kafka:`,
-        error,
-      );
-
-      // Try to send to retry queue as fallback
-      try {
-        await this.kafkaProducer.sendToTopic(
-          'notifications-retry',
-          message.userId,
-          message,
-          {
-            'retry-reason': 'producer-failure',
-            'original-error': (error as Error).message || 'Unknown error',
-            'retry-count': '0',
-          },
-        );
-
-        this.logger.log(
-          `Sent notification ${message.id} to retry queue after producer failure`,
-        );
-      } catch (retryError) {
-        this.logger.error(
-          `Failed to send notification ${message.id} to retry queue:`,
-          retryError,
-        );
-        // Don't throw - notification is already saved in DB
-      }
-    }
-  }
-
   /**
    * Create a new notification
    */
@@ -182,7 +207,7 @@ export class NotificationService {
         // Check idempotency with custom span
         const existingNotificationId = await this.tracing.withSpan(
           'checkIdempotency',
-          async () => await this.checkIdempotency(idempotencyKey),
+          async () => await this.checkIdempotency(idempotencyKey, dto.tenantId),
           { idempotencyKey },
         );
 
@@ -203,37 +228,38 @@ export class NotificationService {
             );
           }
 
+          if (this.isOtherTenant(existingNotification, dto.tenantId)) {
+            throw new ConflictException('Idempotency key is already in use');
+          }
+
           return this.mapToResponseDto(existingNotification);
         }
 
-        // Determine status based on scheduledFor
-        const status = dto.scheduledFor
-          ? NotificationStatus.SCHEDULED
-          : NotificationStatus.PENDING;
+        // Templates are rendered now so missing variables fail the request
+        const rendered = await this.renderTemplates(dto);
+        const data = this.buildCreateData(
+          rendered,
+          idempotencyKey,
+          correlationId,
+        );
+        const isScheduled = data.status === NotificationStatus.SCHEDULED;
 
-        // Set default priority if not provided
-        const priority = dto.priority || NotificationPriority.MEDIUM;
+        // Opted-out sends are recorded as SUPPRESSED and never published
+        const isSuppressed = await this.suppressIfOptedOut(data);
 
-        // Create notification in database with custom span
-        const notification = await this.tracing.withSpan(
+        // Create notification and its outbox message in one transaction
+        const { notification, outbox } = await this.tracing.withSpan(
           'db.createNotification',
           async () =>
-            await this.prisma.notification.create({
-              data: {
-                userId: dto.userId,
-                tenantId: dto.tenantId,
-                type: dto.type,
-                channel: dto.channel,
-                status,
-                priority,
-                payload: dto.payload as any, // Prisma stores JSON
-                content: JSON.stringify(dto.payload), // deprecated field - keep for backward compatibility
-                scheduledFor: dto.scheduledFor
-                  ? new Date(dto.scheduledFor)
-                  : null,
-                idempotencyKey,
-                correlationId,
-              },
+            await this.prisma.$transaction(async (tx) => {
+              const notification = await tx.notification.create({ data });
+              const outbox =
+                notification.status === NotificationStatus.PENDING
+                  ? await this.outbox.add(tx, [
+                      this.toKafkaMessage(notification),
+                    ])
+                  : [];
+              return { notification, outbox };
             }),
           { 'db.operation': 'INSERT', 'db.table': 'notification' },
         );
@@ -243,21 +269,47 @@ export class NotificationService {
         });
 
         // Store idempotency key in Redis
-        await this.storeIdempotency(idempotencyKey, notification.id);
+        await this.storeIdempotency(
+          idempotencyKey,
+          notification.tenantId,
+          notification.id,
+        );
+        await this.events.publishCreated(notification);
+
+        if (!isSuppressed) {
+          await this.supersedeCollapsed(
+            notification,
+            dto.collapseWindowSeconds,
+          );
+        }
 
         this.logger.log(
           `Notification created: ${notification.id} (correlationId: ${correlationId})`,
         );
 
-        // Publish to Kafka after DB persistence with custom span
-        const kafkaMessage = this.toKafkaMessage(notification, dto);
+        if (isSuppressed) {
+          span.addEvent('notification_suppressed');
+          return this.mapToResponseDto(notification);
+        }
+
+        if (isScheduled) {
+          // NotificationSchedulerService publishes it once scheduledFor is reached
+          span.addEvent('notification_scheduled', {
+            scheduledFor: dto.scheduledFor,
+          });
+          return this.mapToResponseDto(notification);
+        }
+
+        // Publish right away; OutboxService relays it if this fails
         await this.tracing.withSpan(
           'kafka.publishNotification',
-          async () => await this.publishToKafka(kafkaMessage),
+          async () => await this.outbox.publish(outbox),
           {
             'messaging.system': 'kafka',
-            'messaging.destination': 'notifications',
-            'messaging.message_id': kafkaMessage.id,
+            'messaging.destination': getPriorityLaneTopic(
+              notification.priority,
+            ),
+            'messaging.message_id': notification.id,
           },
         );
 
@@ -270,6 +322,515 @@ export class NotificationService {
     );
   }
 
+  /**
+   * Create up to MAX_NOTIFICATION_BATCH_SIZE notifications in one request
+   *
+   * Partial-failure semantics: each item is validated and de-duplicated on
+   * its own and gets its own entry in the result array. Valid items are
+   * inserted with a single createMany, together with their outbox messages,
+   * and published with a single batched Kafka send.
+   *
+   * origin links every created notification to the event that caused it.
+   * Items in rejected (index -> errors) fail without being processed, e.g.
+   * those addressing users the caller may not notify.
+   */
+  async createBatch(
+    dto: CreateNotificationBatchDto,
+    origin: NotificationOrigin = {},
+    rejected: Map<number, string[]> = new Map(),
+  ): Promise<NotificationBatchResponseDto> {
+    return await this.tracing.withSpan(
+      'NotificationService.createBatch',
+      async (span) => {
+        span.setAttributes({
+          'notification.batch_size': dto.notifications.length,
+        });
+
+        const results: BatchItemResultDto[] = [];
+        const prepared: PreparedBatchItem[] = [];
+        const byKey = new Map<string, PreparedBatchItem>();
+        const inBatchDuplicates: Array<{ index: number; key: string }> = [];
+
+        // Validate and build rows item by item
+        for (const [index, raw] of dto.notifications.entries()) {
+          const rejection = rejected.get(index);
+          if (rejection) {
+            results[index] = this.failedItem(index, rejection);
+            continue;
+          }
+
+          const item = plainToInstance(CreateNotificationDto, raw);
+          const errors = await validate(item, {
+            whitelist: true,
+            forbidNonWhitelisted: true,
+          });
+
+          if (errors.length > 0) {
+            results[index] = this.failedItem(
+              index,
+              errors.flatMap((e) => Object.values(e.constraints ?? {})),
+            );
+            continue;
+          }
+
+          const idempotencyKey =
+            item.idempotencyKey ||
+            `${item.userId}-${Date.now()}-${randomUUID()}`;
+
+          if (byKey.has(idempotencyKey)) {
+            inBatchDuplicates.push({ index, key: idempotencyKey });
+            continue;
+          }
+
+          try {
+            const data = this.buildCreateData(
+              await this.renderTemplates(item),
+              idempotencyKey,
+              item.correlationId || this.generateCorrelationId(),
+              randomUUID(),
+              origin,
+            );
+            const entry = {
+              index,
+              idempotencyKey,
+              data,
+              collapseWindowSeconds: item.collapseWindowSeconds,
+            };
+            prepared.push(entry);
+            byKey.set(idempotencyKey, entry);
+          } catch (error) {
+            results[index] = this.failedItem(index, [(error as Error).message]);
+          }
+        }
+
+        // Redis idempotency check for the whole batch in one round trip
+        const cachedIds = await this.redis.mget<string>(
+          prepared.map((p) =>
+            this.idempotencyCacheKey(p.idempotencyKey, p.data.tenantId),
+          ),
+        );
+        const existingRows = await this.prisma.notification.findMany({
+          where: { id: { in: cachedIds.filter((id): id is string => !!id) } },
+        });
+        const existingById = new Map(existingRows.map((n) => [n.id, n]));
+
+        const toInsert: PreparedBatchItem[] = [];
+        prepared.forEach((entry, i) => {
+          const cachedId = cachedIds[i];
+          if (!cachedId) {
+            toInsert.push(entry);
+            return;
+          }
+
+          const existing = existingById.get(cachedId);
+          if (!existing) {
+            results[entry.index] = this.failedItem(entry.index, [
+              'Duplicate request detected but notification not found',
+            ]);
+          } else if (this.isOtherTenant(existing, entry.data.tenantId)) {
+            results[entry.index] = this.failedItem(entry.index, [
+              'Idempotency key is already in use',
+            ]);
+          } else {
+            results[entry.index] = this.duplicateItem(entry.index, existing);
+          }
+        });
+
+        for (const entry of toInsert) {
+          await this.suppressIfOptedOut(entry.data);
+        }
+
+        const { persisted, outbox } = await this.insertBatch(toInsert, results);
+
+        // Resolve what actually landed: rows carrying our pre-assigned ID are
+        // new, any other row with the same idempotency key already existed
+        const created: Notification[] = [];
+        for (const entry of toInsert) {
+          if (results[entry.index]) {
+            continue;
+          }
+
+          const row = persisted.get(entry.idempotencyKey);
+          if (!row) {
+            results[entry.index] = this.failedItem(entry.index, [
+              'Notification was not persisted',
+            ]);
+          } else if (this.isOtherTenant(row, entry.data.tenantId)) {
+            results[entry.index] = this.failedItem(entry.index, [
+              'Idempotency key is already in use',
+            ]);
+          } else if (row.id === entry.data.id) {
+            created.push(row);
+            results[entry.index] = {
+              index: entry.index,
+              status: BatchItemStatus.CREATED,
+              notification: this.mapToResponseDto(row),
+            };
+          } else {
+            results[entry.index] = this.duplicateItem(entry.index, row);
+          }
+        }
+
+        // Repeated idempotency keys within the batch share the first item's outcome
+        for (const { index, key } of inBatchDuplicates) {
+          const first = results[byKey.get(key)!.index];
+          results[index] = first.notification
+            ? this.duplicateItem(index, first.notification)
+            : { ...first, index };
+        }
+
+        await this.redis.setMany(
+          created.map((n) => [
+            this.idempotencyCacheKey(n.idempotencyKey!, n.tenantId),
+            n.id,
+          ]),
+          this.IDEMPOTENCY_TTL,
+        );
+        await this.events.publishCreatedMany(created);
+
+        // Within the batch, the last item per collapse key supersedes the rest
+        const windows = new Map(
+          toInsert.map((e) => [e.data.id, e.collapseWindowSeconds]),
+        );
+        const latestByCollapseKey = new Map<string, Notification>();
+        for (const notification of created) {
+          if (
+            notification.collapseKey &&
+            notification.status !== NotificationStatus.SUPPRESSED
+          ) {
+            latestByCollapseKey.set(
+              `${notification.userId}:${notification.collapseKey}`,
+              notification,
+            );
+          }
+        }
+        for (const notification of latestByCollapseKey.values()) {
+          await this.supersedeCollapsed(
+            notification,
+            windows.get(notification.id),
+          );
+        }
+
+        // Scheduled notifications are published by NotificationSchedulerService
+        await this.tracing.withSpan(
+          'kafka.publishNotificationBatch',
+          async () => await this.outbox.publish(outbox),
+          {
+            'messaging.system': 'kafka',
+            'messaging.destination': [
+              ...new Set(
+                outbox.map((e) => getPriorityLaneTopic(e.message.priority)),
+              ),
+            ].join(','),
+            'messaging.batch.message_count': outbox.length,
+          },
+        );
+
+        const response: NotificationBatchResponseDto = {
+          total: results.length,
+          created: 0,
+          duplicates: 0,
+          failed: 0,
+          results,
+        };
+        for (const result of results) {
+          if (result.status === BatchItemStatus.CREATED) response.created++;
+          if (result.status === BatchItemStatus.DUPLICATE)
+            response.duplicates++;
+          if (result.status === BatchItemStatus.FAILED) response.failed++;
+        }
+
+        span.setAttributes({
+          'notification.batch_created': response.created,
+          'notification.batch_duplicates': response.duplicates,
+          'notification.batch_failed': response.failed,
+        });
+
+        this.logger.log(
+          `Notification batch processed: ${response.created} created, ${response.duplicates} duplicates, ${response.failed} failed`,
+        );
+
+        return response;
+      },
+      {
+        'service.name': 'notification-service',
+        'span.kind': 'server',
+      },
+    );
+  }
+
+  /**
+   * Insert prepared rows with one createMany, returning persisted rows by
+   * idempotency key and the outbox messages of the new PENDING rows
+   *
+   * skipDuplicates leaves rows whose idempotency key is already in the
+   * database untouched. If the statement fails as a whole (e.g. an unknown
+   * userId violates the foreign key), rows are retried one by one so only
+   * the offending items are marked as failed.
+   */
+  private async insertBatch(
+    entries: PreparedBatchItem[],
+    results: BatchItemResultDto[],
+  ): Promise<{ persisted: Map<string, Notification>; outbox: OutboxEntry[] }> {
+    if (entries.length === 0) {
+      return { persisted: new Map(), outbox: [] };
+    }
+
+    const outbox: OutboxEntry[] = [];
+
+    try {
+      outbox.push(
+        ...(await this.tracing.withSpan(
+          'db.createNotificationBatch',
+          async () => await this.insertRows(entries.map((entry) => entry.data)),
+          { 'db.operation': 'INSERT', 'db.table': 'notification' },
+        )),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Batch insert of ${entries.length} notifications failed, retrying individually: ${(error as Error).message}`,
+      );
+
+      for (const entry of entries) {
+        try {
+          outbox.push(...(await this.insertRows([entry.data])));
+        } catch (itemError) {
+          results[entry.index] = this.failedItem(entry.index, [
+            (itemError as Error).message,
+          ]);
+        }
+      }
+    }
+
+    const rows = await this.prisma.notification.findMany({
+      where: {
+        idempotencyKey: { in: entries.map((entry) => entry.idempotencyKey) },
+      },
+    });
+
+    return {
+      persisted: new Map(rows.map((row) => [row.idempotencyKey!, row])),
+      outbox,
+    };
+  }
+
+  /**
+   * Insert rows and the outbox messages of those that are new and PENDING
+   * in one transaction. Rows skipped as duplicates were published already.
+   */
+  private async insertRows(
+    data: Prisma.NotificationCreateManyInput[],
+  ): Promise<OutboxEntry[]> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.notification.createMany({ data, skipDuplicates: true });
+
+      const created = await tx.notification.findMany({
+        where: {
+          id: { in: data.map((row) => row.id!) },
+          status: NotificationStatus.PENDING,
+        },
+      });
+
+      return this.outbox.add(
+        tx,
+        created.map((n) => this.toKafkaMessage(n)),
+      );
+    });
+  }
+
+  private failedItem(index: number, errors: string[]): BatchItemResultDto {
+    return { index, status: BatchItemStatus.FAILED, errors };
+  }
+
+  private duplicateItem(
+    index: number,
+    notification: Notification | NotificationResponseDto,
+  ): BatchItemResultDto {
+    return {
+      index,
+      status: BatchItemStatus.DUPLICATE,
+      notification: this.mapToResponseDto(notification),
+    };
+  }
+
+  /**
+   * Supersede the user's undelivered notifications that share the collapse
+   * key of a newer one and were created within its window, so only the
+   * latest is delivered. Rows already being delivered are left alone.
+   */
+  private async supersedeCollapsed(
+    notification: Notification,
+    windowSeconds: number = DEFAULT_COLLAPSE_WINDOW_SECONDS,
+  ): Promise<number> {
+    if (!notification.collapseKey) {
+      return 0;
+    }
+
+    const where: Prisma.NotificationWhereInput = {
+      userId: notification.userId,
+      collapseKey: notification.collapseKey,
+      id: { not: notification.id },
+      status: { in: this.MUTABLE_STATUSES },
+      createdAt: {
+        gte: new Date(notification.createdAt.getTime() - windowSeconds * 1000),
+        lte: notification.createdAt,
+      },
+    };
+
+    const previous = await this.prisma.notification.findMany({
+      where,
+      select: { id: true, userId: true, channel: true, type: true },
+    });
+
+    if (previous.length === 0) {
+      return 0;
+    }
+
+    const errorMessage = `Superseded by ${notification.id}`;
+    const result = await this.prisma.notification.updateMany({
+      where: { ...where, id: { in: previous.map((p) => p.id) } },
+      data: {
+        status: NotificationStatus.SUPERSEDED,
+        errorMessage,
+        updatedAt: new Date(),
+      },
+    });
+
+    for (const superseded of previous) {
+      await this.events.publishUpdated({
+        ...superseded,
+        status: NotificationStatus.SUPERSEDED,
+        errorMessage,
+      });
+    }
+
+    this.logger.log(
+      `Notification ${notification.id} superseded ${result.count} earlier notifications (collapseKey: ${notification.collapseKey})`,
+    );
+
+    return result.count;
+  }
+
+  /**
+   * Mark a row about to be inserted as SUPPRESSED if the user opted out
+   */
+  private async suppressIfOptedOut(
+    data: Prisma.NotificationCreateManyInput,
+  ): Promise<boolean> {
+    const suppressed = await this.preferences.isSuppressed(
+      data.userId,
+      data.channel,
+      data.type,
+    );
+
+    if (suppressed) {
+      data.status = NotificationStatus.SUPPRESSED;
+      data.errorMessage = 'Suppressed by user preferences';
+      data.reasonCode = NotificationReasonCode.USER_OPTED_OUT;
+      this.metrics.recordNotificationSuppressed(
+        data.channel,
+        data.type,
+        'create',
+      );
+    }
+
+    return suppressed;
+  }
+
+  /**
+   * Render templated payloads, including those of fallback steps
+   * Throws BadRequestException on unknown templates or missing variables
+   */
+  private async renderTemplates(
+    dto: CreateNotificationDto,
+  ): Promise<CreateNotificationDto> {
+    const payload = await this.templates.renderPayload(
+      dto.channel,
+      dto.payload,
+    );
+    const fallback =
+      dto.fallback &&
+      (await Promise.all(
+        dto.fallback.map(async (step) => ({
+          ...step,
+          payload: await this.templates.renderPayload(
+            step.channel,
+            step.payload,
+          ),
+        })),
+      ));
+
+    return { ...dto, payload, fallback };
+  }
+
+  /**
+   * Build the notification row for a validated DTO
+   * Notifications due in the future are held back for the scheduler
+   */
+  private buildCreateData(
+    dto: CreateNotificationDto,
+    idempotencyKey: string,
+    correlationId: string,
+    id?: string,
+    origin: NotificationOrigin = {},
+  ): Prisma.NotificationCreateManyInput {
+    const isScheduled =
+      !!dto.scheduledFor && new Date(dto.scheduledFor).getTime() > Date.now();
+
+    return {
+      id,
+      userId: dto.userId,
+      tenantId: dto.tenantId,
+      type: dto.type,
+      channel: dto.channel,
+      status: isScheduled
+        ? NotificationStatus.SCHEDULED
+        : NotificationStatus.PENDING,
+      // Set default priority if not provided
+      priority: dto.priority || NotificationPriority.MEDIUM,
+      payload: dto.payload as any, // Prisma stores JSON
+      content: JSON.stringify(dto.payload), // deprecated field - keep for backward compatibility
+      scheduledFor: dto.scheduledFor ? new Date(dto.scheduledFor) : null,
+      expiresAt: this.resolveExpiry(dto),
+      fallback: dto.fallback?.length ? (dto.fallback as any) : undefined,
+      idempotencyKey,
+      collapseKey: dto.collapseKey,
+      correlationId,
+      eventId: origin.eventId,
+      causationId: origin.causationId,
+    };
+  }
+
+  /**
+   * Resolve the absolute expiry from expiresAt / ttlSeconds (earliest wins)
+   * and reject TTLs that could never be honoured
+   */
+  private resolveExpiry(dto: CreateNotificationDto): Date | null {
+    const candidates: number[] = [];
+    if (dto.expiresAt) {
+      candidates.push(new Date(dto.expiresAt).getTime());
+    }
+    if (dto.ttlSeconds) {
+      candidates.push(Date.now() + dto.ttlSeconds * 1000);
+    }
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const expiresAt = Math.min(...candidates);
+
+    if (expiresAt <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    if (dto.scheduledFor && new Date(dto.scheduledFor).getTime() >= expiresAt) {
+      throw new BadRequestException('scheduledFor must be before expiresAt');
+    }
+
+    return new Date(expiresAt);
+  }
+
   /**
    * Get notification by ID
    */
@@ -285,6 +846,98 @@ export class NotificationService {
     return this.mapToResponseDto(notification);
   }
 
+  /**
+   * Cancel a PENDING, SCHEDULED or DIGEST_PENDING notification
+   *
+   * The status-guarded update races safely with the worker, which claims
+   * notifications with the same kind of guarded PENDING -> PROCESSING update:
+   * whichever transition lands first wins.
+   */
+  async cancel(id: string): Promise<NotificationResponseDto> {
+    const result = await this.prisma.notification.updateMany({
+      where: { id, status: { in: this.MUTABLE_STATUSES } },
+      data: { status: NotificationStatus.CANCELLED, updatedAt: new Date() },
+    });
+
+    const notification = await this.findExisting(id);
+
+    if (result.count === 0) {
+      throw new ConflictException(
+        `Cannot cancel notification with status: ${notification.status}`,
+      );
+    }
+
+    await this.events.publishUpdated(notification);
+    this.logger.log(
+      `Notification cancelled: ${id} (correlationId: ${notification.correlationId})`,
+    );
+
+    return this.mapToResponseDto(notification);
+  }
+
+  /**
+   * Move a PENDING, SCHEDULED or DIGEST_PENDING notification to a new
+   * delivery time
+   *
+   * The notification becomes SCHEDULED; if a PENDING message was already
+   * published, the worker skips it and the scheduler publishes it again
+   * once the new time is reached.
+   */
+  async reschedule(
+    id: string,
+    dto: RescheduleNotificationDto,
+  ): Promise<NotificationResponseDto> {
+    const scheduledFor = new Date(dto.scheduledFor);
+    const existing = await this.findExisting(id);
+
+    if (scheduledFor.getTime() <= Date.now()) {
+      throw new BadRequestException('scheduledFor must be in the future');
+    }
+
+    if (existing.expiresAt && scheduledFor >= existing.expiresAt) {
+      throw new BadRequestException('scheduledFor must be before expiresAt');
+    }
+
+    const result = await this.prisma.notification.updateMany({
+      where: { id, status: { in: this.MUTABLE_STATUSES } },
+      data: {
+        status: NotificationStatus.SCHEDULED,
+        scheduledFor,
+        updatedAt: new Date(),
+      },
+    });
+
+    const notification = await this.findExisting(id);
+
+    if (result.count === 0) {
+      throw new ConflictException(
+        `Cannot reschedule notification with status: ${notification.status}`,
+      );
+    }
+
+    await this.events.publishUpdated(notification);
+    this.logger.log(
+      `Notification rescheduled: ${id} for ${scheduledFor.toISOString()} (correlationId: ${notification.correlationId})`,
+    );
+
+    return this.mapToResponseDto(notification);
+  }
+
+  /**
+   * Load a notification row or throw 404
+   */
+  private async findExisting(id: string) {
+    const notification = await this.prisma.notification.findUnique({
+      where: { id },
+    });
+
+    if (!notification) {
+      throw new NotFoundException(`Notification with ID ${id} not found`);
+    }
+
+    return notification;
+  }
+
   /**
    * Map Prisma model to response DTO
    */
@@ -297,11 +950,16 @@ export class NotificationService {
       type: notification.type,
       priority: notification.priority,
       status: notification.status,
+      reasonCode: notification.reasonCode,
       scheduledFor: notification.scheduledFor,
+      expiresAt: notification.expiresAt,
+      digestAt: notification.digestAt,
+      digestId: notification.digestId,
       createdAt: notification.createdAt,
       updatedAt: notification.updatedAt,
       correlationId: notification.correlationId,
       idempotencyKey: notification.idempotencyKey,
+      collapseKey: notification.collapseKey,
     };
   }
 }
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OutboxService } from './outbox.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { KafkaProducerService } from '../kafka/kafka-producer.service';
+
+describe('OutboxService', () => {
+  let service: OutboxService;
+
+  const mockPrismaService = {
+    outboxMessage: {
+      createMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  };
+
+  const mockKafkaProducer = {
+    sendNotificationBatch: jest.fn(),
+  };
+
+  const message = (id: string) =>
+    ({ id, userId: 'user-1', priority: 'HIGH' }) as any;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockKafkaProducer.sendNotificationBatch.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: KafkaProducerService, useValue: mockKafkaProducer },
+      ],
+    }).compile();
+
+    service = module.get<OutboxService>(OutboxService);
+  });
+
+  describe('add', () => {
+    it('should write leased rows through the caller transaction', async () => {
+      const tx = { outboxMessage: { createMany: jest.fn() } };
+
+      const entries = await service.add(tx as any, [message('notif-1')]);
+
+      expect(entries).toEqual([
+        { id: expect.any(String), message: message('notif-1'), attempts: 0 },
+      ]);
+      const [row] = tx.outboxMessage.createMany.mock.calls[0][0].data;
+      expect(row).toMatchObject({
+        id: entries[0].id,
+        notificationId: 'notif-1',
+        payload: message('notif-1'),
+      });
+      expect(row.availableAt.getTime()).toBeGreaterThan(Date.now());
+      expect(mockPrismaService.outboxMessage.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publish', () => {
+    const entries = [
+      { id: 'outbox-1', message: message('notif-1'), attempts: 0 },
+      { id: 'outbox-2', message: message('notif-2'), attempts: 2 },
+    ];
+
+    it('should send all messages in one batch and mark them sent', async () => {
+      await expect(service.publish(entries)).resolves.toBe(true);
+
+      expect(mockKafkaProducer.sendNotificationBatch).toHaveBeenCalledWith([
+        message('notif-1'),
+        message('notif-2'),
+      ]);
+      expect(mockPrismaService.outboxMessage.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['outbox-1', 'outbox-2'] } },
+        data: { sentAt: expect.any(Date) },
+      });
+    });
+
+    it('should leave failed messages for the relay with a backoff', async () => {
+      mockKafkaProducer.sendNotificationBatch.mockRejectedValue(
+        new Error('Broker not available'),
+      );
+      const before = Date.now();
+
+      await expect(service.publish(entries)).resolves.toBe(false);
+
+      const { where, data } =
+        mockPrismaService.outboxMessage.updateMany.mock.calls[0][0];
+      expect(where).toEqual({
+        id: { in: ['outbox-1', 'outbox-2'] },
+        sentAt: null,
+      });
+      expect(data).toMatchObject({
+        attempts: { increment: 1 },
+        lastError: 'Broker not available',
+      });
+      // 2^3 seconds after the third attempt
+      expect(data.availableAt.getTime()).toBeGreaterThanOrEqual(before + 8000);
+    });
+
+    it('should do nothing for an empty list', async () => {
+      await expect(service.publish([])).resolves.toBe(true);
+
+      expect(mockKafkaProducer.sendNotificationBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('relayPending', () => {
+    it('should publish claimed rows and mark them sent', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([
+        { id: 'outbox-1', payload: message('notif-1'), attempts: 1 },
+      ]);
+
+      await expect(service.relayPending()).resolves.toBe(1);
+
+      expect(mockKafkaProducer.sendNotificationBatch).toHaveBeenCalledWith([
+        message('notif-1'),
+      ]);
+      expect(mockPrismaService.outboxMessage.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['outbox-1'] } },
+        data: { sentAt: expect.any(Date) },
+      });
+    });
+
+    it('should stop at the first failed batch', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValue(
+        Array.from({ length: 100 }, (_, i) => ({
+          id: `outbox-${i}`,
+          payload: message(`notif-${i}`),
+          attempts: 0,
+        })),
+      );
+      mockKafkaProducer.sendNotificationBatch.mockRejectedValue(
+        new Error('Broker not available'),
+      );
+
+      await expect(service.relayPending()).resolves.toBe(0);
+
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+  });
+});
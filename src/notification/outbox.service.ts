@@ -0,0 +1,187 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { KafkaProducerService } from '../kafka/kafka-producer.service';
+import { NotificationMessage } from '../kafka/schemas/notification.schema';
+
+export interface OutboxEntry {
+  id: string;
+  message: NotificationMessage;
+  attempts: number;
+}
+
+/**
+ * OutboxService - Transactional outbox for DB -> Kafka publication
+ *
+ * Flow:
+ * - add() writes outbox rows inside the caller's Prisma transaction, so a
+ *   notification is never committed without its Kafka message
+ * - After commit the caller publishes the rows right away with publish()
+ * - This poller relays rows that were not marked sent: the process died
+ *   before publishing, or Kafka was unavailable
+ *
+ * Rows start leased for LEASE_MS so the poller does not race the caller's
+ * immediate publish. The poller claims rows by pushing availableAt forward
+ * (FOR UPDATE SKIP LOCKED), so instances never relay the same row at the
+ * same time; if an instance dies mid-publish the lease expires and the row
+ * is relayed again. Delivery is at-least-once - the worker's status-guarded
+ * claim drops duplicates.
+ */
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+  private readonly BATCH_SIZE = 100;
+  private readonly LEASE_MS = 30000;
+  private readonly MAX_BACKOFF_MS = 5 * 60 * 1000;
+  private isRelaying = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly kafkaProducer: KafkaProducerService,
+  ) {}
+
+  /**
+   * Write outbox rows for messages within the caller's transaction
+   */
+  async add(
+    tx: Prisma.TransactionClient,
+    messages: NotificationMessage[],
+  ): Promise<OutboxEntry[]> {
+    if (messages.length === 0) {
+      return [];
+    }
+
+    const entries = messages.map((message) => ({
+      id: randomUUID(),
+      message,
+      attempts: 0,
+    }));
+    const availableAt = new Date(Date.now() + this.LEASE_MS);
+
+    await tx.outboxMessage.createMany({
+      data: entries.map(({ id, message }) => ({
+        id,
+        notificationId: message.id,
+        payload: message as unknown as Prisma.InputJsonValue,
+        availableAt,
+      })),
+    });
+
+    return entries;
+  }
+
+  /**
+   * Publish outbox rows with one Kafka send and mark them sent
+   * On failure the rows are left for the relay with a backoff; never throws
+   */
+  async publish(entries: OutboxEntry[]): Promise<boolean> {
+    if (entries.length === 0) {
+      return true;
+    }
+
+    const ids = entries.map((entry) => entry.id);
+
+    try {
+      await this.kafkaProducer.sendNotificationBatch(
+        entries.map((entry) => entry.message),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to publish ${entries.length} outbox messages, leaving them for the relay: ${message}`,
+      );
+
+      const attempts = Math.max(...entries.map((entry) => entry.attempts)) + 1;
+      await this.prisma.outboxMessage.updateMany({
+        where: { id: { in: ids }, sentAt: null },
+        data: {
+          attempts: { increment: 1 },
+          lastError: message,
+          availableAt: new Date(Date.now() + this.getBackoffMs(attempts)),
+        },
+      });
+
+      return false;
+    }
+
+    await this.prisma.outboxMessage.updateMany({
+      where: { id: { in: ids } },
+      data: { sentAt: new Date() },
+    });
+
+    return true;
+  }
+
+  /**
+   * Relay unsent outbox rows whose lease or backoff has passed
+   * Runs every 5 seconds
+   */
+  @Interval(5000)
+  async relayPending(): Promise<number> {
+    // Skip if the previous tick is still running
+    if (this.isRelaying) {
+      return 0;
+    }
+
+    this.isRelaying = true;
+    let relayed = 0;
+
+    try {
+      let batch: OutboxEntry[];
+      do {
+        batch = await this.claimDueBatch();
+        if (!(await this.publish(batch))) {
+          break;
+        }
+        relayed += batch.length;
+      } while (batch.length === this.BATCH_SIZE);
+
+      if (relayed > 0) {
+        this.logger.warn(`Relayed ${relayed} unpublished outbox messages`);
+      }
+    } catch (error) {
+      this.logger.error('Outbox relay failed:', error);
+    } finally {
+      this.isRelaying = false;
+    }
+
+    return relayed;
+  }
+
+  /**
+   * Atomically lease a batch of due, unsent rows
+   */
+  private async claimDueBatch(): Promise<OutboxEntry[]> {
+    const leaseUntil = new Date(Date.now() + this.LEASE_MS);
+
+    const rows = await this.prisma.$queryRaw<
+      Array<{ id: string; payload: unknown; attempts: number }>
+    >`
+      UPDATE outbox_messages
+      SET "availableAt" = ${leaseUntil}
+      WHERE id IN (
+        SELECT id FROM outbox_messages
+        WHERE "sentAt" IS NULL AND "availableAt" <= NOW()
+        ORDER BY "createdAt"
+        LIMIT ${this.BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, payload, attempts
+    `;
+
+    return rows.map((row) => ({
+      id: row.id,
+      message: row.payload as NotificationMessage,
+      attempts: row.attempts,
+    }));
+  }
+
+  /**
+   * Exponential backoff between relay attempts, capped at MAX_BACKOFF_MS
+   */
+  private getBackoffMs(attempts: number): number {
+    return Math.min(1000 * 2 ** attempts, this.MAX_BACKOFF_MS);
+  }
+}
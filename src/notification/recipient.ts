@@ -0,0 +1,49 @@
+import { Prisma } from '@prisma/client';
+import { NotificationChannel } from './dto';
+
+/**
+ * User fields needed to address a notification
+ */
+export type Recipient = {
+  email: string;
+  attributes: Prisma.JsonValue;
+};
+
+/**
+ * Recipient address for a channel, or null if the user has none
+ */
+export function getContact(
+  channel: string,
+  user: Recipient,
+): Record<string, string> | null {
+  const attributes = getAttributes(user);
+
+  switch (channel) {
+    case NotificationChannel.EMAIL:
+      return { to: user.email };
+    case NotificationChannel.SMS:
+      return typeof attributes.phoneNumber === 'string'
+        ? { phoneNumber: attributes.phoneNumber }
+        : null;
+    case NotificationChannel.PUSH:
+      return typeof attributes.deviceToken === 'string'
+        ? { deviceToken: attributes.deviceToken }
+        : null;
+    case NotificationChannel.IN_APP:
+      return {};
+    default:
+      return null;
+  }
+}
+
+/**
+ * Template locale from the user's attributes, if set
+ */
+export function getLocale(user: Recipient): string | undefined {
+  const { locale } = getAttributes(user);
+  return typeof locale === 'string' ? locale : undefined;
+}
+
+function getAttributes(user: Recipient): Record<string, unknown> {
+  return (user.attributes ?? {}) as Record<string, unknown>;
+}
@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EachMessagePayload } from 'kafkajs';
+import { RetryWorkerService } from './retry-worker.service';
+import { NotificationWorkerService } from './notification-worker.service';
+import { KafkaConsumerService } from '../kafka/kafka-consumer.service';
+
+describe('RetryWorkerService', () => {
+  let service: RetryWorkerService;
+  let retryHandler: (payload: EachMessagePayload) => Promise<void>;
+
+  const mockKafkaConsumer = {
+    registerMessageHandler: jest.fn((_topic, handler) => {
+      retryHandler = handler;
+    }),
+    pause: jest.fn().mockResolvedValue(undefined),
+    resume: jest.fn().mockResolvedValue(undefined),
+    seek: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockWorker = {
+    handleNotification: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const buildPayload = (
+    timestamp: number,
+    backoffDelay?: string,
+  ): EachMessagePayload =>
+    ({
+      topic: 'notifications-retry',
+      partition: 2,
+      message: {
+        offset: '42',
+        timestamp: timestamp.toString(),
+        value: Buffer.from('{}'),
+        headers: backoffDelay
+          ? { 'backoff-delay': Buffer.from(backoffDelay) }
+          : {},
+      },
+    }) as unknown as EachMessagePayload;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RetryWorkerService,
+        { provide: KafkaConsumerService, useValue: mockKafkaConsumer },
+        { provide: NotificationWorkerService, useValue: mockWorker },
+      ],
+    }).compile();
+
+    service = module.get<RetryWorkerService>(RetryWorkerService);
+    await service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should register a handler for the legacy and per-lane retry topics', () => {
+    for (const topic of [
+      'notifications-retry',
+      'notifications-retry.urgent',
+      'notifications-retry.default',
+      'notifications-retry.bulk',
+    ]) {
+      expect(mockKafkaConsumer.registerMessageHandler).toHaveBeenCalledWith(
+        topic,
+        expect.any(Function),
+      );
+    }
+  });
+
+  it('should pause only the lane retry topic the pending message came from', async () => {
+    const payload = buildPayload(Date.now(), '4000');
+    payload.topic = 'notifications-retry.bulk';
+
+    await retryHandler(payload);
+
+    expect(mockKafkaConsumer.pause).toHaveBeenCalledWith(
+      ['notifications-retry.bulk'],
+      [2],
+    );
+    expect(mockKafkaConsumer.seek).toHaveBeenCalledWith(
+      'notifications-retry.bulk',
+      2,
+      '42',
+    );
+  });
+
+  it('should reprocess messages whose backoff has elapsed', async () => {
+    const payload = buildPayload(Date.now() - 5000, '1000');
+
+    await retryHandler(payload);
+
+    expect(mockWorker.handleNotification).toHaveBeenCalledWith(payload);
+    expect(mockKafkaConsumer.pause).not.toHaveBeenCalled();
+  });
+
+  it('should pause, seek back and resume at the deadline for pending messages', async () => {
+    await retryHandler(buildPayload(Date.now(), '4000'));
+
+    expect(mockWorker.handleNotification).not.toHaveBeenCalled();
+    expect(mockKafkaConsumer.pause).toHaveBeenCalledWith(
+      ['notifications-retry'],
+      [2],
+    );
+    expect(mockKafkaConsumer.seek).toHaveBeenCalledWith(
+      'notifications-retry',
+      2,
+      '42',
+    );
+
+    jest.advanceTimersByTime(3999);
+    expect(mockKafkaConsumer.resume).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(mockKafkaConsumer.resume).toHaveBeenCalledWith(
+      ['notifications-retry'],
+      [2],
+    );
+  });
+
+  it('should release messages at expiry when they expire before their backoff', async () => {
+    const now = Date.now();
+    const payload = buildPayload(now, '8000');
+    payload.message.value = Buffer.from(
+      JSON.stringify({ id: 'notif-1', expiresAt: now + 2000 }),
+    );
+
+    await retryHandler(payload);
+    jest.advanceTimersByTime(2000);
+
+    expect(mockKafkaConsumer.resume).toHaveBeenCalledWith(
+      ['notifications-retry'],
+      [2],
+    );
+  });
+
+  it('should treat messages without a backoff header as due immediately', async () => {
+    await retryHandler(buildPayload(Date.now()));
+
+    expect(mockWorker.handleNotification).toHaveBeenCalled();
+  });
+});
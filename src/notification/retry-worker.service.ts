@@ -0,0 +1,157 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { EachMessagePayload, KafkaMessage } from 'kafkajs';
+import { KafkaConsumerService } from '../kafka/kafka-consumer.service';
+import {
+  LEGACY_RETRY_TOPIC,
+  PRIORITY_LANE_RETRY_TOPICS,
+} from '../kafka/priority-lanes';
+import { NotificationWorkerService } from './notification-worker.service';
+
+/**
+ * RetryWorker - Consumes the retry topics and honours backoff
+ *
+ * Each priority lane has its own retry topic (and consumer group), so a
+ * bulk retry waiting out its backoff never delays an urgent one. The legacy
+ * 'notifications-retry' topic is still consumed to drain old messages.
+ *
+ * RetryService publishes failed notifications with a 'backoff-delay' header.
+ * A message becomes due at (Kafka message timestamp + backoff delay). When
+ * a message is not due yet, its partition is paused, the consumer is seeked
+ * back to the message's offset and a timer resumes the partition at the
+ * deadline, so nothing is held in memory and the offset is not committed.
+ *
+ * Due messages re-enter the normal NotificationWorker processing path,
+ * which routes them back to their lane's retry topic (or DLQ) if they fail
+ * again.
+ *
+ * Note: partitions are consumed in order, so a long backoff at the head of
+ * a partition delays shorter ones behind it (bounded by the 16s max delay).
+ */
+@Injectable()
+export class RetryWorkerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RetryWorkerService.name);
+  private readonly resumeTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private readonly kafkaConsumer: KafkaConsumerService,
+    private readonly worker: NotificationWorkerService,
+  ) {}
+
+  /**
+   * Register message handler for the retry topics
+   */
+  async onModuleInit() {
+    for (const topic of [LEGACY_RETRY_TOPIC, ...PRIORITY_LANE_RETRY_TOPICS]) {
+      this.kafkaConsumer.registerMessageHandler(
+        topic,
+        this.handleRetry.bind(this),
+      );
+    }
+
+    this.logger.log('RetryWorker initialized');
+  }
+
+  /**
+   * Clear pending resume timers
+   */
+  async onModuleDestroy() {
+    for (const timer of this.resumeTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.resumeTimers.clear();
+  }
+
+  /**
+   * Handle a retry message: defer it until due, then reprocess
+   */
+  private async handleRetry(payload: EachMessagePayload): Promise<void> {
+    const { topic, partition, message } = payload;
+
+    // A message that expires before its backoff elapses is released at
+    // expiry so the worker can drop it as EXPIRED without further delay
+    const releaseAt = Math.min(
+      this.getDueAt(message),
+      this.getExpiresAt(message) ?? Infinity,
+    );
+    const remainingMs = releaseAt - Date.now();
+
+    if (remainingMs > 0) {
+      await this.deferPartition(topic, partition, message.offset, remainingMs);
+      return;
+    }
+
+    this.logger.log(
+      `Retry due for offset ${message.offset} (partition ${partition}), reprocessing`,
+    );
+    await this.worker.handleNotification(payload);
+  }
+
+  /**
+   * Calculate when a retry message should be processed (Unix ms)
+   */
+  getDueAt(message: KafkaMessage): number {
+    const header = message.headers?.['backoff-delay'];
+    const rawDelay = Array.isArray(header) ? header[0] : header;
+    const backoffDelay = Number(rawDelay?.toString() || 0);
+
+    return (
+      Number(message.timestamp) +
+      (Number.isFinite(backoffDelay) ? backoffDelay : 0)
+    );
+  }
+
+  /**
+   * Read the notification's expiresAt (Unix ms) from the message body
+   */
+  private getExpiresAt(message: KafkaMessage): number | undefined {
+    try {
+      const value = message.value?.toString();
+      return value ? JSON.parse(value).expiresAt : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Pause the partition, rewind to the pending message and resume at the deadline
+   */
+  private async deferPartition(
+    topic: string,
+    partition: number,
+    offset: string,
+    delayMs: number,
+  ): Promise<void> {
+    await this.kafkaConsumer.pause([topic], [partition]);
+    await this.kafkaConsumer.seek(topic, partition, offset);
+
+    const key = `${topic}:${partition}`;
+    const existingTimer = this.resumeTimers.get(key);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    this.resumeTimers.set(
+      key,
+      setTimeout(() => {
+        this.resumeTimers.delete(key);
+        this.kafkaConsumer
+          .resume([topic], [partition])
+          .catch((error) =>
+            this.logger.error(
+              `Failed to resume ${topic} partition ${partition}:`,
+              error,
+            ),
+          );
+      }, delayMs),
+    );
+
+    this.logger.debug(
+      `Deferred ${topic} partition ${partition} at offset ${offset} for ${delayMs}ms`,
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { KafkaProducerService } from '../kafka/kafka-producer.service';
 import { NotificationMessage } from '../kafka/schemas/notification.schema';
+import { getPriorityLaneRetryTopic } from '../kafka/priority-lanes';
+import { isRetryableError } from './errors/delivery.error';
 
 /**
  * RetryService - Handles notification retry logic with exponential backoff
@@ -38,11 +40,12 @@ export class RetryService {
 
   /**
    * Send message to retry queue with backoff delay
+   * Returns false if the message went to the DLQ instead
    */
   async sendToRetryQueue(
     notification: NotificationMessage,
     error: string,
-  ): Promise<void> {
+  ): Promise<boolean> {
     const newRetryCount = (notification.retryCount || 0) + 1;
     const backoffDelay = this.calculateBackoffDelay(
       notification.retryCount || 0,
@@ -51,7 +54,7 @@ export class RetryService {
     if (!this.shouldRetry(newRetryCount)) {
       // Max retries exceeded - send to DLQ
       await this.sendToDLQ(notification, error, 'max_retries_exceeded');
-      return;
+      return false;
     }
 
     try {
@@ -60,8 +63,9 @@ export class RetryService {
         retryCount: newRetryCount,
       };
 
+      // Retries stay in their priority lane
       await this.kafkaProducer.sendToTopic(
-        'notifications-retry',
+        getPriorityLaneRetryTopic(notification.priority),
         notification.userId,
         retryMessage,
         {
@@ -75,6 +79,7 @@ export class RetryService {
       this.logger.log(
         `Sent notification ${notification.id} to retry queue (attempt ${newRetryCount}/${this.MAX_RETRIES}, backoff: ${backoffDelay}ms)`,
       );
+      return true;
     } catch (retryError) {
       this.logger.error(
         `Failed to send notification ${notification.id} to retry queue:`,
@@ -82,6 +87,7 @@ export class RetryService {
       );
       // Send to DLQ as last resort
       await this.sendToDLQ(notification, error, 'retry_queue_failure');
+      return false;
     }
   }
 
@@ -191,7 +197,11 @@ class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      // Permanent failures (bad recipient, invalid payload) say nothing
+      // about the provider's health, so they don't count towards opening
+      if (isRetryableError(error)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
@@ -0,0 +1,28 @@
+import { NotificationMessage } from '../../kafka/schemas/notification.schema';
+import { OutboxEntry } from '../outbox.service';
+
+/**
+ * OutboxService stand-in for unit tests
+ *
+ * add() turns each message into an entry without touching the database;
+ * publish() reports success. Entries handed to publish() can be read back
+ * from publish.mock.calls.
+ */
+export function createMockOutboxService() {
+  return {
+    add: jest.fn(
+      async (
+        _tx: unknown,
+        messages: NotificationMessage[],
+      ): Promise<OutboxEntry[]> =>
+        messages.map((message) => ({
+          id: `outbox-${message.id}`,
+          message,
+          attempts: 0,
+        })),
+    ),
+    publish: jest
+      .fn<Promise<boolean>, [OutboxEntry[]]>()
+      .mockResolvedValue(true),
+  };
+}
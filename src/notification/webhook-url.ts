@@ -0,0 +1,118 @@
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Agent } from 'undici';
+import { DeliveryError } from './errors/delivery.error';
+
+/**
+ * Addresses webhooks may not reach: loopback, private, link-local (cloud
+ * metadata endpoints), carrier-grade NAT, multicast and reserved ranges.
+ * IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+  ] as const
+).forEach(([network, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4'),
+);
+
+(
+  [
+    ['::', 127], // unspecified and loopback
+    ['64:ff9b::', 96], // NAT64
+    ['fc00::', 7], // unique local
+    ['fe80::', 10], // link-local
+    ['ff00::', 8], // multicast
+  ] as const
+).forEach(([network, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6'),
+);
+
+/**
+ * A webhook URL and the public addresses its host resolved to
+ */
+export interface PublicWebhookUrl {
+  url: URL;
+  addresses: LookupAddress[];
+}
+
+/**
+ * Reject webhook URLs that are not https or whose host resolves to a
+ * non-public address, so callers cannot make the worker reach internal
+ * services. Failures are permanent, except DNS lookups that may recover
+ */
+export async function assertPublicWebhookUrl(
+  rawUrl: string,
+): Promise<PublicWebhookUrl> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw DeliveryError.permanent(`Invalid webhook URL: ${rawUrl}`, 'webhook');
+  }
+
+  if (url.protocol !== 'https:') {
+    throw DeliveryError.permanent('Webhook URL must use https', 'webhook');
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(host)
+      ? [{ address: host, family: isIP(host) }]
+      : await lookup(host, { all: true });
+  } catch (error) {
+    throw DeliveryError.retryable(
+      `Webhook host ${host} could not be resolved: ${error instanceof Error ? error.message : error}`,
+      'webhook',
+    );
+  }
+
+  const blocked = addresses.find(({ address, family }) =>
+    BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+  );
+
+  if (blocked) {
+    throw DeliveryError.permanent(
+      `Webhook host ${host} resolves to non-public address ${blocked.address}`,
+      'webhook',
+    );
+  }
+
+  return { url, addresses };
+}
+
+/**
+ * Dispatcher that connects only to the given, already checked addresses.
+ * fetch would otherwise resolve the host again, and a second DNS answer
+ * could point at an internal address (DNS rebinding). TLS still verifies
+ * the certificate against the URL's hostname
+ */
+export function createPinnedAgent(addresses: LookupAddress[]): Agent {
+  return new Agent({
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+    },
+  });
+}
@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { DigestPreferencesService } from './digest-preferences.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { DigestFrequency } from './dto';
+
+describe('DigestPreferencesService', () => {
+  let service: DigestPreferencesService;
+
+  const mockPrismaService = {
+    user: { findUnique: jest.fn() },
+    digestPreference: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const mockRedisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRedisService.get.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DigestPreferencesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: mockRedisService },
+      ],
+    }).compile();
+
+    service = module.get<DigestPreferencesService>(DigestPreferencesService);
+  });
+
+  describe('getFrequency', () => {
+    it('should let the type rule win over the user-wide rule', async () => {
+      mockPrismaService.digestPreference.findMany.mockResolvedValue([
+        { type: 'ALL', frequency: 'DAILY' },
+        { type: 'MARKETING', frequency: 'WEEKLY' },
+      ]);
+
+      await expect(service.getFrequency('user-1', 'MARKETING')).resolves.toBe(
+        DigestFrequency.WEEKLY,
+      );
+      await expect(service.getFrequency('user-1', 'SYSTEM')).resolves.toBe(
+        DigestFrequency.DAILY,
+      );
+    });
+
+    it('should never digest other types', async () => {
+      mockPrismaService.digestPreference.findMany.mockResolvedValue([
+        { type: 'ALL', frequency: 'DAILY' },
+      ]);
+
+      await expect(
+        service.getFrequency('user-1', 'TRANSACTIONAL'),
+      ).resolves.toBeNull();
+      expect(
+        mockPrismaService.digestPreference.findMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should return null without a matching rule', async () => {
+      mockPrismaService.digestPreference.findMany.mockResolvedValue([]);
+
+      await expect(
+        service.getFrequency('user-1', 'MARKETING'),
+      ).resolves.toBeNull();
+    });
+
+    it('should use cached rules', async () => {
+      mockRedisService.get.mockResolvedValue([
+        { type: 'SYSTEM', frequency: 'HOURLY' },
+      ]);
+
+      await expect(service.getFrequency('user-1', 'SYSTEM')).resolves.toBe(
+        DigestFrequency.HOURLY,
+      );
+      expect(
+        mockPrismaService.digestPreference.findMany,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upsert', () => {
+    it('should default to a user-wide rule and invalidate the cache', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'user-1' });
+      mockPrismaService.digestPreference.upsert.mockResolvedValue({
+        id: 'd-1',
+      });
+
+      await service.upsert('user-1', { frequency: DigestFrequency.DAILY });
+
+      expect(mockPrismaService.digestPreference.upsert).toHaveBeenCalledWith({
+        where: { userId_type: { userId: 'user-1', type: 'ALL' } },
+        create: { userId: 'user-1', type: 'ALL', frequency: 'DAILY' },
+        update: { frequency: 'DAILY' },
+      });
+      expect(mockRedisService.del).toHaveBeenCalledWith(
+        'digest-preferences:user-1',
+      );
+    });
+
+    it('should throw NotFoundException for unknown users', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.upsert('missing', { frequency: DigestFrequency.DAILY }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should throw NotFoundException for unknown rules', async () => {
+      mockPrismaService.digestPreference.deleteMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.remove('user-1', 'missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import {
+  ALL,
+  DIGEST_TYPES,
+  DigestFrequency,
+  DigestPreferenceResponseDto,
+  UpsertDigestPreferenceDto,
+} from './dto';
+
+type DigestRule = Pick<DigestPreferenceResponseDto, 'type' | 'frequency'>;
+
+/**
+ * DigestPreferencesService - How often a user wants LOW priority
+ * MARKETING / SYSTEM notifications batched into a digest
+ *
+ * Resolution: the rule for the notification's type wins over the
+ * user-wide (ALL) rule. Without a matching rule notifications are sent
+ * one by one.
+ *
+ * Rules are cached per user in Redis and invalidated on every write.
+ */
+@Injectable()
+export class DigestPreferencesService {
+  private readonly logger = new Logger(DigestPreferencesService.name);
+  private readonly CACHE_TTL = 300; // 5 minutes
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+  ) {}
+
+  /**
+   * List a user's digest rules
+   */
+  async findAll(userId: string): Promise<DigestPreferenceResponseDto[]> {
+    return this.prisma.digestPreference.findMany({
+      where: { userId },
+      orderBy: { type: 'asc' },
+    });
+  }
+
+  /**
+   * Create or update the digest rule for a type (or ALL)
+   */
+  async upsert(
+    userId: string,
+    dto: UpsertDigestPreferenceDto,
+  ): Promise<DigestPreferenceResponseDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    const type = dto.type || ALL;
+
+    const preference = await this.prisma.digestPreference.upsert({
+      where: { userId_type: { userId, type } },
+      create: { userId, type, frequency: dto.frequency },
+      update: { frequency: dto.frequency },
+    });
+
+    await this.invalidate(userId);
+
+    this.logger.log(
+      `Digest for ${type} set to ${dto.frequency} for user ${userId}`,
+    );
+
+    return preference;
+  }
+
+  /**
+   * Delete a digest rule, falling back to the user-wide rule if any
+   */
+  async remove(userId: string, preferenceId: string): Promise<void> {
+    const result = await this.prisma.digestPreference.deleteMany({
+      where: { id: preferenceId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException(
+        `Digest preference with ID ${preferenceId} not found`,
+      );
+    }
+
+    await this.invalidate(userId);
+  }
+
+  /**
+   * Digest frequency for a notification type, or null to send immediately
+   */
+  async getFrequency(
+    userId: string,
+    type: string,
+  ): Promise<DigestFrequency | null> {
+    if (!DIGEST_TYPES.includes(type)) {
+      return null;
+    }
+
+    const rules = await this.getRules(userId);
+    const rule =
+      rules.find((r) => r.type === type) ?? rules.find((r) => r.type === ALL);
+
+    return (rule?.frequency as DigestFrequency) ?? null;
+  }
+
+  /**
+   * Load a user's rules, cache-first
+   */
+  private async getRules(userId: string): Promise<DigestRule[]> {
+    const cacheKey = `digest-preferences:${userId}`;
+    const cached = await this.redis.get<DigestRule[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const rules = await this.prisma.digestPreference.findMany({
+      where: { userId },
+      select: { type: true, frequency: true },
+    });
+
+    await this.redis.set(cacheKey, rules, this.CACHE_TTL);
+
+    return rules;
+  }
+
+  private async invalidate(userId: string): Promise<void> {
+    await this.redis.del(`digest-preferences:${userId}`);
+  }
+}
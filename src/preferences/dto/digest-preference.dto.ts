@@ -0,0 +1,33 @@
+import { IsEnum, IsIn, IsOptional } from 'class-validator';
+import { NotificationType } from '../../notification/dto';
+import { ALL } from './upsert-preference.dto';
+
+export enum DigestFrequency {
+  HOURLY = 'HOURLY',
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+}
+
+// Types that can be batched into digests (LOW priority only)
+export const DIGEST_TYPES: string[] = [
+  NotificationType.MARKETING,
+  NotificationType.SYSTEM,
+];
+
+export class UpsertDigestPreferenceDto {
+  @IsIn([...DIGEST_TYPES, ALL])
+  @IsOptional()
+  type?: NotificationType.MARKETING | NotificationType.SYSTEM | typeof ALL;
+
+  @IsEnum(DigestFrequency)
+  frequency!: DigestFrequency;
+}
+
+export class DigestPreferenceResponseDto {
+  id!: string;
+  userId!: string;
+  type!: string;
+  frequency!: string;
+  createdAt!: Date;
+  updatedAt!: Date;
+}
@@ -0,0 +1,50 @@
+import { IsEnum, IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { NotificationChannel, NotificationType } from '../../notification/dto';
+import { ALL } from './upsert-preference.dto';
+
+export enum FrequencyCapPolicy {
+  /** Over-cap notifications are SUPPRESSED */
+  DROP = 'DROP',
+  /** Over-cap notifications are SCHEDULED for when the cap frees up */
+  DEFER = 'DEFER',
+}
+
+export const MAX_FREQUENCY_CAP_WINDOW_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+/**
+ * Cap for a (channel, type) pair; ALL matches every channel or type
+ */
+export class UpsertFrequencyCapDto {
+  @IsIn([...Object.values(NotificationChannel), ALL])
+  @IsOptional()
+  channel?: NotificationChannel | typeof ALL;
+
+  @IsIn([...Object.values(NotificationType), ALL])
+  @IsOptional()
+  type?: NotificationType | typeof ALL;
+
+  @IsInt()
+  @Min(1)
+  maxCount!: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_FREQUENCY_CAP_WINDOW_SECONDS)
+  windowSeconds!: number;
+
+  @IsEnum(FrequencyCapPolicy)
+  @IsOptional()
+  policy?: FrequencyCapPolicy;
+}
+
+export class FrequencyCapResponseDto {
+  id!: string;
+  tenantId!: string;
+  channel!: string;
+  type!: string;
+  maxCount!: number;
+  windowSeconds!: number;
+  policy!: string;
+  createdAt!: Date;
+  updatedAt!: Date;
+}
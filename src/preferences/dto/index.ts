@@ -0,0 +1,4 @@
+export * from './upsert-preference.dto';
+export * from './quiet-hours.dto';
+export * from './digest-preference.dto';
+export * from './frequency-cap.dto';
@@ -0,0 +1,28 @@
+import { IsOptional, IsTimeZone, Matches } from 'class-validator';
+
+const LOCAL_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Quiet-hours window in local time; replaces the current settings
+ * (omitted fields are cleared). The window may cross midnight,
+ * e.g. 22:00 - 07:00.
+ */
+export class QuietHoursDto {
+  @IsTimeZone()
+  @IsOptional()
+  timeZone?: string;
+
+  @Matches(LOCAL_TIME, { message: 'quietHoursStart must be HH:mm' })
+  @IsOptional()
+  quietHoursStart?: string;
+
+  @Matches(LOCAL_TIME, { message: 'quietHoursEnd must be HH:mm' })
+  @IsOptional()
+  quietHoursEnd?: string;
+}
+
+export class QuietHoursResponseDto {
+  timeZone!: string | null;
+  quietHoursStart!: string | null;
+  quietHoursEnd!: string | null;
+}
@@ -0,0 +1,28 @@
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import { NotificationChannel, NotificationType } from '../../notification/dto';
+
+// Wildcard matching every channel or every type
+export const ALL = 'ALL';
+
+export class UpsertPreferenceDto {
+  @IsIn([...Object.values(NotificationChannel), ALL])
+  @IsOptional()
+  channel?: NotificationChannel | typeof ALL;
+
+  @IsIn([...Object.values(NotificationType), ALL])
+  @IsOptional()
+  type?: NotificationType | typeof ALL;
+
+  @IsBoolean()
+  enabled!: boolean;
+}
+
+export class PreferenceResponseDto {
+  id!: string;
+  userId!: string;
+  channel!: string;
+  type!: string;
+  enabled!: boolean;
+  createdAt!: Date;
+  updatedAt!: Date;
+}
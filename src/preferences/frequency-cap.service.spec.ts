@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { FrequencyCapService } from './frequency-cap.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { FrequencyCapPolicy } from './dto';
+
+describe('FrequencyCapService', () => {
+  let service: FrequencyCapService;
+
+  const mockPrismaService = {
+    frequencyCap: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const mockRedisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+    acquireSlidingWindows: jest.fn(),
+  };
+
+  const marketingCap = {
+    id: 'cap-marketing',
+    channel: 'ALL',
+    type: 'MARKETING',
+    maxCount: 3,
+    windowSeconds: 86400,
+    policy: 'DROP',
+  };
+  const smsCap = {
+    id: 'cap-sms',
+    channel: 'SMS',
+    type: 'ALL',
+    maxCount: 1,
+    windowSeconds: 3600,
+    policy: 'DEFER',
+  };
+
+  const target = {
+    id: 'notif-1',
+    userId: 'user-1',
+    tenantId: 'tenant-1',
+    channel: 'SMS',
+    type: 'MARKETING',
+    priority: 'LOW',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRedisService.get.mockResolvedValue(null);
+    mockRedisService.acquireSlidingWindows.mockResolvedValue(null);
+    mockPrismaService.frequencyCap.findMany.mockResolvedValue([
+      marketingCap,
+      smsCap,
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FrequencyCapService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: mockRedisService },
+      ],
+    }).compile();
+
+    service = module.get<FrequencyCapService>(FrequencyCapService);
+  });
+
+  describe('acquire', () => {
+    it('should count the notification against every matching cap', async () => {
+      const now = new Date('2026-01-01T10:00:00Z');
+
+      await expect(service.acquire(target, now)).resolves.toBeNull();
+      expect(mockRedisService.acquireSlidingWindows).toHaveBeenCalledWith(
+        [
+          {
+            key: 'frequency-cap:user-1:cap-marketing',
+            limit: 3,
+            windowMs: 86400000,
+          },
+          { key: 'frequency-cap:user-1:cap-sms', limit: 1, windowMs: 3600000 },
+        ],
+        'notif-1',
+        now.getTime(),
+      );
+    });
+
+    it('should skip caps for other channels and types', async () => {
+      await service.acquire({ ...target, channel: 'EMAIL', type: 'SYSTEM' });
+
+      expect(mockRedisService.acquireSlidingWindows).toHaveBeenCalledWith(
+        [],
+        'notif-1',
+        expect.any(Number),
+      );
+    });
+
+    it('should apply the policy of the cap that is full', async () => {
+      const retryAt = Date.parse('2026-01-01T10:30:00Z');
+      mockRedisService.acquireSlidingWindows.mockResolvedValue({
+        index: 1,
+        retryAt,
+      });
+
+      await expect(service.acquire(target)).resolves.toEqual({
+        policy: FrequencyCapPolicy.DEFER,
+        retryAt: new Date(retryAt),
+        reason: 'Frequency cap exceeded: max 1 SMS/ALL per 3600s',
+      });
+    });
+
+    it('should never cap urgent, alert or tenantless notifications', async () => {
+      await expect(
+        service.acquire({ ...target, priority: 'URGENT' }),
+      ).resolves.toBeNull();
+      await expect(
+        service.acquire({ ...target, type: 'ALERT' }),
+      ).resolves.toBeNull();
+      await expect(
+        service.acquire({ ...target, tenantId: null }),
+      ).resolves.toBeNull();
+      expect(mockRedisService.acquireSlidingWindows).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upsert', () => {
+    it('should default to DROP for all channels and invalidate the cache', async () => {
+      mockPrismaService.frequencyCap.upsert.mockResolvedValue(marketingCap);
+
+      await service.upsert('tenant-1', {
+        type: 'MARKETING',
+        maxCount: 3,
+        windowSeconds: 86400,
+      } as any);
+
+      expect(mockPrismaService.frequencyCap.upsert).toHaveBeenCalledWith({
+        where: {
+          tenantId_channel_type: {
+            tenantId: 'tenant-1',
+            channel: 'ALL',
+            type: 'MARKETING',
+          },
+        },
+        create: {
+          tenantId: 'tenant-1',
+          channel: 'ALL',
+          type: 'MARKETING',
+          maxCount: 3,
+          windowSeconds: 86400,
+          policy: 'DROP',
+        },
+        update: { maxCount: 3, windowSeconds: 86400, policy: 'DROP' },
+      });
+      expect(mockRedisService.del).toHaveBeenCalledWith(
+        'frequency-caps:tenant-1',
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should throw NotFoundException for unknown caps', async () => {
+      mockPrismaService.frequencyCap.deleteMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.remove('tenant-1', 'missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
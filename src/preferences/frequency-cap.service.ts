@@ -0,0 +1,193 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import {
+  NotificationChannel,
+  NotificationPriority,
+  NotificationType,
+} from '../notification/dto';
+import {
+  ALL,
+  FrequencyCapPolicy,
+  FrequencyCapResponseDto,
+  UpsertFrequencyCapDto,
+} from './dto';
+
+type FrequencyCapRule = Pick<
+  FrequencyCapResponseDto,
+  'id' | 'channel' | 'type' | 'maxCount' | 'windowSeconds' | 'policy'
+>;
+
+type FrequencyCapTarget = {
+  id: string;
+  userId: string;
+  tenantId?: string | null;
+  channel: string;
+  type: string;
+  priority: string;
+};
+
+export interface FrequencyCapDecision {
+  policy: FrequencyCapPolicy;
+  retryAt: Date;
+  reason: string;
+}
+
+/**
+ * FrequencyCapService - Per-recipient delivery caps across channels
+ *
+ * Tenants configure caps per (channel, type), with ALL as a wildcard,
+ * e.g. "max 3 MARKETING per 24h" or "max 1 SMS per hour". Unlike
+ * preferences, every matching cap applies, not just the most specific.
+ *
+ * Caps are consumed at dispatch time: acquire() records the notification
+ * in one Redis sliding window per matching cap and user, atomically and
+ * all-or-nothing, so concurrent workers cannot overshoot. The notification
+ * ID is the window member, so redeliveries and retries do not count twice.
+ *
+ * URGENT priority, ALERT type, WEBHOOK and IN_APP notifications are never
+ * capped. Users without a tenant are not capped.
+ */
+@Injectable()
+export class FrequencyCapService {
+  private readonly logger = new Logger(FrequencyCapService.name);
+  private readonly CACHE_TTL = 300; // 5 minutes
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+  ) {}
+
+  /**
+   * List a tenant's caps
+   */
+  async findAll(tenantId: string): Promise<FrequencyCapResponseDto[]> {
+    return this.prisma.frequencyCap.findMany({
+      where: { tenantId },
+      orderBy: [{ channel: 'asc' }, { type: 'asc' }],
+    });
+  }
+
+  /**
+   * Create or update the cap for a (channel, type) pair
+   */
+  async upsert(
+    tenantId: string,
+    dto: UpsertFrequencyCapDto,
+  ): Promise<FrequencyCapResponseDto> {
+    const channel = dto.channel || ALL;
+    const type = dto.type || ALL;
+    const settings = {
+      maxCount: dto.maxCount,
+      windowSeconds: dto.windowSeconds,
+      policy: dto.policy || FrequencyCapPolicy.DROP,
+    };
+
+    const cap = await this.prisma.frequencyCap.upsert({
+      where: { tenantId_channel_type: { tenantId, channel, type } },
+      create: { tenantId, channel, type, ...settings },
+      update: settings,
+    });
+
+    await this.invalidate(tenantId);
+
+    this.logger.log(
+      `Frequency cap ${channel}/${type} set to ${settings.maxCount} per ${settings.windowSeconds}s (${settings.policy}) for tenant ${tenantId}`,
+    );
+
+    return cap;
+  }
+
+  /**
+   * Delete a cap
+   */
+  async remove(tenantId: string, capId: string): Promise<void> {
+    const result = await this.prisma.frequencyCap.deleteMany({
+      where: { id: capId, tenantId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException(`Frequency cap with ID ${capId} not found`);
+    }
+
+    await this.invalidate(tenantId);
+  }
+
+  /**
+   * Count a notification against the recipient's caps
+   * Returns null if it may be sent now, otherwise what to do with it
+   */
+  async acquire(
+    target: FrequencyCapTarget,
+    now: Date = new Date(),
+  ): Promise<FrequencyCapDecision | null> {
+    if (
+      !target.tenantId ||
+      target.priority === NotificationPriority.URGENT ||
+      target.type === NotificationType.ALERT ||
+      target.channel === NotificationChannel.WEBHOOK ||
+      target.channel === NotificationChannel.IN_APP
+    ) {
+      return null;
+    }
+
+    const caps = (await this.getCaps(target.tenantId)).filter(
+      (cap) =>
+        (cap.channel === ALL || cap.channel === target.channel) &&
+        (cap.type === ALL || cap.type === target.type),
+    );
+
+    const blocked = await this.redis.acquireSlidingWindows(
+      caps.map((cap) => ({
+        key: `frequency-cap:${target.userId}:${cap.id}`,
+        limit: cap.maxCount,
+        windowMs: cap.windowSeconds * 1000,
+      })),
+      target.id,
+      now.getTime(),
+    );
+
+    if (!blocked) {
+      return null;
+    }
+
+    const cap = caps[blocked.index];
+
+    return {
+      policy: cap.policy as FrequencyCapPolicy,
+      retryAt: new Date(blocked.retryAt),
+      reason: `Frequency cap exceeded: max ${cap.maxCount} ${cap.channel}/${cap.type} per ${cap.windowSeconds}s`,
+    };
+  }
+
+  /**
+   * Load a tenant's caps, cache-first
+   */
+  private async getCaps(tenantId: string): Promise<FrequencyCapRule[]> {
+    const cacheKey = `frequency-caps:${tenantId}`;
+    const cached = await this.redis.get<FrequencyCapRule[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const caps = await this.prisma.frequencyCap.findMany({
+      where: { tenantId },
+      select: {
+        id: true,
+        channel: true,
+        type: true,
+        maxCount: true,
+        windowSeconds: true,
+        policy: true,
+      },
+    });
+
+    await this.redis.set(cacheKey, caps, this.CACHE_TTL);
+
+    return caps;
+  }
+
+  private async invalidate(tenantId: string): Promise<void> {
+    await this.redis.del(`frequency-caps:${tenantId}`);
+  }
+}
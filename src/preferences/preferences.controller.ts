@@ -0,0 +1,163 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Request,
+  HttpCode,
+  HttpStatus,
+  ForbiddenException,
+  UseGuards,
+} from '@nestjs/common';
+import { PreferencesService } from './preferences.service';
+import { QuietHoursService } from './quiet-hours.service';
+import { DigestPreferencesService } from './digest-preferences.service';
+import {
+  UpsertPreferenceDto,
+  PreferenceResponseDto,
+  QuietHoursDto,
+  QuietHoursResponseDto,
+  UpsertDigestPreferenceDto,
+  DigestPreferenceResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { UserRole } from '../auth/dto/auth-response.dto';
+
+type AuthenticatedRequest = { user: { userId: string; role?: UserRole } };
+
+/**
+ * PreferencesController - Manage a user's notification preferences
+ *
+ * Users can manage their own preferences; admins can manage anyone's
+ */
+@Controller('users/:id/preferences')
+@UseGuards(JwtAuthGuard)
+export class PreferencesController {
+  constructor(
+    private readonly preferencesService: PreferencesService,
+    private readonly quietHoursService: QuietHoursService,
+    private readonly digestPreferencesService: DigestPreferencesService,
+  ) {}
+
+  /**
+   * List preference rules
+   * GET /users/:id/preferences
+   */
+  @Get()
+  async findAll(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') userId: string,
+  ): Promise<PreferenceResponseDto[]> {
+    this.assertCanManage(req, userId);
+    return await this.preferencesService.findAll(userId);
+  }
+
+  /**
+   * Create or update the rule for a channel / type pair
+   * PUT /users/:id/preferences
+   */
+  @Put()
+  async upsert(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') userId: string,
+    @Body() upsertPreferenceDto: UpsertPreferenceDto,
+  ): Promise<PreferenceResponseDto> {
+    this.assertCanManage(req, userId);
+    return await this.preferencesService.upsert(userId, upsertPreferenceDto);
+  }
+
+  /**
+   * Get the user's quiet hours
+   * GET /users/:id/preferences/quiet-hours
+   */
+  @Get('quiet-hours')
+  async getQuietHours(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') userId: string,
+  ): Promise<QuietHoursResponseDto> {
+    this.assertCanManage(req, userId);
+    return await this.quietHoursService.getForUser(userId);
+  }
+
+  /**
+   * Replace the user's quiet hours (overrides the tenant default)
+   * PUT /users/:id/preferences/quiet-hours
+   */
+  @Put('quiet-hours')
+  async updateQuietHours(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') userId: string,
+    @Body() quietHoursDto: QuietHoursDto,
+  ): Promise<QuietHoursResponseDto> {
+    this.assertCanManage(req, userId);
+    return await this.quietHoursService.updateForUser(userId, quietHoursDto);
+  }
+
+  /**
+   * List digest rules
+   * GET /users/:id/preferences/digests
+   */
+  @Get('digests')
+  async findDigests(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') userId: string,
+  ): Promise<DigestPreferenceResponseDto[]> {
+    this.assertCanManage(req, userId);
+    return await this.digestPreferencesService.findAll(userId);
+  }
+
+  /**
+   * Create or update the digest rule for a type (or all digestible types)
+   * PUT /users/:id/preferences/digests
+   */
+  @Put('digests')
+  async upsertDigest(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') userId: string,
+    @Body() upsertDigestPreferenceDto: UpsertDigestPreferenceDto,
+  ): Promise<DigestPreferenceResponseDto> {
+    this.assertCanManage(req, userId);
+    return await this.digestPreferencesService.upsert(
+      userId,
+      upsertDigestPreferenceDto,
+    );
+  }
+
+  /**
+   * Delete a digest rule
+   * DELETE /users/:id/preferences/digests/:digestPreferenceId
+   */
+  @Delete('digests/:digestPreferenceId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeDigest(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') userId: string,
+    @Param('digestPreferenceId') digestPreferenceId: string,
+  ): Promise<void> {
+    this.assertCanManage(req, userId);
+    await this.digestPreferencesService.remove(userId, digestPreferenceId);
+  }
+
+  /**
+   * Delete a preference rule
+   * DELETE /users/:id/preferences/:preferenceId
+   */
+  @Delete(':preferenceId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') userId: string,
+    @Param('preferenceId') preferenceId: string,
+  ): Promise<void> {
+    this.assertCanManage(req, userId);
+    await this.preferencesService.remove(userId, preferenceId);
+  }
+
+  private assertCanManage(req: AuthenticatedRequest, userId: string): void {
+    if (req.user.userId !== userId && req.user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Cannot manage preferences of another user');
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { PreferencesController } from './preferences.controller';
+import { TenantPreferencesController } from './tenant-preferences.controller';
+import { PreferencesService } from './preferences.service';
+import { QuietHoursService } from './quiet-hours.service';
+import { DigestPreferencesService } from './digest-preferences.service';
+import { FrequencyCapService } from './frequency-cap.service';
+
+/**
+ * PreferencesModule - User notification preferences
+ *
+ * Features:
+ * - Per-channel and per-type opt-ins / opt-outs
+ * - Suppression checks for NotificationService and the worker
+ * - User and tenant quiet hours
+ * - Digest frequency (hourly / daily / weekly) per user or per type
+ * - Tenant frequency caps per recipient, channel and type
+ */
+@Module({
+  controllers: [PreferencesController, TenantPreferencesController],
+  providers: [
+    PreferencesService,
+    QuietHoursService,
+    DigestPreferencesService,
+    FrequencyCapService,
+  ],
+  exports: [
+    PreferencesService,
+    QuietHoursService,
+    DigestPreferencesService,
+    FrequencyCapService,
+  ],
+})
+export class PreferencesModule {}
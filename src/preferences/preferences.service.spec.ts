@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { PreferencesService } from './preferences.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+
+describe('PreferencesService', () => {
+  let service: PreferencesService;
+
+  const mockPrismaService = {
+    user: { findUnique: jest.fn() },
+    notificationPreference: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const mockRedisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRedisService.get.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PreferencesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: mockRedisService },
+      ],
+    }).compile();
+
+    service = module.get<PreferencesService>(PreferencesService);
+  });
+
+  describe('isSuppressed', () => {
+    it('should allow notifications without a matching rule', async () => {
+      mockPrismaService.notificationPreference.findMany.mockResolvedValue([]);
+
+      await expect(
+        service.isSuppressed('user-1', 'EMAIL', 'MARKETING'),
+      ).resolves.toBe(false);
+    });
+
+    it('should let the most specific rule win', async () => {
+      mockPrismaService.notificationPreference.findMany.mockResolvedValue([
+        { channel: 'ALL', type: 'ALL', enabled: false },
+        { channel: 'EMAIL', type: 'ALL', enabled: true },
+        { channel: 'EMAIL', type: 'MARKETING', enabled: false },
+      ]);
+
+      await expect(
+        service.isSuppressed('user-1', 'EMAIL', 'MARKETING'),
+      ).resolves.toBe(true);
+      await expect(
+        service.isSuppressed('user-1', 'EMAIL', 'SYSTEM'),
+      ).resolves.toBe(false);
+      await expect(
+        service.isSuppressed('user-1', 'SMS', 'SYSTEM'),
+      ).resolves.toBe(true);
+    });
+
+    it('should never suppress TRANSACTIONAL or ALERT notifications', async () => {
+      mockPrismaService.notificationPreference.findMany.mockResolvedValue([
+        { channel: 'ALL', type: 'ALL', enabled: false },
+      ]);
+
+      await expect(
+        service.isSuppressed('user-1', 'EMAIL', 'TRANSACTIONAL'),
+      ).resolves.toBe(false);
+      await expect(
+        service.isSuppressed('user-1', 'SMS', 'ALERT'),
+      ).resolves.toBe(false);
+    });
+
+    it('should use cached rules when available', async () => {
+      mockRedisService.get.mockResolvedValue([
+        { channel: 'PUSH', type: 'ALL', enabled: false },
+      ]);
+
+      await expect(
+        service.isSuppressed('user-1', 'PUSH', 'MARKETING'),
+      ).resolves.toBe(true);
+      expect(
+        mockPrismaService.notificationPreference.findMany,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upsert', () => {
+    it('should default to the ALL wildcard and invalidate the cache', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'user-1' });
+      mockPrismaService.notificationPreference.upsert.mockResolvedValue({});
+
+      await service.upsert('user-1', { channel: 'SMS' as any, enabled: false });
+
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).toHaveBeenCalledWith({
+        where: {
+          userId_channel_type: {
+            userId: 'user-1',
+            channel: 'SMS',
+            type: 'ALL',
+          },
+        },
+        create: {
+          userId: 'user-1',
+          channel: 'SMS',
+          type: 'ALL',
+          enabled: false,
+        },
+        update: { enabled: false },
+      });
+      expect(mockRedisService.del).toHaveBeenCalledWith('preferences:user-1');
+    });
+
+    it('should throw NotFoundException for unknown users', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.upsert('missing', { enabled: false }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
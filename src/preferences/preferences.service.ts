@@ -0,0 +1,156 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { NotificationType } from '../notification/dto';
+import { ALL, UpsertPreferenceDto, PreferenceResponseDto } from './dto';
+
+// Types users cannot opt out of (password resets, security alerts, ...)
+export const MANDATORY_TYPES: string[] = [
+  NotificationType.TRANSACTIONAL,
+  NotificationType.ALERT,
+];
+
+type PreferenceRule = Pick<
+  PreferenceResponseDto,
+  'channel' | 'type' | 'enabled'
+>;
+
+/**
+ * PreferencesService - User channel / type opt-ins and opt-outs
+ *
+ * Resolution: the most specific rule wins -
+ * (channel, type) > (channel, ALL) > (ALL, type) > (ALL, ALL).
+ * Without a matching rule a notification is allowed.
+ *
+ * Override rule: MANDATORY_TYPES (TRANSACTIONAL, ALERT) are never
+ * suppressed, whatever the user's opt-outs say.
+ *
+ * Rules are cached per user in Redis and invalidated on every write.
+ */
+@Injectable()
+export class PreferencesService {
+  private readonly logger = new Logger(PreferencesService.name);
+  private readonly CACHE_TTL = 300; // 5 minutes
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+  ) {}
+
+  /**
+   * List a user's preference rules
+   */
+  async findAll(userId: string): Promise<PreferenceResponseDto[]> {
+    return this.prisma.notificationPreference.findMany({
+      where: { userId },
+      orderBy: [{ channel: 'asc' }, { type: 'asc' }],
+    });
+  }
+
+  /**
+   * Create or update the rule for a (channel, type) pair
+   */
+  async upsert(
+    userId: string,
+    dto: UpsertPreferenceDto,
+  ): Promise<PreferenceResponseDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    const channel = dto.channel || ALL;
+    const type = dto.type || ALL;
+
+    const preference = await this.prisma.notificationPreference.upsert({
+      where: { userId_channel_type: { userId, channel, type } },
+      create: { userId, channel, type, enabled: dto.enabled },
+      update: { enabled: dto.enabled },
+    });
+
+    await this.invalidate(userId);
+
+    this.logger.log(
+      `Preference ${channel}/${type} set to ${dto.enabled ? 'enabled' : 'disabled'} for user ${userId}`,
+    );
+
+    return preference;
+  }
+
+  /**
+   * Delete a rule, falling back to the next less specific one
+   */
+  async remove(userId: string, preferenceId: string): Promise<void> {
+    const result = await this.prisma.notificationPreference.deleteMany({
+      where: { id: preferenceId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException(
+        `Preference with ID ${preferenceId} not found`,
+      );
+    }
+
+    await this.invalidate(userId);
+  }
+
+  /**
+   * Check whether the user opted out of this channel / type
+   */
+  async isSuppressed(
+    userId: string,
+    channel: string,
+    type: string,
+  ): Promise<boolean> {
+    if (MANDATORY_TYPES.includes(type)) {
+      return false;
+    }
+
+    const rules = await this.getRules(userId);
+    const candidates: Array<[string, string]> = [
+      [channel, type],
+      [channel, ALL],
+      [ALL, type],
+      [ALL, ALL],
+    ];
+
+    for (const [ruleChannel, ruleType] of candidates) {
+      const rule = rules.find(
+        (r) => r.channel === ruleChannel && r.type === ruleType,
+      );
+      if (rule) {
+        return !rule.enabled;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Load a user's rules, cache-first
+   */
+  private async getRules(userId: string): Promise<PreferenceRule[]> {
+    const cacheKey = `preferences:${userId}`;
+    const cached = await this.redis.get<PreferenceRule[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const rules = await this.prisma.notificationPreference.findMany({
+      where: { userId },
+      select: { channel: true, type: true, enabled: true },
+    });
+
+    await this.redis.set(cacheKey, rules, this.CACHE_TTL);
+
+    return rules;
+  }
+
+  private async invalidate(userId: string): Promise<void> {
+    await this.redis.del(`preferences:${userId}`);
+  }
+}
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { QuietHoursService } from './quiet-hours.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+
+describe('QuietHoursService', () => {
+  let service: QuietHoursService;
+
+  const mockPrismaService = {
+    user: { findUnique: jest.fn(), updateMany: jest.fn() },
+    tenant: { findUnique: jest.fn(), upsert: jest.fn() },
+  };
+
+  const mockRedisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+
+  const target = {
+    userId: 'user-1',
+    channel: 'SMS',
+    type: 'MARKETING',
+    priority: 'MEDIUM',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRedisService.get.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuietHoursService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: mockRedisService },
+      ],
+    }).compile();
+
+    service = module.get<QuietHoursService>(QuietHoursService);
+  });
+
+  describe('getWindowEnd', () => {
+    const window = {
+      timeZone: 'America/New_York',
+      start: '22:00',
+      end: '07:00',
+    };
+
+    it('should return the end of a window that crosses midnight', () => {
+      // 03:00:30 in New York (EST, UTC-5)
+      const now = new Date('2026-01-15T08:00:30Z');
+
+      expect(service.getWindowEnd(window, now)).toEqual(
+        new Date('2026-01-15T12:00:00Z'),
+      );
+    });
+
+    it('should return the next morning for late evening', () => {
+      // 23:15 in New York
+      const now = new Date('2026-01-16T04:15:00Z');
+
+      expect(service.getWindowEnd(window, now)).toEqual(
+        new Date('2026-01-16T12:00:00Z'),
+      );
+    });
+
+    it('should return null outside the window', () => {
+      // 12:00 in New York
+      expect(
+        service.getWindowEnd(window, new Date('2026-01-15T17:00:00Z')),
+      ).toBeNull();
+      // 07:00 exactly - the window has ended
+      expect(
+        service.getWindowEnd(window, new Date('2026-01-15T12:00:00Z')),
+      ).toBeNull();
+    });
+  });
+
+  describe('getHoldUntil', () => {
+    const night = new Date('2026-01-15T03:00:00Z');
+
+    it('should fall back to the tenant window and time zone', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        tenantId: 'tenant-1',
+        timeZone: null,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+      });
+      mockPrismaService.tenant.findUnique.mockResolvedValue({
+        timeZone: 'UTC',
+        quietHoursStart: '01:00',
+        quietHoursEnd: '06:30',
+      });
+
+      await expect(service.getHoldUntil(target, night)).resolves.toEqual(
+        new Date('2026-01-15T06:30:00Z'),
+      );
+    });
+
+    it('should prefer the user window over the tenant default', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        tenantId: 'tenant-1',
+        timeZone: 'UTC',
+        quietHoursStart: '09:00',
+        quietHoursEnd: '10:00',
+      });
+      mockPrismaService.tenant.findUnique.mockResolvedValue({
+        timeZone: 'UTC',
+        quietHoursStart: '01:00',
+        quietHoursEnd: '06:30',
+      });
+
+      await expect(service.getHoldUntil(target, night)).resolves.toBeNull();
+    });
+
+    it('should never hold URGENT or ALERT notifications', async () => {
+      await expect(
+        service.getHoldUntil({ ...target, priority: 'URGENT' }, night),
+      ).resolves.toBeNull();
+      await expect(
+        service.getHoldUntil({ ...target, type: 'ALERT' }, night),
+      ).resolves.toBeNull();
+      expect(mockPrismaService.user.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should reject half-defined windows', async () => {
+    await expect(
+      service.updateForUser('user-1', { quietHoursStart: '22:00' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
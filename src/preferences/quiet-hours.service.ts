@@ -0,0 +1,284 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import {
+  NotificationChannel,
+  NotificationPriority,
+  NotificationType,
+} from '../notification/dto';
+import { QuietHoursDto, QuietHoursResponseDto } from './dto';
+
+export interface QuietHoursWindow {
+  timeZone: string;
+  start: string; // local "HH:mm"
+  end: string; // local "HH:mm"
+}
+
+type QuietHoursTarget = {
+  userId: string;
+  channel: string;
+  type: string;
+  priority: string;
+};
+
+type UserQuietHours = QuietHoursResponseDto & { tenantId: string | null };
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * QuietHoursService - Holds non-urgent notifications during a user's
+ * local quiet hours
+ *
+ * Settings come from the user, falling back to the user's tenant: the
+ * time zone and the window resolve independently (UTC if neither has a
+ * time zone). URGENT priority, ALERT type, machine-to-machine WEBHOOK and
+ * silent IN_APP notifications are never held.
+ *
+ * User and tenant settings are cached separately in Redis so a tenant
+ * update takes effect for all its users at once.
+ */
+@Injectable()
+export class QuietHoursService {
+  private readonly logger = new Logger(QuietHoursService.name);
+  private readonly CACHE_TTL = 300; // 5 minutes
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+  ) {}
+
+  /**
+   * Return when the recipient's quiet hours end, or null if the
+   * notification can be sent now
+   */
+  async getHoldUntil(
+    target: QuietHoursTarget,
+    now: Date = new Date(),
+  ): Promise<Date | null> {
+    if (
+      target.priority === NotificationPriority.URGENT ||
+      target.type === NotificationType.ALERT ||
+      target.channel === NotificationChannel.WEBHOOK ||
+      target.channel === NotificationChannel.IN_APP
+    ) {
+      return null;
+    }
+
+    const window = await this.resolveWindow(target.userId);
+
+    return window ? this.getWindowEnd(window, now) : null;
+  }
+
+  /**
+   * End of the quiet-hours window containing `now`, or null if outside it
+   */
+  getWindowEnd(window: QuietHoursWindow, now: Date): Date | null {
+    const start = this.toMinutes(window.start);
+    const end = this.toMinutes(window.end);
+    if (start === end) {
+      return null;
+    }
+
+    const local = this.getLocalMinutes(window.timeZone, now);
+    const inside =
+      start < end
+        ? local >= start && local < end
+        : local >= start || local < end;
+
+    if (!inside) {
+      return null;
+    }
+
+    const minutesLeft = (end - local + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+
+    return new Date(startOfMinute + minutesLeft * 60000);
+  }
+
+  /**
+   * Get a user's own quiet-hours settings
+   */
+  async getForUser(userId: string): Promise<QuietHoursResponseDto> {
+    const { timeZone, quietHoursStart, quietHoursEnd } =
+      await this.loadUser(userId);
+
+    return { timeZone, quietHoursStart, quietHoursEnd };
+  }
+
+  /**
+   * Replace a user's quiet-hours settings
+   */
+  async updateForUser(
+    userId: string,
+    dto: QuietHoursDto,
+  ): Promise<QuietHoursResponseDto> {
+    const data = this.toSettings(dto);
+    const result = await this.prisma.user.updateMany({
+      where: { id: userId },
+      data,
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    await this.redis.del(`quiet-hours:user:${userId}`);
+    this.logger.log(`Quiet hours updated for user ${userId}`);
+
+    return data;
+  }
+
+  /**
+   * Get a tenant's default quiet-hours settings
+   */
+  async getForTenant(tenantId: string): Promise<QuietHoursResponseDto> {
+    return (
+      (await this.loadTenant(tenantId)) ?? {
+        timeZone: null,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+      }
+    );
+  }
+
+  /**
+   * Replace a tenant's default quiet-hours settings
+   */
+  async updateForTenant(
+    tenantId: string,
+    dto: QuietHoursDto,
+  ): Promise<QuietHoursResponseDto> {
+    const data = this.toSettings(dto);
+    await this.prisma.tenant.upsert({
+      where: { id: tenantId },
+      create: { id: tenantId, ...data },
+      update: data,
+    });
+
+    await this.redis.del(`quiet-hours:tenant:${tenantId}`);
+    this.logger.log(`Quiet hours updated for tenant ${tenantId}`);
+
+    return data;
+  }
+
+  /**
+   * Resolve the effective window for a user (user settings, then tenant)
+   */
+  private async resolveWindow(
+    userId: string,
+  ): Promise<QuietHoursWindow | null> {
+    let user: UserQuietHours;
+    try {
+      user = await this.loadUser(userId);
+    } catch {
+      return null;
+    }
+
+    const tenant = user.tenantId ? await this.loadTenant(user.tenantId) : null;
+    const source =
+      user.quietHoursStart && user.quietHoursEnd
+        ? user
+        : tenant?.quietHoursStart && tenant?.quietHoursEnd
+          ? tenant
+          : null;
+
+    if (!source) {
+      return null;
+    }
+
+    return {
+      timeZone: user.timeZone || tenant?.timeZone || 'UTC',
+      start: source.quietHoursStart!,
+      end: source.quietHoursEnd!,
+    };
+  }
+
+  private async loadUser(userId: string): Promise<UserQuietHours> {
+    const cacheKey = `quiet-hours:user:${userId}`;
+    const cached = await this.redis.get<UserQuietHours>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        tenantId: true,
+        timeZone: true,
+        quietHoursStart: true,
+        quietHoursEnd: true,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    await this.redis.set(cacheKey, user, this.CACHE_TTL);
+
+    return user;
+  }
+
+  private async loadTenant(
+    tenantId: string,
+  ): Promise<QuietHoursResponseDto | null> {
+    const cacheKey = `quiet-hours:tenant:${tenantId}`;
+    const cached = await this.redis.get<{
+      settings: QuietHoursResponseDto | null;
+    }>(cacheKey);
+    if (cached) {
+      return cached.settings;
+    }
+
+    const settings = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timeZone: true, quietHoursStart: true, quietHoursEnd: true },
+    });
+
+    // Wrapped so tenants without settings are cached too
+    await this.redis.set(cacheKey, { settings }, this.CACHE_TTL);
+
+    return settings;
+  }
+
+  private toSettings(dto: QuietHoursDto): QuietHoursResponseDto {
+    if (!dto.quietHoursStart !== !dto.quietHoursEnd) {
+      throw new BadRequestException(
+        'quietHoursStart and quietHoursEnd must be set together',
+      );
+    }
+
+    return {
+      timeZone: dto.timeZone ?? null,
+      quietHoursStart: dto.quietHoursStart ?? null,
+      quietHoursEnd: dto.quietHoursEnd ?? null,
+    };
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Minutes since local midnight in the given time zone
+   */
+  private getLocalMinutes(timeZone: string, now: Date): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+
+    const hour = Number(parts.find((p) => p.type === 'hour')?.value);
+    const minute = Number(parts.find((p) => p.type === 'minute')?.value);
+
+    return hour * 60 + minute;
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { QuietHoursService } from './quiet-hours.service';
+import { FrequencyCapService } from './frequency-cap.service';
+import {
+  QuietHoursDto,
+  QuietHoursResponseDto,
+  UpsertFrequencyCapDto,
+  FrequencyCapResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../common/guards/admin.guard';
+
+/**
+ * TenantPreferencesController - Tenant-wide notification defaults
+ *
+ * All endpoints require JWT authentication + ADMIN role
+ */
+@Controller('tenants/:id/preferences')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class TenantPreferencesController {
+  constructor(
+    private readonly quietHoursService: QuietHoursService,
+    private readonly frequencyCapService: FrequencyCapService,
+  ) {}
+
+  /**
+   * Get the tenant's default quiet hours
+   * GET /tenants/:id/preferences/quiet-hours
+   */
+  @Get('quiet-hours')
+  async getQuietHours(
+    @Param('id') tenantId: string,
+  ): Promise<QuietHoursResponseDto> {
+    return await this.quietHoursService.getForTenant(tenantId);
+  }
+
+  /**
+   * Replace the tenant's default quiet hours
+   * PUT /tenants/:id/preferences/quiet-hours
+   */
+  @Put('quiet-hours')
+  async updateQuietHours(
+    @Param('id') tenantId: string,
+    @Body() quietHoursDto: QuietHoursDto,
+  ): Promise<QuietHoursResponseDto> {
+    return await this.quietHoursService.updateForTenant(
+      tenantId,
+      quietHoursDto,
+    );
+  }
+
+  /**
+   * List the tenant's per-recipient frequency caps
+   * GET /tenants/:id/preferences/frequency-caps
+   */
+  @Get('frequency-caps')
+  async findFrequencyCaps(
+    @Param('id') tenantId: string,
+  ): Promise<FrequencyCapResponseDto[]> {
+    return await this.frequencyCapService.findAll(tenantId);
+  }
+
+  /**
+   * Create or update the cap for a channel / type pair
+   * PUT /tenants/:id/preferences/frequency-caps
+   */
+  @Put('frequency-caps')
+  async upsertFrequencyCap(
+    @Param('id') tenantId: string,
+    @Body() upsertFrequencyCapDto: UpsertFrequencyCapDto,
+  ): Promise<FrequencyCapResponseDto> {
+    return await this.frequencyCapService.upsert(
+      tenantId,
+      upsertFrequencyCapDto,
+    );
+  }
+
+  /**
+   * Delete a frequency cap
+   * DELETE /tenants/:id/preferences/frequency-caps/:capId
+   */
+  @Delete('frequency-caps/:capId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeFrequencyCap(
+    @Param('id') tenantId: string,
+    @Param('capId') capId: string,
+  ): Promise<void> {
+    await this.frequencyCapService.remove(tenantId, capId);
+  }
+}
@@ -0,0 +1,28 @@
+export enum NotificationStreamEventType {
+  CREATED = 'notification.created',
+  UPDATED = 'notification.updated',
+}
+
+/**
+ * Notification fields streamed to clients - no payload, which clients can
+ * fetch with GET /notifications/:id
+ */
+export interface NotificationStreamSnapshot {
+  id: string;
+  userId: string;
+  status: string;
+  channel?: string;
+  type?: string;
+  priority?: string;
+  scheduledFor?: Date | null;
+  sentAt?: Date | null;
+  deliveredAt?: Date | null;
+  failedAt?: Date | null;
+  errorMessage?: string | null;
+}
+
+export interface NotificationStreamEvent {
+  type: NotificationStreamEventType;
+  notification: NotificationStreamSnapshot;
+  timestamp: number;
+}
@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter } from 'events';
+import { NotificationEventsService } from './notification-events.service';
+import { RedisService } from '../redis/redis.service';
+import { NotificationStreamEventType } from './dto';
+
+describe('NotificationEventsService', () => {
+  let service: NotificationEventsService;
+
+  const pipeline = {
+    publish: jest.fn(),
+    exec: jest.fn(),
+  };
+
+  // Stands in for the duplicated subscriber connection
+  const subscriber = Object.assign(new EventEmitter(), {
+    subscribe: jest.fn().mockResolvedValue(1),
+    unsubscribe: jest.fn().mockResolvedValue(0),
+    quit: jest.fn(),
+  });
+
+  const client = {
+    pipeline: jest.fn(() => pipeline),
+    duplicate: jest.fn(() => subscriber),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    subscriber.removeAllListeners();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationEventsService,
+        { provide: RedisService, useValue: { getClient: () => client } },
+      ],
+    }).compile();
+
+    service = module.get<NotificationEventsService>(NotificationEventsService);
+  });
+
+  describe('publish', () => {
+    it('should publish a payload-free snapshot to the user channel', async () => {
+      await service.publishUpdated({
+        id: 'notif-1',
+        userId: 'user-1',
+        status: 'SENT',
+        payload: { to: 'user@example.com' },
+      } as any);
+
+      const [channel, message] = pipeline.publish.mock.calls[0];
+      expect(channel).toBe('notifications:stream:user-1');
+      expect(JSON.parse(message)).toMatchObject({
+        type: NotificationStreamEventType.UPDATED,
+        notification: { id: 'notif-1', userId: 'user-1', status: 'SENT' },
+      });
+      expect(JSON.parse(message).notification.payload).toBeUndefined();
+    });
+
+    it('should never throw when Redis is unavailable', async () => {
+      pipeline.exec.mockRejectedValueOnce(new Error('Connection is closed'));
+
+      await expect(
+        service.publishCreated({
+          id: 'notif-1',
+          userId: 'user-1',
+          status: 'PENDING',
+        }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('stream', () => {
+    const event = {
+      type: NotificationStreamEventType.CREATED,
+      notification: { id: 'notif-1', userId: 'user-1', status: 'PENDING' },
+      timestamp: 1,
+    };
+
+    it('should deliver events from Redis to every stream of the user', () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      service.stream('user-1').subscribe(first);
+      service.stream('user-1').subscribe(second);
+
+      subscriber.emit(
+        'message',
+        'notifications:stream:user-1',
+        JSON.stringify(event),
+      );
+      subscriber.emit(
+        'message',
+        'notifications:stream:user-2',
+        JSON.stringify(event),
+      );
+
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+      expect(first).toHaveBeenCalledWith(event);
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it('should unsubscribe when the last stream of a user closes', () => {
+      const first = service.stream('user-1').subscribe();
+      const second = service.stream('user-1').subscribe();
+
+      first.unsubscribe();
+      expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+
+      second.unsubscribe();
+      expect(subscriber.unsubscribe).toHaveBeenCalledWith(
+        'notifications:stream:user-1',
+      );
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import Redis from 'ioredis';
+import { RedisService } from '../redis/redis.service';
+import {
+  NotificationStreamEvent,
+  NotificationStreamEventType,
+  NotificationStreamSnapshot,
+} from './dto';
+
+const SNAPSHOT_FIELDS: Array<keyof NotificationStreamSnapshot> = [
+  'id',
+  'userId',
+  'status',
+  'channel',
+  'type',
+  'priority',
+  'scheduledFor',
+  'sentAt',
+  'deliveredAt',
+  'failedAt',
+  'errorMessage',
+];
+
+/**
+ * NotificationEventsService - Cross-instance notification event fan-out
+ *
+ * Any instance publishes notification creations and status changes to the
+ * Redis channel notifications:stream:<userId>. Each API node holds one
+ * subscriber connection and subscribes only to users with an open stream,
+ * releasing the channel when their last stream closes.
+ *
+ * Publishing is best effort: a Redis failure is logged and never fails
+ * the notification itself.
+ */
+@Injectable()
+export class NotificationEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(NotificationEventsService.name);
+  private readonly CHANNEL_PREFIX = 'notifications:stream:';
+  private subscriber: Redis | null = null;
+  private readonly streams = new Map<
+    string,
+    Subject<NotificationStreamEvent>
+  >();
+  private readonly listeners = new Map<string, number>();
+
+  constructor(private readonly redis: RedisService) {}
+
+  /**
+   * Announce a newly created notification
+   */
+  async publishCreated(
+    notification: NotificationStreamSnapshot,
+  ): Promise<void> {
+    await this.publishMany(NotificationStreamEventType.CREATED, [notification]);
+  }
+
+  /**
+   * Announce newly created notifications in one round trip
+   */
+  async publishCreatedMany(
+    notifications: NotificationStreamSnapshot[],
+  ): Promise<void> {
+    await this.publishMany(NotificationStreamEventType.CREATED, notifications);
+  }
+
+  /**
+   * Announce a status change
+   */
+  async publishUpdated(
+    notification: NotificationStreamSnapshot,
+  ): Promise<void> {
+    await this.publishMany(NotificationStreamEventType.UPDATED, [notification]);
+  }
+
+  /**
+   * Events for one user, from every instance, until unsubscribed
+   */
+  stream(userId: string): Observable<NotificationStreamEvent> {
+    return new Observable<NotificationStreamEvent>((observer) => {
+      const subscription = this.acquire(userId).subscribe(observer);
+
+      return () => {
+        subscription.unsubscribe();
+        this.release(userId);
+      };
+    });
+  }
+
+  async onModuleDestroy() {
+    this.streams.forEach((stream) => stream.complete());
+    await this.subscriber?.quit();
+  }
+
+  private async publishMany(
+    type: NotificationStreamEventType,
+    notifications: NotificationStreamSnapshot[],
+  ): Promise<void> {
+    if (notifications.length === 0) {
+      return;
+    }
+
+    try {
+      const pipeline = this.redis.getClient().pipeline();
+      for (const notification of notifications) {
+        const event: NotificationStreamEvent = {
+          type,
+          notification: this.toSnapshot(notification),
+          timestamp: Date.now(),
+        };
+        pipeline.publish(
+          this.channel(notification.userId),
+          JSON.stringify(event),
+        );
+      }
+      await pipeline.exec();
+    } catch (error) {
+      this.logger.warn(
+        `Failed to publish ${notifications.length} ${type} event(s): ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private acquire(userId: string): Subject<NotificationStreamEvent> {
+    let stream = this.streams.get(userId);
+    if (!stream) {
+      stream = new Subject<NotificationStreamEvent>();
+      this.streams.set(userId, stream);
+      this.getSubscriber()
+        .subscribe(this.channel(userId))
+        .catch((error) =>
+          this.logger.error(`Failed to subscribe for user ${userId}:`, error),
+        );
+    }
+
+    this.listeners.set(userId, (this.listeners.get(userId) ?? 0) + 1);
+
+    return stream;
+  }
+
+  private release(userId: string): void {
+    const remaining = (this.listeners.get(userId) ?? 1) - 1;
+    if (remaining > 0) {
+      this.listeners.set(userId, remaining);
+      return;
+    }
+
+    this.listeners.delete(userId);
+    this.streams.get(userId)?.complete();
+    this.streams.delete(userId);
+    this.getSubscriber()
+      .unsubscribe(this.channel(userId))
+      .catch((error) =>
+        this.logger.error(`Failed to unsubscribe for user ${userId}:`, error),
+      );
+  }
+
+  /**
+   * Dedicated connection - a subscribed Redis connection cannot run other
+   * commands
+   */
+  private getSubscriber(): Redis {
+    if (!this.subscriber) {
+      this.subscriber = this.redis.getClient().duplicate();
+      this.subscriber.on('message', (channel: string, message: string) =>
+        this.dispatch(channel, message),
+      );
+    }
+
+    return this.subscriber;
+  }
+
+  private dispatch(channel: string, message: string): void {
+    const stream = this.streams.get(channel.slice(this.CHANNEL_PREFIX.length));
+    if (!stream) {
+      return;
+    }
+
+    try {
+      stream.next(JSON.parse(message));
+    } catch (error) {
+      this.logger.warn(`Dropping malformed event on ${channel}: ${error}`);
+    }
+  }
+
+  private channel(userId: string): string {
+    return `${this.CHANNEL_PREFIX}${userId}`;
+  }
+
+  private toSnapshot(
+    notification: NotificationStreamSnapshot,
+  ): NotificationStreamSnapshot {
+    const snapshot: Record<string, unknown> = {};
+    for (const field of SNAPSHOT_FIELDS) {
+      if (notification[field] !== undefined) {
+        snapshot[field] = notification[field];
+      }
+    }
+    return snapshot as unknown as NotificationStreamSnapshot;
+  }
+}
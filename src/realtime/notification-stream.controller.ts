@@ -0,0 +1,49 @@
+import {
+  Controller,
+  MessageEvent,
+  Request,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import { Observable, interval, map, merge } from 'rxjs';
+import { NotificationEventsService } from './notification-events.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * NotificationStreamController - Server-Sent Events for the caller's
+ * notifications
+ *
+ * Requires JWT authentication. Browsers' EventSource cannot set headers,
+ * so this endpoint also accepts the token as ?access_token=.
+ */
+@Controller('me/notifications')
+@UseGuards(JwtAuthGuard)
+export class NotificationStreamController {
+  constructor(private readonly events: NotificationEventsService) {}
+
+  /**
+   * Stream notification.created / notification.updated events
+   * GET /me/notifications/stream
+   */
+  @Sse('stream')
+  stream(
+    @Request() req: { user: { userId: string } },
+  ): Observable<MessageEvent> {
+    const events = this.events.stream(req.user.userId).pipe(
+      map((event) => ({
+        id: `${event.notification.id}:${event.timestamp}`,
+        type: event.type,
+        data: event,
+      })),
+    );
+
+    // Keeps proxies and load balancers from closing idle connections
+    const heartbeat = interval(HEARTBEAT_INTERVAL_MS).pipe(
+      map(() => ({ type: 'heartbeat', data: { timestamp: Date.now() } })),
+    );
+
+    return merge(events, heartbeat);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { NotificationEventsService } from './notification-events.service';
+import { NotificationStreamController } from './notification-stream.controller';
+
+/**
+ * RealtimeModule - Live notification updates for connected clients
+ *
+ * Features:
+ * - SSE stream of the caller's notification events
+ * - Cross-instance fan-out over Redis pub/sub
+ */
+@Module({
+  controllers: [NotificationStreamController],
+  providers: [NotificationEventsService],
+  exports: [NotificationEventsService],
+})
+export class RealtimeModule {}
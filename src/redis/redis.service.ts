@@ -42,6 +42,28 @@ export class RedisService implements OnModuleDestroy {
     return this.client.set(key, serialized);
   }
 
+  async mget<T>(keys: string[]): Promise<(T | null)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    const values = await this.client.mget(...keys);
+    return values.map((value) => (value ? JSON.parse(value) : null));
+  }
+
+  async setMany(
+    entries: Array<[string, unknown]>,
+    ttlSeconds: number,
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    const pipeline = this.client.pipeline();
+    for (const [key, value] of entries) {
+      pipeline.setex(key, ttlSeconds, JSON.stringify(value));
+    }
+    await pipeline.exec();
+  }
+
   async del(key: string): Promise<number> {
     return this.client.del(key);
   }
@@ -58,6 +80,62 @@ export class RedisService implements OnModuleDestroy {
     return this.client.incr(key);
   }
 
+  /**
+   * Atomically adjust a counter only if it is already cached
+   * Returns the new value, or null if the key does not exist
+   */
+  async incrByIfExists(key: string, delta: number): Promise<number | null> {
+    const result = await this.client.eval(
+      "if redis.call('EXISTS', KEYS[1]) == 1 then return redis.call('INCRBY', KEYS[1], ARGV[1]) end return nil",
+      1,
+      key,
+      delta,
+    );
+    return result === null ? null : Number(result);
+  }
+
+  /**
+   * Atomically record `member` in several sliding windows (sorted sets),
+   * all or nothing. A member already in a window does not count twice.
+   * Returns null if recorded, otherwise the index of the first full window
+   * and when its oldest entry expires (ms)
+   */
+  async acquireSlidingWindows(
+    windows: Array<{ key: string; limit: number; windowMs: number }>,
+    member: string,
+    now: number = Date.now(),
+  ): Promise<{ index: number; retryAt: number } | null> {
+    if (windows.length === 0) {
+      return null;
+    }
+
+    const [blocked, retryAt] = (await this.client.eval(
+      `local now = tonumber(ARGV[1])
+      for i = 1, #KEYS do
+        local limit = tonumber(ARGV[i * 2 + 1])
+        local window = tonumber(ARGV[i * 2 + 2])
+        redis.call('ZREMRANGEBYSCORE', KEYS[i], '-inf', now - window)
+        if not redis.call('ZSCORE', KEYS[i], ARGV[2])
+          and redis.call('ZCARD', KEYS[i]) >= limit then
+          local oldest = redis.call('ZRANGE', KEYS[i], 0, 0, 'WITHSCORES')
+          return {i, tonumber(oldest[2]) + window}
+        end
+      end
+      for i = 1, #KEYS do
+        redis.call('ZADD', KEYS[i], 'NX', now, ARGV[2])
+        redis.call('PEXPIRE', KEYS[i], ARGV[i * 2 + 2])
+      end
+      return {0, 0}`,
+      windows.length,
+      ...windows.map((w) => w.key),
+      now,
+      member,
+      ...windows.flatMap((w) => [w.limit, w.windowMs]),
+    )) as [number, number];
+
+    return blocked === 0 ? null : { index: blocked - 1, retryAt };
+  }
+
   async expire(key: string, seconds: number): Promise<number> {
     return this.client.expire(key, seconds);
   }
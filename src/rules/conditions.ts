@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import { evaluateJsonPath } from './json-path';
+import { RuleConditionDto, RuleOperator } from './dto';
+
+const COMPARISONS = [
+  RuleOperator.GT,
+  RuleOperator.GTE,
+  RuleOperator.LT,
+  RuleOperator.LTE,
+];
+
+/**
+ * First condition `data` does not satisfy, with the value found at its
+ * path, or null if all hold
+ */
+export function findFailedCondition(
+  conditions: RuleConditionDto[],
+  data: unknown,
+): { condition: RuleConditionDto; actual: unknown } | null {
+  for (const condition of conditions) {
+    const actual = evaluateJsonPath(data, condition.path);
+    if (!conditionHolds(condition, actual)) {
+      return { condition, actual };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reject condition values their operator can never match
+ */
+export function validateConditions(conditions: RuleConditionDto[]): void {
+  for (const { path, operator, value } of conditions) {
+    if (
+      COMPARISONS.includes(operator) &&
+      typeof value !== 'number' &&
+      typeof value !== 'string'
+    ) {
+      throw new BadRequestException(
+        `Condition on ${path}: ${operator} needs a number or string value`,
+      );
+    }
+    if (operator === RuleOperator.IN && !Array.isArray(value)) {
+      throw new BadRequestException(
+        `Condition on ${path}: in needs an array value`,
+      );
+    }
+    if (operator === RuleOperator.EXISTS && typeof value === 'object') {
+      throw new BadRequestException(
+        `Condition on ${path}: exists takes true, false or no value`,
+      );
+    }
+  }
+}
+
+function conditionHolds(condition: RuleConditionDto, actual: unknown): boolean {
+  const { operator, value } = condition;
+
+  switch (operator) {
+    case RuleOperator.EQ:
+      return isEqual(actual, value);
+    case RuleOperator.NEQ:
+      return !isEqual(actual, value);
+    case RuleOperator.GT:
+    case RuleOperator.GTE:
+    case RuleOperator.LT:
+    case RuleOperator.LTE: {
+      // Numbers with numbers, strings (e.g. ISO dates) with strings
+      if (
+        typeof actual !== typeof value ||
+        (typeof actual !== 'number' && typeof actual !== 'string')
+      ) {
+        return false;
+      }
+      const a = actual as number | string;
+      const b = value as number | string;
+      if (operator === RuleOperator.GT) return a > b;
+      if (operator === RuleOperator.GTE) return a >= b;
+      if (operator === RuleOperator.LT) return a < b;
+      return a <= b;
+    }
+    case RuleOperator.IN:
+      return Array.isArray(value) && value.some((v) => isEqual(actual, v));
+    case RuleOperator.CONTAINS:
+      if (typeof actual === 'string') {
+        return typeof value === 'string' && actual.includes(value);
+      }
+      return Array.isArray(actual) && actual.some((v) => isEqual(v, value));
+    case RuleOperator.EXISTS:
+      return (actual !== undefined) === (value !== false);
+  }
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,232 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsBoolean,
+  IsOptional,
+  IsObject,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  Matches,
+  Min,
+  Max,
+  Allow,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  NotificationChannel,
+  NotificationType,
+  NotificationPriority,
+} from '../../notification/dto';
+import { EVENT_TYPE_PATTERN } from '../../events/dto';
+import { JSON_PATH_PATTERN } from '../json-path';
+
+export enum RuleOperator {
+  EQ = 'eq',
+  NEQ = 'neq',
+  GT = 'gt',
+  GTE = 'gte',
+  LT = 'lt',
+  LTE = 'lte',
+  /** value is an array of allowed values */
+  IN = 'in',
+  /** String contains value, or array contains an element equal to value */
+  CONTAINS = 'contains',
+  /** Path is present (value true or omitted) or absent (value false) */
+  EXISTS = 'exists',
+}
+
+export const MAX_RULE_CONDITIONS = 20;
+export const MAX_RULE_DELAY_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+// Channels whose recipient address can be resolved from the user record
+export const RULE_CHANNELS = [
+  NotificationChannel.EMAIL,
+  NotificationChannel.SMS,
+  NotificationChannel.PUSH,
+  NotificationChannel.IN_APP,
+];
+
+const JSON_PATH_MESSAGE =
+  'must be a JSONPath such as $.order.total or $.items[0].sku';
+
+export class RuleConditionDto {
+  @Matches(JSON_PATH_PATTERN, { message: `path ${JSON_PATH_MESSAGE}` })
+  path!: string;
+
+  @IsEnum(RuleOperator)
+  operator!: RuleOperator;
+
+  @Allow()
+  value?: unknown;
+}
+
+export class CreateNotificationRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  name!: string;
+
+  @Matches(EVENT_TYPE_PATTERN, {
+    message: 'eventType must be a valid event type, e.g. "order.completed"',
+  })
+  eventType!: string;
+
+  /**
+   * All conditions must hold (AND)
+   */
+  @IsArray()
+  @ArrayMaxSize(MAX_RULE_CONDITIONS)
+  @ValidateNested({ each: true })
+  @Type(() => RuleConditionDto)
+  @IsOptional()
+  conditions?: RuleConditionDto[];
+
+  /**
+   * Template key, rendered with the event payload as templateData
+   */
+  @IsString()
+  @IsNotEmpty()
+  template!: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(RULE_CHANNELS, { each: true })
+  channels!: NotificationChannel[];
+
+  @IsEnum(NotificationType)
+  @IsOptional()
+  type?: NotificationType;
+
+  @IsEnum(NotificationPriority)
+  @IsOptional()
+  priority?: NotificationPriority;
+
+  /**
+   * Send this long after the event occurred
+   */
+  @IsInt()
+  @Min(0)
+  @Max(MAX_RULE_DELAY_SECONDS)
+  @IsOptional()
+  delaySeconds?: number;
+
+  /**
+   * JSONPath to the recipient's user ID in the payload, e.g. $.sellerId.
+   * Defaults to the event's user
+   */
+  @Matches(JSON_PATH_PATTERN, { message: `recipientPath ${JSON_PATH_MESSAGE}` })
+  @IsOptional()
+  recipientPath?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+}
+
+export class UpdateNotificationRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsArray()
+  @ArrayMaxSize(MAX_RULE_CONDITIONS)
+  @ValidateNested({ each: true })
+  @Type(() => RuleConditionDto)
+  @IsOptional()
+  conditions?: RuleConditionDto[];
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  template?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(RULE_CHANNELS, { each: true })
+  @IsOptional()
+  channels?: NotificationChannel[];
+
+  @IsEnum(NotificationType)
+  @IsOptional()
+  type?: NotificationType;
+
+  @IsEnum(NotificationPriority)
+  @IsOptional()
+  priority?: NotificationPriority;
+
+  @IsInt()
+  @Min(0)
+  @Max(MAX_RULE_DELAY_SECONDS)
+  @IsOptional()
+  delaySeconds?: number;
+
+  @Matches(JSON_PATH_PATTERN, { message: `recipientPath ${JSON_PATH_MESSAGE}` })
+  @IsOptional()
+  recipientPath?: string | null;
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+}
+
+export class NotificationRuleResponseDto {
+  id!: string;
+  tenantId!: string;
+  name!: string;
+  eventType!: string;
+  conditions!: RuleConditionDto[];
+  template!: string;
+  channels!: string[];
+  type!: string;
+  priority!: string;
+  delaySeconds!: number;
+  recipientPath?: string;
+  enabled!: boolean;
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+/**
+ * Sample event for the dry-run evaluator
+ */
+export class DryRunRulesDto {
+  @Matches(EVENT_TYPE_PATTERN, {
+    message: 'type must be a valid event type, e.g. "order.completed"',
+  })
+  type!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  userId?: string;
+
+  @Allow()
+  @IsObject()
+  @IsOptional()
+  payload?: Record<string, any>;
+}
+
+/**
+ * Notifications a matching rule creates for an event
+ */
+export class RuleActionDto {
+  recipientId!: string;
+  channels!: string[];
+  template!: string;
+  type!: string;
+  priority!: string;
+  scheduledFor?: Date;
+}
+
+export class RuleEvaluationDto {
+  ruleId!: string;
+  name!: string;
+  matched!: boolean;
+  reason?: string; // why the rule did not fire
+  action?: RuleActionDto;
+}
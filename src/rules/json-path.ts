@@ -0,0 +1,33 @@
+/**
+ * Minimal JSONPath for rule conditions: `$` followed by `.key`, `['key']`
+ * or `[index]` segments, e.g. `$.order.items[0].sku`. No wildcards,
+ * filters or recursive descent - a path selects at most one value.
+ */
+export const JSON_PATH_PATTERN =
+  /^\$(?:\.[A-Za-z_][A-Za-z0-9_-]*|\[\d+\]|\['[^']*'\])*$/;
+
+const SEGMENT = /\.([A-Za-z_][A-Za-z0-9_-]*)|\[(\d+)\]|\['([^']*)'\]/g;
+
+/**
+ * Value at `path` in `data`, or undefined if any segment is missing
+ */
+export function evaluateJsonPath(data: unknown, path: string): unknown {
+  if (!JSON_PATH_PATTERN.test(path)) {
+    throw new Error(`Invalid JSONPath: ${path}`);
+  }
+
+  let current: unknown = data;
+  for (const [, key, index, quoted] of path.slice(1).matchAll(SEGMENT)) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+
+    if (index !== undefined) {
+      current = Array.isArray(current) ? current[Number(index)] : undefined;
+    } else {
+      current = (current as Record<string, unknown>)[key ?? quoted];
+    }
+  }
+
+  return current;
+}
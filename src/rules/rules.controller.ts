@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { RulesService } from './rules.service';
+import {
+  CreateNotificationRuleDto,
+  UpdateNotificationRuleDto,
+  NotificationRuleResponseDto,
+  DryRunRulesDto,
+  RuleEvaluationDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../common/guards/admin.guard';
+
+/**
+ * RulesController - Tenant event routing rules
+ *
+ * All endpoints require JWT authentication + ADMIN role
+ */
+@Controller('tenants/:id/rules')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class RulesController {
+  constructor(private readonly rulesService: RulesService) {}
+
+  /**
+   * List the tenant's rules
+   * GET /tenants/:id/rules
+   */
+  @Get()
+  async findAll(
+    @Param('id') tenantId: string,
+  ): Promise<NotificationRuleResponseDto[]> {
+    return await this.rulesService.findAll(tenantId);
+  }
+
+  /**
+   * Create a rule
+   * POST /tenants/:id/rules
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @Param('id') tenantId: string,
+    @Body() createRuleDto: CreateNotificationRuleDto,
+  ): Promise<NotificationRuleResponseDto> {
+    return await this.rulesService.create(tenantId, createRuleDto);
+  }
+
+  /**
+   * Evaluate the tenant's rules against a sample event
+   * POST /tenants/:id/rules/dry-run
+   */
+  @Post('dry-run')
+  @HttpCode(HttpStatus.OK)
+  async dryRun(
+    @Param('id') tenantId: string,
+    @Body() dryRunDto: DryRunRulesDto,
+  ): Promise<RuleEvaluationDto[]> {
+    return await this.rulesService.dryRun(tenantId, dryRunDto);
+  }
+
+  /**
+   * Get a rule
+   * GET /tenants/:id/rules/:ruleId
+   */
+  @Get(':ruleId')
+  async findOne(
+    @Param('id') tenantId: string,
+    @Param('ruleId') ruleId: string,
+  ): Promise<NotificationRuleResponseDto> {
+    return await this.rulesService.findOne(tenantId, ruleId);
+  }
+
+  /**
+   * Update a rule
+   * PATCH /tenants/:id/rules/:ruleId
+   */
+  @Patch(':ruleId')
+  async update(
+    @Param('id') tenantId: string,
+    @Param('ruleId') ruleId: string,
+    @Body() updateRuleDto: UpdateNotificationRuleDto,
+  ): Promise<NotificationRuleResponseDto> {
+    return await this.rulesService.update(tenantId, ruleId, updateRuleDto);
+  }
+
+  /**
+   * Delete a rule
+   * DELETE /tenants/:id/rules/:ruleId
+   */
+  @Delete(':ruleId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('id') tenantId: string,
+    @Param('ruleId') ruleId: string,
+  ): Promise<void> {
+    await this.rulesService.remove(tenantId, ruleId);
+  }
+}
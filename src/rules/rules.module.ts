@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { RulesController } from './rules.controller';
+import { RulesService } from './rules.service';
+
+/**
+ * RulesModule - Declarative event -> notification routing
+ *
+ * Features:
+ * - Tenant-scoped rules matching an event type and JSONPath conditions
+ * - Actions with template, channels, priority, delay and recipient
+ * - Dry-run evaluation against sample events
+ * - Hot reload across instances via Redis pub/sub
+ */
+@Module({
+  controllers: [RulesController],
+  providers: [RulesService],
+  exports: [RulesService],
+})
+export class RulesModule {}
@@ -0,0 +1,300 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EventEmitter } from 'events';
+import { NotificationRule } from '@prisma/client';
+import { RulesService } from './rules.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { RuleOperator } from './dto';
+import { evaluateJsonPath } from './json-path';
+
+describe('RulesService', () => {
+  let service: RulesService;
+
+  const mockPrismaService = {
+    notificationRule: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  // Stands in for the duplicated subscriber connection
+  const subscriber = Object.assign(new EventEmitter(), {
+    subscribe: jest.fn().mockResolvedValue(1),
+    quit: jest.fn(),
+  });
+
+  const client = {
+    publish: jest.fn(),
+    duplicate: jest.fn(() => subscriber),
+  };
+
+  const buildRule = (
+    overrides: Partial<NotificationRule> = {},
+  ): NotificationRule => ({
+    id: 'rule-1',
+    tenantId: 'tenant-1',
+    name: 'Large orders',
+    eventType: 'order.completed',
+    conditions: [],
+    template: 'order.large',
+    channels: ['EMAIL'],
+    type: 'TRANSACTIONAL',
+    priority: 'MEDIUM',
+    delaySeconds: 0,
+    recipientPath: null,
+    enabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    subscriber.removeAllListeners();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RulesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: { getClient: () => client } },
+      ],
+    }).compile();
+
+    service = module.get<RulesService>(RulesService);
+    await service.onModuleInit();
+  });
+
+  describe('evaluateJsonPath', () => {
+    const data = { order: { total: 120, items: [{ sku: 'A-1' }] } };
+
+    it('should resolve keys, indexes and quoted keys', () => {
+      expect(evaluateJsonPath(data, '$.order.total')).toBe(120);
+      expect(evaluateJsonPath(data, '$.order.items[0].sku')).toBe('A-1');
+      expect(evaluateJsonPath(data, "$['order']['total']")).toBe(120);
+      expect(evaluateJsonPath(data, '$')).toBe(data);
+    });
+
+    it('should return undefined for missing segments', () => {
+      expect(evaluateJsonPath(data, '$.order.items[3].sku')).toBeUndefined();
+      expect(evaluateJsonPath(data, '$.order.total.amount')).toBeUndefined();
+    });
+
+    it('should reject unsupported paths', () => {
+      expect(() => evaluateJsonPath(data, '$..sku')).toThrow();
+    });
+  });
+
+  describe('evaluate', () => {
+    const event = {
+      userId: 'user-1',
+      payload: {
+        total: 120,
+        currency: 'EUR',
+        tags: ['vip'],
+        sellerId: 'seller-1',
+      },
+      createdAt: new Date('2026-01-01T10:00:00.000Z'),
+    };
+
+    it.each([
+      [RuleOperator.EQ, '$.currency', 'EUR', true],
+      [RuleOperator.NEQ, '$.currency', 'EUR', false],
+      [RuleOperator.GTE, '$.total', 100, true],
+      [RuleOperator.LT, '$.total', 100, false],
+      [RuleOperator.GT, '$.total', '100', false],
+      [RuleOperator.IN, '$.currency', ['USD', 'EUR'], true],
+      [RuleOperator.CONTAINS, '$.tags', 'vip', true],
+      [RuleOperator.CONTAINS, '$.currency', 'U', true],
+      [RuleOperator.EXISTS, '$.coupon', undefined, false],
+      [RuleOperator.EXISTS, '$.coupon', false, true],
+    ])(
+      '%s on %s with %j should match: %s',
+      (operator, path, value, matched) => {
+        const rule = buildRule({
+          conditions: [{ path, operator, value }] as any,
+        });
+
+        expect(service.evaluate(rule, event).matched).toBe(matched);
+      },
+    );
+
+    it('should explain which condition failed', () => {
+      const rule = buildRule({
+        conditions: [
+          { path: '$.currency', operator: 'eq', value: 'EUR' },
+          { path: '$.total', operator: 'gte', value: 500 },
+        ],
+      });
+
+      expect(service.evaluate(rule, event)).toEqual({
+        ruleId: 'rule-1',
+        name: 'Large orders',
+        matched: false,
+        reason: 'Condition $.total gte 500 not met (actual: 120)',
+      });
+    });
+
+    it('should resolve the recipient and delay of a matching rule', () => {
+      const rule = buildRule({
+        recipientPath: '$.sellerId',
+        delaySeconds: 3600,
+        channels: ['EMAIL', 'PUSH'],
+        priority: 'HIGH',
+      });
+
+      expect(service.evaluate(rule, event).action).toEqual({
+        recipientId: 'seller-1',
+        channels: ['EMAIL', 'PUSH'],
+        template: 'order.large',
+        type: 'TRANSACTIONAL',
+        priority: 'HIGH',
+        scheduledFor: new Date('2026-01-01T11:00:00.000Z'),
+      });
+    });
+
+    it('should not match when the recipient path has no user ID', () => {
+      const rule = buildRule({ recipientPath: '$.buyerId' });
+
+      expect(service.evaluate(rule, event)).toMatchObject({
+        matched: false,
+        reason: 'No recipient user ID at $.buyerId',
+      });
+    });
+  });
+
+  describe('dryRun', () => {
+    it('should report every rule for the event type, including disabled ones', async () => {
+      mockPrismaService.notificationRule.findMany.mockResolvedValue([
+        buildRule(),
+        buildRule({ id: 'rule-2', name: 'Paused', enabled: false }),
+      ]);
+
+      const results = await service.dryRun('tenant-1', {
+        type: 'order.completed',
+        userId: 'user-1',
+        payload: { total: 10 },
+      });
+
+      expect(mockPrismaService.notificationRule.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { tenantId: 'tenant-1', eventType: 'order.completed' },
+        }),
+      );
+      expect(results).toEqual([
+        expect.objectContaining({ ruleId: 'rule-1', matched: true }),
+        {
+          ruleId: 'rule-2',
+          name: 'Paused',
+          matched: false,
+          reason: 'Rule is disabled',
+        },
+      ]);
+      expect(mockPrismaService.notificationRule.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRules', () => {
+    it('should cache enabled rules per tenant', async () => {
+      mockPrismaService.notificationRule.findMany.mockResolvedValue([
+        buildRule(),
+        buildRule({ id: 'rule-2', enabled: false }),
+        buildRule({ id: 'rule-3', eventType: 'order.refunded' }),
+      ]);
+
+      const rules = await service.getRules('tenant-1', 'order.completed');
+      await service.getRules('tenant-1', 'order.refunded');
+
+      expect(rules.map((rule) => rule.id)).toEqual(['rule-1']);
+      expect(mockPrismaService.notificationRule.findMany).toHaveBeenCalledTimes(
+        1,
+      );
+    });
+
+    it('should reload after another instance announces a change', async () => {
+      mockPrismaService.notificationRule.findMany.mockResolvedValue([]);
+      await service.getRules('tenant-1', 'order.completed');
+
+      subscriber.emit('message', 'notification-rules:changed', 'tenant-1');
+      await service.getRules('tenant-1', 'order.completed');
+
+      expect(subscriber.subscribe).toHaveBeenCalledWith(
+        'notification-rules:changed',
+      );
+      expect(mockPrismaService.notificationRule.findMany).toHaveBeenCalledTimes(
+        2,
+      );
+    });
+  });
+
+  describe('create', () => {
+    const dto = {
+      name: 'Large orders',
+      eventType: 'order.completed',
+      template: 'order.large',
+      channels: ['EMAIL'] as any,
+    };
+
+    it('should create the rule and announce the change', async () => {
+      mockPrismaService.notificationRule.create.mockResolvedValue(buildRule());
+
+      await service.create('tenant-1', {
+        ...dto,
+        conditions: [
+          { path: '$.total', operator: RuleOperator.GTE, value: 100 },
+        ],
+      });
+
+      expect(mockPrismaService.notificationRule.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          tenantId: 'tenant-1',
+          eventType: 'order.completed',
+          conditions: [{ path: '$.total', operator: 'gte', value: 100 }],
+        }),
+      });
+      expect(client.publish).toHaveBeenCalledWith(
+        'notification-rules:changed',
+        'tenant-1',
+      );
+    });
+
+    it('should still succeed when the change cannot be announced', async () => {
+      mockPrismaService.notificationRule.create.mockResolvedValue(buildRule());
+      client.publish.mockRejectedValueOnce(new Error('Connection is closed'));
+
+      await expect(service.create('tenant-1', dto)).resolves.toMatchObject({
+        id: 'rule-1',
+      });
+    });
+
+    it.each([
+      [RuleOperator.IN, 'EUR'],
+      [RuleOperator.GT, { amount: 1 }],
+      [RuleOperator.EXISTS, []],
+    ])('should reject %s with value %j', async (operator, value) => {
+      await expect(
+        service.create('tenant-1', {
+          ...dto,
+          conditions: [{ path: '$.total', operator, value }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.notificationRule.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it("should throw NotFoundException for another tenant's rule", async () => {
+      mockPrismaService.notificationRule.deleteMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.remove('tenant-2', 'rule-1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(client.publish).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { NotificationRule, Prisma } from '@prisma/client';
+import Redis from 'ioredis';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { evaluateJsonPath } from './json-path';
+import { findFailedCondition, validateConditions } from './conditions';
+import {
+  CreateNotificationRuleDto,
+  UpdateNotificationRuleDto,
+  NotificationRuleResponseDto,
+  DryRunRulesDto,
+  RuleActionDto,
+  RuleConditionDto,
+  RuleEvaluationDto,
+} from './dto';
+
+// The parts of an event rules are evaluated against
+export interface RuleEventInput {
+  userId: string;
+  payload: unknown;
+  createdAt?: Date;
+}
+
+/**
+ * RulesService - Tenant-scoped event -> notification routing rules
+ *
+ * A rule matches events of one type whose payload satisfies all of its
+ * JSONPath conditions, and describes the notifications to create: template,
+ * channels, type, priority, delay and recipient. EventProcessorService
+ * applies them; evaluate() is shared with the dry-run endpoint so both
+ * always agree.
+ *
+ * Hot reload: each instance keeps a tenant's rules in memory. Writes
+ * broadcast the tenant ID on a Redis channel and every instance drops its
+ * copy; CACHE_TTL_MS bounds staleness if a message is missed.
+ */
+@Injectable()
+export class RulesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RulesService.name);
+  private readonly CHANNEL = 'notification-rules:changed';
+  private readonly CACHE_TTL_MS = 60000;
+  private readonly cache = new Map<
+    string,
+    { rules: NotificationRule[]; loadedAt: number }
+  >();
+  private subscriber: Redis | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+  ) {}
+
+  /**
+   * Subscribe to rule changes from other instances
+   * Dedicated connection - a subscribed Redis connection cannot run other
+   * commands
+   */
+  async onModuleInit() {
+    this.subscriber = this.redis.getClient().duplicate();
+    this.subscriber.on('message', (_channel: string, tenantId: string) =>
+      this.cache.delete(tenantId),
+    );
+
+    try {
+      await this.subscriber.subscribe(this.CHANNEL);
+    } catch (error) {
+      this.logger.error('Failed to subscribe to rule changes:', error);
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.subscriber?.quit();
+  }
+
+  /**
+   * List a tenant's rules
+   */
+  async findAll(tenantId: string): Promise<NotificationRuleResponseDto[]> {
+    const rules = await this.prisma.notificationRule.findMany({
+      where: { tenantId },
+      orderBy: [{ eventType: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return rules.map((rule) => this.mapToResponseDto(rule));
+  }
+
+  /**
+   * Get one rule
+   */
+  async findOne(
+    tenantId: string,
+    ruleId: string,
+  ): Promise<NotificationRuleResponseDto> {
+    return this.mapToResponseDto(await this.findExisting(tenantId, ruleId));
+  }
+
+  /**
+   * Create a rule
+   */
+  async create(
+    tenantId: string,
+    dto: CreateNotificationRuleDto,
+  ): Promise<NotificationRuleResponseDto> {
+    validateConditions(dto.conditions ?? []);
+
+    const rule = await this.prisma.notificationRule.create({
+      data: {
+        tenantId,
+        name: dto.name,
+        eventType: dto.eventType,
+        conditions: (dto.conditions ?? []) as unknown as Prisma.InputJsonValue,
+        template: dto.template,
+        channels: dto.channels,
+        type: dto.type,
+        priority: dto.priority,
+        delaySeconds: dto.delaySeconds,
+        recipientPath: dto.recipientPath,
+        enabled: dto.enabled,
+      },
+    });
+
+    await this.invalidate(tenantId);
+
+    this.logger.log(
+      `Rule ${rule.id} created for ${rule.eventType} in tenant ${tenantId}`,
+    );
+
+    return this.mapToResponseDto(rule);
+  }
+
+  /**
+   * Update a rule; the event type cannot change
+   */
+  async update(
+    tenantId: string,
+    ruleId: string,
+    dto: UpdateNotificationRuleDto,
+  ): Promise<NotificationRuleResponseDto> {
+    await this.findExisting(tenantId, ruleId);
+    if (dto.conditions) {
+      validateConditions(dto.conditions);
+    }
+
+    const rule = await this.prisma.notificationRule.update({
+      where: { id: ruleId },
+      data: {
+        ...dto,
+        conditions: dto.conditions as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    await this.invalidate(tenantId);
+
+    return this.mapToResponseDto(rule);
+  }
+
+  /**
+   * Delete a rule
+   */
+  async remove(tenantId: string, ruleId: string): Promise<void> {
+    const result = await this.prisma.notificationRule.deleteMany({
+      where: { id: ruleId, tenantId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException(`Rule with ID ${ruleId} not found`);
+    }
+
+    await this.invalidate(tenantId);
+  }
+
+  /**
+   * Enabled rules for an event type, from the in-memory cache
+   */
+  async getRules(
+    tenantId: string,
+    eventType: string,
+  ): Promise<NotificationRule[]> {
+    const rules = await this.loadTenantRules(tenantId);
+    return rules.filter((rule) => rule.enabled && rule.eventType === eventType);
+  }
+
+  /**
+   * Whether a rule fires for an event, and the notifications it creates
+   */
+  evaluate(rule: NotificationRule, event: RuleEventInput): RuleEvaluationDto {
+    const result = { ruleId: rule.id, name: rule.name };
+
+    if (!rule.enabled) {
+      return { ...result, matched: false, reason: 'Rule is disabled' };
+    }
+
+    const failed = findFailedCondition(this.getConditions(rule), event.payload);
+    if (failed) {
+      const { condition, actual } = failed;
+      return {
+        ...result,
+        matched: false,
+        reason: `Condition ${condition.path} ${condition.operator} ${JSON.stringify(condition.value)} not met (actual: ${JSON.stringify(actual)})`,
+      };
+    }
+
+    const recipientId = rule.recipientPath
+      ? evaluateJsonPath(event.payload, rule.recipientPath)
+      : event.userId;
+    if (typeof recipientId !== 'string' || recipientId === '') {
+      return {
+        ...result,
+        matched: false,
+        reason: `No recipient user ID at ${rule.recipientPath}`,
+      };
+    }
+
+    const action: RuleActionDto = {
+      recipientId,
+      channels: rule.channels,
+      template: rule.template,
+      type: rule.type,
+      priority: rule.priority,
+    };
+    if (rule.delaySeconds > 0) {
+      const occurredAt = event.createdAt?.getTime() ?? Date.now();
+      action.scheduledFor = new Date(occurredAt + rule.delaySeconds * 1000);
+    }
+
+    return { ...result, matched: true, action };
+  }
+
+  /**
+   * Evaluate every rule for a sample event's type without creating anything
+   * Disabled rules are included and reported as not matching
+   */
+  async dryRun(
+    tenantId: string,
+    dto: DryRunRulesDto,
+  ): Promise<RuleEvaluationDto[]> {
+    const rules = await this.prisma.notificationRule.findMany({
+      where: { tenantId, eventType: dto.type },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return rules.map((rule) =>
+      this.evaluate(rule, {
+        userId: dto.userId ?? '',
+        payload: dto.payload ?? {},
+      }),
+    );
+  }
+
+  private getConditions(rule: NotificationRule): RuleConditionDto[] {
+    return Array.isArray(rule.conditions)
+      ? (rule.conditions as unknown as RuleConditionDto[])
+      : [];
+  }
+
+  private async loadTenantRules(tenantId: string): Promise<NotificationRule[]> {
+    const cached = this.cache.get(tenantId);
+    if (cached && Date.now() - cached.loadedAt < this.CACHE_TTL_MS) {
+      return cached.rules;
+    }
+
+    const rules = await this.prisma.notificationRule.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'asc' },
+    });
+    this.cache.set(tenantId, { rules, loadedAt: Date.now() });
+
+    return rules;
+  }
+
+  /**
+   * Drop the tenant's rules here and on every other instance
+   */
+  private async invalidate(tenantId: string): Promise<void> {
+    this.cache.delete(tenantId);
+
+    try {
+      await this.redis.getClient().publish(this.CHANNEL, tenantId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to broadcast rule change for tenant ${tenantId}, other instances reload within ${this.CACHE_TTL_MS}ms: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async findExisting(
+    tenantId: string,
+    ruleId: string,
+  ): Promise<NotificationRule> {
+    const rule = await this.prisma.notificationRule.findFirst({
+      where: { id: ruleId, tenantId },
+    });
+
+    if (!rule) {
+      throw new NotFoundException(`Rule with ID ${ruleId} not found`);
+    }
+
+    return rule;
+  }
+
+  private mapToResponseDto(
+    rule: NotificationRule,
+  ): NotificationRuleResponseDto {
+    return {
+      id: rule.id,
+      tenantId: rule.tenantId,
+      name: rule.name,
+      eventType: rule.eventType,
+      conditions: this.getConditions(rule),
+      template: rule.template,
+      channels: rule.channels,
+      type: rule.type,
+      priority: rule.priority,
+      delaySeconds: rule.delaySeconds,
+      recipientPath: rule.recipientPath ?? undefined,
+      enabled: rule.enabled,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
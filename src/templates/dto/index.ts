@@ -0,0 +1,2 @@
+export * from './template-content.dto';
+export * from './template.dto';
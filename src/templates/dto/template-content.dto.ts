@@ -0,0 +1,28 @@
+export enum TemplateVersionStatus {
+  DRAFT = 'DRAFT',
+  PUBLISHED = 'PUBLISHED',
+}
+
+/**
+ * One locale variant of a channel's content. Which fields are used depends
+ * on the channel:
+ * - EMAIL: subject, text (plain-text body) and optional html
+ * - SMS: body
+ * - PUSH and IN_APP: title and body
+ */
+export interface TemplateChannelContent {
+  subject?: string;
+  html?: string;
+  text?: string;
+  title?: string;
+  body?: string;
+}
+
+/**
+ * Content of a template version: channel -> locale -> variant
+ * e.g. { EMAIL: { en: { subject, text, html }, fr: { ... } }, SMS: { en: { body } } }
+ */
+export type TemplateContent = Record<
+  string,
+  Record<string, TemplateChannelContent>
+>;
@@ -0,0 +1,166 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsObject,
+  IsIn,
+  IsInt,
+  IsBoolean,
+  Matches,
+  Min,
+} from 'class-validator';
+import { NotificationChannel, NotificationType } from '../../notification/dto';
+import { TemplateContent, TemplateVersionStatus } from './template-content.dto';
+
+export const TEMPLATE_CATEGORIES = [
+  NotificationType.TRANSACTIONAL,
+  NotificationType.MARKETING,
+  NotificationType.SYSTEM,
+];
+
+export class CreateTemplateDto {
+  /**
+   * Referenced by payload.template, e.g. "order-shipped"
+   */
+  @IsString()
+  @Matches(/^[a-z0-9][a-z0-9._-]*$/, {
+    message:
+      'key must be lowercase letters, digits, ".", "_" or "-" and start with a letter or digit',
+  })
+  key!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name!: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsIn(TEMPLATE_CATEGORIES)
+  @IsOptional()
+  category?: NotificationType;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  defaultLocale?: string;
+
+  /**
+   * channel -> locale -> { subject, html, text, title, body }
+   */
+  @IsObject()
+  content!: TemplateContent;
+}
+
+export class UpdateTemplateDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsIn(TEMPLATE_CATEGORIES)
+  @IsOptional()
+  category?: NotificationType;
+}
+
+/**
+ * Create or update the draft; a new draft without content starts from the
+ * latest version
+ */
+export class UpdateTemplateDraftDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  defaultLocale?: string;
+
+  @IsObject()
+  @IsOptional()
+  content?: TemplateContent;
+}
+
+export class PublishTemplateDto {
+  /**
+   * Also index the published content in Qdrant for RAG retrieval
+   */
+  @IsBoolean()
+  @IsOptional()
+  syncToVectorDb?: boolean;
+}
+
+export class RollbackTemplateDto {
+  @IsInt()
+  @Min(1)
+  version!: number;
+}
+
+export class PreviewTemplateDto {
+  /**
+   * Sample templateData
+   */
+  @IsObject()
+  @IsOptional()
+  data?: Record<string, unknown>;
+
+  @IsString()
+  @IsOptional()
+  locale?: string;
+
+  /**
+   * Version to preview (default: the draft, else the published version)
+   */
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  version?: number;
+}
+
+export class TemplateResponseDto {
+  id!: string;
+  key!: string;
+  name!: string;
+  description?: string;
+  category?: string;
+  publishedVersion?: number;
+  draftVersion?: number;
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export class TemplateDiffEntryDto {
+  path!: string; // e.g. "EMAIL.fr.subject"
+  change!: 'added' | 'removed' | 'changed';
+  from?: string;
+  to?: string;
+}
+
+export class TemplateVersionResponseDto {
+  version!: number;
+  status!: TemplateVersionStatus;
+  defaultLocale!: string;
+  content!: TemplateContent;
+  createdBy?: string;
+  publishedAt?: Date;
+  createdAt!: Date;
+  isPublished!: boolean; // currently rendered for new notifications
+  diff!: TemplateDiffEntryDto[]; // changes from the previous version
+}
+
+export class TemplateChannelPreviewDto {
+  channel!: NotificationChannel;
+  locale?: string;
+  content?: Record<string, string>;
+  missingVariables!: string[];
+  errors!: string[];
+}
+
+export class TemplatePreviewResponseDto {
+  key!: string;
+  version!: number;
+  status!: TemplateVersionStatus;
+  channels!: TemplateChannelPreviewDto[];
+}
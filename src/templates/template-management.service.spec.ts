@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { TemplateManagementService } from './template-management.service';
+import { TemplatesService } from './templates.service';
+import { TemplateRendererService } from './template-renderer.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { QdrantService } from '../vector-db/services/qdrant.service';
+import { EmbeddingService } from '../vector-db/services/embedding.service';
+
+describe('TemplateManagementService', () => {
+  let service: TemplateManagementService;
+
+  const mockPrismaService: Record<string, any> = {
+    template: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    templateVersion: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn((fn) => fn(mockPrismaService)),
+  };
+
+  const mockRedisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+
+  const mockQdrantService = { upsertTemplate: jest.fn() };
+  const mockEmbeddingService = {
+    generateEmbedding: jest.fn().mockResolvedValue({ embedding: [0.1, 0.2] }),
+  };
+
+  const template = {
+    id: 'tpl-1',
+    key: 'order-shipped',
+    name: 'Order shipped',
+    description: null,
+    category: 'TRANSACTIONAL',
+    publishedVersion: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const buildVersion = (overrides: Record<string, unknown> = {}) => ({
+    id: 'ver-1',
+    templateId: 'tpl-1',
+    version: 1,
+    status: 'PUBLISHED',
+    defaultLocale: 'en',
+    content: {
+      EMAIL: { en: { subject: 'Order {{id}}', text: 'Shipped {{id}}' } },
+    },
+    createdBy: null,
+    publishedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.template.findUnique.mockResolvedValue(template);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TemplateManagementService,
+        TemplatesService,
+        TemplateRendererService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: mockRedisService },
+        { provide: QdrantService, useValue: mockQdrantService },
+        { provide: EmbeddingService, useValue: mockEmbeddingService },
+      ],
+    }).compile();
+
+    service = module.get<TemplateManagementService>(TemplateManagementService);
+  });
+
+  describe('create', () => {
+    it('should reject unsupported channels and fields', async () => {
+      await expect(
+        service.create({
+          key: 'welcome',
+          name: 'Welcome',
+          content: { WEBHOOK: { en: { body: 'x' } } } as any,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.create({
+          key: 'welcome',
+          name: 'Welcome',
+          content: { SMS: { en: { message: 'x' } } } as any,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject duplicate keys', async () => {
+      await expect(
+        service.create({
+          key: 'order-shipped',
+          name: 'Order shipped',
+          content: { SMS: { en: { body: 'x' } } },
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('publish', () => {
+    const draft = buildVersion({ id: 'ver-2', version: 2, status: 'DRAFT' });
+
+    beforeEach(() => {
+      mockPrismaService.templateVersion.findFirst.mockResolvedValue(draft);
+      mockPrismaService.templateVersion.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockPrismaService.templateVersion.findMany.mockResolvedValue([
+        buildVersion(),
+        { ...draft, status: 'PUBLISHED' },
+      ]);
+    });
+
+    it('should freeze the draft, make it live and invalidate the cache', async () => {
+      const published = await service.publish('tpl-1');
+
+      expect(mockPrismaService.templateVersion.updateMany).toHaveBeenCalledWith(
+        {
+          where: { id: 'ver-2', status: 'DRAFT' },
+          data: { status: 'PUBLISHED', publishedAt: expect.any(Date) },
+        },
+      );
+      expect(mockPrismaService.template.update).toHaveBeenCalledWith({
+        where: { id: 'tpl-1' },
+        data: { publishedVersion: 2 },
+      });
+      expect(mockRedisService.del).toHaveBeenCalledWith(
+        'template:order-shipped',
+      );
+      expect(published.version).toBe(2);
+      expect(mockQdrantService.upsertTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should index each channel and locale in Qdrant when asked to', async () => {
+      await service.publish('tpl-1', { syncToVectorDb: true });
+
+      expect(mockQdrantService.upsertTemplate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: expect.stringMatching(
+            /^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+          ),
+          channel: 'email',
+          category: 'transactional',
+          language: 'en',
+          content: 'Shipped {{id}}',
+        }),
+        [0.1, 0.2],
+        { version: 2 },
+      );
+    });
+
+    it('should refuse incomplete drafts', async () => {
+      mockPrismaService.templateVersion.findFirst.mockResolvedValue(
+        buildVersion({
+          status: 'DRAFT',
+          content: { EMAIL: { fr: { subject: 'Commande' } } },
+        }),
+      );
+
+      await expect(service.publish('tpl-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(
+        mockPrismaService.templateVersion.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should detect a concurrent publish', async () => {
+      mockPrismaService.templateVersion.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.publish('tpl-1')).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('rollback', () => {
+    it('should only roll back to published versions', async () => {
+      mockPrismaService.templateVersion.findUnique.mockResolvedValue({
+        status: 'DRAFT',
+      });
+      await expect(service.rollback('tpl-1', { version: 3 })).rejects.toThrow(
+        BadRequestException,
+      );
+
+      mockPrismaService.templateVersion.findUnique.mockResolvedValue(null);
+      await expect(service.rollback('tpl-1', { version: 9 })).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.template.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findVersions', () => {
+    it('should diff each version against the previous one', async () => {
+      mockPrismaService.templateVersion.findMany.mockResolvedValue([
+        buildVersion(),
+        buildVersion({
+          version: 2,
+          status: 'DRAFT',
+          content: {
+            EMAIL: {
+              en: { subject: 'Your order {{id}}', text: 'Shipped {{id}}' },
+            },
+            SMS: { en: { body: 'Shipped {{id}}' } },
+          },
+        }),
+      ]);
+
+      const [draft, first] = await service.findVersions('tpl-1');
+
+      expect(first).toMatchObject({ version: 1, isPublished: true });
+      expect(draft.diff).toEqual([
+        {
+          path: 'EMAIL.en.subject',
+          change: 'changed',
+          from: 'Order {{id}}',
+          to: 'Your order {{id}}',
+        },
+        { path: 'SMS.en.body', change: 'added', to: 'Shipped {{id}}' },
+      ]);
+    });
+  });
+
+  describe('preview', () => {
+    it('should render every channel and report missing variables', async () => {
+      mockPrismaService.templateVersion.findFirst.mockResolvedValue(
+        buildVersion({
+          version: 2,
+          status: 'DRAFT',
+          content: {
+            EMAIL: { en: { subject: 'Order {{id}}', text: 'Hi {{name}}' } },
+            PUSH: { en: { title: 'Order {{id}}' } },
+          },
+        }),
+      );
+
+      const preview = await service.preview('tpl-1', { data: { id: 7 } });
+
+      expect(preview).toMatchObject({ version: 2, status: 'DRAFT' });
+      expect(preview.channels).toEqual([
+        {
+          channel: 'EMAIL',
+          locale: 'en',
+          content: { subject: 'Order 7', text: 'Hi ' },
+          missingVariables: ['name'],
+          errors: [],
+        },
+        {
+          channel: 'PUSH',
+          locale: 'en',
+          content: { title: 'Order 7' },
+          missingVariables: [],
+          errors: ['Missing body'],
+        },
+      ]);
+    });
+  });
+});
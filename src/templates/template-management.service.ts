@@ -0,0 +1,616 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Template, TemplateVersion } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { QdrantService } from '../vector-db/services/qdrant.service';
+import { EmbeddingService } from '../vector-db/services/embedding.service';
+import { NotificationTemplate } from '../vector-db/interfaces/vector.interface';
+import { NotificationChannel } from '../notification/dto';
+import { TemplatesService, TemplateSnapshot } from './templates.service';
+import {
+  CreateTemplateDto,
+  UpdateTemplateDto,
+  UpdateTemplateDraftDto,
+  PublishTemplateDto,
+  RollbackTemplateDto,
+  PreviewTemplateDto,
+  TemplateResponseDto,
+  TemplateVersionResponseDto,
+  TemplateDiffEntryDto,
+  TemplatePreviewResponseDto,
+  TemplateChannelContent,
+  TemplateContent,
+  TemplateVersionStatus,
+} from './dto';
+
+export const TEMPLATE_CHANNELS = [
+  NotificationChannel.EMAIL,
+  NotificationChannel.SMS,
+  NotificationChannel.PUSH,
+  NotificationChannel.IN_APP,
+];
+
+const TEMPLATE_FIELDS: Array<keyof TemplateChannelContent> = [
+  'subject',
+  'html',
+  'text',
+  'title',
+  'body',
+];
+
+/**
+ * TemplateManagementService - Authoring lifecycle for notification templates
+ *
+ * Lifecycle:
+ * - Each template has at most one DRAFT version, edited in place
+ * - Publishing freezes the draft as an immutable PUBLISHED version and
+ *   points Template.publishedVersion at it
+ * - Rollback re-points publishedVersion at an earlier published version
+ *
+ * Publishing can also index the content in Qdrant (one point per channel
+ * and locale) so RAG retrieval sees curated templates alongside mined ones.
+ */
+@Injectable()
+export class TemplateManagementService {
+  private readonly logger = new Logger(TemplateManagementService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly templates: TemplatesService,
+    private readonly qdrant: QdrantService,
+    private readonly embedding: EmbeddingService,
+  ) {}
+
+  /**
+   * Create a template with its first draft
+   */
+  async create(
+    dto: CreateTemplateDto,
+    createdBy?: string,
+  ): Promise<TemplateResponseDto> {
+    this.validateContent(dto.content);
+
+    const existing = await this.prisma.template.findUnique({
+      where: { key: dto.key },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `Template with key ${dto.key} already exists`,
+      );
+    }
+
+    const template = await this.prisma.template.create({
+      data: {
+        key: dto.key,
+        name: dto.name,
+        description: dto.description,
+        category: dto.category,
+        versions: {
+          create: {
+            version: 1,
+            status: TemplateVersionStatus.DRAFT,
+            defaultLocale: dto.defaultLocale,
+            content: dto.content as any, // Prisma stores JSON
+            createdBy,
+          },
+        },
+      },
+    });
+
+    this.logger.log(`Template ${template.key} created (${template.id})`);
+
+    return this.mapToResponseDto(template, 1);
+  }
+
+  /**
+   * List templates
+   */
+  async findAll(): Promise<TemplateResponseDto[]> {
+    const templates = await this.prisma.template.findMany({
+      orderBy: { key: 'asc' },
+      include: this.draftInclude(),
+    });
+
+    return templates.map((t) =>
+      this.mapToResponseDto(t, t.versions[0]?.version),
+    );
+  }
+
+  /**
+   * Get a template
+   */
+  async findOne(id: string): Promise<TemplateResponseDto> {
+    const template = await this.prisma.template.findUnique({
+      where: { id },
+      include: this.draftInclude(),
+    });
+
+    if (!template) {
+      throw new NotFoundException(`Template with ID ${id} not found`);
+    }
+
+    return this.mapToResponseDto(template, template.versions[0]?.version);
+  }
+
+  /**
+   * Update name, description or category
+   */
+  async update(
+    id: string,
+    dto: UpdateTemplateDto,
+  ): Promise<TemplateResponseDto> {
+    await this.loadTemplate(id);
+
+    await this.prisma.template.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        description: dto.description,
+        category: dto.category,
+      },
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Edit the draft, creating one from the latest version if there is none
+   */
+  async updateDraft(
+    id: string,
+    dto: UpdateTemplateDraftDto,
+    createdBy?: string,
+  ): Promise<TemplateVersionResponseDto> {
+    const template = await this.loadTemplate(id);
+    if (dto.content) {
+      this.validateContent(dto.content);
+    }
+
+    const draft = await this.prisma.templateVersion.findFirst({
+      where: { templateId: id, status: TemplateVersionStatus.DRAFT },
+    });
+
+    if (draft) {
+      // Guarded so a concurrent publish cannot be overwritten
+      const result = await this.prisma.templateVersion.updateMany({
+        where: { id: draft.id, status: TemplateVersionStatus.DRAFT },
+        data: {
+          defaultLocale: dto.defaultLocale,
+          content: dto.content as any, // Prisma stores JSON
+        },
+      });
+
+      if (result.count === 0) {
+        throw new ConflictException(
+          `Version ${draft.version} of template ${template.key} was published concurrently`,
+        );
+      }
+    } else {
+      const latest = await this.prisma.templateVersion.findFirst({
+        where: { templateId: id },
+        orderBy: { version: 'desc' },
+      });
+
+      // @@unique([templateId, version]) rejects concurrent new drafts
+      await this.prisma.templateVersion.create({
+        data: {
+          templateId: id,
+          version: (latest?.version ?? 0) + 1,
+          status: TemplateVersionStatus.DRAFT,
+          defaultLocale: dto.defaultLocale ?? latest?.defaultLocale,
+          content: (dto.content ?? latest?.content ?? {}) as any,
+          createdBy,
+        },
+      });
+    }
+
+    const versions = await this.findVersions(id);
+    return versions.find((v) => v.status === TemplateVersionStatus.DRAFT)!;
+  }
+
+  /**
+   * Publish the draft as an immutable version and make it live
+   */
+  async publish(
+    id: string,
+    dto: PublishTemplateDto = {},
+  ): Promise<TemplateVersionResponseDto> {
+    const template = await this.loadTemplate(id);
+    const draft = await this.prisma.templateVersion.findFirst({
+      where: { templateId: id, status: TemplateVersionStatus.DRAFT },
+    });
+
+    if (!draft) {
+      throw new BadRequestException(
+        `Template ${template.key} has no draft to publish`,
+      );
+    }
+
+    this.validateContent(draft.content as unknown as TemplateContent, {
+      defaultLocale: draft.defaultLocale,
+    });
+
+    await this.prisma.$transaction(async (tx) => {
+      const result = await tx.templateVersion.updateMany({
+        where: { id: draft.id, status: TemplateVersionStatus.DRAFT },
+        data: {
+          status: TemplateVersionStatus.PUBLISHED,
+          publishedAt: new Date(),
+        },
+      });
+
+      if (result.count === 0) {
+        throw new ConflictException(
+          `Version ${draft.version} of template ${template.key} is already published`,
+        );
+      }
+
+      await tx.template.update({
+        where: { id },
+        data: { publishedVersion: draft.version },
+      });
+    });
+
+    await this.templates.invalidate(template.key);
+    this.logger.log(`Template ${template.key} v${draft.version} published`);
+
+    if (dto.syncToVectorDb) {
+      await this.syncToVectorDb(template, draft);
+    }
+
+    const versions = await this.findVersions(id);
+    return versions.find((v) => v.version === draft.version)!;
+  }
+
+  /**
+   * Make an earlier published version live again
+   */
+  async rollback(
+    id: string,
+    dto: RollbackTemplateDto,
+  ): Promise<TemplateResponseDto> {
+    const template = await this.loadTemplate(id);
+    const target = await this.prisma.templateVersion.findUnique({
+      where: { templateId_version: { templateId: id, version: dto.version } },
+      select: { status: true },
+    });
+
+    if (!target) {
+      throw new NotFoundException(
+        `Version ${dto.version} of template ${template.key} not found`,
+      );
+    }
+
+    if (target.status !== TemplateVersionStatus.PUBLISHED) {
+      throw new BadRequestException(
+        `Version ${dto.version} of template ${template.key} was never published`,
+      );
+    }
+
+    await this.prisma.template.update({
+      where: { id },
+      data: { publishedVersion: dto.version },
+    });
+
+    await this.templates.invalidate(template.key);
+    this.logger.log(
+      `Template ${template.key} rolled back from v${template.publishedVersion} to v${dto.version}`,
+    );
+
+    return this.findOne(id);
+  }
+
+  /**
+   * List versions, newest first, each with its diff from the previous one
+   */
+  async findVersions(id: string): Promise<TemplateVersionResponseDto[]> {
+    const template = await this.loadTemplate(id);
+    const versions = await this.prisma.templateVersion.findMany({
+      where: { templateId: id },
+      orderBy: { version: 'asc' },
+    });
+
+    return versions
+      .map((version, i) =>
+        this.mapToVersionDto(template, version, versions[i - 1]),
+      )
+      .reverse();
+  }
+
+  /**
+   * Render a version for every channel against sample data
+   */
+  async preview(
+    id: string,
+    dto: PreviewTemplateDto,
+  ): Promise<TemplatePreviewResponseDto> {
+    const template = await this.loadTemplate(id);
+    const version = await this.prisma.templateVersion.findFirst({
+      where: {
+        templateId: id,
+        ...(dto.version
+          ? { version: dto.version }
+          : {
+              OR: [
+                { status: TemplateVersionStatus.DRAFT },
+                { version: template.publishedVersion ?? -1 },
+              ],
+            }),
+      },
+      // The draft is always the highest version
+      orderBy: { version: 'desc' },
+    });
+
+    if (!version) {
+      throw new NotFoundException(
+        dto.version
+          ? `Version ${dto.version} of template ${template.key} not found`
+          : `Template ${template.key} has no draft or published version`,
+      );
+    }
+
+    const snapshot: TemplateSnapshot = {
+      key: template.key,
+      version: version.version,
+      defaultLocale: version.defaultLocale,
+      content: version.content as unknown as TemplateContent,
+    };
+
+    return {
+      key: template.key,
+      version: version.version,
+      status: version.status as TemplateVersionStatus,
+      channels: Object.keys(snapshot.content).map((channel) =>
+        this.templates.previewVersion(
+          snapshot,
+          channel as NotificationChannel,
+          dto.data ?? {},
+          dto.locale,
+        ),
+      ),
+    };
+  }
+
+  /**
+   * Check the shape of template content; when publishing, also require a
+   * complete default-locale variant for every channel
+   */
+  private validateContent(
+    content: TemplateContent,
+    publish?: { defaultLocale: string },
+  ): void {
+    const errors: string[] = [];
+    const channels = Object.keys(content ?? {});
+
+    if (channels.length === 0) {
+      errors.push('content must define at least one channel');
+    }
+
+    for (const channel of channels) {
+      if (!TEMPLATE_CHANNELS.includes(channel as NotificationChannel)) {
+        errors.push(`Unsupported template channel ${channel}`);
+        continue;
+      }
+
+      const variants = content[channel];
+      if (!variants || typeof variants !== 'object') {
+        errors.push(`${channel} must map locales to content`);
+        continue;
+      }
+
+      for (const [locale, variant] of Object.entries(variants)) {
+        if (!variant || typeof variant !== 'object') {
+          errors.push(`${channel}.${locale} must be an object`);
+          continue;
+        }
+
+        for (const [field, value] of Object.entries(variant)) {
+          if (
+            !TEMPLATE_FIELDS.includes(field as keyof TemplateChannelContent)
+          ) {
+            errors.push(
+              `${channel}.${locale}.${field} is not a template field`,
+            );
+          } else if (typeof value !== 'string') {
+            errors.push(`${channel}.${locale}.${field} must be a string`);
+          }
+        }
+
+        if (publish) {
+          for (const field of this.templates.findAbsentFields(
+            channel as NotificationChannel,
+            variant,
+          )) {
+            errors.push(`${channel}.${locale}.${field} is required`);
+          }
+        }
+      }
+
+      if (publish && !variants[publish.defaultLocale]) {
+        errors.push(
+          `${channel} has no content for the default locale ${publish.defaultLocale}`,
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
+
+  /**
+   * Index a published version in Qdrant, one point per channel and locale
+   * Failures are logged - the version is already live
+   */
+  private async syncToVectorDb(
+    template: Template,
+    version: TemplateVersion,
+  ): Promise<void> {
+    const content = version.content as unknown as TemplateContent;
+
+    try {
+      for (const [channel, variants] of Object.entries(content)) {
+        // The RAG index only knows the email, sms and push channels
+        if (channel === NotificationChannel.IN_APP) {
+          continue;
+        }
+
+        for (const [locale, variant] of Object.entries(variants)) {
+          const text = variant.text ?? variant.body ?? '';
+          const heading = variant.subject ?? variant.title;
+          const point: NotificationTemplate = {
+            id: this.toPointId(template.id, channel, locale),
+            content: text,
+            channel: channel.toLowerCase() as NotificationTemplate['channel'],
+            category: (template.category?.toLowerCase() ??
+              'transactional') as NotificationTemplate['category'],
+            tone: 'professional',
+            language: locale,
+            tags: [template.key],
+            metadata: {
+              source: 'curated',
+              templateKey: template.key,
+              ...(heading && { subject: heading }),
+            },
+          };
+
+          const { embedding } = await this.embedding.generateEmbedding(
+            heading ? `${heading}\n\n${text}` : text,
+          );
+          await this.qdrant.upsertTemplate(point, embedding, {
+            version: version.version,
+          });
+        }
+      }
+
+      this.logger.log(
+        `Template ${template.key} v${version.version} indexed in vector DB`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to index template ${template.key} v${version.version} in vector DB:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Stable Qdrant point ID per template, channel and locale, so each new
+   * version replaces the previous one (Qdrant requires UUID point IDs)
+   */
+  private toPointId(templateId: string, channel: string, locale: string) {
+    const hex = createHash('sha1')
+      .update(`template:${templateId}:${channel}:${locale}`)
+      .digest('hex');
+    const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+  }
+
+  /**
+   * Field-level changes between two versions
+   */
+  private diff(
+    previous: TemplateVersion | undefined,
+    current: TemplateVersion,
+  ): TemplateDiffEntryDto[] {
+    const before = this.flatten(previous);
+    const after = this.flatten(current);
+    const entries: TemplateDiffEntryDto[] = [];
+
+    for (const path of new Set([...before.keys(), ...after.keys()])) {
+      const from = before.get(path);
+      const to = after.get(path);
+
+      if (from === undefined) {
+        entries.push({ path, change: 'added', to });
+      } else if (to === undefined) {
+        entries.push({ path, change: 'removed', from });
+      } else if (from !== to) {
+        entries.push({ path, change: 'changed', from, to });
+      }
+    }
+
+    return entries.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private flatten(version: TemplateVersion | undefined): Map<string, string> {
+    const fields = new Map<string, string>();
+    if (!version) {
+      return fields;
+    }
+
+    fields.set('defaultLocale', version.defaultLocale);
+    const content = version.content as unknown as TemplateContent;
+    for (const [channel, variants] of Object.entries(content ?? {})) {
+      for (const [locale, variant] of Object.entries(variants ?? {})) {
+        for (const [field, value] of Object.entries(variant ?? {})) {
+          fields.set(`${channel}.${locale}.${field}`, String(value));
+        }
+      }
+    }
+
+    return fields;
+  }
+
+  private async loadTemplate(id: string): Promise<Template> {
+    const template = await this.prisma.template.findUnique({ where: { id } });
+
+    if (!template) {
+      throw new NotFoundException(`Template with ID ${id} not found`);
+    }
+
+    return template;
+  }
+
+  private draftInclude() {
+    return {
+      versions: {
+        where: { status: TemplateVersionStatus.DRAFT },
+        select: { version: true },
+      },
+    };
+  }
+
+  private mapToResponseDto(
+    template: Template,
+    draftVersion?: number,
+  ): TemplateResponseDto {
+    return {
+      id: template.id,
+      key: template.key,
+      name: template.name,
+      description: template.description ?? undefined,
+      category: template.category ?? undefined,
+      publishedVersion: template.publishedVersion ?? undefined,
+      draftVersion,
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    };
+  }
+
+  private mapToVersionDto(
+    template: Template,
+    version: TemplateVersion,
+    previous?: TemplateVersion,
+  ): TemplateVersionResponseDto {
+    return {
+      version: version.version,
+      status: version.status as TemplateVersionStatus,
+      defaultLocale: version.defaultLocale,
+      content: version.content as unknown as TemplateContent,
+      createdBy: version.createdBy ?? undefined,
+      publishedAt: version.publishedAt ?? undefined,
+      createdAt: version.createdAt,
+      isPublished: template.publishedVersion === version.version,
+      diff: this.diff(previous, version),
+    };
+  }
+}
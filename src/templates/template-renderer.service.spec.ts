@@ -0,0 +1,39 @@
+import { TemplateRendererService } from './template-renderer.service';
+
+describe('TemplateRendererService', () => {
+  const renderer = new TemplateRendererService();
+
+  it('should interpolate plain and dotted variables', () => {
+    expect(
+      renderer.render('Hi {{ name }}, order {{order.id}} ({{order.total}})', {
+        name: 'Ada',
+        order: { id: 'A-1', total: 9.5 },
+      }),
+    ).toBe('Hi Ada, order A-1 (9.5)');
+  });
+
+  it('should only escape HTML when asked to', () => {
+    const data = { name: '<b>Ada</b>' };
+
+    expect(renderer.render('{{name}}', data)).toBe('<b>Ada</b>');
+    expect(renderer.render('{{name}}', data, { escapeHtml: true })).toBe(
+      '&lt;b&gt;Ada&lt;/b&gt;',
+    );
+  });
+
+  it('should report variables missing from the data', () => {
+    expect(
+      renderer.findMissing(['{{name}} {{order.id}}', undefined, '{{city}}'], {
+        name: 'Ada',
+        order: {},
+        city: null,
+      }),
+    ).toEqual(['order.id', 'city']);
+  });
+
+  it('should treat falsy values other than null as present', () => {
+    expect(
+      renderer.findMissing(['{{count}} {{flag}}'], { count: 0, flag: false }),
+    ).toEqual([]);
+  });
+});
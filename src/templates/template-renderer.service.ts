@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common';
+
+// Same {{variable}} syntax TemplateCleanerService.extractVariables recognises
+const VARIABLE_PATTERN = /\{\{([^}]+)\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * TemplateRendererService - Logic-less {{variable}} rendering
+ *
+ * Features:
+ * - {{name}} and dotted {{order.id}} lookups into the template data
+ * - No sections, conditionals or helpers: templates only interpolate
+ * - Missing variable detection, so callers can reject a notification
+ *   before it is queued
+ * - HTML escaping for HTML bodies
+ */
+@Injectable()
+export class TemplateRendererService {
+  /**
+   * Unique variable names referenced by a template string
+   */
+  extractVariables(source: string): string[] {
+    const names = new Set<string>();
+    for (const match of source.matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1].trim());
+    }
+    return [...names];
+  }
+
+  /**
+   * Variables referenced by any of the sources but absent from the data
+   */
+  findMissing(
+    sources: Array<string | undefined>,
+    data: Record<string, unknown>,
+  ): string[] {
+    const missing = new Set<string>();
+    for (const source of sources) {
+      for (const name of this.extractVariables(source ?? '')) {
+        const value = this.lookup(data, name);
+        if (value === undefined || value === null) {
+          missing.add(name);
+        }
+      }
+    }
+    return [...missing];
+  }
+
+  /**
+   * Replace every {{variable}} with its value from the data
+   * Missing variables render as an empty string
+   */
+  render(
+    source: string,
+    data: Record<string, unknown>,
+    options: { escapeHtml?: boolean } = {},
+  ): string {
+    return source.replace(VARIABLE_PATTERN, (_match, name: string) => {
+      const text = this.stringify(this.lookup(data, name.trim()));
+      return options.escapeHtml ? this.escapeHtml(text) : text;
+    });
+  }
+
+  private lookup(data: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>((value, key) => {
+      if (value === null || typeof value !== 'object') {
+        return undefined;
+      }
+      return Object.prototype.hasOwnProperty.call(value, key)
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+    }, data);
+  }
+
+  private stringify(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Body,
+  Param,
+  Request,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { TemplateManagementService } from './template-management.service';
+import {
+  CreateTemplateDto,
+  UpdateTemplateDto,
+  UpdateTemplateDraftDto,
+  PublishTemplateDto,
+  RollbackTemplateDto,
+  PreviewTemplateDto,
+  TemplateResponseDto,
+  TemplateVersionResponseDto,
+  TemplatePreviewResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../common/guards/admin.guard';
+
+/**
+ * TemplatesController - Author, publish and preview notification templates
+ *
+ * All endpoints require JWT authentication + ADMIN role
+ */
+@Controller('templates')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class TemplatesController {
+  constructor(private readonly templateService: TemplateManagementService) {}
+
+  /**
+   * Create a template with its first draft
+   * POST /templates
+   */
+  @Post()
+  async create(
+    @Request() req: { user: { userId: string } },
+    @Body() createTemplateDto: CreateTemplateDto,
+  ): Promise<TemplateResponseDto> {
+    return await this.templateService.create(
+      createTemplateDto,
+      req.user?.userId,
+    );
+  }
+
+  /**
+   * List templates
+   * GET /templates
+   */
+  @Get()
+  async findAll(): Promise<TemplateResponseDto[]> {
+    return await this.templateService.findAll();
+  }
+
+  /**
+   * Get a template
+   * GET /templates/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<TemplateResponseDto> {
+    return await this.templateService.findOne(id);
+  }
+
+  /**
+   * Update name, description or category
+   * PATCH /templates/:id
+   */
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() updateTemplateDto: UpdateTemplateDto,
+  ): Promise<TemplateResponseDto> {
+    return await this.templateService.update(id, updateTemplateDto);
+  }
+
+  /**
+   * Create or edit the draft version
+   * PUT /templates/:id/draft
+   */
+  @Put(':id/draft')
+  async updateDraft(
+    @Request() req: { user: { userId: string } },
+    @Param('id') id: string,
+    @Body() updateDraftDto: UpdateTemplateDraftDto,
+  ): Promise<TemplateVersionResponseDto> {
+    return await this.templateService.updateDraft(
+      id,
+      updateDraftDto,
+      req.user?.userId,
+    );
+  }
+
+  /**
+   * Publish the draft as an immutable version
+   * POST /templates/:id/publish
+   */
+  @Post(':id/publish')
+  @HttpCode(HttpStatus.OK)
+  async publish(
+    @Param('id') id: string,
+    @Body() publishTemplateDto: PublishTemplateDto,
+  ): Promise<TemplateVersionResponseDto> {
+    return await this.templateService.publish(id, publishTemplateDto);
+  }
+
+  /**
+   * Make an earlier published version live again
+   * POST /templates/:id/rollback
+   */
+  @Post(':id/rollback')
+  @HttpCode(HttpStatus.OK)
+  async rollback(
+    @Param('id') id: string,
+    @Body() rollbackTemplateDto: RollbackTemplateDto,
+  ): Promise<TemplateResponseDto> {
+    return await this.templateService.rollback(id, rollbackTemplateDto);
+  }
+
+  /**
+   * List versions with their diff from the previous version
+   * GET /templates/:id/versions
+   */
+  @Get(':id/versions')
+  async findVersions(
+    @Param('id') id: string,
+  ): Promise<TemplateVersionResponseDto[]> {
+    return await this.templateService.findVersions(id);
+  }
+
+  /**
+   * Render every channel against sample data
+   * POST /templates/:id/preview
+   */
+  @Post(':id/preview')
+  @HttpCode(HttpStatus.OK)
+  async preview(
+    @Param('id') id: string,
+    @Body() previewTemplateDto: PreviewTemplateDto,
+  ): Promise<TemplatePreviewResponseDto> {
+    return await this.templateService.preview(id, previewTemplateDto);
+  }
+}
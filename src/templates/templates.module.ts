@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { TemplatesService } from './templates.service';
+import { TemplateRendererService } from './template-renderer.service';
+import { TemplateManagementService } from './template-management.service';
+import { TemplatesController } from './templates.controller';
+import { VectorDbModule } from '../vector-db/vector-db.module';
+
+/**
+ * TemplatesModule - Versioned notification templates
+ *
+ * Features:
+ * - Per-channel content with email subject / HTML / text
+ * - Locale variants with language and default-locale fallback
+ * - Logic-less {{variable}} rendering, validated at creation time
+ * - Draft / publish / rollback lifecycle with version diffs and preview
+ * - Optional indexing of published templates for RAG retrieval
+ */
+@Module({
+  imports: [VectorDbModule],
+  controllers: [TemplatesController],
+  providers: [
+    TemplatesService,
+    TemplateRendererService,
+    TemplateManagementService,
+  ],
+  exports: [TemplatesService, TemplateRendererService],
+})
+export class TemplatesModule {}
@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { TemplatesService } from './templates.service';
+import { TemplateRendererService } from './template-renderer.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { NotificationChannel } from '../notification/dto';
+
+describe('TemplatesService', () => {
+  let service: TemplatesService;
+
+  const mockPrismaService = {
+    template: { findUnique: jest.fn() },
+    templateVersion: { findFirst: jest.fn() },
+  };
+
+  const mockRedisService = {
+    get: jest.fn(),
+    set: jest.fn(),
+  };
+
+  const content = {
+    EMAIL: {
+      en: {
+        subject: 'Order {{order.id}} shipped',
+        text: 'Hi {{name}}, your order is on its way.',
+        html: '<p>Hi {{name}}</p>',
+      },
+      fr: {
+        subject: 'Commande {{order.id}} expédiée',
+        text: 'Bonjour {{name}}',
+      },
+    },
+    SMS: { en: { body: 'Order {{order.id}} shipped' } },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRedisService.get.mockResolvedValue(null);
+    mockPrismaService.template.findUnique.mockResolvedValue({
+      publishedVersion: 3,
+    });
+    mockPrismaService.templateVersion.findFirst.mockResolvedValue({
+      version: 3,
+      defaultLocale: 'en',
+      content,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TemplatesService,
+        TemplateRendererService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RedisService, useValue: mockRedisService },
+      ],
+    }).compile();
+
+    service = module.get<TemplatesService>(TemplatesService);
+  });
+
+  describe('renderPayload', () => {
+    const templateData = { name: 'Ada <3', order: { id: 42 } };
+
+    it('should leave payloads without a template untouched', async () => {
+      const payload = { to: 'ada@example.com', subject: 'Hi', body: 'There' };
+
+      await expect(
+        service.renderPayload(NotificationChannel.EMAIL, payload),
+      ).resolves.toBe(payload);
+      expect(mockPrismaService.template.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should render email subject, text and escaped html', async () => {
+      const payload = await service.renderPayload(NotificationChannel.EMAIL, {
+        to: 'ada@example.com',
+        template: 'order-shipped',
+        templateData,
+      });
+
+      expect(payload).toMatchObject({
+        to: 'ada@example.com',
+        subject: 'Order 42 shipped',
+        body: 'Hi Ada <3, your order is on its way.',
+        html: '<p>Hi Ada &lt;3</p>',
+        locale: 'en',
+        templateVersion: 3,
+      });
+    });
+
+    it('should map SMS content onto the message field', async () => {
+      const payload = await service.renderPayload(NotificationChannel.SMS, {
+        phoneNumber: '+15550001111',
+        template: 'order-shipped',
+        templateData,
+      });
+
+      expect(payload.message).toBe('Order 42 shipped');
+    });
+
+    it('should fall back from region to language to default locale', async () => {
+      const french = await service.renderPayload(NotificationChannel.EMAIL, {
+        template: 'order-shipped',
+        templateData,
+        locale: 'fr-CA',
+      });
+      const german = await service.renderPayload(NotificationChannel.EMAIL, {
+        template: 'order-shipped',
+        templateData,
+        locale: 'de',
+      });
+
+      expect(french).toMatchObject({ locale: 'fr', body: 'Bonjour Ada <3' });
+      expect(german.locale).toBe('en');
+    });
+
+    it('should reject missing variables', async () => {
+      await expect(
+        service.renderPayload(NotificationChannel.EMAIL, {
+          template: 'order-shipped',
+          templateData: { name: 'Ada' },
+        }),
+      ).rejects.toThrow(
+        'Missing template variables for "order-shipped": order.id',
+      );
+    });
+
+    it('should reject unpublished templates and unsupported channels', async () => {
+      await expect(
+        service.renderPayload(NotificationChannel.PUSH, {
+          template: 'order-shipped',
+          templateData,
+        }),
+      ).rejects.toThrow(BadRequestException);
+
+      mockPrismaService.template.findUnique.mockResolvedValue({
+        publishedVersion: null,
+      });
+      await expect(
+        service.renderPayload(NotificationChannel.EMAIL, {
+          template: 'draft-only',
+          templateData,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should use the cached published version when available', async () => {
+      mockRedisService.get.mockResolvedValue({
+        key: 'order-shipped',
+        version: 2,
+        defaultLocale: 'en',
+        content,
+      });
+
+      const payload = await service.renderPayload(NotificationChannel.SMS, {
+        template: 'order-shipped',
+        templateData,
+      });
+
+      expect(payload.templateVersion).toBe(2);
+      expect(mockPrismaService.template.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
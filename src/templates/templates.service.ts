@@ -0,0 +1,315 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { NotificationChannel } from '../notification/dto';
+import { TemplateRendererService } from './template-renderer.service';
+import {
+  TemplateChannelContent,
+  TemplateContent,
+  TemplateChannelPreviewDto,
+} from './dto';
+
+// Content of one template version, as rendered
+export interface TemplateSnapshot {
+  key: string;
+  version: number;
+  defaultLocale: string;
+  content: TemplateContent;
+}
+
+export interface RenderedTemplate {
+  key: string;
+  version: number;
+  locale: string;
+  content: TemplateChannelContent;
+}
+
+// Fields a channel variant must define to be deliverable
+export const REQUIRED_FIELDS: Partial<
+  Record<NotificationChannel, Array<keyof TemplateChannelContent>>
+> = {
+  [NotificationChannel.EMAIL]: ['subject', 'text'],
+  [NotificationChannel.SMS]: ['body'],
+  [NotificationChannel.PUSH]: ['title', 'body'],
+  [NotificationChannel.IN_APP]: ['title', 'body'],
+};
+
+/**
+ * TemplatesService - Resolves and renders stored notification templates
+ *
+ * A notification opts in with payload.template (the template key),
+ * payload.templateData and optionally payload.locale. The template's
+ * published version is rendered at creation time and the result is merged
+ * into the payload, so the worker only ever sees final strings and later
+ * template changes do not affect queued notifications.
+ *
+ * Locale resolution: exact match (fr-CA), then language (fr), then the
+ * version's default locale.
+ *
+ * Published versions are cached in Redis by key.
+ */
+@Injectable()
+export class TemplatesService {
+  private readonly logger = new Logger(TemplatesService.name);
+  private readonly CACHE_TTL = 300; // 5 minutes
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+    private readonly renderer: TemplateRendererService,
+  ) {}
+
+  /**
+   * Render the template referenced by a payload and merge the result into
+   * it. Payloads without a template are returned unchanged.
+   */
+  async renderPayload(
+    channel: NotificationChannel,
+    payload: Record<string, any>,
+  ): Promise<Record<string, any>> {
+    if (!payload?.template) {
+      return payload;
+    }
+
+    const rendered = await this.render(
+      payload.template,
+      channel,
+      payload.templateData ?? {},
+      payload.locale,
+    );
+
+    return {
+      ...payload,
+      ...this.toChannelPayload(channel, rendered.content),
+      locale: rendered.locale,
+      templateVersion: rendered.version,
+    };
+  }
+
+  /**
+   * Render the published version of a template for one channel
+   * Throws BadRequestException if the template cannot be rendered in full
+   */
+  async render(
+    key: string,
+    channel: NotificationChannel,
+    data: Record<string, unknown>,
+    locale?: string,
+  ): Promise<RenderedTemplate> {
+    const template = await this.getPublished(key);
+    if (!template) {
+      throw new BadRequestException(
+        `Template "${key}" not found or has no published version`,
+      );
+    }
+
+    return this.renderVersion(template, channel, data, locale);
+  }
+
+  /**
+   * Render one channel of a template version
+   */
+  renderVersion(
+    template: TemplateSnapshot,
+    channel: NotificationChannel,
+    data: Record<string, unknown>,
+    locale?: string,
+  ): RenderedTemplate {
+    const resolved = this.resolveVariant(template, channel, locale);
+    if ('error' in resolved) {
+      throw new BadRequestException(resolved.error);
+    }
+
+    const absent = this.findAbsentFields(channel, resolved.variant);
+    if (absent.length > 0) {
+      throw new BadRequestException(
+        `Template "${template.key}" ${channel}/${resolved.locale} is missing ${absent.join(', ')}`,
+      );
+    }
+
+    const missing = this.renderer.findMissing(
+      Object.values(resolved.variant),
+      data,
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Missing template variables for "${template.key}": ${missing.join(', ')}`,
+      );
+    }
+
+    return {
+      key: template.key,
+      version: template.version,
+      locale: resolved.locale,
+      content: this.renderVariant(resolved.variant, data),
+    };
+  }
+
+  /**
+   * Render one channel of a template version against sample data,
+   * reporting problems instead of throwing
+   */
+  previewVersion(
+    template: TemplateSnapshot,
+    channel: NotificationChannel,
+    data: Record<string, unknown>,
+    locale?: string,
+  ): TemplateChannelPreviewDto {
+    const resolved = this.resolveVariant(template, channel, locale);
+    if ('error' in resolved) {
+      return { channel, missingVariables: [], errors: [resolved.error] };
+    }
+
+    const absent = this.findAbsentFields(channel, resolved.variant);
+
+    return {
+      channel,
+      locale: resolved.locale,
+      content: this.renderVariant(resolved.variant, data) as Record<
+        string,
+        string
+      >,
+      missingVariables: this.renderer.findMissing(
+        Object.values(resolved.variant),
+        data,
+      ),
+      errors: absent.map((field) => `Missing ${field}`),
+    };
+  }
+
+  /**
+   * Fields the channel requires that a variant does not define
+   */
+  findAbsentFields(
+    channel: NotificationChannel,
+    variant: TemplateChannelContent,
+  ): string[] {
+    return (REQUIRED_FIELDS[channel] ?? []).filter((field) => !variant[field]);
+  }
+
+  /**
+   * Load the published version of a template, cache-first
+   */
+  async getPublished(key: string): Promise<TemplateSnapshot | null> {
+    const cacheKey = `template:${key}`;
+    const cached = await this.redis.get<TemplateSnapshot>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const template = await this.prisma.template.findUnique({
+      where: { key },
+      select: { publishedVersion: true },
+    });
+    if (template?.publishedVersion == null) {
+      return null;
+    }
+
+    const version = await this.prisma.templateVersion.findFirst({
+      where: { template: { key }, version: template.publishedVersion },
+    });
+    if (!version) {
+      this.logger.warn(
+        `Template ${key} points at missing version ${template.publishedVersion}`,
+      );
+      return null;
+    }
+
+    const published: TemplateSnapshot = {
+      key,
+      version: version.version,
+      defaultLocale: version.defaultLocale,
+      content: version.content as unknown as TemplateContent,
+    };
+
+    await this.redis.set(cacheKey, published, this.CACHE_TTL);
+
+    return published;
+  }
+
+  /**
+   * Drop the cached published version after publish / rollback
+   */
+  async invalidate(key: string): Promise<void> {
+    await this.redis.del(`template:${key}`);
+  }
+
+  private resolveVariant(
+    template: TemplateSnapshot,
+    channel: NotificationChannel,
+    locale?: string,
+  ): { locale: string; variant: TemplateChannelContent } | { error: string } {
+    const variants = template.content[channel];
+    if (!variants) {
+      return { error: `Template "${template.key}" has no ${channel} content` };
+    }
+
+    const resolvedLocale = this.selectLocale(
+      Object.keys(variants),
+      locale,
+      template.defaultLocale,
+    );
+    if (!resolvedLocale) {
+      return {
+        error: `Template "${template.key}" has no ${channel} content for locale ${locale ?? template.defaultLocale}`,
+      };
+    }
+
+    return { locale: resolvedLocale, variant: variants[resolvedLocale] };
+  }
+
+  private renderVariant(
+    variant: TemplateChannelContent,
+    data: Record<string, unknown>,
+  ): TemplateChannelContent {
+    const content: TemplateChannelContent = {};
+    for (const [field, source] of Object.entries(variant)) {
+      if (typeof source === 'string') {
+        content[field as keyof TemplateChannelContent] = this.renderer.render(
+          source,
+          data,
+          { escapeHtml: field === 'html' },
+        );
+      }
+    }
+    return content;
+  }
+
+  private selectLocale(
+    available: string[],
+    requested: string | undefined,
+    defaultLocale: string,
+  ): string | null {
+    const candidates = requested
+      ? [requested, requested.split('-')[0], defaultLocale]
+      : [defaultLocale];
+
+    return candidates.find((locale) => available.includes(locale)) ?? null;
+  }
+
+  /**
+   * Map rendered content onto the payload fields the worker delivers
+   */
+  private toChannelPayload(
+    channel: NotificationChannel,
+    content: TemplateChannelContent,
+  ): Record<string, string | undefined> {
+    switch (channel) {
+      case NotificationChannel.EMAIL:
+        return {
+          subject: content.subject,
+          body: content.text,
+          ...(content.html && { html: content.html }),
+        };
+      case NotificationChannel.SMS:
+        return { message: content.body };
+      case NotificationChannel.PUSH:
+      case NotificationChannel.IN_APP:
+        return { title: content.title, body: content.body };
+      default:
+        throw new BadRequestException(
+          `Templates are not supported for ${channel} notifications`,
+        );
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsBoolean,
+  IsOptional,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  Matches,
+  Min,
+  Max,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  NotificationChannel,
+  NotificationType,
+  NotificationPriority,
+} from '../../notification/dto';
+import { EVENT_TYPE_PATTERN } from '../../events/dto';
+import {
+  MAX_RULE_CONDITIONS,
+  RULE_CHANNELS,
+  RuleConditionDto,
+} from '../../rules/dto';
+
+export enum WorkflowStepType {
+  /** Notify the run's user on each channel with a template */
+  NOTIFY = 'notify',
+  /** Pause for `seconds` */
+  DELAY = 'delay',
+  /** Pause until the user's next `eventType` event, at most `seconds` */
+  WAIT_FOR_EVENT = 'wait_for_event',
+  /** Continue at onMatch or onNoMatch depending on the trigger payload */
+  BRANCH = 'branch',
+}
+
+/**
+ * Step target that finishes the run
+ */
+export const WORKFLOW_END = 'end';
+
+export const MAX_WORKFLOW_STEPS = 50;
+export const MAX_WORKFLOW_WAIT_SECONDS = 90 * 24 * 60 * 60; // 90 days
+
+const STEP_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const STEP_ID_MESSAGE =
+  'must be a step ID (lowercase letters, digits, "_" and "-")';
+
+const isType =
+  (...types: WorkflowStepType[]) =>
+  (step: WorkflowStepDto) =>
+    types.includes(step.type);
+
+/**
+ * One step of a workflow. Steps run in order; next, onEvent, onTimeout,
+ * onMatch and onNoMatch jump forward to another step ID or to "end"
+ */
+export class WorkflowStepDto {
+  @Matches(STEP_ID_PATTERN, { message: `id ${STEP_ID_MESSAGE}` })
+  id!: string;
+
+  @IsEnum(WorkflowStepType)
+  type!: WorkflowStepType;
+
+  // notify
+  @ValidateIf(isType(WorkflowStepType.NOTIFY))
+  @IsString()
+  @IsNotEmpty()
+  template?: string;
+
+  @ValidateIf(isType(WorkflowStepType.NOTIFY))
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(RULE_CHANNELS, { each: true })
+  channels?: NotificationChannel[];
+
+  @IsEnum(NotificationType)
+  @IsOptional()
+  notificationType?: NotificationType;
+
+  @IsEnum(NotificationPriority)
+  @IsOptional()
+  priority?: NotificationPriority;
+
+  // delay and wait_for_event (timeout)
+  @ValidateIf(isType(WorkflowStepType.DELAY, WorkflowStepType.WAIT_FOR_EVENT))
+  @IsInt()
+  @Min(1)
+  @Max(MAX_WORKFLOW_WAIT_SECONDS)
+  seconds?: number;
+
+  // wait_for_event
+  @ValidateIf(isType(WorkflowStepType.WAIT_FOR_EVENT))
+  @Matches(EVENT_TYPE_PATTERN, {
+    message: 'eventType must be a valid event type, e.g. "user.activated"',
+  })
+  eventType?: string;
+
+  @Matches(STEP_ID_PATTERN, { message: `onEvent ${STEP_ID_MESSAGE}` })
+  @IsOptional()
+  onEvent?: string;
+
+  @Matches(STEP_ID_PATTERN, { message: `onTimeout ${STEP_ID_MESSAGE}` })
+  @IsOptional()
+  onTimeout?: string;
+
+  // branch - all conditions must hold on the trigger event payload
+  @ValidateIf(isType(WorkflowStepType.BRANCH))
+  @IsArray()
+  @ArrayMaxSize(MAX_RULE_CONDITIONS)
+  @ValidateNested({ each: true })
+  @Type(() => RuleConditionDto)
+  conditions?: RuleConditionDto[];
+
+  @Matches(STEP_ID_PATTERN, { message: `onMatch ${STEP_ID_MESSAGE}` })
+  @IsOptional()
+  onMatch?: string;
+
+  @Matches(STEP_ID_PATTERN, { message: `onNoMatch ${STEP_ID_MESSAGE}` })
+  @IsOptional()
+  onNoMatch?: string;
+
+  // notify and delay; defaults to the following step
+  @Matches(STEP_ID_PATTERN, { message: `next ${STEP_ID_MESSAGE}` })
+  @IsOptional()
+  next?: string;
+}
+
+export class CreateWorkflowDto {
+  @IsString()
+  @IsNotEmpty()
+  name!: string;
+
+  @Matches(EVENT_TYPE_PATTERN, {
+    message: 'triggerEventType must be a valid event type, e.g. "user.signup"',
+  })
+  triggerEventType!: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_WORKFLOW_STEPS)
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowStepDto)
+  steps!: WorkflowStepDto[];
+
+  /**
+   * Event types that cancel the user's active runs, e.g. "user.deleted"
+   */
+  @IsArray()
+  @Matches(EVENT_TYPE_PATTERN, {
+    each: true,
+    message: 'cancelOn must contain valid event types',
+  })
+  @IsOptional()
+  cancelOn?: string[];
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+}
+
+/**
+ * Runs in flight continue with the new steps; a run whose current step
+ * was removed fails
+ */
+export class UpdateWorkflowDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @Matches(EVENT_TYPE_PATTERN, {
+    message: 'triggerEventType must be a valid event type, e.g. "user.signup"',
+  })
+  @IsOptional()
+  triggerEventType?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_WORKFLOW_STEPS)
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowStepDto)
+  @IsOptional()
+  steps?: WorkflowStepDto[];
+
+  @IsArray()
+  @Matches(EVENT_TYPE_PATTERN, {
+    each: true,
+    message: 'cancelOn must contain valid event types',
+  })
+  @IsOptional()
+  cancelOn?: string[];
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+}
@@ -0,0 +1,2 @@
+export * from './create-workflow.dto';
+export * from './workflow-response.dto';
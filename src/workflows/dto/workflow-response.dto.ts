@@ -0,0 +1,57 @@
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { WorkflowStepDto } from './create-workflow.dto';
+
+export enum WorkflowRunStatus {
+  RUNNING = 'RUNNING',
+  WAITING = 'WAITING',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+  FAILED = 'FAILED',
+}
+
+export class WorkflowResponseDto {
+  id!: string;
+  tenantId!: string;
+  name!: string;
+  triggerEventType!: string;
+  steps!: WorkflowStepDto[];
+  cancelOn!: string[];
+  enabled!: boolean;
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export class WorkflowRunResponseDto {
+  id!: string;
+  workflowId!: string;
+  userId!: string;
+  triggerEventId!: string;
+  status!: WorkflowRunStatus;
+  stepId?: string;
+  waitingFor?: string;
+  wakeAt?: Date;
+  errorMessage?: string;
+  completedAt?: Date;
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export const MAX_WORKFLOW_RUNS_PAGE_SIZE = 100;
+
+export class ListWorkflowRunsQueryDto {
+  @IsEnum(WorkflowRunStatus)
+  @IsOptional()
+  status?: WorkflowRunStatus;
+
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_WORKFLOW_RUNS_PAGE_SIZE)
+  @IsOptional()
+  limit?: number;
+}
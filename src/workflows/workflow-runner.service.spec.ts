@@ -0,0 +1,325 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WorkflowRunnerService } from './workflow-runner.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notification/notification.service';
+
+describe('WorkflowRunnerService', () => {
+  let service: WorkflowRunnerService;
+
+  // In-memory workflow_runs table, enough for the runner's queries
+  const runs = new Map<string, any>();
+
+  const matches = (run: any, where: any) =>
+    (where.id === undefined || run.id === where.id) &&
+    (where.status === undefined ||
+      (typeof where.status === 'string'
+        ? run.status === where.status
+        : where.status.in.includes(run.status))) &&
+    (where.waitingFor === undefined || run.waitingFor === where.waitingFor) &&
+    (where.wakeAt === undefined ||
+      (!!run.wakeAt && run.wakeAt <= where.wakeAt.lte)) &&
+    (where.updatedAt?.lt === undefined || run.updatedAt < where.updatedAt.lt);
+
+  const onboarding = {
+    id: 'workflow-1',
+    tenantId: 'tenant-1',
+    name: 'Onboarding',
+    triggerEventType: 'user.signup',
+    cancelOn: ['user.deleted'],
+    enabled: true,
+    steps: [
+      {
+        id: 'welcome',
+        type: 'notify',
+        template: 'welcome',
+        channels: ['EMAIL'],
+      },
+      {
+        id: 'wait-activation',
+        type: 'wait_for_event',
+        eventType: 'user.activated',
+        seconds: 2 * 24 * 60 * 60,
+        onEvent: 'end',
+      },
+      {
+        id: 'nudge',
+        type: 'notify',
+        template: 'activation-nudge',
+        channels: ['PUSH'],
+      },
+    ],
+  };
+
+  let workflows: any[] = [];
+
+  const mockPrismaService = {
+    workflow: {
+      findMany: jest.fn(async ({ where }) =>
+        workflows.filter((w) => w.triggerEventType === where.triggerEventType),
+      ),
+    },
+    workflowRun: {
+      createMany: jest.fn(async ({ data }) => {
+        for (const row of data) {
+          const duplicate = [...runs.values()].some(
+            (run) =>
+              run.workflowId === row.workflowId &&
+              run.triggerEventId === row.triggerEventId,
+          );
+          if (!duplicate) {
+            runs.set(row.id, { ...row, updatedAt: new Date() });
+          }
+        }
+      }),
+      findMany: jest.fn(async ({ where }) =>
+        where.id?.in
+          ? where.id.in
+              .filter((id: string) => runs.has(id))
+              .map((id: string) => ({ id }))
+          : [...runs.values()].filter((run) => matches(run, where)),
+      ),
+      findUnique: jest.fn(async ({ where }) => {
+        const run = runs.get(where.id);
+        return run && { ...run, workflow: getWorkflow(run) };
+      }),
+      findUniqueOrThrow: jest.fn(async ({ where }) => {
+        const run = runs.get(where.id);
+        return {
+          ...run,
+          workflow: getWorkflow(run),
+          user: {
+            email: 'user@example.com',
+            attributes: { deviceToken: 'device-1' },
+          },
+        };
+      }),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const hits =
+          where.id === undefined
+            ? []
+            : [...runs.values()].filter((run) => matches(run, where));
+        hits.forEach((run) => Object.assign(run, data));
+        return { count: hits.length };
+      }),
+    },
+  };
+
+  const getWorkflow = (run: any) =>
+    workflows.find((workflow) => workflow.id === run.workflowId);
+
+  const mockNotificationService = {
+    createBatch: jest.fn(),
+  };
+
+  const buildEvent = (type: string, payload = {}) => ({
+    id: `event-${type}`,
+    type,
+    userId: 'user-1',
+    tenantId: 'tenant-1',
+    payload,
+    status: 'processing',
+    idempotencyKey: null,
+    errorMessage: null,
+    processedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const sentTemplates = () =>
+    mockNotificationService.createBatch.mock.calls.flatMap(([dto]) =>
+      dto.notifications.map((n: any) => `${n.channel}:${n.payload.template}`),
+    );
+
+  const onlyRun = () => [...runs.values()][0];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    runs.clear();
+    workflows = [onboarding];
+    mockNotificationService.createBatch.mockImplementation(
+      async ({ notifications }) => ({
+        results: notifications.map((_: unknown, index: number) => ({
+          index,
+          status: 'CREATED',
+        })),
+      }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowRunnerService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationService, useValue: mockNotificationService },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowRunnerService>(WorkflowRunnerService);
+  });
+
+  describe('handleEvent', () => {
+    it('should start a run and park it on the first wait', async () => {
+      await service.handleEvent(buildEvent('user.signup') as any);
+
+      const run = onlyRun();
+      expect(run).toMatchObject({
+        workflowId: 'workflow-1',
+        triggerEventId: 'event-user.signup',
+        status: 'WAITING',
+        stepId: 'wait-activation',
+        waitingFor: 'user.activated',
+      });
+      expect(run.wakeAt.getTime()).toBeGreaterThan(
+        Date.now() + 2 * 24 * 60 * 60 * 1000 - 5000,
+      );
+
+      const [dto, origin] = mockNotificationService.createBatch.mock.calls[0];
+      expect(origin).toEqual({
+        eventId: 'event-user.signup',
+        causationId: run.id,
+      });
+      expect(dto.notifications).toEqual([
+        expect.objectContaining({
+          channel: 'EMAIL',
+          idempotencyKey: `workflow:${run.id}:welcome:EMAIL`,
+          payload: expect.objectContaining({
+            to: 'user@example.com',
+            template: 'welcome',
+          }),
+        }),
+      ]);
+    });
+
+    it('should stop the run when the awaited event arrives', async () => {
+      await service.handleEvent(buildEvent('user.signup') as any);
+      await service.handleEvent(buildEvent('user.activated') as any);
+
+      expect(onlyRun()).toMatchObject({ status: 'COMPLETED', stepId: null });
+      expect(sentTemplates()).toEqual(['EMAIL:welcome']);
+    });
+
+    it('should cancel active runs on a cancelOn event', async () => {
+      await service.handleEvent(buildEvent('user.deleted') as any);
+
+      expect(mockPrismaService.workflowRun.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          userId: 'user-1',
+          tenantId: 'tenant-1',
+          status: { in: ['RUNNING', 'WAITING'] },
+          workflow: { cancelOn: { has: 'user.deleted' } },
+        }),
+        data: expect.objectContaining({ status: 'CANCELLED' }),
+      });
+    });
+
+    it('should start a workflow only once per event', async () => {
+      const event = buildEvent('user.signup') as any;
+
+      await service.handleEvent(event);
+      await service.handleEvent(event);
+
+      expect(runs.size).toBe(1);
+      expect(mockNotificationService.createBatch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore events without a tenant', async () => {
+      await service.handleEvent({
+        ...buildEvent('user.signup'),
+        tenantId: null,
+      } as any);
+
+      expect(mockPrismaService.workflow.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processDue', () => {
+    it('should continue at the next step when a wait times out', async () => {
+      await service.handleEvent(buildEvent('user.signup') as any);
+      onlyRun().wakeAt = new Date(Date.now() - 1000);
+
+      await expect(service.processDue()).resolves.toBe(1);
+
+      expect(onlyRun()).toMatchObject({
+        status: 'COMPLETED',
+        waitingFor: null,
+      });
+      expect(sentTemplates()).toEqual([
+        'EMAIL:welcome',
+        'PUSH:activation-nudge',
+      ]);
+    });
+
+    it('should leave runs whose timer is not due', async () => {
+      await service.handleEvent(buildEvent('user.signup') as any);
+
+      await expect(service.processDue()).resolves.toBe(0);
+
+      expect(onlyRun().status).toBe('WAITING');
+    });
+  });
+
+  describe('execute', () => {
+    it('should take the branch the trigger payload matches', async () => {
+      workflows = [
+        {
+          ...onboarding,
+          steps: [
+            {
+              id: 'plan',
+              type: 'branch',
+              conditions: [{ path: '$.plan', operator: 'eq', value: 'pro' }],
+              onMatch: 'pro-welcome',
+            },
+            {
+              id: 'basic-welcome',
+              type: 'notify',
+              template: 'welcome-basic',
+              channels: ['EMAIL'],
+              next: 'end',
+            },
+            {
+              id: 'pro-welcome',
+              type: 'notify',
+              template: 'welcome-pro',
+              channels: ['EMAIL'],
+            },
+          ],
+        },
+      ];
+
+      await service.handleEvent(
+        buildEvent('user.signup', { plan: 'pro' }) as any,
+      );
+
+      expect(sentTemplates()).toEqual(['EMAIL:welcome-pro']);
+      expect(onlyRun().status).toBe('COMPLETED');
+    });
+
+    it('should not continue a run cancelled while a step executes', async () => {
+      mockNotificationService.createBatch.mockImplementation(async () => {
+        onlyRun().status = 'CANCELLED';
+        return { results: [] };
+      });
+
+      await service.handleEvent(buildEvent('user.signup') as any);
+
+      // The wait step was never reached
+      expect(onlyRun()).toMatchObject({
+        status: 'CANCELLED',
+        stepId: 'welcome',
+      });
+    });
+
+    it('should fail the run when its step no longer exists', async () => {
+      await service.handleEvent(buildEvent('user.signup') as any);
+      workflows = [{ ...onboarding, steps: [] }];
+      onlyRun().wakeAt = new Date(Date.now() - 1000);
+
+      await service.processDue();
+
+      expect(onlyRun()).toMatchObject({
+        status: 'FAILED',
+        errorMessage: 'Step wait-activation not found in workflow workflow-1',
+      });
+    });
+  });
+});
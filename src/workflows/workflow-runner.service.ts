@@ -0,0 +1,452 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Event, Prisma, Workflow, WorkflowRun } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notification/notification.service';
+import {
+  BatchItemStatus,
+  CreateNotificationDto,
+  NotificationType,
+} from '../notification/dto';
+import { Recipient, getContact, getLocale } from '../notification/recipient';
+import { findFailedCondition } from '../rules/conditions';
+import { ACTIVE_RUN_STATUSES } from './workflows.service';
+import {
+  WorkflowRunStatus,
+  WorkflowStepDto,
+  WorkflowStepType,
+  WORKFLOW_END,
+} from './dto';
+
+type RunWithUser = WorkflowRun & { workflow: Workflow; user: Recipient };
+
+/**
+ * WorkflowRunnerService - Executes workflow runs
+ *
+ * Flow:
+ * - EventProcessorService hands over every event: it cancels the user's
+ *   active runs of workflows listing the type in cancelOn, resumes runs
+ *   waiting for it, and starts a run of each enabled workflow it triggers
+ * - A run executes steps until a delay or wait_for_event step, which park
+ *   it as WAITING with a wakeAt timer, or until it ends (COMPLETED)
+ * - A sweep resumes runs whose timer is due: delays continue at their next
+ *   step, waits continue at onTimeout
+ *
+ * Notify steps create ordinary notifications with eventId = the trigger
+ * event and causationId = the run ID.
+ *
+ * Reliability: run state lives in Postgres, so timers survive restarts.
+ * Every write is guarded by the run's status, so a cancelled run is never
+ * revived; resumes are claimed optimistically on updatedAt, so only one
+ * instance continues a run. Notification idempotency keys are derived from
+ * the run, step and channel, so a step repeated after a crash never
+ * duplicates notifications.
+ */
+@Injectable()
+export class WorkflowRunnerService {
+  private readonly logger = new Logger(WorkflowRunnerService.name);
+  private readonly BATCH_SIZE = 100;
+  // RUNNING runs untouched for this long belong to a crashed instance
+  private readonly STALE_MS = 5 * 60 * 1000;
+  private isSweeping = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Apply an ingested event to the user's workflows
+   * Workflows are tenant-scoped, so events without a tenant are ignored
+   */
+  async handleEvent(event: Event): Promise<void> {
+    if (!event.tenantId) {
+      return;
+    }
+
+    await this.cancelRuns(event, event.tenantId);
+    await this.resumeWaiting(event, event.tenantId);
+    await this.startRuns(event, event.tenantId);
+  }
+
+  /**
+   * Continue a WAITING run, after its timer or because the event it waits
+   * for arrived. Returns false if the run was not waiting for this
+   */
+  async resume(runId: string, event?: Event): Promise<boolean> {
+    const run = await this.prisma.workflowRun.findUnique({
+      where: { id: runId },
+      include: { workflow: true },
+    });
+
+    if (!run || run.status !== WorkflowRunStatus.WAITING) {
+      return false;
+    }
+    const due = event
+      ? run.waitingFor === event.type
+      : !!run.wakeAt && run.wakeAt.getTime() <= Date.now();
+    if (!due) {
+      return false;
+    }
+
+    // A delay already points at its next step; a wait branches on the outcome
+    let stepId = run.stepId;
+    if (run.waitingFor) {
+      const steps = this.getSteps(run.workflow);
+      const index = steps.findIndex((step) => step.id === run.stepId);
+      if (index !== -1) {
+        const step = steps[index];
+        stepId = this.target(
+          steps,
+          index,
+          event ? step.onEvent : step.onTimeout,
+        );
+      }
+    }
+
+    // Another instance may be resuming the same run
+    const claim = await this.prisma.workflowRun.updateMany({
+      where: {
+        id: run.id,
+        status: WorkflowRunStatus.WAITING,
+        updatedAt: run.updatedAt,
+      },
+      data: {
+        status: WorkflowRunStatus.RUNNING,
+        stepId,
+        waitingFor: null,
+        wakeAt: null,
+      },
+    });
+
+    if (claim.count === 0) {
+      return false;
+    }
+
+    await this.execute(run.id);
+    return true;
+  }
+
+  /**
+   * Execute a RUNNING run from its current step until it waits or ends
+   * Never throws; a failing step fails the run
+   */
+  async execute(runId: string): Promise<void> {
+    const run = await this.prisma.workflowRun.findUniqueOrThrow({
+      where: { id: runId },
+      include: {
+        workflow: true,
+        user: { select: { email: true, attributes: true } },
+      },
+    });
+    const steps = this.getSteps(run.workflow);
+    let stepId = run.stepId ?? WORKFLOW_END;
+
+    try {
+      while (stepId !== WORKFLOW_END) {
+        const index = steps.findIndex((step) => step.id === stepId);
+        if (index === -1) {
+          throw new Error(
+            `Step ${stepId} not found in workflow ${run.workflowId}`,
+          );
+        }
+        const step = steps[index];
+
+        switch (step.type) {
+          case WorkflowStepType.NOTIFY:
+            await this.notify(run, step);
+            stepId = this.target(steps, index, step.next);
+            // Record progress; stops here if the run was cancelled meanwhile
+            if (!(await this.save(run.id, { stepId }))) {
+              return;
+            }
+            break;
+
+          case WorkflowStepType.BRANCH: {
+            const matched = !findFailedCondition(
+              step.conditions ?? [],
+              run.context,
+            );
+            stepId = this.target(
+              steps,
+              index,
+              matched ? step.onMatch : step.onNoMatch,
+            );
+            break;
+          }
+
+          case WorkflowStepType.DELAY:
+            await this.save(run.id, {
+              status: WorkflowRunStatus.WAITING,
+              stepId: this.target(steps, index, step.next),
+              wakeAt: this.secondsFromNow(step.seconds),
+            });
+            return;
+
+          case WorkflowStepType.WAIT_FOR_EVENT:
+            await this.save(run.id, {
+              status: WorkflowRunStatus.WAITING,
+              stepId: step.id,
+              waitingFor: step.eventType,
+              wakeAt: this.secondsFromNow(step.seconds),
+            });
+            return;
+        }
+      }
+
+      await this.save(run.id, {
+        status: WorkflowRunStatus.COMPLETED,
+        stepId: null,
+        completedAt: new Date(),
+      });
+
+      this.logger.log(`Workflow run ${run.id} completed`);
+    } catch (error) {
+      this.logger.error(`Workflow run ${run.id} failed:`, error);
+
+      await this.save(run.id, {
+        status: WorkflowRunStatus.FAILED,
+        errorMessage: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Resume runs whose timer is due, and runs left RUNNING by a crashed
+   * instance. Runs every 10 seconds
+   */
+  @Interval(10000)
+  async processDue(): Promise<number> {
+    // Skip if the previous tick is still running
+    if (this.isSweeping) {
+      return 0;
+    }
+
+    this.isSweeping = true;
+    let resumed = 0;
+
+    try {
+      const due = await this.prisma.workflowRun.findMany({
+        where: {
+          status: WorkflowRunStatus.WAITING,
+          wakeAt: { lte: new Date() },
+        },
+        orderBy: { wakeAt: 'asc' },
+        select: { id: true },
+        take: this.BATCH_SIZE,
+      });
+
+      for (const { id } of due) {
+        if (await this.resume(id)) {
+          resumed++;
+        }
+      }
+
+      const stale = await this.prisma.workflowRun.findMany({
+        where: {
+          status: WorkflowRunStatus.RUNNING,
+          updatedAt: { lt: new Date(Date.now() - this.STALE_MS) },
+        },
+        select: { id: true, updatedAt: true },
+        take: this.BATCH_SIZE,
+      });
+
+      for (const run of stale) {
+        const claim = await this.prisma.workflowRun.updateMany({
+          where: {
+            id: run.id,
+            status: WorkflowRunStatus.RUNNING,
+            updatedAt: run.updatedAt,
+          },
+          data: { updatedAt: new Date() },
+        });
+
+        if (claim.count > 0) {
+          this.logger.warn(`Recovering stale workflow run ${run.id}`);
+          await this.execute(run.id);
+          resumed++;
+        }
+      }
+    } catch (error) {
+      this.logger.error('Workflow timer sweep failed:', error);
+    } finally {
+      this.isSweeping = false;
+    }
+
+    return resumed;
+  }
+
+  private async cancelRuns(event: Event, tenantId: string): Promise<void> {
+    const result = await this.prisma.workflowRun.updateMany({
+      where: {
+        userId: event.userId,
+        tenantId,
+        status: { in: ACTIVE_RUN_STATUSES },
+        workflow: { cancelOn: { has: event.type } },
+      },
+      data: {
+        status: WorkflowRunStatus.CANCELLED,
+        waitingFor: null,
+        wakeAt: null,
+        errorMessage: `Cancelled by ${event.type} event ${event.id}`,
+        completedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      this.logger.log(
+        `Event ${event.id} (${event.type}) cancelled ${result.count} workflow runs`,
+      );
+    }
+  }
+
+  private async resumeWaiting(event: Event, tenantId: string): Promise<void> {
+    const runs = await this.prisma.workflowRun.findMany({
+      where: {
+        userId: event.userId,
+        tenantId,
+        status: WorkflowRunStatus.WAITING,
+        waitingFor: event.type,
+      },
+      select: { id: true },
+    });
+
+    for (const { id } of runs) {
+      await this.resume(id, event);
+    }
+  }
+
+  private async startRuns(event: Event, tenantId: string): Promise<void> {
+    const workflows = await this.prisma.workflow.findMany({
+      where: {
+        tenantId,
+        triggerEventType: event.type,
+        enabled: true,
+      },
+    });
+
+    if (workflows.length === 0) {
+      return;
+    }
+
+    const runs = workflows.map((workflow) => ({
+      id: randomUUID(),
+      workflowId: workflow.id,
+      tenantId: workflow.tenantId,
+      userId: event.userId,
+      triggerEventId: event.id,
+      context: event.payload as Prisma.InputJsonValue,
+      status: WorkflowRunStatus.RUNNING,
+      stepId: this.getSteps(workflow)[0]?.id ?? WORKFLOW_END,
+    }));
+
+    await this.prisma.workflowRun.createMany({
+      data: runs,
+      skipDuplicates: true,
+    });
+
+    // skipDuplicates hides which runs are new; a reprocessed event starts none
+    const created = await this.prisma.workflowRun.findMany({
+      where: { id: { in: runs.map((run) => run.id) } },
+      select: { id: true },
+    });
+
+    for (const { id } of created) {
+      await this.execute(id);
+    }
+
+    this.logger.log(
+      `Event ${event.id} (${event.type}) started ${created.length} workflow runs`,
+    );
+  }
+
+  /**
+   * Notify the run's user on each of the step's channels they can be
+   * reached on
+   */
+  private async notify(run: RunWithUser, step: WorkflowStepDto): Promise<void> {
+    const notifications: CreateNotificationDto[] = [];
+
+    for (const channel of step.channels ?? []) {
+      const contact = getContact(channel, run.user);
+      if (!contact) {
+        continue;
+      }
+
+      notifications.push({
+        userId: run.userId,
+        tenantId: run.tenantId,
+        channel,
+        type: step.notificationType ?? NotificationType.TRANSACTIONAL,
+        priority: step.priority,
+        payload: {
+          ...contact,
+          template: step.template,
+          templateData: run.context,
+          locale: getLocale(run.user),
+        },
+        idempotencyKey: `workflow:${run.id}:${step.id}:${channel}`,
+        correlationId: run.triggerEventId,
+      });
+    }
+
+    if (notifications.length === 0) {
+      this.logger.debug(
+        `Workflow run ${run.id} step ${step.id}: user has no address for any channel`,
+      );
+      return;
+    }
+
+    const result = await this.notificationService.createBatch(
+      { notifications },
+      { eventId: run.triggerEventId, causationId: run.id },
+    );
+
+    for (const item of result.results) {
+      if (item.status === BatchItemStatus.FAILED) {
+        this.logger.warn(
+          `Workflow run ${run.id} step ${step.id}: ${notifications[item.index].channel} failed: ${item.errors?.join(', ')}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Status-guarded update of a RUNNING run
+   * Returns false if the run was cancelled in the meantime
+   */
+  private async save(
+    runId: string,
+    data: Prisma.WorkflowRunUpdateManyMutationInput,
+  ): Promise<boolean> {
+    const result = await this.prisma.workflowRun.updateMany({
+      where: { id: runId, status: WorkflowRunStatus.RUNNING },
+      data,
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Step to continue at: the explicit target, else the following step
+   */
+  private target(
+    steps: WorkflowStepDto[],
+    index: number,
+    explicit?: string,
+  ): string {
+    return explicit ?? steps[index + 1]?.id ?? WORKFLOW_END;
+  }
+
+  private secondsFromNow(seconds = 0): Date {
+    return new Date(Date.now() + seconds * 1000);
+  }
+
+  private getSteps(workflow: Workflow): WorkflowStepDto[] {
+    return Array.isArray(workflow.steps)
+      ? (workflow.steps as unknown as WorkflowStepDto[])
+      : [];
+  }
+}
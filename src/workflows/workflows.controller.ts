@@ -0,0 +1,125 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { WorkflowsService } from './workflows.service';
+import {
+  CreateWorkflowDto,
+  UpdateWorkflowDto,
+  WorkflowResponseDto,
+  WorkflowRunResponseDto,
+  ListWorkflowRunsQueryDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../common/guards/admin.guard';
+
+/**
+ * WorkflowsController - Tenant multi-step notification workflows
+ *
+ * All endpoints require JWT authentication + ADMIN role
+ */
+@Controller('tenants/:id/workflows')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class WorkflowsController {
+  constructor(private readonly workflowsService: WorkflowsService) {}
+
+  /**
+   * List the tenant's workflows
+   * GET /tenants/:id/workflows
+   */
+  @Get()
+  async findAll(@Param('id') tenantId: string): Promise<WorkflowResponseDto[]> {
+    return await this.workflowsService.findAll(tenantId);
+  }
+
+  /**
+   * Create a workflow
+   * POST /tenants/:id/workflows
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @Param('id') tenantId: string,
+    @Body() createWorkflowDto: CreateWorkflowDto,
+  ): Promise<WorkflowResponseDto> {
+    return await this.workflowsService.create(tenantId, createWorkflowDto);
+  }
+
+  /**
+   * Get a workflow
+   * GET /tenants/:id/workflows/:workflowId
+   */
+  @Get(':workflowId')
+  async findOne(
+    @Param('id') tenantId: string,
+    @Param('workflowId') workflowId: string,
+  ): Promise<WorkflowResponseDto> {
+    return await this.workflowsService.findOne(tenantId, workflowId);
+  }
+
+  /**
+   * Update a workflow
+   * PATCH /tenants/:id/workflows/:workflowId
+   */
+  @Patch(':workflowId')
+  async update(
+    @Param('id') tenantId: string,
+    @Param('workflowId') workflowId: string,
+    @Body() updateWorkflowDto: UpdateWorkflowDto,
+  ): Promise<WorkflowResponseDto> {
+    return await this.workflowsService.update(
+      tenantId,
+      workflowId,
+      updateWorkflowDto,
+    );
+  }
+
+  /**
+   * Delete a workflow and its runs
+   * DELETE /tenants/:id/workflows/:workflowId
+   */
+  @Delete(':workflowId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('id') tenantId: string,
+    @Param('workflowId') workflowId: string,
+  ): Promise<void> {
+    await this.workflowsService.remove(tenantId, workflowId);
+  }
+
+  /**
+   * List a workflow's runs, newest first
+   * GET /tenants/:id/workflows/:workflowId/runs?status=WAITING&userId=...
+   */
+  @Get(':workflowId/runs')
+  async findRuns(
+    @Param('id') tenantId: string,
+    @Param('workflowId') workflowId: string,
+    @Query() query: ListWorkflowRunsQueryDto,
+  ): Promise<WorkflowRunResponseDto[]> {
+    return await this.workflowsService.findRuns(tenantId, workflowId, query);
+  }
+
+  /**
+   * Cancel a running or waiting run
+   * POST /tenants/:id/workflows/:workflowId/runs/:runId/cancel
+   */
+  @Post(':workflowId/runs/:runId/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancelRun(
+    @Param('id') tenantId: string,
+    @Param('workflowId') workflowId: string,
+    @Param('runId') runId: string,
+  ): Promise<WorkflowRunResponseDto> {
+    return await this.workflowsService.cancelRun(tenantId, workflowId, runId);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { WorkflowsController } from './workflows.controller';
+import { WorkflowsService } from './workflows.service';
+import { WorkflowRunnerService } from './workflow-runner.service';
+import { NotificationModule } from '../notification/notification.module';
+
+/**
+ * WorkflowsModule - Multi-step notification journeys
+ *
+ * Features:
+ * - Tenant-scoped workflows started by an event type
+ * - Notify, delay, wait-for-event and branch steps
+ * - Per-user run state in Postgres with durable timers
+ * - Cancellation of active runs by matching events
+ */
+@Module({
+  imports: [NotificationModule],
+  controllers: [WorkflowsController],
+  providers: [WorkflowsService, WorkflowRunnerService],
+  exports: [WorkflowRunnerService],
+})
+export class WorkflowsModule {}
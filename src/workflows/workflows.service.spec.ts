@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { WorkflowsService } from './workflows.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkflowStepDto, WorkflowStepType } from './dto';
+
+describe('WorkflowsService', () => {
+  let service: WorkflowsService;
+
+  const mockPrismaService = {
+    workflow: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    workflowRun: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const steps: WorkflowStepDto[] = [
+    {
+      id: 'welcome',
+      type: WorkflowStepType.NOTIFY,
+      template: 'welcome',
+      channels: ['EMAIL'] as any,
+    },
+    {
+      id: 'wait-activation',
+      type: WorkflowStepType.WAIT_FOR_EVENT,
+      eventType: 'user.activated',
+      seconds: 172800,
+      onEvent: 'end',
+    },
+    {
+      id: 'nudge',
+      type: WorkflowStepType.NOTIFY,
+      template: 'activation-nudge',
+      channels: ['PUSH'] as any,
+    },
+  ];
+
+  const workflow = {
+    id: 'workflow-1',
+    tenantId: 'tenant-1',
+    name: 'Onboarding',
+    triggerEventType: 'user.signup',
+    steps,
+    cancelOn: [],
+    enabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.workflow.create.mockResolvedValue(workflow);
+    mockPrismaService.workflow.findFirst.mockResolvedValue(workflow);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowsService>(WorkflowsService);
+  });
+
+  describe('create', () => {
+    const dto = { name: 'Onboarding', triggerEventType: 'user.signup' };
+
+    it('should store the steps', async () => {
+      await service.create('tenant-1', { ...dto, steps });
+
+      expect(mockPrismaService.workflow.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          tenantId: 'tenant-1',
+          triggerEventType: 'user.signup',
+          steps,
+          cancelOn: [],
+        }),
+      });
+    });
+
+    it.each([
+      [
+        'duplicate step IDs',
+        [steps[0], { ...steps[2], id: 'welcome' }],
+        'Duplicate step ID: welcome',
+      ],
+      [
+        'backward jumps',
+        [steps[0], { ...steps[2], next: 'welcome' }],
+        'Step nudge can only continue at a later step or "end", not welcome',
+      ],
+      [
+        'unknown targets',
+        [{ ...steps[1], onTimeout: 'missing' }],
+        'Step wait-activation can only continue at a later step or "end", not missing',
+      ],
+      [
+        'the reserved end ID',
+        [{ ...steps[0], id: 'end' }],
+        'Step ID "end" is reserved for finishing the run',
+      ],
+      [
+        'invalid branch conditions',
+        [
+          {
+            id: 'plan',
+            type: WorkflowStepType.BRANCH,
+            conditions: [{ path: '$.plan', operator: 'in', value: 'pro' }],
+          },
+        ],
+        'Condition on $.plan: in needs an array value',
+      ],
+    ])('should reject %s', async (_case, invalidSteps, message) => {
+      await expect(
+        service.create('tenant-1', { ...dto, steps: invalidSteps as any }),
+      ).rejects.toThrow(new BadRequestException(message));
+      expect(mockPrismaService.workflow.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findRuns', () => {
+    it('should filter runs by status and user', async () => {
+      mockPrismaService.workflowRun.findMany.mockResolvedValue([]);
+
+      await service.findRuns('tenant-1', 'workflow-1', {
+        status: 'WAITING' as any,
+        userId: 'user-1',
+      });
+
+      expect(mockPrismaService.workflowRun.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            workflowId: 'workflow-1',
+            status: 'WAITING',
+            userId: 'user-1',
+          },
+          take: 50,
+        }),
+      );
+    });
+
+    it("should throw NotFoundException for another tenant's workflow", async () => {
+      mockPrismaService.workflow.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.findRuns('tenant-2', 'workflow-1', {}),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('cancelRun', () => {
+    const run = {
+      id: 'run-1',
+      workflowId: 'workflow-1',
+      tenantId: 'tenant-1',
+      userId: 'user-1',
+      triggerEventId: 'event-1',
+      status: 'CANCELLED',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should cancel an active run', async () => {
+      mockPrismaService.workflowRun.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.workflowRun.findFirst.mockResolvedValue(run);
+
+      await expect(
+        service.cancelRun('tenant-1', 'workflow-1', 'run-1'),
+      ).resolves.toMatchObject({ id: 'run-1', status: 'CANCELLED' });
+      expect(mockPrismaService.workflowRun.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          id: 'run-1',
+          tenantId: 'tenant-1',
+          status: { in: ['RUNNING', 'WAITING'] },
+        }),
+        data: expect.objectContaining({ status: 'CANCELLED', wakeAt: null }),
+      });
+    });
+
+    it('should reject finished runs', async () => {
+      mockPrismaService.workflowRun.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.workflowRun.findFirst.mockResolvedValue({
+        ...run,
+        status: 'COMPLETED',
+      });
+
+      await expect(
+        service.cancelRun('tenant-1', 'workflow-1', 'run-1'),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should throw NotFoundException for unknown runs', async () => {
+      mockPrismaService.workflowRun.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.workflowRun.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.cancelRun('tenant-1', 'workflow-1', 'missing'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
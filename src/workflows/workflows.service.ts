@@ -0,0 +1,285 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, Workflow, WorkflowRun } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { validateConditions } from '../rules/conditions';
+import {
+  CreateWorkflowDto,
+  UpdateWorkflowDto,
+  WorkflowResponseDto,
+  WorkflowRunResponseDto,
+  WorkflowRunStatus,
+  WorkflowStepDto,
+  WorkflowStepType,
+  ListWorkflowRunsQueryDto,
+  WORKFLOW_END,
+} from './dto';
+
+// Run statuses a run can still be cancelled from
+export const ACTIVE_RUN_STATUSES = [
+  WorkflowRunStatus.RUNNING,
+  WorkflowRunStatus.WAITING,
+];
+
+/**
+ * WorkflowsService - Tenant-scoped workflow definitions and their runs
+ *
+ * A workflow is a list of steps started for the user of every
+ * triggerEventType event; WorkflowRunnerService executes the runs.
+ *
+ * Jumps between steps (next, onEvent, onTimeout, onMatch, onNoMatch) may
+ * only go forward, so every run ends after at most one pass over the steps.
+ */
+@Injectable()
+export class WorkflowsService {
+  private readonly logger = new Logger(WorkflowsService.name);
+  private readonly DEFAULT_RUNS_PAGE_SIZE = 50;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * List a tenant's workflows
+   */
+  async findAll(tenantId: string): Promise<WorkflowResponseDto[]> {
+    const workflows = await this.prisma.workflow.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return workflows.map((workflow) => this.mapToResponseDto(workflow));
+  }
+
+  /**
+   * Get one workflow
+   */
+  async findOne(
+    tenantId: string,
+    workflowId: string,
+  ): Promise<WorkflowResponseDto> {
+    return this.mapToResponseDto(await this.findExisting(tenantId, workflowId));
+  }
+
+  /**
+   * Create a workflow
+   */
+  async create(
+    tenantId: string,
+    dto: CreateWorkflowDto,
+  ): Promise<WorkflowResponseDto> {
+    this.validateSteps(dto.steps);
+
+    const workflow = await this.prisma.workflow.create({
+      data: {
+        tenantId,
+        name: dto.name,
+        triggerEventType: dto.triggerEventType,
+        steps: dto.steps as unknown as Prisma.InputJsonValue,
+        cancelOn: dto.cancelOn ?? [],
+        enabled: dto.enabled,
+      },
+    });
+
+    this.logger.log(
+      `Workflow ${workflow.id} created for ${workflow.triggerEventType} in tenant ${tenantId}`,
+    );
+
+    return this.mapToResponseDto(workflow);
+  }
+
+  /**
+   * Update a workflow
+   */
+  async update(
+    tenantId: string,
+    workflowId: string,
+    dto: UpdateWorkflowDto,
+  ): Promise<WorkflowResponseDto> {
+    await this.findExisting(tenantId, workflowId);
+    if (dto.steps) {
+      this.validateSteps(dto.steps);
+    }
+
+    const workflow = await this.prisma.workflow.update({
+      where: { id: workflowId },
+      data: {
+        ...dto,
+        steps: dto.steps as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return this.mapToResponseDto(workflow);
+  }
+
+  /**
+   * Delete a workflow along with its runs
+   */
+  async remove(tenantId: string, workflowId: string): Promise<void> {
+    const result = await this.prisma.workflow.deleteMany({
+      where: { id: workflowId, tenantId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException(`Workflow with ID ${workflowId} not found`);
+    }
+  }
+
+  /**
+   * A workflow's runs, newest first
+   */
+  async findRuns(
+    tenantId: string,
+    workflowId: string,
+    query: ListWorkflowRunsQueryDto,
+  ): Promise<WorkflowRunResponseDto[]> {
+    await this.findExisting(tenantId, workflowId);
+
+    const runs = await this.prisma.workflowRun.findMany({
+      where: {
+        workflowId,
+        ...(query.status && { status: query.status }),
+        ...(query.userId && { userId: query.userId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit ?? this.DEFAULT_RUNS_PAGE_SIZE,
+    });
+
+    return runs.map((run) => this.mapRunToResponseDto(run));
+  }
+
+  /**
+   * Cancel a RUNNING or WAITING run
+   */
+  async cancelRun(
+    tenantId: string,
+    workflowId: string,
+    runId: string,
+  ): Promise<WorkflowRunResponseDto> {
+    const result = await this.prisma.workflowRun.updateMany({
+      where: {
+        id: runId,
+        workflowId,
+        tenantId,
+        status: { in: ACTIVE_RUN_STATUSES },
+      },
+      data: {
+        status: WorkflowRunStatus.CANCELLED,
+        waitingFor: null,
+        wakeAt: null,
+        completedAt: new Date(),
+      },
+    });
+
+    const run = await this.prisma.workflowRun.findFirst({
+      where: { id: runId, workflowId, tenantId },
+    });
+
+    if (!run) {
+      throw new NotFoundException(`Workflow run with ID ${runId} not found`);
+    }
+
+    if (result.count === 0) {
+      throw new ConflictException(
+        `Cannot cancel workflow run with status: ${run.status}`,
+      );
+    }
+
+    this.logger.log(`Workflow run ${runId} cancelled`);
+
+    return this.mapRunToResponseDto(run);
+  }
+
+  /**
+   * Reject step lists the runner could not execute
+   */
+  private validateSteps(steps: WorkflowStepDto[]): void {
+    const positions = new Map<string, number>();
+
+    steps.forEach((step, index) => {
+      if (step.id === WORKFLOW_END) {
+        throw new BadRequestException(
+          `Step ID "${WORKFLOW_END}" is reserved for finishing the run`,
+        );
+      }
+      if (positions.has(step.id)) {
+        throw new BadRequestException(`Duplicate step ID: ${step.id}`);
+      }
+      positions.set(step.id, index);
+    });
+
+    steps.forEach((step, index) => {
+      const targets = [
+        step.next,
+        step.onEvent,
+        step.onTimeout,
+        step.onMatch,
+        step.onNoMatch,
+      ];
+
+      for (const target of targets) {
+        if (target === undefined || target === WORKFLOW_END) {
+          continue;
+        }
+        if ((positions.get(target) ?? -1) <= index) {
+          throw new BadRequestException(
+            `Step ${step.id} can only continue at a later step or "${WORKFLOW_END}", not ${target}`,
+          );
+        }
+      }
+
+      if (step.type === WorkflowStepType.BRANCH) {
+        validateConditions(step.conditions ?? []);
+      }
+    });
+  }
+
+  private async findExisting(
+    tenantId: string,
+    workflowId: string,
+  ): Promise<Workflow> {
+    const workflow = await this.prisma.workflow.findFirst({
+      where: { id: workflowId, tenantId },
+    });
+
+    if (!workflow) {
+      throw new NotFoundException(`Workflow with ID ${workflowId} not found`);
+    }
+
+    return workflow;
+  }
+
+  private mapToResponseDto(workflow: Workflow): WorkflowResponseDto {
+    return {
+      id: workflow.id,
+      tenantId: workflow.tenantId,
+      name: workflow.name,
+      triggerEventType: workflow.triggerEventType,
+      steps: workflow.steps as unknown as WorkflowStepDto[],
+      cancelOn: workflow.cancelOn,
+      enabled: workflow.enabled,
+      createdAt: workflow.createdAt,
+      updatedAt: workflow.updatedAt,
+    };
+  }
+
+  private mapRunToResponseDto(run: WorkflowRun): WorkflowRunResponseDto {
+    return {
+      id: run.id,
+      workflowId: run.workflowId,
+      userId: run.userId,
+      triggerEventId: run.triggerEventId,
+      status: run.status as WorkflowRunStatus,
+      stepId: run.stepId ?? undefined,
+      waitingFor: run.waitingFor ?? undefined,
+      wakeAt: run.wakeAt ?? undefined,
+      errorMessage: run.errorMessage ?? undefined,
+      completedAt: run.completedAt ?? undefined,
+      createdAt: run.createdAt,
+      updatedAt: run.updatedAt,
+    };
+  }
+}